@@ -0,0 +1,59 @@
+/**
+ * Tests for the agent service's configuration
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { AgentService } from './agentService';
+import { configureOpenAICompatible } from './models/openaiAdapter';
+
+describe('AgentService.updateConfig', () => {
+  let root: string;
+  let storeDir: string;
+  let service: AgentService;
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-service-'));
+    storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-service-store-'));
+    fs.writeFileSync(path.join(root, 'notes.md'), '# Notes\n\nThe release checklist lives in the wiki.');
+    service = new AgentService();
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    configureOpenAICompatible(null);
+    await service.cleanup();
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  test('should index with the configured OpenAI-compatible server', async () => {
+    const calls: Array<{ url: string; headers: Record<string, string> }> = [];
+    globalThis.fetch = (async (url: string, init: { headers: Record<string, string>; body: string }) => {
+      calls.push({ url, headers: init.headers });
+      const { input } = JSON.parse(init.body);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ data: input.map((_text: string, index: number) => ({ index, embedding: [0.6, 0.8] })) })
+      };
+    }) as unknown as typeof fetch;
+
+    await service.updateConfig({ openaiCompatible: { baseUrl: 'http://models.test/v1/', apiKey: 'secret' } });
+    await service.initialize({
+      projectRoot: root,
+      dbPath: path.join(storeDir, 'embeddings.vdb'),
+      embeddingModel: 'openai:embed-small',
+      watchFiles: false
+    });
+    const stats = await service.processCodebase();
+
+    expect(stats.errors).toEqual([]);
+    expect(stats.totalChunks).toBeGreaterThan(0);
+    expect(calls.length).toBeGreaterThan(0);
+    expect(calls.every(call => call.url === 'http://models.test/v1/embeddings')).toBe(true);
+    expect(calls[0].headers.Authorization).toBe('Bearer secret');
+  });
+});
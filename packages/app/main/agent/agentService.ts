@@ -6,24 +6,59 @@
  * It exposes methods via IPC for the renderer process to use.
  */
 
-import { CodebaseEmbedder, EmbeddingConfig, ProcessingStats } from './rag/embedder';
+import {
+  CodebaseEmbedder,
+  EmbeddingConfig,
+  IndexExportResult,
+  IndexImportResult,
+  IndexingProgress,
+  IndexStatus,
+  ProcessingStats,
+  SearchOptions,
+  SearchResult
+} from './rag/embedder';
 import { EmbeddingsDatabase, EmbeddingRecord } from './db/database';
 import { FileWalker, FileInfo, WalkOptions } from './rag/fileWalker';
+import { IndexWatcher } from './rag/indexWatcher';
+import { SymbolDefinition, SymbolReference } from './rag/symbolExtractor';
+import { AssembledContext, ContextAssembler, ContextRequest, PinnedContextEstimate } from './context/contextAssembler';
+import { WorkspaceIndexes, WorkspaceIndexInfo } from './db/workspaceIndexes';
+import { tokenCounter } from './optimizations/tokenCounter';
+import { WorkspaceTools } from './tools/workspaceTools';
+import { configureOpenAICompatible, OpenAICompatibleConfig } from './models/openaiAdapter';
+import type { AgentToolCall } from './types';
 import * as path from 'node:path';
 
 export interface AgentServiceConfig {
   projectRoot: string;
   ollamaBaseUrl?: string;
   embeddingModel?: string;
+  /** Explicit store path; when unset each workspace gets its own index under indexesDir */
   dbPath?: string;
+  /** Directory holding per-workspace indexes, e.g. <userData>/indexes */
+  indexesDir?: string;
   chunkSize?: number;
+  watchFiles?: boolean;
+  /** Server that `openai:` models, e.g. embedding models, are sent to; null clears it */
+  openaiCompatible?: OpenAICompatibleConfig | null;
 }
 
+// Everything else is decided by the default ignore rules and the project's
+// .gitignore/.locusignore files
+const INDEX_WALK_OPTIONS: Partial<WalkOptions> = {
+  includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.vue', '.py', '.md', '.markdown', '.mdx', '.txt']
+};
+
 export class AgentService {
   private embedder: CodebaseEmbedder | null = null;
   private database: EmbeddingsDatabase | null = null;
+  private watcher: IndexWatcher | null = null;
   private fileWalker: FileWalker;
   private config: AgentServiceConfig;
+  private activeIndexPath: string | null = null;
+  private indexingController: AbortController | null = null;
+  private progressListeners = new Set<(progress: IndexingProgress) => void>();
+  private allowCommands = false;
 
   constructor() {
     this.fileWalker = new FileWalker();
@@ -31,8 +66,8 @@ export class AgentService {
       projectRoot: '',
       ollamaBaseUrl: 'http://localhost:11434',
       embeddingModel: 'nomic-embed-text',
-      dbPath: './agent/db/embeddings.sqlite',
-      chunkSize: 1000
+      chunkSize: 1000,
+      watchFiles: true
     };
   }
 
@@ -46,57 +81,283 @@ export class AgentService {
       throw new Error('Project root is required');
     }
 
-    // Initialize database
-    this.database = new EmbeddingsDatabase(this.config.dbPath);
+    // Initialize this workspace's database
+    this.activeIndexPath = await this.resolveDbPath(this.config.projectRoot);
+    this.database = new EmbeddingsDatabase(this.activeIndexPath);
     await this.database.init();
 
-    // Initialize embedder
+    // Initialize embedder on the same store
     this.embedder = new CodebaseEmbedder({
       projectRoot: this.config.projectRoot,
       ollamaBaseUrl: this.config.ollamaBaseUrl,
       embeddingModel: this.config.embeddingModel,
-      dbPath: this.config.dbPath,
+      dbPath: this.activeIndexPath,
       chunkSize: this.config.chunkSize,
-      walkOptions: {
-        excludeDirectories: ['node_modules', '.git', 'dist', 'build', '.next', 'out'],
-        includeExtensions: ['.ts', '.tsx', '.js', '.jsx', '.vue', '.py', '.md', '.txt']
-      }
-    });
+      walkOptions: INDEX_WALK_OPTIONS
+    }, this.database);
 
     await this.embedder.initialize();
+
+    if (this.config.watchFiles) {
+      await this.startWatching();
+    }
     console.log('Agent service initialized successfully');
   }
 
+  /**
+   * Store path for a workspace: the configured dbPath, else its own index
+   * under indexesDir, else a store inside the workspace
+   */
+  private async resolveDbPath(projectRoot: string): Promise<string> {
+    if (this.config.dbPath) {
+      return this.config.dbPath;
+    }
+    if (this.config.indexesDir) {
+      return new WorkspaceIndexes(this.config.indexesDir).resolveIndexPath(projectRoot);
+    }
+    return path.join(projectRoot, '.vscode', 'embeddings.vdb');
+  }
+
+  /**
+   * Switch to another workspace and its index
+   */
+  async setWorkspace(projectRoot: string): Promise<void> {
+    await this.updateConfig({ projectRoot });
+  }
+
+  /**
+   * List per-workspace indexes with their size on disk
+   */
+  async listIndexes(): Promise<Array<WorkspaceIndexInfo & { active: boolean }>> {
+    const indexes = await this.getWorkspaceIndexes().listIndexes();
+    return indexes.map(index => ({ ...index, active: index.indexPath === this.activeIndexPath }));
+  }
+
+  /**
+   * Delete a workspace index. The open workspace's index cannot be deleted;
+   * use clearAllEmbeddings or rebuild instead.
+   */
+  async deleteIndex(id: string): Promise<boolean> {
+    const indexes = this.getWorkspaceIndexes();
+    if (this.activeIndexPath && indexes.getIndexId(this.config.projectRoot) === id) {
+      throw new Error('Cannot delete the index of the open workspace');
+    }
+    return indexes.deleteIndex(id);
+  }
+
+  /**
+   * Delete indexes of workspaces that no longer exist or were not opened
+   * within maxAgeMs. Returns the removed indexes.
+   */
+  async pruneIndexes(maxAgeMs?: number): Promise<WorkspaceIndexInfo[]> {
+    const indexes = this.getWorkspaceIndexes();
+    const keep = this.config.projectRoot ? [indexes.getIndexId(this.config.projectRoot)] : [];
+    return indexes.pruneIndexes({ maxAgeMs, keep });
+  }
+
+  private getWorkspaceIndexes(): WorkspaceIndexes {
+    if (!this.config.indexesDir) {
+      throw new Error('Per-workspace indexes are not configured');
+    }
+    return new WorkspaceIndexes(this.config.indexesDir);
+  }
+
+  /**
+   * Keep the index current by re-indexing files as they change on disk
+   */
+  private async startWatching(): Promise<void> {
+    const embedder = this.embedder;
+    if (!embedder) return;
+
+    this.watcher = new IndexWatcher({
+      rootPath: this.config.projectRoot,
+      // Only prune ignored directories here; file filters are applied when indexing
+      isIgnored: relativePath => embedder.isIgnored(relativePath, true)
+    }, async changedPaths => {
+      const result = await embedder.applyFileChanges(changedPaths);
+      const changed = result.indexed.length + result.removed.length + result.renamed.length;
+      if (changed > 0) {
+        console.log(
+          `Index updated: ${result.indexed.length} indexed, ${result.removed.length} removed, ${result.renamed.length} renamed`
+        );
+      }
+    });
+
+    try {
+      await this.watcher.start();
+    } catch (error) {
+      console.warn('Failed to start file watcher:', error);
+      this.watcher = null;
+    }
+  }
+
   /**
    * Process the entire codebase for embeddings
    */
   async processCodebase(): Promise<ProcessingStats> {
+    return this.runIndexing(embedder => embedder.processCodebase(this.indexingOptions()));
+  }
+
+  /**
+   * Subscribe to indexing progress. Returns an unsubscribe function.
+   */
+  onIndexingProgress(listener: (progress: IndexingProgress) => void): () => void {
+    this.progressListeners.add(listener);
+    return () => this.progressListeners.delete(listener);
+  }
+
+  /**
+   * Stop the running indexing pass. Files already committed are kept, so
+   * the next pass resumes where this one stopped.
+   */
+  cancelIndexing(): boolean {
+    if (!this.indexingController) return false;
+    this.indexingController.abort();
+    return true;
+  }
+
+  /**
+   * Run a full indexing pass, allowing only one at a time
+   */
+  private async runIndexing<T>(run: (embedder: CodebaseEmbedder) => Promise<T>): Promise<T> {
+    if (!this.embedder) {
+      throw new Error('Agent service not initialized');
+    }
+    if (this.indexingController) {
+      throw new Error('Indexing is already in progress');
+    }
+
+    this.indexingController = new AbortController();
+    try {
+      return await run(this.embedder);
+    } finally {
+      this.indexingController = null;
+    }
+  }
+
+  private indexingOptions() {
+    return {
+      signal: this.indexingController?.signal,
+      onProgress: (progress: IndexingProgress) => {
+        for (const listener of this.progressListeners) {
+          try {
+            listener(progress);
+          } catch (error) {
+            console.error('Indexing progress listener failed:', error);
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Search for relevant code chunks (semantic, keyword or hybrid)
+   */
+  async searchSimilar(query: string, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
     if (!this.embedder) {
       throw new Error('Agent service not initialized');
     }
-    return this.embedder.processCodebase();
+    return this.embedder.searchSimilar(query, limit, options);
   }
 
   /**
-   * Search for similar code chunks
+   * Assemble the retrieved context for a prompt within the model's token
+   * budget, with a manifest of what was included or dropped
    */
-  async searchSimilar(query: string, limit: number = 10): Promise<Array<{
-    record: EmbeddingRecord;
-    similarity: number;
-  }>> {
+  async assembleContext(request: ContextRequest): Promise<AssembledContext> {
     if (!this.embedder) {
       throw new Error('Agent service not initialized');
     }
-    return this.embedder.searchSimilar(query, limit);
+    return new ContextAssembler(this.config.projectRoot, this.embedder).assemble(request);
   }
 
   /**
-   * Get embeddings statistics
+   * Tokens pinned files, folders and symbols would add to a prompt
+   */
+  async estimatePinnedContext(request: Omit<ContextRequest, 'query'>): Promise<PinnedContextEstimate> {
+    if (!this.embedder) {
+      throw new Error('Agent service not initialized');
+    }
+    return new ContextAssembler(this.config.projectRoot, this.embedder).estimatePinned(request);
+  }
+
+  /**
+   * Correct token counts for a model with the prompt token count it
+   * reported for these messages
+   */
+  recordTokenUsage(modelId: string, messages: Array<{ content: string }>, promptTokens: number): void {
+    tokenCounter.calibrate(modelId, messages, promptTokens);
+  }
+
+  /**
+   * Find where an exported symbol is defined (TS/JS). `fromPath` is the
+   * project-relative file the name appears in, used to pick the right
+   * definition when several modules export the same name.
+   */
+  async findDefinition(name: string, fromPath?: string): Promise<SymbolDefinition[]> {
+    if (!this.embedder) {
+      throw new Error('Agent service not initialized');
+    }
+    return this.embedder.findDefinition(name, fromPath);
+  }
+
+  /**
+   * Definitions whose name contains `query`, for autocomplete
+   */
+  async searchSymbols(query: string, limit?: number): Promise<SymbolDefinition[]> {
+    if (!this.embedder) {
+      throw new Error('Agent service not initialized');
+    }
+    return this.embedder.searchDefinitions(query, limit);
+  }
+
+  /**
+   * Find imports and uses of a symbol across the workspace
+   */
+  async findReferences(name: string, definitionPath?: string): Promise<SymbolReference[]> {
+    if (!this.embedder) {
+      throw new Error('Agent service not initialized');
+    }
+    return this.embedder.findReferences(name, definitionPath);
+  }
+
+  /**
+   * Whether a project-relative path is left out of the index
+   */
+  isIgnored(relativePath: string, isDirectory: boolean = false): boolean {
+    return this.embedder?.isIgnored(relativePath, isDirectory) ?? false;
+  }
+
+  /**
+   * Turn the agent's run_command tool on or off; it starts off
+   */
+  setAllowCommands(allowed: boolean): void {
+    this.allowCommands = allowed;
+  }
+
+  /**
+   * Run one of the agent's workspace tools. A command runs only while
+   * commands are allowed and `approveCommand` said yes to it.
+   */
+  async runTool(call: AgentToolCall, approveCommand?: (command: string) => Promise<boolean>): Promise<string> {
+    if (!this.embedder) {
+      throw new Error('Agent service not initialized');
+    }
+    if (call.tool === 'run_command' && !this.allowCommands) {
+      throw new Error('Running commands is turned off');
+    }
+    return new WorkspaceTools(this.config.projectRoot, this, { approve: approveCommand }).run(call);
+  }
+
+  /**
+   * Get embeddings statistics, including whether the index matches the
+   * configured embedding model and chunker
    */
   async getStats(): Promise<{
     totalEmbeddings: number;
     uniqueFiles: number;
     dbSize: string;
+    index: IndexStatus;
   }> {
     if (!this.embedder) {
       throw new Error('Agent service not initialized');
@@ -108,10 +369,33 @@ export class AgentService {
    * Rebuild all embeddings
    */
   async rebuild(): Promise<ProcessingStats> {
+    return this.runIndexing(embedder => embedder.rebuild(this.indexingOptions()));
+  }
+
+  /**
+   * Re-embed the index with the configured model and chunker. By default
+   * the old index keeps serving searches until the new one is complete.
+   */
+  async reembed(options: { keepOldIndex?: boolean } = {}): Promise<ProcessingStats> {
+    return this.runIndexing(embedder => embedder.reembed({ ...this.indexingOptions(), ...options }));
+  }
+
+  /**
+   * Export the index to a portable snapshot file
+   */
+  async exportIndex(filePath: string): Promise<IndexExportResult> {
     if (!this.embedder) {
       throw new Error('Agent service not initialized');
     }
-    return this.embedder.rebuild();
+    return this.embedder.exportIndex(path.resolve(filePath));
+  }
+
+  /**
+   * Replace the index with a snapshot, keeping the vectors of files whose
+   * content matches and re-embedding the rest
+   */
+  async importIndex(filePath: string): Promise<IndexImportResult> {
+    return this.runIndexing(embedder => embedder.importIndex(path.resolve(filePath), this.indexingOptions()));
   }
 
   /**
@@ -169,6 +453,11 @@ export class AgentService {
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
+    this.cancelIndexing();
+    if (this.watcher) {
+      await this.watcher.stop();
+      this.watcher = null;
+    }
     if (this.embedder) {
       await this.embedder.cleanup();
       this.embedder = null;
@@ -177,6 +466,7 @@ export class AgentService {
       await this.database.close();
       this.database = null;
     }
+    this.activeIndexPath = null;
   }
 
   /**
@@ -191,12 +481,25 @@ export class AgentService {
    */
   async updateConfig(newConfig: Partial<AgentServiceConfig>): Promise<void> {
     const oldProjectRoot = this.config.projectRoot;
+    const oldEmbeddingModel = this.config.embeddingModel;
     this.config = { ...this.config, ...newConfig };
 
+    if ('openaiCompatible' in newConfig) {
+      configureOpenAICompatible(newConfig.openaiCompatible ?? null);
+    }
+
     // If project root changed, reinitialize
     if (newConfig.projectRoot && newConfig.projectRoot !== oldProjectRoot) {
       await this.cleanup();
       await this.initialize(this.config);
+      return;
+    }
+
+    // The index keeps its own model; getStats reports the mismatch and
+    // reembed migrates it
+    if (this.embedder && newConfig.embeddingModel && newConfig.embeddingModel !== oldEmbeddingModel) {
+      await this.cleanup();
+      await this.initialize(this.config);
     }
   }
 }
@@ -1,6 +1,8 @@
-import { ChatMessage } from '../types';
-import { buildPrompt, ContextChunk, PromptMode, PromptOptions } from './promptBuilder';
-import { queryModel, queryModelStream } from '../models/modelAdapter';
+import { ChatMessage, TokenUsage } from '../types';
+import { buildChatMessages, ContextChunk, PromptMode, PromptOptions } from './promptBuilder';
+import { chatWithModel, chatWithModelStream } from '../models/modelAdapter';
+import { modelManager } from '../models/modelManager';
+import { ChatResponse, ChatTurn, GenerationOptions } from '../models/types';
 import { ContextBuilder, ContextBuilderOptions } from '../rag/contextBuilder';
 import { CodebaseEmbedder } from '../rag/embedder';
 
@@ -10,6 +12,19 @@ export interface SendMessageParams {
   mode: 'ask' | 'agent';
   activeFilePath?: string;
   includeFileList?: boolean;
+  /**
+   * Have the model rewrite the message into reformulations and keyword
+   * lists and search each of them. Slower, but finds context for vague
+   * questions that match no chunk verbatim.
+   */
+  rewriteQuery?: boolean;
+  /**
+   * Earlier messages of the conversation, oldest first. The most recent
+   * ones that fit the model's budget are sent; older ones are summarized.
+   */
+  history?: ChatMessage[];
+  /** Override the saved generation options for this request */
+  generationOptions?: GenerationOptions;
 }
 
 export interface SendMessageStreamParams extends SendMessageParams {
@@ -19,6 +34,7 @@ export interface SendMessageStreamParams extends SendMessageParams {
 
 export interface AgentConfig {
   maxContextTokens: number;
+  /** Sampling defaults; workspace and model generation settings override them */
   temperature: number;
   topK: number;
 }
@@ -40,7 +56,7 @@ export class ChatAgent {
   constructor(config: AgentConfig = {
     maxContextTokens: 4000,
     temperature: 0.7,
-    topK: 5
+    topK: 40
   }) {
     this.config = config;
     this.initializeRAG();
@@ -58,7 +74,6 @@ export class ChatAgent {
           projectRoot,
           ollamaBaseUrl: 'http://localhost:11434',
           embeddingModel: 'nomic-embed-text',
-          dbPath: './agent/db/embeddings.sqlite',
           chunkSize: 1000,
           walkOptions: {
             excludeDirectories: ['node_modules', '.git', 'dist', 'build', '.cursor'],
@@ -79,42 +94,54 @@ export class ChatAgent {
    * Main entry point for sending messages
    */
   async sendMessage(params: SendMessageParams): Promise<ChatMessage> {
-    const { message, modelId, mode, activeFilePath, includeFileList = true } = params;
+    const { message, modelId, mode, activeFilePath, includeFileList = true, rewriteQuery, history, generationOptions } = params;
 
     try {
-      // 1. Build context with file awareness
+      // 1. Build context with file awareness, within the context size the
+      // request will run with
+      const options = await this.resolveGenerationOptions(modelId, generationOptions);
       const contextBuilderOptions: ContextBuilderOptions = {
         includeFileList,
         includeActiveFile: !!activeFilePath,
         activeFilePath,
+        modelId,
+        numCtx: options.numCtx,
+        rewriteQuery,
+        history,
         maxFileListItems: 50,
         relevantExtensions: ['.ts', '.tsx', '.js', '.jsx', '.json', '.md', '.css', '.scss']
       };
 
-      const { contextChunks, projectFilesBlock, activeFileBlock } = await ContextBuilder.buildContext(
-        message, 
-        contextBuilderOptions
-      );
+      const context = await ContextBuilder.buildContext(message, contextBuilderOptions);
 
       // 2. Build the appropriate prompt based on mode with enhanced context
       const promptOptions: PromptOptions = {
-        projectFilesBlock,
-        activeFileBlock,
+        projectFilesBlock: context.projectFilesBlock,
+        activeFileBlock: context.activeFileBlock,
         includeAntiHallucination: true,
         activeFilePath
       };
 
-      const prompt = buildPrompt(mode as PromptMode, message, contextChunks, promptOptions);
+      const messages = buildChatMessages(
+        mode as PromptMode,
+        message,
+        context.contextChunks,
+        promptOptions,
+        context.history,
+        context.historySummary
+      );
 
       // 3. Send to the selected model via adapter
-      const response = await this.sendToModel(modelId, prompt);
+      const response = await this.sendToModel(modelId, messages, options);
+      this.recordTokenUsage(modelId, messages, response.usage);
 
       // 4. Create AI message object
       const aiMessage: ChatMessage = {
         id: this.generateMessageId(),
         role: 'assistant',
-        content: response,
-        timestamp: Date.now()
+        content: response.content,
+        timestamp: Date.now(),
+        usage: response.usage
       };
 
       return aiMessage;
@@ -128,42 +155,65 @@ export class ChatAgent {
    * Main entry point for sending messages with streaming support
    */
   async sendMessageStream(params: SendMessageStreamParams): Promise<ChatMessage> {
-    const { message, modelId, mode, activeFilePath, includeFileList = true, onChunk, abortSignal } = params;
+    const {
+      message,
+      modelId,
+      mode,
+      activeFilePath,
+      includeFileList = true,
+      rewriteQuery,
+      history,
+      generationOptions,
+      onChunk,
+      abortSignal
+    } = params;
 
     try {
-      // 1. Build context with file awareness
+      // 1. Build context with file awareness, within the context size the
+      // request will run with
+      const options = await this.resolveGenerationOptions(modelId, generationOptions);
       const contextBuilderOptions: ContextBuilderOptions = {
         includeFileList,
         includeActiveFile: !!activeFilePath,
         activeFilePath,
+        modelId,
+        numCtx: options.numCtx,
+        rewriteQuery,
+        history,
         maxFileListItems: 50,
         relevantExtensions: ['.ts', '.tsx', '.js', '.jsx', '.json', '.md', '.css', '.scss']
       };
 
-      const { contextChunks, projectFilesBlock, activeFileBlock } = await ContextBuilder.buildContext(
-        message, 
-        contextBuilderOptions
-      );
+      const context = await ContextBuilder.buildContext(message, contextBuilderOptions);
 
       // 2. Build the appropriate prompt based on mode with enhanced context
       const promptOptions: PromptOptions = {
-        projectFilesBlock,
-        activeFileBlock,
+        projectFilesBlock: context.projectFilesBlock,
+        activeFileBlock: context.activeFileBlock,
         includeAntiHallucination: true,
         activeFilePath
       };
 
-      const prompt = buildPrompt(mode as PromptMode, message, contextChunks, promptOptions);
+      const messages = buildChatMessages(
+        mode as PromptMode,
+        message,
+        context.contextChunks,
+        promptOptions,
+        context.history,
+        context.historySummary
+      );
 
       // 3. Send to the selected model via adapter with streaming
-      const response = await this.sendToModelStream(modelId, prompt, onChunk, abortSignal);
+      const response = await this.sendToModelStream(modelId, messages, options, onChunk, abortSignal);
+      this.recordTokenUsage(modelId, messages, response.usage);
 
       // 4. Create AI message object
       const aiMessage: ChatMessage = {
         id: this.generateMessageId(),
         role: 'assistant',
-        content: response,
-        timestamp: Date.now()
+        content: response.content,
+        timestamp: Date.now(),
+        usage: response.usage
       };
 
       return aiMessage;
@@ -184,14 +234,15 @@ export class ChatAgent {
       }
       
       // Use RAG service to find relevant code chunks
-      const searchResults = await this.ragService.searchSimilar(query, this.config.topK);
+      const searchResults = await this.ragService.searchSimilar(query, 5);
       
       return searchResults.map(result => ({
         filePath: result.record.path,
         content: result.record.chunk,
         relevanceScore: result.similarity,
-        lineStart: 1, // TODO: Extract from chunk metadata if available
-        lineEnd: result.record.chunk.split('\n').length
+        lineStart: result.record.startLine,
+        lineEnd: result.record.endLine,
+        symbolName: result.record.symbolName
       }));
     } catch (error) {
       console.warn('Failed to get code context:', error);
@@ -200,12 +251,31 @@ export class ChatAgent {
   }
 
   /**
-   * Send prompt to the selected model via adapter
+   * Generation options for a request: the agent's defaults, then the
+   * workspace's and the model's saved settings, then per-request overrides
+   */
+  private async resolveGenerationOptions(modelId: string, overrides: GenerationOptions = {}): Promise<GenerationOptions> {
+    let workspaceRoot: string | undefined;
+    try {
+      workspaceRoot = await window.api?.getCurrentWorkspace?.();
+    } catch (error) {
+      console.warn('Failed to get current workspace:', error);
+    }
+
+    const defaults: GenerationOptions = { temperature: this.config.temperature, topK: this.config.topK };
+    return {
+      ...modelManager.resolveGenerationOptions(modelId, workspaceRoot || undefined, defaults),
+      ...overrides
+    };
+  }
+
+  /**
+   * Send chat messages to the selected model via adapter
    */
-  private async sendToModel(modelId: string, prompt: string): Promise<string> {
+  private async sendToModel(modelId: string, messages: ChatTurn[], options: GenerationOptions): Promise<ChatResponse> {
     try {
-      // Use the real model adapter to query Ollama
-      const response = await queryModel(modelId, prompt);
+      // Resolve the model's provider and query it
+      const response = await chatWithModel(modelId, messages, options);
       return response;
     } catch (error) {
       console.error('Model query failed:', error);
@@ -214,12 +284,18 @@ export class ChatAgent {
   }
 
   /**
-   * Send prompt to the selected model via adapter with streaming
+   * Send chat messages to the selected model via adapter with streaming
    */
-  private async sendToModelStream(modelId: string, prompt: string, onChunk: (chunk: string) => void, abortSignal?: AbortSignal): Promise<string> {
+  private async sendToModelStream(
+    modelId: string,
+    messages: ChatTurn[],
+    options: GenerationOptions,
+    onChunk: (chunk: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ChatResponse> {
     try {
-      // Use the real model adapter to query Ollama with streaming
-      const response = await queryModelStream(modelId, prompt, onChunk, abortSignal);
+      // Resolve the model's provider and stream from it
+      const response = await chatWithModelStream(modelId, messages, onChunk, options, abortSignal);
       return response;
     } catch (error) {
       console.error('Model query with streaming failed:', error);
@@ -227,6 +303,17 @@ export class ChatAgent {
     }
   }
 
+  /**
+   * Correct the main-process token counter with the prompt size the model
+   * reported, so later context budgets match its tokenizer
+   */
+  private recordTokenUsage(modelId: string, messages: ChatTurn[], usage?: TokenUsage): void {
+    if (!usage || !window.electronAPI?.agent?.recordTokenUsage) return;
+    window.electronAPI.agent.recordTokenUsage(modelId, messages, usage.promptTokens).catch(error => {
+      console.warn('Failed to record token usage:', error);
+    });
+  }
+
   /**
    * Generate unique message ID
    */
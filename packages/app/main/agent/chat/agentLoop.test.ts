@@ -0,0 +1,157 @@
+/**
+ * Tests for the tool-calling agent loop
+ */
+
+import { AgentToolCall, AgentToolStep } from '../types';
+import { ChatTurn } from '../models/types';
+import { getAgentTools, parseToolCall } from './agentTools';
+import { runAgentLoop } from './agentLoop';
+
+const toolCall = (tool: string, args: Record<string, unknown>) =>
+  `\`\`\`TOOL_CALL\n${JSON.stringify({ tool, args })}\n\`\`\``;
+
+/**
+ * A model that gives the scripted replies in order and records what it saw
+ */
+function scriptedModel(replies: string[]) {
+  const seen: ChatTurn[][] = [];
+  const chat = async (messages: ChatTurn[]) => {
+    seen.push([...messages]);
+    return { content: replies[seen.length - 1] ?? 'done', usage: { promptTokens: 10, responseTokens: 2 } };
+  };
+  return { chat, seen };
+}
+
+describe('parseToolCall', () => {
+  test('should read the call and the text before it', () => {
+    const parsed = parseToolCall(`Let me look.\n${toolCall('read_file', { path: 'a.ts' })}`);
+
+    expect(parsed).toEqual({ thought: 'Let me look.', call: { tool: 'read_file', args: { path: 'a.ts' } } });
+    expect(parseToolCall('No tools needed.')).toBeNull();
+  });
+
+  test('should report bad calls', () => {
+    expect(parseToolCall('```TOOL_CALL\n{oops\n```')?.error).toContain('not valid JSON');
+    expect(parseToolCall('```TOOL_CALL\n["read_file"]\n```')?.error).toContain('"tool" name');
+    expect(parseToolCall(toolCall('rm_rf', {}))?.error).toContain('Unknown tool');
+    expect(parseToolCall(toolCall('read_file', {}))?.error).toBe('read_file needs path');
+    expect(parseToolCall(toolCall('run_command', { command: 'ls' }), getAgentTools(false))?.error).toContain('Unknown tool');
+  });
+});
+
+describe('runAgentLoop', () => {
+  test('should run tools until the model answers', async () => {
+    const { chat, seen } = scriptedModel([
+      toolCall('read_file', { path: 'a.ts' }),
+      'a.ts exports foo.'
+    ]);
+    const executed: AgentToolCall[] = [];
+
+    const result = await runAgentLoop({
+      messages: [{ role: 'user', content: 'What does a.ts export?' }],
+      tools: getAgentTools(),
+      chat,
+      execute: async call => {
+        executed.push(call);
+        return 'export const foo = 1;';
+      },
+      approve: async () => true
+    });
+
+    expect(result.content).toBe('a.ts exports foo.');
+    expect(result.stepLimitReached).toBe(false);
+    expect(result.usage).toEqual({ promptTokens: 20, responseTokens: 4 });
+    expect(executed).toEqual([{ tool: 'read_file', args: { path: 'a.ts' } }]);
+    expect(result.steps.map(step => step.status)).toEqual(['done']);
+    expect(seen[1][seen[1].length - 1].content).toBe('TOOL_RESULT read_file:\nexport const foo = 1;');
+  });
+
+  test('should only write or execute after approval', async () => {
+    const { chat, seen } = scriptedModel([
+      toolCall('propose_edit', { path: 'a.ts', content: 'x' }),
+      toolCall('run_command', { command: 'npm test' }),
+      'Edited a.ts; tests were not run.'
+    ]);
+    const executed: string[] = [];
+    const updates: AgentToolStep[] = [];
+
+    const result = await runAgentLoop({
+      messages: [{ role: 'user', content: 'Fix a.ts' }],
+      tools: getAgentTools(true),
+      chat,
+      execute: async call => {
+        executed.push(call.tool);
+        return 'ok';
+      },
+      approve: async step => step.tool === 'propose_edit',
+      onStep: step => updates.push(step)
+    });
+
+    expect(executed).toEqual(['propose_edit']);
+    expect(result.steps.map(step => step.status)).toEqual(['done', 'declined']);
+    expect(updates.map(step => step.status)).toEqual(['awaiting_approval', 'running', 'done', 'awaiting_approval', 'declined']);
+    expect(seen[2][seen[2].length - 1].content).toContain('The user declined this call.');
+  });
+
+  test('should stop calling tools at the step limit', async () => {
+    const { chat, seen } = scriptedModel([
+      toolCall('list_dir', {}),
+      toolCall('list_dir', {}),
+      `Here is what I found.\n${toolCall('list_dir', {})}`
+    ]);
+
+    const result = await runAgentLoop({
+      messages: [{ role: 'user', content: 'Explore' }],
+      tools: getAgentTools(),
+      chat,
+      execute: async () => 'src/',
+      approve: async () => true,
+      maxSteps: 2
+    });
+
+    expect(result.stepLimitReached).toBe(true);
+    expect(result.steps).toHaveLength(2);
+    expect(result.content).toBe('Here is what I found.');
+    expect(seen[2][seen[2].length - 1].content).toContain('used all your tool calls');
+  });
+
+  test('should report failed tools and bad calls to the model', async () => {
+    const { chat, seen } = scriptedModel([
+      '```TOOL_CALL\nnot json\n```',
+      toolCall('read_file', { path: 'missing.ts' }),
+      'The file does not exist.'
+    ]);
+
+    const result = await runAgentLoop({
+      messages: [{ role: 'user', content: 'Read missing.ts' }],
+      tools: getAgentTools(),
+      chat,
+      execute: async () => {
+        throw new Error('File not found: missing.ts');
+      },
+      approve: async () => true
+    });
+
+    expect(seen[1][seen[1].length - 1].content).toContain('TOOL_ERROR');
+    expect(result.steps[0].status).toBe('failed');
+    expect(result.steps[0].result).toBe('Error: File not found: missing.ts');
+    expect(result.content).toBe('The file does not exist.');
+  });
+
+  test('should stop when cancelled', async () => {
+    const controller = new AbortController();
+    const { chat } = scriptedModel([toolCall('run_command', { command: 'sleep 10' })]);
+
+    await expect(runAgentLoop({
+      messages: [{ role: 'user', content: 'Wait' }],
+      tools: getAgentTools(true),
+      chat,
+      execute: async () => 'ok',
+      approve: async () => {
+        controller.abort();
+        return false;
+      },
+      abortSignal: controller.signal
+    })).rejects.toThrow('cancelled');
+  });
+});
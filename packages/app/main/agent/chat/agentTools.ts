@@ -0,0 +1,154 @@
+/**
+ * Tools the agent can call, and the text protocol for calling them.
+ *
+ * Calls are written as a fenced TOOL_CALL block holding one JSON object,
+ * the same way edits are written as FILE_OPS blocks, so any chat model can
+ * use them without native function calling:
+ *
+ * ```TOOL_CALL
+ * {"tool": "read_file", "args": {"path": "src/index.ts"}}
+ * ```
+ */
+
+import type { AgentToolCall, AgentToolName } from '../types';
+
+export interface AgentToolSpec {
+  name: AgentToolName;
+  description: string;
+  /** Argument names and what they hold; optional ones end with '?' */
+  args: Record<string, string>;
+  /** Writes or executes something; the user approves every call */
+  requiresApproval: boolean;
+}
+
+export interface ParsedToolCall {
+  /** What the model wrote before the call */
+  thought: string;
+  call?: AgentToolCall;
+  /** Why the block could not be used, sent back to the model */
+  error?: string;
+}
+
+export const AGENT_TOOLS: AgentToolSpec[] = [
+  {
+    name: 'read_file',
+    description: 'Read a project file, or a range of its lines',
+    args: { path: 'project-relative path', 'startLine?': 'first line, 1-based', 'endLine?': 'last line' },
+    requiresApproval: false
+  },
+  {
+    name: 'list_dir',
+    description: 'List the files and folders of a project directory',
+    args: { 'path?': 'project-relative directory, the project root when omitted' },
+    requiresApproval: false
+  },
+  {
+    name: 'search_code',
+    description: 'Search the indexed project for code and notes related to a query',
+    args: { query: 'what to look for', 'limit?': 'number of results, 5 by default' },
+    requiresApproval: false
+  },
+  {
+    name: 'find_symbol',
+    description: 'Find where an exported symbol is defined and where it is used',
+    args: { name: 'symbol name, e.g. a function or class' },
+    requiresApproval: false
+  },
+  {
+    name: 'propose_edit',
+    description: 'Create or replace a file. The user reviews the change before it is written',
+    args: { path: 'project-relative path', content: 'the complete new file content', 'description?': 'what the change does' },
+    requiresApproval: true
+  },
+  {
+    name: 'run_command',
+    description: 'Run a shell command in the project root, e.g. tests or a build. The user approves it first',
+    args: { command: 'the command line' },
+    requiresApproval: true
+  }
+];
+
+const TOOL_CALL_PATTERN = /```tool_call[^\n]*\n([\s\S]*?)```/i;
+
+/**
+ * The tools offered to the model; running commands is opt-in
+ */
+export function getAgentTools(allowCommands: boolean = false): AgentToolSpec[] {
+  return AGENT_TOOLS.filter(tool => allowCommands || tool.name !== 'run_command');
+}
+
+/**
+ * Instructions describing the tools and how to call them
+ */
+export function buildToolInstructions(tools: AgentToolSpec[], maxSteps: number): string {
+  const toolList = tools.map(tool => {
+    const args = Object.entries(tool.args).map(([name, description]) => `${name}: ${description}`).join('; ');
+    return `- ${tool.name}: ${tool.description}. Args: ${args}`;
+  }).join('\n');
+
+  return `TOOLS:
+You can look around the project before answering. To call a tool, end your reply with exactly one block:
+
+\`\`\`TOOL_CALL
+{"tool": "<name>", "args": {...}}
+\`\`\`
+
+Available tools:
+${toolList}
+
+RULES:
+- Call one tool per reply and wait for its TOOL_RESULT before continuing
+- Read files before proposing edits to them; never guess their content
+- Use propose_edit for every change instead of printing the file in your answer
+- You have at most ${maxSteps} tool calls; stop calling tools once you can answer
+- When you are done, reply normally without a TOOL_CALL block`;
+}
+
+/**
+ * Find a tool call in a model reply. Returns null when there is none, so
+ * the reply is the final answer.
+ */
+export function parseToolCall(response: string, tools: AgentToolSpec[] = AGENT_TOOLS): ParsedToolCall | null {
+  const match = TOOL_CALL_PATTERN.exec(response);
+  if (!match) return null;
+
+  const thought = response.slice(0, match.index).trim();
+  let data: unknown;
+  try {
+    data = JSON.parse(match[1].trim());
+  } catch {
+    return { thought, error: 'The TOOL_CALL block is not valid JSON' };
+  }
+  if (!isObject(data) || typeof data.tool !== 'string') {
+    return { thought, error: 'The TOOL_CALL block must be an object with a "tool" name' };
+  }
+
+  const name = data.tool;
+  const spec = tools.find(tool => tool.name === name);
+  if (!spec) {
+    return { thought, error: `Unknown tool "${name}". Available: ${tools.map(tool => tool.name).join(', ')}` };
+  }
+
+  const args = isObject(data.args) ? data.args : {};
+  const missing = Object.keys(spec.args).filter(name => !name.endsWith('?') && args[name] === undefined);
+  if (missing.length > 0) {
+    return { thought, error: `${spec.name} needs ${missing.join(', ')}` };
+  }
+
+  return { thought, call: { tool: spec.name, args } };
+}
+
+/**
+ * A reply with any tool call blocks removed
+ */
+export function stripToolCalls(response: string): string {
+  return response.replace(new RegExp(TOOL_CALL_PATTERN.source, 'gi'), '').trim();
+}
+
+export function requiresApproval(tool: AgentToolName): boolean {
+  return AGENT_TOOLS.find(spec => spec.name === tool)?.requiresApproval ?? true;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
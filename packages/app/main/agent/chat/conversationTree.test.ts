@@ -0,0 +1,70 @@
+/**
+ * Tests for conversation branches
+ */
+
+import { ChatMessage } from '../types';
+import { Conversation, forkBefore, getSiblings, linkMessages, switchBranch } from './conversationTree';
+
+function message(id: string, role: 'user' | 'assistant', timestamp: number, parentId?: string): ChatMessage {
+  return { id, role, content: id, timestamp, parentId };
+}
+
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+describe('conversationTree', () => {
+  // q1 -> a1 -> q2 -> a2, where a1 was regenerated as a1b and q2 edited as q2b
+  let conversation: Conversation;
+
+  beforeEach(() => {
+    conversation = {
+      messages: [
+        message('q1', 'user', 1),
+        message('a1', 'assistant', 2, 'q1'),
+        message('q2', 'user', 3, 'a1'),
+        message('a2', 'assistant', 4, 'q2')
+      ],
+      branches: [
+        message('a1b', 'assistant', 5, 'q1'),
+        message('q2b', 'user', 6, 'a1'),
+        message('a2b', 'assistant', 7, 'q2b')
+      ]
+    };
+  });
+
+  test('should link messages saved without parent ids', () => {
+    const linked = linkMessages([
+      { id: 'q', role: 'user', content: 'q', timestamp: 1 },
+      { id: 'a', role: 'assistant', content: 'a', timestamp: 2 }
+    ]);
+
+    expect(linked.map(m => m.parentId)).toEqual([undefined, 'q']);
+    expect(linkMessages(conversation.messages)).toBe(conversation.messages);
+  });
+
+  test('should list siblings of the same role oldest first', () => {
+    expect(ids(getSiblings(conversation, 'a1'))).toEqual(['a1', 'a1b']);
+    expect(ids(getSiblings(conversation, 'q2b'))).toEqual(['q2', 'q2b']);
+    expect(ids(getSiblings(conversation, 'q1'))).toEqual(['q1']);
+    expect(getSiblings(conversation, 'missing')).toEqual([]);
+  });
+
+  test('should fork before a message and keep the rest as a branch', () => {
+    const forked = forkBefore(conversation, 'q2');
+
+    expect(ids(forked.messages)).toEqual(['q1', 'a1']);
+    expect(ids(forked.branches)).toEqual(['a1b', 'q2b', 'a2b', 'q2', 'a2']);
+  });
+
+  test('should switch to a branch and follow its latest replies', () => {
+    const edited = switchBranch(conversation, 'q2b');
+
+    expect(ids(edited.messages)).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(ids(edited.branches).sort()).toEqual(['a1b', 'a2', 'q2']);
+
+    const back = switchBranch(edited, 'q2');
+    expect(ids(back.messages)).toEqual(['q1', 'a1', 'q2', 'a2']);
+
+    const regenerated = switchBranch(conversation, 'a1b');
+    expect(ids(regenerated.messages)).toEqual(['q1', 'a1b']);
+  });
+});
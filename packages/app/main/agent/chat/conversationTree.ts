@@ -0,0 +1,86 @@
+import { ChatMessage } from '../types';
+
+/**
+ * A conversation with its branches. Messages point at the message they
+ * follow through parentId, so editing or regenerating a message adds a
+ * sibling instead of replacing it. `messages` is the branch being shown;
+ * every other message is kept in `branches`.
+ */
+export interface Conversation {
+  messages: ChatMessage[];
+  branches: ChatMessage[];
+}
+
+/**
+ * Set each message's parent to the message before it. Conversations saved
+ * before branching existed have no parent ids.
+ */
+export function linkMessages(messages: ChatMessage[]): ChatMessage[] {
+  if (messages.every((message, i) => message.parentId === messages[i - 1]?.id)) {
+    return messages;
+  }
+  return messages.map((message, i) => ({ ...message, parentId: messages[i - 1]?.id }));
+}
+
+/**
+ * Alternatives to a message: messages of the same role following the same
+ * parent, oldest first, the message itself included
+ */
+export function getSiblings(conversation: Conversation, messageId: string): ChatMessage[] {
+  const all = allMessages(conversation);
+  const message = all.find(candidate => candidate.id === messageId);
+  if (!message) return [];
+
+  return all
+    .filter(candidate => candidate.parentId === message.parentId && candidate.role === message.role)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Cut the shown conversation just before a message, keeping that message
+ * and everything after it as a branch
+ */
+export function forkBefore(conversation: Conversation, messageId: string): Conversation {
+  const messages = linkMessages(conversation.messages);
+  const index = messages.findIndex(message => message.id === messageId);
+  if (index === -1) return conversation;
+
+  return {
+    messages: messages.slice(0, index),
+    branches: [...conversation.branches, ...messages.slice(index)]
+  };
+}
+
+/**
+ * Show the branch through a message: its ancestors, the message, and from
+ * there on the most recent reply at each step
+ */
+export function switchBranch(conversation: Conversation, messageId: string): Conversation {
+  const all = allMessages(conversation);
+  const byId = new Map(all.map(message => [message.id, message]));
+  const target = byId.get(messageId);
+  if (!target) return conversation;
+
+  const path: ChatMessage[] = [];
+  for (let message: ChatMessage | undefined = target; message; message = message.parentId ? byId.get(message.parentId) : undefined) {
+    path.unshift(message);
+  }
+
+  let last = target;
+  for (;;) {
+    const children = all.filter(message => message.parentId === last.id);
+    if (children.length === 0) break;
+    last = children.reduce((latest, child) => child.timestamp > latest.timestamp ? child : latest);
+    path.push(last);
+  }
+
+  const shown = new Set(path.map(message => message.id));
+  return {
+    messages: path,
+    branches: all.filter(message => !shown.has(message.id))
+  };
+}
+
+function allMessages(conversation: Conversation): ChatMessage[] {
+  return [...linkMessages(conversation.messages), ...conversation.branches];
+}
@@ -6,5 +6,38 @@ export type { SendMessageParams, AgentConfig, CodeContext } from './agent';
 export { buildPrompt, buildPromptSafe, validatePromptInputs } from './promptBuilder';
 export type { ContextChunk, PromptMode } from './promptBuilder';
 
+// Conversation branch exports
+export { linkMessages, getSiblings, forkBefore, switchBranch } from './conversationTree';
+export type { Conversation } from './conversationTree';
+
+// Agent tool exports
+export { AGENT_TOOLS, getAgentTools, buildToolInstructions, parseToolCall } from './agentTools';
+export type { AgentToolSpec, ParsedToolCall } from './agentTools';
+export { runAgentLoop, DEFAULT_MAX_STEPS } from './agentLoop';
+export type { AgentLoopOptions, AgentLoopResult } from './agentLoop';
+
+// Slash command exports
+export {
+  BUILTIN_SLASH_COMMANDS,
+  parseSlashCommand,
+  getSlashSuggestions,
+  renderSlashPrompt,
+  parseSlashCommandsConfig,
+  mergeSlashCommands
+} from './slashCommands';
+export type { SlashCommand, SlashSuggestion, ParsedSlashCommand, SlashContextRecipe } from './slashCommands';
+
+// Mention exports
+export {
+  findMentionQuery,
+  insertMention,
+  flattenWorkspaceTree,
+  getMentionSuggestions,
+  addMention,
+  extractMentions,
+  toContextPins
+} from './mentions';
+export type { Mention, MentionKind, MentionSuggestion, WorkspaceEntry } from './mentions';
+
 // Test utilities (for development)
 export { promptBuilderTests } from './promptBuilder.test'; 
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * Tests for @-mentions
+ */
+
+import {
+  WorkspaceEntry,
+  addMention,
+  extractMentions,
+  findMentionQuery,
+  flattenWorkspaceTree,
+  getMentionSuggestions,
+  insertMention,
+  toContextPins
+} from './mentions';
+
+const entries: WorkspaceEntry[] = [
+  { path: 'packages', type: 'folder' },
+  { path: 'packages/domains', type: 'folder' },
+  { path: 'packages/domains/editor', type: 'folder' },
+  { path: 'packages/domains/editor/Editor.tsx', type: 'file' },
+  { path: 'notes/editing.md', type: 'file' },
+  { path: 'src/credits.ts', type: 'file' }
+];
+
+describe('mentions', () => {
+  test('should find the @ token at the cursor', () => {
+    expect(findMentionQuery('explain @pack', 13)).toEqual({ start: 8, query: 'pack' });
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+    expect(findMentionQuery('mail me@example.com', 19)).toBeNull();
+    expect(findMentionQuery('@editor and more', 16)).toBeNull();
+  });
+
+  test('should replace the token with the mention', () => {
+    const query = findMentionQuery('look at @ed please', 11)!;
+    const result = insertMention('look at @ed please', query, { kind: 'folder', value: 'packages/domains/editor' });
+
+    expect(result.text).toBe('look at @packages/domains/editor please');
+    expect(result.cursor).toBe('look at @packages/domains/editor '.length);
+  });
+
+  test('should flatten the workspace tree relative to its root', () => {
+    const flat = flattenWorkspaceTree([
+      { path: '/ws/notes', type: 'folder', children: [{ path: '/ws/notes/a.md', type: 'file' }] },
+      { path: '/ws/index.ts', type: 'file' }
+    ], '/ws/');
+
+    expect(flat).toEqual([
+      { path: 'notes', type: 'folder' },
+      { path: 'notes/a.md', type: 'file' },
+      { path: 'index.ts', type: 'file' }
+    ]);
+  });
+
+  test('should rank names, then path segments, then any match', () => {
+    const suggestions = getMentionSuggestions('edit', entries, [
+      { name: 'EditorState', kind: 'interface', path: 'src/state.ts' },
+      { name: 'canEdit', kind: 'function', path: 'src/perm.ts' }
+    ]);
+
+    expect(suggestions.map(s => `${s.kind}:${s.value}`)).toEqual([
+      'symbol:EditorState',
+      'note:notes/editing.md',
+      'folder:packages/domains/editor',
+      'file:packages/domains/editor/Editor.tsx',
+      'symbol:canEdit',
+      'file:src/credits.ts'
+    ]);
+    expect(suggestions[0].detail).toBe('interface in src/state.ts');
+    expect(getMentionSuggestions('', entries, [], 2)).toHaveLength(2);
+  });
+
+  test('should pin typed-out mentions once and split them into context pins', () => {
+    const typed = extractMentions('compare @packages/domains/editor/ with @notes/editing.md, not @nope', entries);
+    expect(typed.map(m => m.value)).toEqual(['packages/domains/editor', 'notes/editing.md']);
+
+    let pinned = typed.reduce(addMention, []);
+    pinned = addMention(pinned, { kind: 'folder', value: 'packages/domains/editor' });
+    pinned = addMention(pinned, { kind: 'symbol', value: 'FileOpsParser', path: 'src/parser.ts' });
+
+    expect(toContextPins(pinned)).toEqual({
+      pinnedFiles: ['packages/domains/editor', 'notes/editing.md'],
+      pinnedSymbols: [{ name: 'FileOpsParser', path: 'src/parser.ts' }]
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @-mentions typed in the chat input, e.g. `@packages/domains/editor` or
+ * `@FileOpsParser`.
+ *
+ * A mention pins a file, folder, note or symbol to the conversation: its
+ * content goes into every prompt ahead of retrieved context, until the
+ * mention is removed. Suggestions come from the workspace tree and the
+ * symbol index.
+ */
+
+export type MentionKind = 'file' | 'folder' | 'note' | 'symbol';
+
+export interface Mention {
+  kind: MentionKind;
+  /** Project-relative path, or the symbol's name */
+  value: string;
+  /** File that defines a symbol */
+  path?: string;
+}
+
+export interface MentionSuggestion extends Mention {
+  /** Shown next to the value, e.g. 'class in src/parser.ts' */
+  detail?: string;
+}
+
+/**
+ * A file or folder of the workspace, project-relative with forward slashes
+ */
+export interface WorkspaceEntry {
+  path: string;
+  type: 'file' | 'folder';
+}
+
+/**
+ * The parts of a symbol definition a suggestion needs
+ */
+export interface SymbolEntry {
+  name: string;
+  kind: string;
+  path: string;
+}
+
+/**
+ * The `@` token the cursor is in
+ */
+export interface MentionQuery {
+  /** Index of the `@` */
+  start: number;
+  /** Text typed after it */
+  query: string;
+}
+
+interface TreeItem {
+  path: string;
+  type: 'file' | 'folder';
+  children?: TreeItem[];
+}
+
+const NOTE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+/**
+ * The `@` token ending at the cursor, or null when the cursor is not in
+ * one. An `@` only starts a mention at the start of the text or after
+ * whitespace, so email addresses are left alone.
+ */
+export function findMentionQuery(text: string, cursor: number): MentionQuery | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { start: cursor - match[2].length - 1, query: match[2] };
+}
+
+/**
+ * Replace the `@` token at `query` with the mention, followed by a space
+ */
+export function insertMention(
+  text: string,
+  query: MentionQuery,
+  mention: Mention
+): { text: string; cursor: number } {
+  const inserted = `@${mention.value} `;
+  const end = query.start + 1 + query.query.length;
+  const rest = text.slice(end).replace(/^\s+/, '');
+  return { text: text.slice(0, query.start) + inserted + rest, cursor: query.start + inserted.length };
+}
+
+/**
+ * Files and folders of the workspace tree, relative to its root
+ */
+export function flattenWorkspaceTree(items: TreeItem[], root: string): WorkspaceEntry[] {
+  const prefix = root.replace(/\\/g, '/').replace(/\/+$/, '');
+  const entries: WorkspaceEntry[] = [];
+  const visit = (item: TreeItem) => {
+    let relative = item.path.replace(/\\/g, '/');
+    if (prefix && relative.startsWith(`${prefix}/`)) {
+      relative = relative.slice(prefix.length + 1);
+    }
+    entries.push({ path: relative, type: item.type });
+    item.children?.forEach(visit);
+  };
+  items.forEach(visit);
+  return entries;
+}
+
+export function mentionKindOf(entry: WorkspaceEntry): MentionKind {
+  if (entry.type === 'folder') return 'folder';
+  const lower = entry.path.toLowerCase();
+  return NOTE_EXTENSIONS.some(extension => lower.endsWith(extension)) ? 'note' : 'file';
+}
+
+/**
+ * Workspace entries and symbols matching a query, best first: names that
+ * start with it, then paths with a segment that starts with it, then any
+ * path or name containing it. Shorter paths win ties.
+ */
+export function getMentionSuggestions(
+  query: string,
+  entries: WorkspaceEntry[],
+  symbols: SymbolEntry[],
+  limit: number = 10
+): MentionSuggestion[] {
+  const needle = query.toLowerCase();
+  const scored: Array<{ suggestion: MentionSuggestion; score: number }> = [];
+
+  for (const entry of entries) {
+    const lower = entry.path.toLowerCase();
+    const name = lower.slice(lower.lastIndexOf('/') + 1);
+    const score = name.startsWith(needle) ? 0
+      : lower.startsWith(needle) || lower.includes(`/${needle}`) ? 1
+      : lower.includes(needle) ? 2
+      : -1;
+    if (score >= 0) {
+      scored.push({ suggestion: { kind: mentionKindOf(entry), value: entry.path }, score });
+    }
+  }
+
+  for (const symbol of symbols) {
+    const lower = symbol.name.toLowerCase();
+    const score = lower.startsWith(needle) ? 0 : lower.includes(needle) ? 2 : -1;
+    if (score >= 0) {
+      scored.push({
+        suggestion: { kind: 'symbol', value: symbol.name, path: symbol.path, detail: `${symbol.kind} in ${symbol.path}` },
+        score
+      });
+    }
+  }
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.suggestion.value.length - b.suggestion.value.length)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * Add a mention unless it is already pinned
+ */
+export function addMention(mentions: Mention[], mention: Mention): Mention[] {
+  return mentions.some(existing => isSameMention(existing, mention)) ? mentions : [...mentions, mention];
+}
+
+export function isSameMention(a: Mention, b: Mention): boolean {
+  return a.kind === b.kind && a.value === b.value && a.path === b.path;
+}
+
+/**
+ * Mentions in a message's text that name a known workspace entry, for
+ * mentions typed out instead of picked from the suggestions
+ */
+export function extractMentions(text: string, entries: WorkspaceEntry[]): Mention[] {
+  const byPath = new Map(entries.map(entry => [entry.path.replace(/\/+$/, ''), entry]));
+  const mentions: Mention[] = [];
+  for (const match of text.matchAll(/(?:^|\s)@([^\s@]+)/g)) {
+    const entry = byPath.get(match[1].replace(/[.,;:!?)]+$/, '').replace(/\/+$/, ''));
+    if (entry) {
+      mentions.push({ kind: mentionKindOf(entry), value: entry.path });
+    }
+  }
+  return mentions;
+}
+
+/**
+ * The context request fields that pin mentions into the prompt
+ */
+export function toContextPins(mentions: Mention[]): {
+  pinnedFiles: string[];
+  pinnedSymbols: Array<{ name: string; path?: string }>;
+} {
+  return {
+    pinnedFiles: mentions.filter(mention => mention.kind !== 'symbol').map(mention => mention.value),
+    pinnedSymbols: mentions
+      .filter(mention => mention.kind === 'symbol')
+      .map(mention => ({ name: mention.value, path: mention.path }))
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for slash commands
+ */
+
+import {
+  BUILTIN_SLASH_COMMANDS,
+  getSlashSuggestions,
+  mergeSlashCommands,
+  parseSlashCommand,
+  parseSlashCommandsConfig,
+  renderSlashPrompt
+} from './slashCommands';
+
+describe('slashCommands', () => {
+  test('should parse a command and its input', () => {
+    const parsed = parseSlashCommand('/fix  the off-by-one in the loop ', BUILTIN_SLASH_COMMANDS);
+
+    expect(parsed?.command.name).toBe('fix');
+    expect(parsed?.input).toBe('the off-by-one in the loop');
+    expect(parseSlashCommand('/clear', BUILTIN_SLASH_COMMANDS)?.input).toBe('');
+    expect(parseSlashCommand('/unknown thing', BUILTIN_SLASH_COMMANDS)).toBeNull();
+    expect(parseSlashCommand('explain /fix', BUILTIN_SLASH_COMMANDS)).toBeNull();
+  });
+
+  test('should suggest command names and then arguments', () => {
+    expect(getSlashSuggestions('/', BUILTIN_SLASH_COMMANDS)).toHaveLength(BUILTIN_SLASH_COMMANDS.length);
+    expect(getSlashSuggestions('/mo', BUILTIN_SLASH_COMMANDS).map(s => s.insertText)).toEqual(['/model ', '/mode ']);
+    expect(getSlashSuggestions('/mode a', BUILTIN_SLASH_COMMANDS).map(s => s.insertText)).toEqual(['/mode ask', '/mode agent']);
+    expect(getSlashSuggestions('/model coder', BUILTIN_SLASH_COMMANDS, ['llama3:8b', 'qwen2.5-coder:7b']).map(s => s.label))
+      .toEqual(['qwen2.5-coder:7b']);
+    expect(getSlashSuggestions('/fix the bug', BUILTIN_SLASH_COMMANDS)).toEqual([]);
+    expect(getSlashSuggestions('hello', BUILTIN_SLASH_COMMANDS)).toEqual([]);
+  });
+
+  test('should fill templates and drop empty placeholders', () => {
+    const prompt = renderSlashPrompt('Explain {{ file }}. {{input}}\n\n\n\n{{context}}', {
+      file: 'src/a.ts',
+      context: 'const a = 1;'
+    });
+
+    expect(prompt).toBe('Explain src/a.ts. \n\nconst a = 1;');
+  });
+
+  test('should validate workspace commands', () => {
+    const { commands, errors } = parseSlashCommandsConfig({
+      commands: [
+        { name: 'review', template: 'Review this.\n{{context}}', context: ['active_file'] },
+        { name: 'Bad Name', template: 'x' },
+        { name: 'clear', template: 'x' },
+        { name: 'empty', template: ' ' },
+        { name: 'folders', template: 'x', context: ['repo'] },
+        { name: 'out', template: 'x', output: 'file' },
+        { name: 'review', template: 'Review again.' },
+        'review'
+      ]
+    });
+
+    expect(commands).toHaveLength(1);
+    expect(commands[0]).toMatchObject({ name: 'review', description: 'Review this.', output: 'chat', source: 'workspace' });
+    expect(errors).toHaveLength(7);
+    expect(errors).toContain('/review: defined more than once; the first definition is used');
+    expect(parseSlashCommandsConfig([]).errors).toHaveLength(1);
+  });
+
+  test('should let workspace commands replace built-in prompts', () => {
+    const { commands } = parseSlashCommandsConfig({
+      commands: [
+        { name: 'explain', template: 'Explain simply: {{context}}' },
+        { name: 'review', template: 'Review {{context}}' }
+      ]
+    });
+    const merged = mergeSlashCommands([...commands, { ...commands[1], template: 'Duplicate' }]);
+
+    expect(merged).toHaveLength(BUILTIN_SLASH_COMMANDS.length + 1);
+    expect(merged.find(c => c.name === 'explain')?.source).toBe('workspace');
+    expect(merged[merged.length - 1]).toMatchObject({ name: 'review', template: 'Review {{context}}' });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Slash commands typed in the chat input, e.g. `/explain` or `/mode ask`.
+ *
+ * A prompt command fills its template with the user's input and the
+ * context its recipe asks for, and its output setting decides whether the
+ * answer goes to the chat or the agent proposes edits. Action commands are
+ * handled by the chat itself. Workspaces add their own prompt commands in
+ * `.locus/commands.json`:
+ *
+ * {
+ *   "commands": [
+ *     {
+ *       "name": "review",
+ *       "description": "Review the open file",
+ *       "template": "Review this code for bugs and style. {{input}}\n\n{{context}}",
+ *       "context": ["active_file"],
+ *       "output": "chat"
+ *     }
+ *   ]
+ * }
+ */
+
+/** Where a command's context comes from: the editor selection, the open file, or the open file's folder */
+export type SlashContextRecipe = 'selection' | 'active_file' | 'folder';
+
+/** 'chat' answers in the chat; 'edits' runs the agent, which proposes file edits */
+export type SlashCommandOutput = 'chat' | 'edits';
+
+export type SlashCommandAction = 'clear' | 'model' | 'mode';
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  /** Shown after the name in autocomplete, e.g. 'ask|agent' */
+  argsHint?: string;
+  /**
+   * Prompt sent to the model. {{input}} is the text after the command,
+   * {{context}} the gathered context, {{file}} the open file's path.
+   */
+  template?: string;
+  /** Context gathered for the prompt; each part is added when available */
+  context?: SlashContextRecipe[];
+  output?: SlashCommandOutput;
+  /** Handled by the chat instead of prompting the model */
+  action?: SlashCommandAction;
+  source: 'builtin' | 'workspace';
+}
+
+export interface ParsedSlashCommand {
+  command: SlashCommand;
+  /** Text after the command name */
+  input: string;
+}
+
+export interface SlashSuggestion {
+  label: string;
+  description?: string;
+  /** Input text after picking the suggestion */
+  insertText: string;
+}
+
+export const SLASH_COMMANDS_CONFIG = '.locus/commands.json';
+
+const CODE_CONTEXT: SlashContextRecipe[] = ['selection', 'active_file'];
+const COMMAND_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+const CONTEXT_RECIPES: SlashContextRecipe[] = ['selection', 'active_file', 'folder'];
+const OUTPUTS: SlashCommandOutput[] = ['chat', 'edits'];
+const MODES = ['ask', 'agent'];
+
+export const BUILTIN_SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'explain',
+    description: 'Explain the selection or the open file',
+    template: 'Explain what this code does and how it works, step by step. {{input}}\n\n{{context}}',
+    context: CODE_CONTEXT,
+    output: 'chat',
+    source: 'builtin'
+  },
+  {
+    name: 'fix',
+    description: 'Find and fix a bug in the selection or the open file',
+    template: 'Find the bug in this code and fix it with as small a change as possible. {{input}}\n\n{{context}}',
+    context: CODE_CONTEXT,
+    output: 'edits',
+    source: 'builtin'
+  },
+  {
+    name: 'tests',
+    description: 'Write tests for the selection or the open file',
+    template: 'Write unit tests for this code. Look at existing tests first and follow their framework, location and style. {{input}}\n\n{{context}}',
+    context: CODE_CONTEXT,
+    output: 'edits',
+    source: 'builtin'
+  },
+  {
+    name: 'doc',
+    description: 'Add documentation comments',
+    template: 'Add documentation comments to this code in the style the file already uses. Do not change any behavior. {{input}}\n\n{{context}}',
+    context: CODE_CONTEXT,
+    output: 'edits',
+    source: 'builtin'
+  },
+  {
+    name: 'summarize-note',
+    description: 'Summarize the open note',
+    template: 'Summarize this note: the key points, decisions and open questions. {{input}}\n\n{{context}}',
+    context: ['active_file'],
+    output: 'chat',
+    source: 'builtin'
+  },
+  { name: 'clear', description: 'Start a new chat', action: 'clear', source: 'builtin' },
+  { name: 'model', description: 'Switch the chat model', argsHint: '<id>', action: 'model', source: 'builtin' },
+  { name: 'mode', description: 'Switch between ask and agent mode', argsHint: 'ask|agent', action: 'mode', source: 'builtin' }
+];
+
+/**
+ * The command a message starts with, or null for plain messages and
+ * unknown commands
+ */
+export function parseSlashCommand(text: string, commands: SlashCommand[]): ParsedSlashCommand | null {
+  const match = /^\/([a-z0-9-]+)(?:\s+([\s\S]*))?$/i.exec(text.trim());
+  if (!match) return null;
+
+  const command = commands.find(candidate => candidate.name === match[1].toLowerCase());
+  return command ? { command, input: (match[2] || '').trim() } : null;
+}
+
+/**
+ * Autocomplete for the chat input: command names while the first word is
+ * typed, then the arguments of /model and /mode
+ */
+export function getSlashSuggestions(text: string, commands: SlashCommand[], modelIds: string[] = []): SlashSuggestion[] {
+  if (!text.startsWith('/')) return [];
+
+  const nameMatch = /^\/([a-z0-9-]*)$/i.exec(text);
+  if (nameMatch) {
+    const prefix = nameMatch[1].toLowerCase();
+    return commands
+      .filter(command => command.name.startsWith(prefix))
+      .map(command => ({
+        label: `/${command.name}${command.argsHint ? ` ${command.argsHint}` : ''}`,
+        description: command.description,
+        insertText: `/${command.name} `
+      }));
+  }
+
+  const argMatch = /^\/(model|mode)\s+(\S*)$/i.exec(text);
+  if (!argMatch) return [];
+  const command = commands.find(candidate => candidate.name === argMatch[1].toLowerCase());
+  const values = command?.action === 'model' ? modelIds : command?.action === 'mode' ? MODES : [];
+  const prefix = argMatch[2].toLowerCase();
+  return values
+    .filter(value => value.toLowerCase().includes(prefix))
+    .map(value => ({ label: value, insertText: `/${command!.name} ${value}` }));
+}
+
+/**
+ * Fill a template's {{placeholders}}; unknown ones become empty
+ */
+export function renderSlashPrompt(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, key: string) => values[key] ?? '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Validate a workspace's command config. Invalid entries are skipped and
+ * reported; action commands cannot be redefined, and a name defined twice
+ * keeps its first definition.
+ */
+export function parseSlashCommandsConfig(config: unknown): { commands: SlashCommand[]; errors: string[] } {
+  const commands: SlashCommand[] = [];
+  const errors: string[] = [];
+  const entries = isObject(config) ? config.commands : undefined;
+  if (!Array.isArray(entries)) {
+    return { commands, errors: ['Expected an object with a "commands" array'] };
+  }
+
+  entries.forEach((entry: unknown, index) => {
+    const name = isObject(entry) ? entry.name : undefined;
+    const label = typeof name === 'string' ? `/${name}` : `Command ${index + 1}`;
+    if (!isObject(entry) || typeof name !== 'string' || !COMMAND_NAME_PATTERN.test(name)) {
+      errors.push(`${label}: name must be lowercase letters, digits and dashes`);
+      return;
+    }
+    if (BUILTIN_SLASH_COMMANDS.some(command => command.name === name && command.action)) {
+      errors.push(`${label}: cannot redefine a built-in action`);
+      return;
+    }
+    if (commands.some(command => command.name === name)) {
+      errors.push(`${label}: defined more than once; the first definition is used`);
+      return;
+    }
+    const { template, description } = entry;
+    if (typeof template !== 'string' || !template.trim()) {
+      errors.push(`${label}: template is required`);
+      return;
+    }
+    const context = entry.context ?? [];
+    if (!Array.isArray(context) || !context.every(isContextRecipe)) {
+      errors.push(`${label}: context must list ${CONTEXT_RECIPES.join(', ')}`);
+      return;
+    }
+    const output = entry.output ?? 'chat';
+    if (!isOutput(output)) {
+      errors.push(`${label}: output must be ${OUTPUTS.join(' or ')}`);
+      return;
+    }
+
+    commands.push({
+      name,
+      description: typeof description === 'string' ? description : template.trim().split('\n')[0],
+      template,
+      context,
+      output,
+      source: 'workspace'
+    });
+  });
+
+  return { commands, errors };
+}
+
+/**
+ * Built-in commands followed by the workspace's; a workspace command
+ * replaces the built-in prompt command of the same name. A name that
+ * appears twice keeps its first command.
+ */
+export function mergeSlashCommands(workspaceCommands: SlashCommand[]): SlashCommand[] {
+  const custom = new Map<string, SlashCommand>();
+  for (const command of workspaceCommands) {
+    if (!custom.has(command.name)) custom.set(command.name, command);
+  }
+  return [
+    ...BUILTIN_SLASH_COMMANDS.map(command => custom.get(command.name) ?? command),
+    ...[...custom.values()].filter(command => !BUILTIN_SLASH_COMMANDS.some(builtin => builtin.name === command.name))
+  ];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isContextRecipe(value: unknown): value is SlashContextRecipe {
+  return CONTEXT_RECIPES.some(recipe => recipe === value);
+}
+
+function isOutput(value: unknown): value is SlashCommandOutput {
+  return OUTPUTS.some(output => output === value);
+}
@@ -0,0 +1,52 @@
+/**
+ * Tests for loading a workspace's slash commands
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { loadWorkspaceCommands } from './workspaceCommands';
+
+describe('loadWorkspaceCommands', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-commands-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const writeConfig = (content: string) => {
+    fs.mkdirSync(path.join(root, '.locus'));
+    fs.writeFileSync(path.join(root, '.locus', 'commands.json'), content);
+  };
+
+  test('should return no commands without a config file', async () => {
+    expect(await loadWorkspaceCommands(root)).toEqual({ commands: [], errors: [] });
+  });
+
+  test('should load valid commands and report the rest', async () => {
+    writeConfig(JSON.stringify({
+      commands: [
+        { name: 'review', description: 'Review the open file', template: 'Review {{context}}', context: ['active_file'] },
+        { name: 'mode', template: 'x' }
+      ]
+    }));
+
+    const { commands, errors } = await loadWorkspaceCommands(root);
+
+    expect(commands.map(c => c.name)).toEqual(['review']);
+    expect(errors).toEqual(['.locus/commands.json: /mode: cannot redefine a built-in action']);
+  });
+
+  test('should report invalid JSON', async () => {
+    writeConfig('{ "commands": [');
+
+    const { commands, errors } = await loadWorkspaceCommands(root);
+
+    expect(commands).toEqual([]);
+    expect(errors).toHaveLength(1);
+  });
+});
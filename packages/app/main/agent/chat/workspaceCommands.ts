@@ -0,0 +1,36 @@
+// Custom slash commands of a workspace, read from <workspace>/.locus/commands.json.
+// Runs in the main process; the chat merges them with the built-in commands.
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import { SLASH_COMMANDS_CONFIG, SlashCommand, parseSlashCommandsConfig } from './slashCommands';
+
+export interface WorkspaceCommands {
+  commands: SlashCommand[];
+  /** Problems with the config file, one per skipped entry */
+  errors: string[];
+}
+
+/**
+ * Commands defined by a workspace. A missing config file means no
+ * commands; an unreadable one is reported in `errors`.
+ */
+export async function loadWorkspaceCommands(workspaceRoot: string): Promise<WorkspaceCommands> {
+  const configPath = path.join(workspaceRoot, ...SLASH_COMMANDS_CONFIG.split('/'));
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(configPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { commands: [], errors: [] };
+    throw error;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch (error) {
+    return { commands: [], errors: [`${SLASH_COMMANDS_CONFIG}: ${(error as Error).message}`] };
+  }
+
+  const { commands, errors } = parseSlashCommandsConfig(config);
+  return { commands, errors: errors.map(error => `${SLASH_COMMANDS_CONFIG}: ${error}`) };
+}
@@ -0,0 +1,283 @@
+/**
+ * Tests for ranking, deduplication and budget packing of prompt context
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ContextAssembler, ContextRetriever } from './contextAssembler';
+import { QueryRewriter } from './queryRewriter';
+import { ContextReranker } from '../optimizations/reranker';
+import type { SearchResult } from '../rag/embedder';
+import type { SymbolDefinition } from '../rag/symbolExtractor';
+
+// Model servers that cannot tell, so the model preset sets the budget
+const unknownContextLength = async () => undefined;
+
+function result(filePath: string, chunk: string, similarity: number, startLine: number = 1): SearchResult {
+  return {
+    record: {
+      id: `${filePath}:${startLine}`,
+      path: filePath,
+      chunk,
+      vector: Buffer.alloc(0),
+      startLine,
+      endLine: startLine + chunk.split('\n').length - 1
+    },
+    similarity,
+    score: similarity
+  };
+}
+
+describe('ContextAssembler', () => {
+  let root: string;
+  let results: SearchResult[];
+  let resultsByQuery: Record<string, SearchResult[]>;
+  let definitions: Record<string, SymbolDefinition[]>;
+  let searchError: Error | null;
+
+  const retriever: ContextRetriever = {
+    searchSimilar: async query => {
+      if (searchError) throw searchError;
+      return resultsByQuery[query] || results;
+    },
+    findDefinition: name => definitions[name] || []
+  };
+
+  const write = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(root, relativePath), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-context-'));
+    write('src/active.ts', 'export const active = true;\nexport const other = 1;\n');
+    write('src/parser.ts', 'import x from "y";\n\nexport class FileOpsParser {\n  parse() {}\n}\n');
+    write('notes/deploy.md', '# Deploy\n\nRun the release script.\n');
+    results = [];
+    resultsByQuery = {};
+    definitions = {};
+    searchError = null;
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should rank the active file, then definitions, then search results', async () => {
+    definitions.FileOpsParser = [{
+      name: 'FileOpsParser', kind: 'class', path: 'src/parser.ts', line: 3, column: 14, startLine: 3, endLine: 5
+    }];
+    results = [
+      result('notes/deploy.md', '# Deploy\n\nRun the release script.', 0.5),
+      result('src/parser.ts', 'export class FileOpsParser {\n  parse() {}\n}', 0.9, 3),
+      result('src/active.ts', 'export const other = 1;', 0.8, 2)
+    ];
+
+    const context = await new ContextAssembler(root, retriever).assemble({
+      query: 'How does FileOpsParser handle deploy notes?',
+      activeFilePath: path.join(root, 'src', 'active.ts')
+    });
+
+    expect(context.chunks.map(chunk => chunk.filePath)).toEqual([
+      path.join('src', 'active.ts'),
+      'src/parser.ts',
+      'notes/deploy.md'
+    ]);
+    expect(context.chunks[1]).toMatchObject({ lineStart: 3, lineEnd: 5, symbolName: 'FileOpsParser' });
+    expect(context.manifest.map(entry => `${entry.source}:${entry.decision}`)).toEqual([
+      'active_file:included',
+      'symbol:included',
+      'retrieved:duplicate',
+      'retrieved:duplicate',
+      'retrieved:included'
+    ]);
+    expect(context.usedTokens).toBeLessThan(context.budgetTokens);
+  });
+
+  test('should truncate large files and drop chunks that do not fit', async () => {
+    const lines = Array.from({ length: 200 }, (_, i) => `export const value${i} = ${i};`);
+    write('src/big.ts', lines.join('\n'));
+    results = [result('notes/deploy.md', 'Run the release script. '.repeat(20), 0.9)];
+
+    const context = await new ContextAssembler(root, retriever).assemble({
+      query: 'values',
+      activeFilePath: 'src/big.ts',
+      reserveTokens: 3500
+    });
+
+    const [active, retrieved] = context.manifest;
+    expect(active).toMatchObject({ source: 'active_file', decision: 'truncated', lineStart: 1 });
+    expect(active.lineEnd!).toBeLessThan(200);
+    expect(retrieved).toMatchObject({ source: 'retrieved', decision: 'over_budget' });
+    expect(context.chunks).toHaveLength(1);
+    expect(context.usedTokens).toBeLessThanOrEqual(context.budgetTokens);
+  });
+
+  test('should drop results below the model preset relevance threshold', async () => {
+    results = [result('notes/deploy.md', 'Run the release script.', 0.05)];
+
+    const context = await new ContextAssembler(root, retriever).assemble({ query: 'release' });
+
+    expect(context.chunks).toHaveLength(0);
+    expect(context.manifest[0]).toMatchObject({ decision: 'below_relevance', score: 0.05 });
+  });
+
+  test('should search rewritten queries and record which found each chunk', async () => {
+    const saveChunk = result('src/save.ts', 'export async function saveFile() {}', 0.7);
+    resultsByQuery = {
+      'why is saving flaky?': [result('notes/deploy.md', 'Run the release script.', 0.4)],
+      'Why do file writes fail intermittently?': [saveChunk],
+      'saveFile writeFile': [saveChunk]
+    };
+    const rewriter = new QueryRewriter(async () => [
+      'REFORMULATION: Why do file writes fail intermittently?',
+      'KEYWORDS: saveFile, writeFile'
+    ].join('\n'));
+
+    const context = await new ContextAssembler(root, retriever, rewriter, undefined, unknownContextLength).assemble({
+      query: 'why is saving flaky?',
+      modelId: 'llama3',
+      rewriteQuery: true
+    });
+
+    expect(context.queries.map(variant => variant.kind)).toEqual(['original', 'reformulation', 'keywords']);
+    expect(context.chunks.map(chunk => chunk.filePath)).toEqual(['src/save.ts', 'notes/deploy.md']);
+    expect(context.manifest[0].matchedQueries).toEqual(['Why do file writes fail intermittently?', 'saveFile writeFile']);
+  });
+
+  test('should fall back to the original query when rewriting fails', async () => {
+    results = [result('notes/deploy.md', 'Run the release script.', 0.5)];
+    const rewriter = new QueryRewriter(async () => {
+      throw new Error('model not found');
+    });
+
+    const context = await new ContextAssembler(root, retriever, rewriter, undefined, unknownContextLength).assemble({
+      query: 'release',
+      modelId: 'llama3',
+      rewriteQuery: true
+    });
+
+    expect(context.chunks).toHaveLength(1);
+    expect(context.queries).toEqual([{ kind: 'original', query: 'release' }]);
+    expect(context.warnings).toEqual(['Query rewriting failed: model not found']);
+  });
+
+  test('should order retrieved chunks by the re-ranker when enabled', async () => {
+    results = [
+      result('notes/deploy.md', 'Run the release script.', 0.9),
+      result('src/parser.ts', 'export class FileOpsParser {}', 0.6, 3)
+    ];
+    const reranker = new ContextReranker(
+      async (_query, documents) => documents.map(document => document.includes('FileOpsParser') ? 1 : 0),
+      { recencyBoost: 0, activeFileBoost: 0, sameDirectoryBoost: 0 }
+    );
+
+    const context = await new ContextAssembler(root, retriever, undefined, reranker).assemble({
+      query: 'how are file operations parsed',
+      rerank: true
+    });
+
+    expect(context.chunks.map(chunk => chunk.filePath)).toEqual(['src/parser.ts', 'notes/deploy.md']);
+    expect(context.manifest[0]).toMatchObject({ score: 0.6, rerankScore: 0.8 });
+  });
+
+  test('should keep recent history within budget and summarize the rest', async () => {
+    const history = Array.from({ length: 12 }, (_, i) => ({
+      id: `${i}`,
+      role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+      content: `Message ${i} `.repeat(100),
+      timestamp: i * 1000
+    }));
+    const assembler = new ContextAssembler(root, retriever);
+
+    const without = await assembler.assemble({ query: 'release' });
+    const context = await assembler.assemble({ query: 'release', history });
+
+    const kept = context.history.map(message => message.id);
+    expect(kept.length).toBeGreaterThan(0);
+    expect(kept.length).toBeLessThan(history.length);
+    expect(kept).toEqual(history.slice(-kept.length).map(message => message.id));
+    expect(context.historySummary).toContain('[CONVERSATION SUMMARY]');
+    expect(context.historyTokens).toBeLessThanOrEqual(without.budgetTokens);
+    expect(context.budgetTokens).toBe(without.budgetTokens - context.historyTokens);
+  });
+
+  test('should size the budget from the context length the model runs with', async () => {
+    results = [result('notes/deploy.md', 'Run the release script.', 0.9)];
+    const lookups: Array<[string, number | undefined]> = [];
+    const contextLengthOf = async (modelId: string, numCtx?: number) => {
+      lookups.push([modelId, numCtx]);
+      return 2048;
+    };
+
+    const context = await new ContextAssembler(root, retriever, undefined, undefined, contextLengthOf).assemble({
+      query: 'release',
+      modelId: 'llama3.1:8b',
+      numCtx: 2048,
+      reserveTokens: 500
+    });
+
+    expect(lookups).toEqual([['llama3.1:8b', 2048]]);
+    expect(context.contextLength).toBe(2048);
+    expect(context.budgetTokens).toBeLessThanOrEqual(Math.floor(2048 * 0.8) - 500);
+    expect(context.chunks).toHaveLength(1);
+  });
+
+  test('should keep file context when search fails', async () => {
+    searchError = new Error('Ollama API error: 500');
+
+    const context = await new ContextAssembler(root, retriever).assemble({
+      query: 'anything',
+      activeFilePath: 'src/active.ts',
+      pinnedFiles: ['missing.ts']
+    });
+
+    expect(context.chunks.map(chunk => chunk.filePath)).toEqual([path.join('src', 'active.ts')]);
+    expect(context.manifest[0]).toMatchObject({ source: 'pinned_file', decision: 'unreadable' });
+    expect(context.warnings).toEqual(['Search failed: Ollama API error: 500']);
+  });
+
+  test('should pin the files of a folder and the definitions of pinned symbols', async () => {
+    write('notes/release.md', '# Release\n');
+    write('notes/drafts/todo.md', '# Todo\n');
+    write('notes/drafts/.cache/x.md', 'cached');
+    definitions.FileOpsParser = [{
+      name: 'FileOpsParser', kind: 'class', path: 'src/parser.ts', line: 3, column: 14, startLine: 3, endLine: 5
+    }];
+
+    const context = await new ContextAssembler(root, { ...retriever, isIgnored: name => name.endsWith('.cache') }).assemble({
+      query: 'what is left to do',
+      pinnedFiles: ['notes'],
+      pinnedSymbols: [{ name: 'FileOpsParser', path: 'src/parser.ts' }, { name: 'Missing' }]
+    });
+
+    expect(context.chunks.map(chunk => chunk.filePath)).toEqual([
+      path.join('notes', 'deploy.md'),
+      path.join('notes', 'drafts', 'todo.md'),
+      path.join('notes', 'release.md'),
+      'src/parser.ts'
+    ]);
+    expect(context.chunks[3].content).toBe('export class FileOpsParser {\n  parse() {}\n}');
+    expect(context.manifest[0]).toMatchObject({ source: 'pinned_symbol', symbolName: 'Missing', decision: 'unreadable' });
+  });
+
+  test('should estimate the tokens of each pin against the budget', async () => {
+    definitions.FileOpsParser = [{
+      name: 'FileOpsParser', kind: 'class', path: 'src/parser.ts', line: 3, column: 14, startLine: 3, endLine: 5
+    }];
+
+    const estimate = await new ContextAssembler(root, retriever, undefined, undefined, async () => 8192).estimatePinned({
+      modelId: 'llama3:8b',
+      pinnedFiles: ['src', 'missing.ts'],
+      pinnedSymbols: [{ name: 'FileOpsParser' }]
+    });
+
+    expect(estimate.pins.map(pin => pin.pin)).toEqual(['src', 'missing.ts', 'FileOpsParser']);
+    expect(estimate.pins[0].tokens).toBeGreaterThan(estimate.pins[2].tokens);
+    expect(estimate.pins[1].tokens).toBe(0);
+    expect(estimate.totalTokens).toBe(estimate.pins[0].tokens + estimate.pins[2].tokens);
+    expect(estimate.contextLength).toBe(8192);
+    expect(estimate.budgetTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,652 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ContextChunk } from '../chat/promptBuilder';
+import type { ChatMessage } from '../types';
+import type { SearchOptions, SearchResult } from '../rag/embedder';
+import type { SymbolDefinition } from '../rag/symbolExtractor';
+import { getModelOptimizationConfig } from '../optimizations';
+import { ContextWindowOptimizer, type ContextWindowConfig } from '../optimizations/contextWindow';
+import { ContextReranker, createReranker } from '../optimizations/reranker';
+import { countTokens } from '../optimizations/tokenCounter';
+import { getModelContextLength } from '../models/modelAdapter';
+import { reciprocalRankFusion } from '../rag/rankFusion';
+import { QueryRewriter, QueryVariant } from './queryRewriter';
+
+export type ContextItemSource = 'active_file' | 'pinned_file' | 'pinned_symbol' | 'symbol' | 'retrieved';
+
+/**
+ * What happened to a candidate: packed whole, packed cut short, or dropped
+ */
+export type ContextDecision =
+  | 'included'
+  | 'truncated'
+  | 'duplicate'
+  | 'over_budget'
+  | 'below_relevance'
+  | 'unreadable';
+
+export interface ContextRequest {
+  query: string;
+  /**
+   * Model the prompt is for; its context length sets the token budget and
+   * its tokenizer counts tokens (a default budget when unset)
+   */
+  modelId?: string;
+  /** Context size the chat request will ask for (Ollama's num_ctx) */
+  numCtx?: number;
+  /** Open file, absolute or project-relative; always ranked first */
+  activeFilePath?: string;
+  /** Files the user pinned to the conversation; a folder pins the files in it */
+  pinnedFiles?: string[];
+  /**
+   * Symbols the user pinned; their definitions are included like pinned
+   * files. `path` picks the definition when several share the name.
+   */
+  pinnedSymbols?: PinnedSymbol[];
+  /** Candidates fetched from the index before packing (default: 20) */
+  maxRetrievedChunks?: number;
+  /** Passed to the index search, e.g. to filter by tag or path */
+  searchOptions?: SearchOptions;
+  /**
+   * Also search reformulations and keyword lists written by the model
+   * (requires modelId). Costs a model call; helps vague questions.
+   */
+  rewriteQuery?: boolean;
+  /** Earlier messages of the conversation, oldest first */
+  history?: ChatMessage[];
+  /** Tokens kept free for instructions and the answer (default: 1000) */
+  reserveTokens?: number;
+  /**
+   * Re-rank retrieved chunks against the query before packing; overrides
+   * the model preset's enableReranking
+   */
+  rerank?: boolean;
+}
+
+export interface PinnedSymbol {
+  name: string;
+  path?: string;
+}
+
+/**
+ * What pinned context would cost, shown before a message is sent
+ */
+export interface PinnedContextEstimate {
+  /** Tokens of each pinned file, folder and symbol, in request order; 0 when not found */
+  pins: Array<{ pin: string; tokens: number }>;
+  totalTokens: number;
+  /** Tokens the model leaves for context, before the message and history */
+  budgetTokens: number;
+  contextLength?: number;
+}
+
+export interface ContextManifestEntry {
+  source: ContextItemSource;
+  path: string;
+  lineStart?: number;
+  lineEnd?: number;
+  symbolName?: string;
+  /** Similarity for retrieved chunks */
+  score?: number;
+  /** Search queries that found a retrieved chunk, when the query was rewritten */
+  matchedQueries?: string[];
+  /** Final score from the re-ranker, including boosts */
+  rerankScore?: number;
+  /** Estimated tokens of the candidate before any truncation */
+  tokens: number;
+  decision: ContextDecision;
+}
+
+export interface AssembledContext {
+  /** Packed chunks in rank order, ready for the prompt builder */
+  chunks: ContextChunk[];
+  /** Every candidate considered, included or not */
+  manifest: ContextManifestEntry[];
+  budgetTokens: number;
+  usedTokens: number;
+  /** Context length the model reported, when the budget was derived from it */
+  contextLength?: number;
+  /** Sources that failed as a whole, e.g. search with Ollama offline */
+  warnings: string[];
+  /** Every query the index was searched with, the original first */
+  queries: QueryVariant[];
+  /** The most recent history messages that fit, oldest first */
+  history: ChatMessage[];
+  /** Summary of the history messages left out */
+  historySummary?: string;
+  /** Estimated tokens of the kept history and its summary */
+  historyTokens: number;
+}
+
+/**
+ * The parts of the embedder the assembler retrieves through
+ */
+export interface ContextRetriever {
+  searchSimilar(query: string, limit?: number, options?: SearchOptions): Promise<SearchResult[]>;
+  findDefinition(name: string, fromPath?: string): SymbolDefinition[];
+  /** Paths left out of the index, also skipped in pinned folders */
+  isIgnored?(relativePath: string, isDirectory: boolean): boolean;
+}
+
+interface Candidate {
+  source: ContextItemSource;
+  path: string;
+  content: string;
+  lineStart: number;
+  lineEnd: number;
+  symbolName?: string;
+  score?: number;
+  matchedQueries?: string[];
+  rerankScore?: number;
+  /** Whole files may be cut to fit; chunks and definitions may not */
+  truncatable: boolean;
+}
+
+const SOURCE_PRIORITY: Record<ContextItemSource, number> = {
+  active_file: 0,
+  pinned_file: 1,
+  pinned_symbol: 1,
+  symbol: 2,
+  retrieved: 3
+};
+
+// A truncated file shorter than this is not worth the space
+const MIN_TRUNCATED_TOKENS = 200;
+const MAX_SYMBOL_LOOKUPS = 8;
+const MAX_PINNED_FOLDER_FILES = 50;
+
+/**
+ * Token count with the model's tokenizer, the same count the context
+ * window optimizer uses
+ */
+export function estimateTokens(text: string, modelId?: string): number {
+  return countTokens(text, modelId);
+}
+
+/**
+ * Reads how many tokens of context a model will be run with
+ */
+export type ContextLengthLookup = (modelId: string, numCtx?: number) => Promise<number | undefined>;
+
+/**
+ * Builds the retrieved context for one prompt in the main process.
+ *
+ * Candidates come from the active file, pinned files, folders and
+ * symbols, definitions of symbols named in the query and the embeddings
+ * index. They are ranked by
+ * source and then by score, deduplicated by line range and content, and
+ * packed greedily into the model's token budget. The budget comes from the
+ * context length the model's server reports, falling back to a table of
+ * known models, and tokens are counted with the model's tokenizer. The
+ * manifest records every candidate and why it was included or dropped.
+ *
+ * Conversation history goes through the context window optimizer first:
+ * recent messages are kept up to half the budget, older ones are
+ * summarized, and the rest of the budget is left for chunks.
+ *
+ * With `rewriteQuery` the model first rewrites the question into
+ * reformulations and keyword lists; each is searched and the rankings are
+ * fused, and the manifest lists which queries found each chunk. With
+ * re-ranking enabled, retrieved chunks are ordered by the re-ranker's
+ * score rather than their similarity.
+ */
+export class ContextAssembler {
+  constructor(
+    private projectRoot: string,
+    private retriever: ContextRetriever,
+    private rewriter: QueryRewriter = new QueryRewriter(),
+    /** Used instead of the one the model preset configures */
+    private reranker?: ContextReranker,
+    private contextLengthOf: ContextLengthLookup = getModelContextLength
+  ) {}
+
+  async assemble(request: ContextRequest): Promise<AssembledContext> {
+    const { modelId } = request;
+    const { config, contextLength } = await this.resolveConfig(request);
+    const availableTokens = Math.max(
+      0,
+      config.maxTokens - (request.reserveTokens ?? 1000) - estimateTokens(request.query, modelId)
+    );
+
+    const { messages: history, summary: historySummary } = new ContextWindowOptimizer({
+      ...config,
+      maxHistoryTokens: Math.floor(availableTokens / 2)
+    }).optimizeContext(request.history || []);
+    const historyTokens = history.reduce((sum, message) => sum + estimateTokens(message.content, modelId), 0) +
+      (historySummary ? estimateTokens(historySummary, modelId) : 0);
+    const budgetTokens = Math.max(0, availableTokens - historyTokens);
+
+    const manifest: ContextManifestEntry[] = [];
+    const warnings: string[] = [];
+    const activePath = request.activeFilePath ? this.toRelative(request.activeFilePath) : undefined;
+
+    const candidates: Candidate[] = [];
+    if (activePath) {
+      const active = await this.fileCandidate(activePath, 'active_file', manifest);
+      if (active) candidates.push(active);
+    }
+    for (const pinned of await this.pinnedCandidates(request, activePath, manifest)) {
+      candidates.push(...pinned.candidates);
+    }
+
+    candidates.push(...await this.symbolCandidates(request.query, activePath, manifest));
+
+    let queries: QueryVariant[] = [{ kind: 'original', query: request.query }];
+    if (request.rewriteQuery && request.modelId) {
+      try {
+        queries = await this.rewriter.rewrite(request.query, request.modelId);
+      } catch (error) {
+        console.warn('Query rewriting failed:', error);
+        warnings.push(`Query rewriting failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    try {
+      const { results, matchedQueries } = await this.search(queries, request);
+      for (const result of results) {
+        const candidate: Candidate = {
+          source: 'retrieved',
+          path: result.record.path,
+          content: result.record.chunk,
+          lineStart: result.record.startLine ?? 1,
+          lineEnd: result.record.endLine ?? result.record.chunk.split('\n').length,
+          symbolName: result.record.symbolName,
+          score: result.similarity,
+          matchedQueries: queries.length > 1 ? matchedQueries.get(result.record.id) : undefined,
+          truncatable: false
+        };
+        if (result.similarity < config.minRelevanceScore) {
+          manifest.push(this.describe(candidate, 'below_relevance'));
+        } else {
+          candidates.push(candidate);
+        }
+      }
+    } catch (error) {
+      console.warn('Context retrieval failed:', error);
+      warnings.push(`Search failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (config.enableReranking) {
+      await this.rerank(candidates, request, activePath, config);
+    }
+
+    // Stable sort keeps search order within a source when scores tie
+    candidates.sort((a, b) =>
+      SOURCE_PRIORITY[a.source] - SOURCE_PRIORITY[b.source] ||
+      (b.rerankScore ?? b.score ?? 0) - (a.rerankScore ?? a.score ?? 0)
+    );
+
+    const chunks: ContextChunk[] = [];
+    const includedRanges = new Map<string, Array<[number, number]>>();
+    const includedContent = new Set<string>();
+    let usedTokens = 0;
+
+    for (const candidate of candidates) {
+      const ranges = includedRanges.get(candidate.path) || [];
+      const covered = ranges.some(([start, end]) => start <= candidate.lineStart && candidate.lineEnd <= end);
+      if (covered || includedContent.has(candidate.content.trim())) {
+        manifest.push(this.describe(candidate, 'duplicate'));
+        continue;
+      }
+
+      let packed = candidate;
+      let decision: ContextDecision = 'included';
+      const cost = this.cost(candidate, modelId);
+      if (usedTokens + cost > budgetTokens) {
+        const remaining = budgetTokens - usedTokens;
+        const truncated = candidate.truncatable && remaining >= MIN_TRUNCATED_TOKENS
+          ? this.truncate(candidate, remaining, modelId)
+          : null;
+        if (!truncated) {
+          manifest.push(this.describe(candidate, 'over_budget', modelId));
+          continue;
+        }
+        packed = truncated;
+        decision = 'truncated';
+      }
+
+      usedTokens += this.cost(packed, modelId);
+      includedRanges.set(candidate.path, [...ranges, [packed.lineStart, packed.lineEnd]]);
+      includedContent.add(packed.content.trim());
+      manifest.push({ ...this.describe(packed, decision, modelId), tokens: cost });
+      chunks.push({
+        filePath: packed.path,
+        content: packed.content,
+        relevanceScore: packed.score ?? 1,
+        lineStart: packed.lineStart,
+        lineEnd: packed.lineEnd,
+        symbolName: packed.symbolName
+      });
+    }
+
+    return {
+      chunks,
+      manifest,
+      budgetTokens,
+      usedTokens,
+      contextLength,
+      warnings,
+      queries,
+      history,
+      historySummary,
+      historyTokens
+    };
+  }
+
+  /**
+   * Tokens the pinned files, folders and symbols would take, against the
+   * budget the model leaves for context. Pins past the budget are cut or
+   * dropped when the prompt is assembled.
+   */
+  async estimatePinned(request: Omit<ContextRequest, 'query'>): Promise<PinnedContextEstimate> {
+    const { config, contextLength } = await this.resolveConfig(request);
+    const activePath = request.activeFilePath ? this.toRelative(request.activeFilePath) : undefined;
+    const pins = (await this.pinnedCandidates(request, activePath, [])).map(({ pin, candidates }) => ({
+      pin,
+      tokens: candidates.reduce((sum, candidate) => sum + this.cost(candidate, request.modelId), 0)
+    }));
+
+    return {
+      pins,
+      totalTokens: pins.reduce((sum, pin) => sum + pin.tokens, 0),
+      budgetTokens: Math.max(0, config.maxTokens - (request.reserveTokens ?? 1000)),
+      contextLength
+    };
+  }
+
+  private async resolveConfig(
+    request: Pick<ContextRequest, 'modelId' | 'numCtx' | 'rerank'>
+  ): Promise<{ config: ContextWindowConfig; contextLength?: number }> {
+    const { modelId } = request;
+    const contextLength = modelId ? await this.lookupContextLength(modelId, request.numCtx) : undefined;
+    const config: ContextWindowConfig = {
+      ...getModelOptimizationConfig(modelId || '', contextLength),
+      ...(request.rerank !== undefined ? { enableReranking: request.rerank } : {})
+    };
+    return { config, contextLength };
+  }
+
+  /**
+   * The model's context length, or undefined to fall back to the presets
+   */
+  private async lookupContextLength(modelId: string, numCtx?: number): Promise<number | undefined> {
+    try {
+      return await this.contextLengthOf(modelId, numCtx);
+    } catch (error) {
+      console.warn(`Failed to get the context length of ${modelId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Search every query variant and fuse the rankings, so chunks found by
+   * several variants rank first. A chunk keeps its best similarity and the
+   * queries that found it. Only fails when every search fails.
+   */
+  private async search(
+    queries: QueryVariant[],
+    request: ContextRequest
+  ): Promise<{ results: SearchResult[]; matchedQueries: Map<string, string[]> }> {
+    const limit = request.maxRetrievedChunks ?? 20;
+    const settled = await Promise.allSettled(
+      queries.map(variant => this.retriever.searchSimilar(variant.query, limit, request.searchOptions))
+    );
+
+    const best = new Map<string, SearchResult>();
+    const matchedQueries = new Map<string, string[]>();
+    const lists: Array<{ ids: string[]; weight: number }> = [];
+    let failure: unknown = null;
+
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'rejected') {
+        console.warn(`Search failed for "${queries[i].query}":`, outcome.reason);
+        failure = failure ?? outcome.reason;
+        return;
+      }
+      for (const result of outcome.value) {
+        const id = result.record.id;
+        if (!best.has(id) || result.similarity > best.get(id)!.similarity) {
+          best.set(id, result);
+        }
+        matchedQueries.set(id, [...(matchedQueries.get(id) || []), queries[i].query]);
+      }
+      lists.push({ ids: outcome.value.map(result => result.record.id), weight: 1 });
+    });
+
+    if (lists.length === 0) {
+      throw failure;
+    }
+
+    const results = queries.length === 1
+      ? [...best.values()]
+      : reciprocalRankFusion(lists, 60, limit).map(hit => best.get(hit.id)!);
+    return { results, matchedQueries };
+  }
+
+  /**
+   * Score retrieved candidates against the query, boosting recently
+   * modified files and those near the active file
+   */
+  private async rerank(
+    candidates: Candidate[],
+    request: ContextRequest,
+    activePath: string | undefined,
+    config: ContextWindowConfig
+  ): Promise<void> {
+    const retrieved = candidates.filter(candidate => candidate.source === 'retrieved');
+    if (retrieved.length === 0) return;
+
+    const modified = new Map<string, number>();
+    for (const filePath of new Set(retrieved.map(candidate => candidate.path))) {
+      const stat = await fs.promises.stat(path.resolve(this.projectRoot, filePath)).catch(() => null);
+      if (stat) modified.set(filePath, stat.mtimeMs);
+    }
+
+    const reranker = this.reranker || createReranker(config, request.modelId);
+    const results = await reranker.rerank(
+      retrieved.map(candidate => ({
+        filePath: candidate.path,
+        content: candidate.content,
+        relevanceScore: candidate.score
+      })),
+      { query: request.query, activeFilePath: activePath, lastModified: filePath => modified.get(filePath) }
+    );
+    for (const result of results) {
+      retrieved[result.index].rerankScore = result.score;
+    }
+  }
+
+  /**
+   * Definitions of identifiers in the query that look like code, e.g.
+   * `FileOpsParser`, `sanitizePath` or `MAX_DEPTH`
+   */
+  private async symbolCandidates(
+    query: string,
+    activePath: string | undefined,
+    manifest: ContextManifestEntry[]
+  ): Promise<Candidate[]> {
+    const names = new Set<string>();
+    for (const match of query.matchAll(/[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g)) {
+      const name = match[0].split('.')[0];
+      const looksLikeCode = /[a-z][A-Z]/.test(name) || /[A-Za-z]_[A-Za-z]/.test(name) || match[0].includes('.');
+      if (looksLikeCode) {
+        names.add(name);
+      }
+    }
+
+    const candidates: Candidate[] = [];
+    for (const name of [...names].slice(0, MAX_SYMBOL_LOOKUPS)) {
+      candidates.push(...await this.definitionCandidates(name, activePath, 'symbol', manifest));
+    }
+    return candidates;
+  }
+
+  /**
+   * Candidates for each pinned file, folder and symbol, in request order
+   */
+  private async pinnedCandidates(
+    request: Pick<ContextRequest, 'pinnedFiles' | 'pinnedSymbols'>,
+    activePath: string | undefined,
+    manifest: ContextManifestEntry[]
+  ): Promise<Array<{ pin: string; candidates: Candidate[] }>> {
+    const pinned: Array<{ pin: string; candidates: Candidate[] }> = [];
+
+    for (const pin of request.pinnedFiles || []) {
+      const candidates: Candidate[] = [];
+      for (const filePath of await this.expandPinnedPath(this.toRelative(pin))) {
+        const candidate = await this.fileCandidate(filePath, 'pinned_file', manifest);
+        if (candidate) candidates.push(candidate);
+      }
+      pinned.push({ pin, candidates });
+    }
+
+    for (const symbol of request.pinnedSymbols || []) {
+      const fromPath = symbol.path ? this.toRelative(symbol.path) : activePath;
+      const candidates = await this.definitionCandidates(symbol.name, fromPath, 'pinned_symbol', manifest);
+      if (candidates.length === 0) {
+        manifest.push({ source: 'pinned_symbol', path: fromPath ?? '', symbolName: symbol.name, tokens: 0, decision: 'unreadable' });
+      }
+      pinned.push({ pin: symbol.name, candidates });
+    }
+
+    return pinned;
+  }
+
+  /**
+   * A pinned path as files: the file itself, or the files under a folder
+   * in path order, skipping ignored ones
+   */
+  private async expandPinnedPath(relativePath: string): Promise<string[]> {
+    const fullPath = path.resolve(this.projectRoot, relativePath);
+    const stat = await fs.promises.stat(fullPath).catch(() => null);
+    if (!stat?.isDirectory() || path.relative(this.projectRoot, fullPath).startsWith('..')) {
+      return [relativePath];
+    }
+
+    const files: string[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(path.resolve(this.projectRoot, dir), { withFileTypes: true }).catch(() => []);
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (files.length >= MAX_PINNED_FOLDER_FILES) return;
+        const entryPath = dir ? path.join(dir, entry.name) : entry.name;
+        if (this.retriever.isIgnored?.(entryPath.split(path.sep).join('/'), entry.isDirectory())) continue;
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          files.push(entryPath);
+        }
+      }
+    };
+    await walk(relativePath);
+    return files;
+  }
+
+  private async fileCandidate(
+    filePath: string,
+    source: ContextItemSource,
+    manifest: ContextManifestEntry[]
+  ): Promise<Candidate | null> {
+    const content = await this.readFile(filePath);
+    // Binary files are as useless to the model as missing ones
+    if (content === null || content.includes('\0')) {
+      manifest.push({ source, path: filePath, tokens: 0, decision: 'unreadable' });
+      return null;
+    }
+    return {
+      source,
+      path: filePath,
+      content,
+      lineStart: 1,
+      lineEnd: content.split('\n').length,
+      truncatable: true
+    };
+  }
+
+  private async definitionCandidates(
+    name: string,
+    fromPath: string | undefined,
+    source: ContextItemSource,
+    manifest: ContextManifestEntry[]
+  ): Promise<Candidate[]> {
+    const candidates: Candidate[] = [];
+    for (const definition of this.retriever.findDefinition(name, fromPath)) {
+      const content = await this.readFile(definition.path);
+      if (content === null) {
+        manifest.push({ source, path: definition.path, symbolName: name, tokens: 0, decision: 'unreadable' });
+        continue;
+      }
+      candidates.push({
+        source,
+        path: definition.path,
+        content: content.split('\n').slice(definition.startLine - 1, definition.endLine).join('\n'),
+        lineStart: definition.startLine,
+        lineEnd: definition.endLine,
+        symbolName: definition.name,
+        truncatable: false
+      });
+    }
+    return candidates;
+  }
+
+  /**
+   * Keep the leading lines of a file that fit in `tokens`
+   */
+  private truncate(candidate: Candidate, tokens: number, modelId?: string): Candidate | null {
+    const lines = candidate.content.split('\n');
+    const budget = tokens - estimateTokens(candidate.path, modelId);
+    let used = 0;
+    let count = 0;
+    while (count < lines.length) {
+      const lineTokens = estimateTokens(`${lines[count]}\n`, modelId);
+      if (used + lineTokens > budget) break;
+      used += lineTokens;
+      count++;
+    }
+    if (count === 0) return null;
+
+    return {
+      ...candidate,
+      content: lines.slice(0, count).join('\n'),
+      lineEnd: candidate.lineStart + count - 1
+    };
+  }
+
+  private cost(candidate: Candidate, modelId?: string): number {
+    return estimateTokens(candidate.content, modelId) + estimateTokens(candidate.path, modelId);
+  }
+
+  private describe(candidate: Candidate, decision: ContextDecision, modelId?: string): ContextManifestEntry {
+    return {
+      source: candidate.source,
+      path: candidate.path,
+      lineStart: candidate.lineStart,
+      lineEnd: candidate.lineEnd,
+      symbolName: candidate.symbolName,
+      score: candidate.score,
+      matchedQueries: candidate.matchedQueries,
+      rerankScore: candidate.rerankScore,
+      tokens: this.cost(candidate, modelId),
+      decision
+    };
+  }
+
+  /**
+   * Project-relative path in the same form the index stores
+   */
+  private toRelative(filePath: string): string {
+    return path.relative(this.projectRoot, path.resolve(this.projectRoot, filePath));
+  }
+
+  private async readFile(relativePath: string): Promise<string | null> {
+    const fullPath = path.resolve(this.projectRoot, relativePath);
+    if (path.relative(this.projectRoot, fullPath).startsWith('..')) {
+      return null;
+    }
+    try {
+      return await fs.promises.readFile(fullPath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
@@ -3,6 +3,9 @@ import { ContextChunk } from '../chat/promptBuilder';
 
 export interface ContextSourceOptions {
   currentFile?: string;
+  /** Model the prompt is for; sets the context token budget */
+  modelId?: string;
+  pinnedFiles?: string[];
   includeProjectFiles?: boolean;
   maxProjectFiles?: number;
   relevantExtensions?: string[];
@@ -25,6 +28,8 @@ export class ContextSource {
   }> {
     const {
       currentFile,
+      modelId,
+      pinnedFiles,
       includeProjectFiles = true,
       maxProjectFiles = 50,
       relevantExtensions = ['.ts', '.tsx', '.js', '.jsx', '.json', '.md', '.css', '.scss']
@@ -34,6 +39,8 @@ export class ContextSource {
       includeFileList: includeProjectFiles,
       includeActiveFile: !!currentFile,
       activeFilePath: currentFile,
+      modelId,
+      pinnedFiles,
       maxFileListItems: maxProjectFiles,
       relevantExtensions
     };
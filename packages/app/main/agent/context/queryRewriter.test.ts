@@ -0,0 +1,49 @@
+/**
+ * Tests for rewriting questions into search query variants
+ */
+
+import { QueryRewriter } from './queryRewriter';
+
+describe('QueryRewriter', () => {
+  test('should parse reformulations and keyword lists after the original', async () => {
+    const prompts: string[] = [];
+    const rewriter = new QueryRewriter(async (modelId, prompt) => {
+      prompts.push(`${modelId}:${prompt}`);
+      return [
+        'Here are the queries:',
+        '1. REFORMULATION: Why do file writes fail intermittently when saving a note?',
+        '- **Keywords:** saveFile, writeFile, debounce',
+        'REFORMULATION: why is saving flaky?',
+        'KEYWORDS: atomic rename; fs.promises'
+      ].join('\n');
+    });
+
+    const variants = await rewriter.rewrite('why is saving flaky?', 'llama3');
+
+    expect(prompts[0].startsWith('llama3:')).toBe(true);
+    expect(prompts[0]).toContain('Question: why is saving flaky?');
+    expect(variants).toEqual([
+      { kind: 'original', query: 'why is saving flaky?' },
+      { kind: 'reformulation', query: 'Why do file writes fail intermittently when saving a note?' },
+      { kind: 'keywords', query: 'saveFile writeFile debounce' },
+      { kind: 'keywords', query: 'atomic rename fs.promises' }
+    ]);
+  });
+
+  test('should cap the number of variants of each kind', async () => {
+    const answer = Array.from({ length: 5 }, (_, i) => `REFORMULATION: variant ${i}`).join('\n');
+    const rewriter = new QueryRewriter(async () => answer, { maxReformulations: 2 });
+
+    const variants = await rewriter.rewrite('question', 'llama3');
+
+    expect(variants.map(variant => variant.query)).toEqual(['question', 'variant 0', 'variant 1']);
+  });
+
+  test('should keep only the original when the answer has no variants', async () => {
+    const rewriter = new QueryRewriter(async () => 'Saving is flaky because of a race.');
+
+    expect(await rewriter.rewrite('why is saving flaky?', 'llama3')).toEqual([
+      { kind: 'original', query: 'why is saving flaky?' }
+    ]);
+  });
+});
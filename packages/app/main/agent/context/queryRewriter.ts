@@ -0,0 +1,89 @@
+import { queryModel } from '../models/modelAdapter';
+
+/**
+ * One search run for a question: the question itself, a model-written
+ * reformulation, or a list of keywords
+ */
+export interface QueryVariant {
+  kind: 'original' | 'reformulation' | 'keywords';
+  query: string;
+}
+
+/**
+ * Sends a prompt to a chat model and returns its text answer
+ */
+export type QueryGenerator = (modelId: string, prompt: string) => Promise<string>;
+
+export interface QueryRewriterOptions {
+  maxReformulations?: number;
+  maxKeywordLists?: number;
+}
+
+const REWRITE_PROMPT = `You help search a code and notes workspace. Rewrite the question below into search queries.
+
+Reply with plain lines only, in this form:
+REFORMULATION: <the question restated with likely technical terms>
+KEYWORDS: <comma-separated identifiers, file names or terms likely to appear in the relevant code>
+
+Give up to {reformulations} REFORMULATION lines and up to {keywords} KEYWORDS lines. Do not answer the question.
+
+Question: {question}`;
+
+/**
+ * Expands a vague question into reformulations and keyword lists with the
+ * selected chat model, so retrieval can match chunks that share no words
+ * with the question as asked
+ */
+export class QueryRewriter {
+  private maxReformulations: number;
+  private maxKeywordLists: number;
+
+  constructor(private generate: QueryGenerator = queryModel, options: QueryRewriterOptions = {}) {
+    this.maxReformulations = options.maxReformulations ?? 3;
+    this.maxKeywordLists = options.maxKeywordLists ?? 2;
+  }
+
+  /**
+   * The original question followed by the model's distinct variants
+   */
+  async rewrite(query: string, modelId: string): Promise<QueryVariant[]> {
+    const prompt = REWRITE_PROMPT
+      .replace('{reformulations}', String(this.maxReformulations))
+      .replace('{keywords}', String(this.maxKeywordLists))
+      .replace('{question}', query);
+    return [{ kind: 'original', query }, ...this.parse(await this.generate(modelId, prompt), query)];
+  }
+
+  /**
+   * Read REFORMULATION/KEYWORDS lines, tolerating bullets, numbering and
+   * markdown emphasis around the labels
+   */
+  private parse(answer: string, original: string): QueryVariant[] {
+    const seen = new Set([normalize(original)]);
+    const variants: QueryVariant[] = [];
+    const counts = { reformulation: 0, keywords: 0 };
+
+    for (const line of answer.split('\n')) {
+      const match = line.match(/^[\s>*\-\d.)]*(reformulation|keywords?)\s*\**\s*[:\-]\s*\**\s*(.+)$/i);
+      if (!match) continue;
+
+      const kind = match[1].toLowerCase() === 'reformulation' ? 'reformulation' : 'keywords';
+      let query = match[2].trim().replace(/^["'`]+|["'`]+$/g, '');
+      if (kind === 'keywords') {
+        query = query.split(/[,;]/).map(term => term.trim()).filter(Boolean).join(' ');
+      }
+
+      const limit = kind === 'reformulation' ? this.maxReformulations : this.maxKeywordLists;
+      if (!query || counts[kind] >= limit || seen.has(normalize(query))) continue;
+
+      seen.add(normalize(query));
+      counts[kind]++;
+      variants.push({ kind, query });
+    }
+    return variants;
+  }
+}
+
+function normalize(query: string): string {
+  return query.toLowerCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,105 @@
+/**
+ * Tests for saved chat sessions
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ChatSessionStore } from './chatSessions';
+import { ChatSession } from '../types';
+
+function session(id: string, title: string, updatedAt: number, contents: string[] = []): ChatSession {
+  return {
+    id,
+    title,
+    modelId: 'ollama:llama3',
+    mode: 'ask',
+    createdAt: 1,
+    updatedAt,
+    messages: contents.map((content, i) => ({
+      id: `${id}-${i}`,
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content,
+      timestamp: i
+    }))
+  };
+}
+
+describe('ChatSessionStore', () => {
+  let tmp: string;
+  let store: ChatSessionStore;
+  let notes: string;
+  let code: string;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-chats-'));
+    notes = path.join(tmp, 'notes');
+    code = path.join(tmp, 'code');
+    store = new ChatSessionStore(path.join(tmp, 'userData', 'chats'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test('should save and load sessions per workspace', async () => {
+    const saved = session('s1', 'Release checklist', 10, ['How do I release?', 'Run the release script.']);
+
+    const summary = await store.saveSession(notes, saved);
+
+    expect(summary).toEqual({
+      id: 's1',
+      title: 'Release checklist',
+      modelId: 'ollama:llama3',
+      mode: 'ask',
+      createdAt: 1,
+      updatedAt: 10,
+      messageCount: 2
+    });
+    expect(await store.loadSession(notes, 's1')).toEqual(saved);
+    expect(await store.loadSession(code, 's1')).toBeNull();
+    expect(await store.listSessions(code)).toEqual([]);
+  });
+
+  test('should list the most recently updated first and search titles and messages', async () => {
+    await store.saveSession(notes, session('old', 'Parser questions', 10, ['What does parse() return?']));
+    await store.saveSession(notes, session('new', 'Deploy', 20, ['Where is the RELEASE script?']));
+
+    expect((await store.listSessions(notes)).map(summary => summary.id)).toEqual(['new', 'old']);
+    expect((await store.listSessions(notes, 'release')).map(summary => summary.id)).toEqual(['new']);
+    expect((await store.listSessions(notes, 'parser')).map(summary => summary.id)).toEqual(['old']);
+  });
+
+  test('should keep branches and search them', async () => {
+    const saved = session('s1', 'Untitled', 10, ['Explain the parser']);
+    saved.branches = [{ id: 'b1', role: 'user', content: 'Explain the LEXER', timestamp: 5 }];
+
+    await store.saveSession(notes, saved);
+
+    expect((await store.loadSession(notes, 's1'))?.branches).toEqual(saved.branches);
+    expect((await store.listSessions(notes, 'lexer')).map(summary => summary.id)).toEqual(['s1']);
+  });
+
+  test('should rename and delete sessions', async () => {
+    await store.saveSession(notes, session('s1', 'Untitled', 10, ['hi']));
+
+    const renamed = await store.renameSession(notes, 's1', '  Greetings  ');
+
+    expect(renamed?.title).toBe('Greetings');
+    expect((await store.loadSession(notes, 's1'))?.messages).toHaveLength(1);
+    expect(await store.renameSession(notes, 'missing', 'x')).toBeNull();
+    expect(await store.deleteSession(notes, 's1')).toBe(true);
+    expect(await store.deleteSession(notes, 's1')).toBe(false);
+    expect(await store.listSessions(notes)).toEqual([]);
+  });
+
+  test('should skip unreadable files and refuse ids that are paths', async () => {
+    await store.saveSession(notes, session('s1', 'Kept', 10));
+    const chatsDir = path.join(tmp, 'userData', 'chats');
+    const [workspaceDir] = fs.readdirSync(chatsDir);
+    fs.writeFileSync(path.join(chatsDir, workspaceDir, 'broken.json'), '{ not json');
+
+    expect((await store.listSessions(notes)).map(summary => summary.id)).toEqual(['s1']);
+    await expect(store.loadSession(notes, '../../secrets')).rejects.toThrow('Invalid session id');
+  });
+});
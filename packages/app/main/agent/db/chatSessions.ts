@@ -0,0 +1,140 @@
+// Saved chat sessions, one JSON file per session, grouped by workspace under
+// a single base directory (the app's userData in production):
+//   <baseDir>/<name>-<hash>/<sessionId>.json
+// The workspace directory is named the same way as its embeddings index.
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import { ChatSession, ChatSessionSummary } from '../types';
+import { workspaceDirName } from './workspaceIndexes';
+
+const SESSION_VERSION = 1;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface SessionFile extends ChatSession {
+  version: number;
+  workspaceRoot: string;
+}
+
+export class ChatSessionStore {
+  constructor(private baseDir: string) {}
+
+  /**
+   * Sessions of a workspace, most recently updated first. A query keeps
+   * those whose title or messages contain it, ignoring case.
+   */
+  async listSessions(workspaceRoot: string, query?: string): Promise<ChatSessionSummary[]> {
+    const dir = this.workspaceDir(workspaceRoot);
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const needle = query?.trim().toLowerCase();
+    const sessions: ChatSessionSummary[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const session = await this.readSession(path.join(dir, name));
+      if (!session) continue;
+      if (needle && !matches(session, needle)) continue;
+      sessions.push(summarize(session));
+    }
+
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * A session with its messages, or null if it does not exist
+   */
+  async loadSession(workspaceRoot: string, id: string): Promise<ChatSession | null> {
+    const session = await this.readSession(this.sessionPath(workspaceRoot, id));
+    if (!session) return null;
+    const { version: _version, workspaceRoot: _root, ...rest } = session;
+    return rest;
+  }
+
+  /**
+   * Create or replace a session
+   */
+  async saveSession(workspaceRoot: string, session: ChatSession): Promise<ChatSessionSummary> {
+    const filePath = this.sessionPath(workspaceRoot, session.id);
+    const data: SessionFile = {
+      version: SESSION_VERSION,
+      workspaceRoot: path.resolve(workspaceRoot),
+      ...session
+    };
+
+    // Write and rename so a crash mid-write never leaves half a session
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data));
+    await fs.promises.rename(tempPath, filePath);
+    return summarize(data);
+  }
+
+  /**
+   * Change a session's title. Returns null if it does not exist.
+   */
+  async renameSession(workspaceRoot: string, id: string, title: string): Promise<ChatSessionSummary | null> {
+    const session = await this.loadSession(workspaceRoot, id);
+    if (!session) return null;
+    return this.saveSession(workspaceRoot, { ...session, title: title.trim() || session.title });
+  }
+
+  /**
+   * Delete a session. Returns false if it did not exist.
+   */
+  async deleteSession(workspaceRoot: string, id: string): Promise<boolean> {
+    const filePath = this.sessionPath(workspaceRoot, id);
+    try {
+      await fs.promises.unlink(filePath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private workspaceDir(workspaceRoot: string): string {
+    return path.join(this.baseDir, workspaceDirName(workspaceRoot));
+  }
+
+  private sessionPath(workspaceRoot: string, id: string): string {
+    // Ids become file names; refuse anything that could escape the directory
+    if (!SESSION_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid session id: ${id}`);
+    }
+    return path.join(this.workspaceDir(workspaceRoot), `${id}.json`);
+  }
+
+  private async readSession(filePath: string): Promise<SessionFile | null> {
+    try {
+      const data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+      return typeof data.id === 'string' && Array.isArray(data.messages) ? data : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`Skipping unreadable chat session ${filePath}:`, error);
+      }
+      return null;
+    }
+  }
+}
+
+function matches(session: ChatSession, needle: string): boolean {
+  return session.title.toLowerCase().includes(needle) ||
+    [...session.messages, ...(session.branches ?? [])].some(message => message.content.toLowerCase().includes(needle));
+}
+
+function summarize(session: ChatSession): ChatSessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    modelId: session.modelId,
+    mode: session.mode,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.messages.length
+  };
+}
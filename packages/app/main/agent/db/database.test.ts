@@ -0,0 +1,313 @@
+/**
+ * Tests for the append-only embeddings store
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { EmbeddingsDatabase, EmbeddingRecord } from './database';
+
+function createRecord(id: string, filePath: string, vector: number[]): EmbeddingRecord {
+  return {
+    id,
+    path: filePath,
+    chunk: `chunk ${id}`,
+    vector: Buffer.from(new Float32Array(vector).buffer)
+  };
+}
+
+function readVector(record: EmbeddingRecord): number[] {
+  return Array.from(new Float32Array(record.vector.buffer, record.vector.byteOffset, record.vector.length / 4));
+}
+
+describe('EmbeddingsDatabase', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-db-'));
+    dbPath = path.join(dir, 'embeddings.vdb');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should persist inserted embeddings across reopen', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbeddings([
+      createRecord('a', 'src/a.ts', [1, 0, 0]),
+      createRecord('b', 'src/a.ts', [0, 1, 0])
+    ]);
+    await db.close();
+
+    const reopened = new EmbeddingsDatabase(dbPath);
+    await reopened.init();
+    const records = await reopened.getEmbeddingsByPath('src/a.ts');
+
+    expect(records).toHaveLength(2);
+    expect(readVector(records[1])).toEqual([0, 1, 0]);
+    await reopened.close();
+  });
+
+  test('should persist chunk location and symbol metadata', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbedding({
+      ...createRecord('m', 'src/parser.ts', [1, 0]),
+      startLine: 12,
+      endLine: 21,
+      chunkType: 'method',
+      symbolName: 'FileOpsParser.sanitizePath',
+      language: 'typescript',
+      contentHash: 'abc123'
+    });
+    await db.close();
+
+    const reopened = new EmbeddingsDatabase(dbPath);
+    await reopened.init();
+    const [record] = await reopened.searchNearest([1, 0], 1);
+
+    expect(record.record).toMatchObject({
+      startLine: 12,
+      endLine: 21,
+      chunkType: 'method',
+      symbolName: 'FileOpsParser.sanitizePath',
+      language: 'typescript',
+      contentHash: 'abc123'
+    });
+    await reopened.close();
+  });
+
+  test('should replace all chunks of a file in one batch', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.replaceFileEmbeddings({ path: 'a.md', lastModified: 10, size: 5 }, [
+      createRecord('old-1', 'a.md', [1, 0]),
+      createRecord('old-2', 'a.md', [0, 1])
+    ]);
+    await db.replaceFileEmbeddings({ path: 'a.md', lastModified: 20, size: 6 }, [
+      createRecord('new-1', 'a.md', [1, 1])
+    ]);
+
+    const file = await db.getFileRecord('a.md');
+    expect(file?.lastModified).toBe(20);
+    expect(file?.chunkIds).toEqual(['new-1']);
+    expect(await db.getAllEmbeddings()).toHaveLength(1);
+    await db.close();
+  });
+
+  test('should delete embeddings by path', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbeddings([
+      createRecord('a', 'keep.ts', [1, 0]),
+      createRecord('b', 'drop.ts', [0, 1])
+    ]);
+    await db.deleteEmbeddingsByPath('drop.ts');
+
+    const stats = await db.getStats();
+    expect(stats.totalEmbeddings).toBe(1);
+    expect(stats.uniqueFiles).toBe(1);
+    expect(await db.getFileRecord('drop.ts')).toBeNull();
+    await db.close();
+  });
+
+  test('should move chunks to a new path on rename', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.replaceFileEmbeddings({ path: 'old.ts', lastModified: 1, size: 3 }, [
+      createRecord('r1', 'old.ts', [1, 0])
+    ]);
+    await db.renameFile('old.ts', { path: 'new.ts', lastModified: 2, size: 3 });
+    await db.close();
+
+    const reopened = new EmbeddingsDatabase(dbPath);
+    await reopened.init();
+    expect(await reopened.getFileRecord('old.ts')).toBeNull();
+    expect((await reopened.getFileRecord('new.ts'))?.lastModified).toBe(2);
+    const records = await reopened.getEmbeddingsByPath('new.ts');
+    expect(records.map(r => [r.id, r.path])).toEqual([['r1', 'new.ts']]);
+    await reopened.close();
+  });
+
+  test('should discard an uncommitted tail written before a crash', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbedding(createRecord('a', 'a.ts', [1, 0]));
+    await db.close();
+
+    const committedSize = fs.statSync(dbPath).size;
+    // Half a frame prefix, as if the process died mid-write
+    fs.appendFileSync(dbPath, Buffer.from([42, 0, 0]));
+
+    const reopened = new EmbeddingsDatabase(dbPath);
+    await reopened.init();
+    expect(await reopened.getAllEmbeddings()).toHaveLength(1);
+    expect(fs.statSync(dbPath).size).toBe(committedSize);
+    await reopened.close();
+  });
+
+  test('should return nearest neighbours by cosine similarity', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbeddings([
+      createRecord('x', 'x.ts', [1, 0, 0]),
+      createRecord('y', 'y.ts', [0, 1, 0]),
+      createRecord('xy', 'xy.ts', [0.7, 0.7, 0])
+    ]);
+
+    const results = await db.searchNearest([1, 0.1, 0], 2);
+
+    expect(results.map(r => r.record.id)).toEqual(['x', 'xy']);
+    expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+    await db.close();
+  });
+
+  test('should find chunks by keyword and drop them when deleted', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbeddings([
+      { ...createRecord('p', 'parser.ts', [1, 0]), chunk: 'static sanitizePath(input: string)' },
+      { ...createRecord('t', 'tree.ts', [0, 1]), chunk: 'function renderTree(nodes)' }
+    ]);
+
+    expect((await db.searchKeyword('sanitizePath')).map(r => r.record.id)).toEqual(['p']);
+
+    await db.deleteEmbeddingsByPath('parser.ts');
+    expect(await db.searchKeyword('sanitizePath')).toEqual([]);
+    await db.close();
+  });
+
+  test('should apply a record filter before taking the top results', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbeddings([
+      { ...createRecord('code', 'src/deploy.ts', [1, 0]), chunk: 'deploy the server' },
+      { ...createRecord('note', 'notes/deploy.md', [0.6, 0.8]), chunk: 'deploy checklist', tags: ['ops'] }
+    ]);
+    const notesOnly = (record: Omit<EmbeddingRecord, 'vector'>) => !!record.tags?.includes('ops');
+
+    expect((await db.searchNearest([1, 0], 1, notesOnly)).map(r => r.record.id)).toEqual(['note']);
+    expect((await db.searchKeyword('deploy', 1, notesOnly)).map(r => r.record.id)).toEqual(['note']);
+    await db.close();
+  });
+
+  test('should refuse vectors of another dimension', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbedding(createRecord('a', 'a.ts', [1, 0]));
+
+    await expect(db.insertEmbedding(createRecord('b', 'b.ts', [1, 0, 0]))).rejects.toThrow('re-embed the index');
+    expect((await db.getStats()).totalEmbeddings).toBe(1);
+    expect(await db.getFileRecord('b.ts')).toBeNull();
+    await db.close();
+  });
+
+  test('should count stored vectors the index cannot search', async () => {
+    fs.writeFileSync(path.join(dir, 'embeddings.json'), JSON.stringify({
+      embeddings: [
+        { id: 'l1', path: 'a.md', chunk: 'first', vector: Buffer.from(new Float32Array([1, 0]).buffer) },
+        { id: 'l2', path: 'b.md', chunk: 'second', vector: Buffer.from(new Float32Array([1, 0, 0]).buffer) }
+      ]
+    }));
+
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+
+    expect((await db.getStats()).unindexedChunks).toBe(1);
+    expect((await db.searchNearest([1, 0], 5)).map(r => r.record.id)).toEqual(['l1']);
+    await db.deleteEmbeddingsByPath('b.md');
+    expect((await db.getStats()).unindexedChunks).toBe(0);
+    await db.close();
+  });
+
+  test('should migrate a legacy embeddings.json once', async () => {
+    const legacyPath = path.join(dir, 'embeddings.json');
+    const vector = Buffer.from(new Float32Array([0.5, 0.5]).buffer);
+    fs.writeFileSync(legacyPath, JSON.stringify({
+      embeddings: [
+        { id: 'l1', path: 'notes/a.md', chunk: 'hello', vector, updated_at: '2024-01-01T00:00:00.000Z' }
+      ]
+    }));
+
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+
+    const records = await db.getEmbeddingsByPath('notes/a.md');
+    expect(records).toHaveLength(1);
+    expect(readVector(records[0])).toEqual([0.5, 0.5]);
+    expect((await db.getFileRecord('notes/a.md'))?.lastModified).toBe(Date.parse('2024-01-01T00:00:00.000Z'));
+    expect(fs.existsSync(legacyPath)).toBe(false);
+    expect(fs.existsSync(`${legacyPath}.migrated`)).toBe(true);
+    await db.close();
+  });
+
+  test('should compact away replaced frames', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    for (let i = 0; i < 5; i++) {
+      await db.replaceFileEmbeddings({ path: 'a.ts', lastModified: i, size: 1 }, [
+        createRecord(`a-${i}`, 'a.ts', [i, 1])
+      ]);
+    }
+    const before = fs.statSync(dbPath).size;
+
+    await db.compact();
+
+    expect(fs.statSync(dbPath).size).toBeLessThan(before);
+    expect((await db.getFileRecord('a.ts'))?.chunkIds).toEqual(['a-4']);
+    await db.close();
+
+    const reopened = new EmbeddingsDatabase(dbPath);
+    await reopened.init();
+    expect(await reopened.getAllEmbeddings()).toHaveLength(1);
+    await reopened.close();
+  });
+
+  test('should keep index metadata through compaction and drop it on clear', async () => {
+    const metadata = { embeddingModel: 'nomic-embed-text', dimension: 2, chunkerVersion: 2 };
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.setMetadata(metadata);
+    await db.insertEmbedding(createRecord('a', 'a.ts', [1, 0]));
+    await db.compact();
+    await db.close();
+
+    const reopened = new EmbeddingsDatabase(dbPath);
+    await reopened.init();
+    expect(await reopened.getMetadata()).toEqual(metadata);
+    expect((await reopened.getStats()).dimension).toBe(2);
+
+    await reopened.clearAllEmbeddings();
+    expect(await reopened.getMetadata()).toBeNull();
+    await reopened.close();
+  });
+
+  test('should replace the store with another store file', async () => {
+    const db = new EmbeddingsDatabase(dbPath);
+    await db.init();
+    await db.insertEmbedding(createRecord('old', 'a.ts', [1, 0]));
+
+    const nextPath = path.join(dir, 'embeddings.reembed.vdb');
+    const next = new EmbeddingsDatabase(nextPath);
+    await next.init();
+    await next.setMetadata({ embeddingModel: 'mxbai-embed-large', dimension: 3, chunkerVersion: 2 });
+    await next.insertEmbedding(createRecord('new', 'a.ts', [0, 0, 1]));
+    await next.close();
+
+    await db.replaceWith(nextPath);
+    await db.insertEmbedding(createRecord('later', 'b.ts', [0, 1, 0]));
+
+    expect(fs.existsSync(nextPath)).toBe(false);
+    expect((await db.getMetadata())?.embeddingModel).toBe('mxbai-embed-large');
+    expect((await db.getAllEmbeddings()).map(record => record.id).sort()).toEqual(['later', 'new']);
+    await db.close();
+
+    const reopened = new EmbeddingsDatabase(dbPath);
+    await reopened.init();
+    expect(await reopened.getAllEmbeddings()).toHaveLength(2);
+    await reopened.close();
+  });
+});
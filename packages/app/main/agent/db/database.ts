@@ -1,124 +1,844 @@
-// Main process database implementation using SQLite
+// Main process embeddings store: append-only binary log with an ANN index
+// and a BM25 keyword index over the chunk text
+//
+// The log holds three logical tables:
+//   files   - one row per indexed file (path, mtime, size, chunk ids)
+//   chunks  - one row per chunk (id, path, text, timestamps)
+//   vectors - the float32 embedding of each chunk, stored as raw bytes
+// plus a metadata row naming the embedding model and chunker that made them.
+//
+// Each write is a batch of frames followed by a COMMIT frame, appended with a
+// single write call. On open the log is replayed into memory; a trailing
+// batch without its COMMIT (a crash mid-write) is discarded and truncated.
+//
+// Frame layout: [u32 header bytes][u32 vector bytes][JSON header][vector]
 import * as path from 'node:path';
 import * as fs from 'node:fs';
+import { IvfVectorIndex, VectorIndexOptions } from './vectorIndex';
+import { KeywordIndex } from './keywordIndex';
 
 export interface EmbeddingRecord {
   id: string;
   path: string;
   chunk: string;
   vector: Buffer;
+  /** 1-based line range of the chunk in its file */
+  startLine?: number;
+  endLine?: number;
+  /** Chunker kind, e.g. 'function', 'method', 'class', 'text' */
+  chunkType?: string;
+  /** Qualified symbol name when the chunk is a declaration */
+  symbolName?: string;
+  /** Language id of the source file, e.g. 'typescript' */
+  language?: string;
+  /** Markdown heading breadcrumb, e.g. `Setup > Ollama > Models` */
+  headingPath?: string;
+  /** Front-matter of the note the chunk comes from */
+  title?: string;
+  tags?: string[];
+  date?: string;
+  /** sha256 of the chunk text */
+  contentHash?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+export interface FileRecord {
+  path: string;
+  lastModified: number;
+  size: number;
+  /** sha256 of the file content the chunks were embedded from */
+  contentHash?: string;
+  chunkIds: string[];
+  updated_at?: string;
+}
+
+export interface DatabaseStats {
+  totalEmbeddings: number;
+  uniqueFiles: number;
+  sizeBytes: number;
+  /** Length of the stored vectors; null when the store is empty */
+  dimension: number | null;
+  /**
+   * Chunks whose vector has another length than the rest, e.g. written by
+   * an older version. Only keyword search finds them until re-embedded.
+   */
+  unindexedChunks: number;
+}
+
+/**
+ * How the stored vectors were made. Vectors from a different model, or
+ * chunks from a different chunker, must not be mixed into the same store.
+ */
+export interface IndexMetadata {
+  embeddingModel: string;
+  dimension: number;
+  chunkerVersion: number;
+}
+
+type ChunkRow = Omit<EmbeddingRecord, 'vector'>;
+
+/**
+ * Restricts a search to chunks it returns true for. Applied before the
+ * top results are picked, so a narrow filter still fills the limit.
+ */
+export type RecordFilter = (record: Omit<EmbeddingRecord, 'vector'>) => boolean;
+
+type LogOp =
+  | { op: 'file'; path: string; lastModified: number; size: number; contentHash?: string; updated_at: string }
+  | ({ op: 'chunk' } & ChunkRow)
+  | { op: 'deleteFile'; path: string }
+  | { op: 'renameFile'; from: string; to: string }
+  | { op: 'clear' }
+  | ({ op: 'meta' } & IndexMetadata)
+  | { op: 'commit'; tx: number };
+
+interface PendingFrame {
+  header: LogOp;
+  vector?: Buffer;
+}
+
+const LOG_MAGIC = Buffer.from('LVDB0001', 'ascii');
+const FRAME_PREFIX_BYTES = 8;
+
+// Rewrite the log once dead frames make up this share of it
+const COMPACTION_RATIO = 0.5;
+const COMPACTION_MIN_BYTES = 1024 * 1024;
+
 export class EmbeddingsDatabase {
   private dbPath: string;
-  private db: any; // Will hold the database instance
+  private legacyJsonPath: string;
+  private db: fs.promises.FileHandle | null = null;
+  private initPromise: Promise<void> | null = null;
 
-  constructor(dbPath: string = './agent/db/embeddings.sqlite') {
-    this.dbPath = path.resolve(dbPath);
+  private files: Map<string, FileRecord> = new Map();
+  private chunks: Map<string, ChunkRow> = new Map();
+  private vectors: Map<string, Float32Array> = new Map();
+  private unindexed: Set<string> = new Set();
+  private index: IvfVectorIndex;
+  private keywords: KeywordIndex = new KeywordIndex();
+  private metadata: IndexMetadata | null = null;
+
+  private logBytes = 0;
+  private liveBytes = 0;
+  private frameBytes: Map<string, number> = new Map();
+  private nextTx = 1;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dbPath: string = './agent/db/embeddings.vdb', indexOptions: VectorIndexOptions = {}) {
+    const resolved = path.resolve(dbPath);
+    const base = resolved.slice(0, resolved.length - path.extname(resolved).length);
+    this.dbPath = `${base}.vdb`;
+    this.legacyJsonPath = `${base}.json`;
+    this.index = new IvfVectorIndex(indexOptions);
   }
 
+  /**
+   * Open the store, replay the log and migrate a legacy embeddings.json.
+   * Safe to call more than once; later calls reuse the first open.
+   */
   async init(): Promise<void> {
-    try {
-      // Ensure directory exists
-      const dbDir = path.dirname(this.dbPath);
-      if (!fs.existsSync(dbDir)) {
-        fs.mkdirSync(dbDir, { recursive: true });
-      }
-
-      // For now, we'll use a simple JSON file-based storage
-      // In a production environment, you'd want to use better-sqlite3 or similar
-      await this.initJsonStorage();
-    } catch (error) {
-      console.error('Failed to initialize embeddings database:', error);
-      throw error;
+    if (!this.initPromise) {
+      this.initPromise = this.open().catch(error => {
+        this.initPromise = null;
+        console.error('Failed to initialize embeddings database:', error);
+        throw error;
+      });
     }
+    return this.initPromise;
   }
 
-  private async initJsonStorage(): Promise<void> {
-    // Create embeddings.json file if it doesn't exist
-    const jsonPath = this.dbPath.replace('.sqlite', '.json');
-    if (!fs.existsSync(jsonPath)) {
-      fs.writeFileSync(jsonPath, JSON.stringify({ embeddings: [] }, null, 2));
+  private async open(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.dbPath), { recursive: true });
+
+    const isNew = !fs.existsSync(this.dbPath);
+    if (isNew) {
+      await fs.promises.writeFile(this.dbPath, LOG_MAGIC);
+    } else {
+      await this.replay();
+    }
+
+    this.db = await fs.promises.open(this.dbPath, 'a');
+
+    if (isNew && fs.existsSync(this.legacyJsonPath)) {
+      await this.migrateLegacyJson();
     }
   }
 
   async close(): Promise<void> {
-    // JSON storage doesn't need closing
+    if (!this.db) {
+      this.initPromise = null;
+      return;
+    }
+
+    await this.writeQueue;
+    if (this.needsCompaction()) {
+      await this.compact();
+    }
+    await this.db.close();
     this.db = null;
+    this.initPromise = null;
   }
 
   async insertEmbedding(record: EmbeddingRecord): Promise<void> {
-    try {
-      const jsonPath = this.dbPath.replace('.sqlite', '.json');
-      const data = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
-      
-      // Add timestamps
-      record.created_at = new Date().toISOString();
-      record.updated_at = new Date().toISOString();
-      
-      data.embeddings.push(record);
-      fs.writeFileSync(jsonPath, JSON.stringify(data, null, 2));
-    } catch (error) {
-      console.error('Failed to insert embedding:', error);
-      throw error;
+    return this.insertEmbeddings([record]);
+  }
+
+  /**
+   * Insert a batch of embeddings atomically
+   */
+  async insertEmbeddings(records: EmbeddingRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const now = new Date().toISOString();
+    await this.commit(records.map(record => this.chunkFrame(record, now)));
+  }
+
+  /**
+   * Atomically replace everything stored for a file: its row, chunks and vectors
+   */
+  async replaceFileEmbeddings(
+    file: Omit<FileRecord, 'chunkIds' | 'updated_at'>,
+    records: EmbeddingRecord[]
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.commit([
+      { header: { op: 'deleteFile', path: file.path } },
+      {
+        header: {
+          op: 'file',
+          path: file.path,
+          lastModified: file.lastModified,
+          size: file.size,
+          contentHash: file.contentHash,
+          updated_at: now
+        }
+      },
+      ...records.map(record => this.chunkFrame({ ...record, path: file.path }, now))
+    ]);
+  }
+
+  /**
+   * Update a file's row, e.g. its mtime after a touch that left the
+   * content unchanged. Its chunks are kept.
+   */
+  async updateFileRecord(file: Omit<FileRecord, 'chunkIds' | 'updated_at'>): Promise<void> {
+    if (!this.files.has(file.path)) {
+      throw new Error(`No indexed file at ${file.path}`);
     }
+    await this.commit([{
+      header: {
+        op: 'file',
+        path: file.path,
+        lastModified: file.lastModified,
+        size: file.size,
+        contentHash: file.contentHash,
+        updated_at: new Date().toISOString()
+      }
+    }]);
   }
 
-  async getEmbeddingsByPath(filePath: string): Promise<EmbeddingRecord[]> {
-    try {
-      const jsonPath = this.dbPath.replace('.sqlite', '.json');
-      if (!fs.existsSync(jsonPath)) {
-        return [];
+  /**
+   * Get the files-table row for a path
+   */
+  async getFileRecord(filePath: string): Promise<FileRecord | null> {
+    const file = this.files.get(filePath);
+    return file ? { ...file, chunkIds: [...file.chunkIds] } : null;
+  }
+
+  /**
+   * Paths of every file in the files table
+   */
+  async getIndexedPaths(): Promise<string[]> {
+    return Array.from(this.files.keys());
+  }
+
+  /**
+   * Move a file's row, chunks and vectors to a new path without re-embedding.
+   * Anything already stored under the new path is replaced. Pass `chunkIds`,
+   * one per stored chunk in order, when ids are derived from the path, so
+   * a later file at the old path cannot reuse them.
+   */
+  async renameFile(
+    fromPath: string,
+    file: Omit<FileRecord, 'chunkIds' | 'updated_at'>,
+    chunkIds?: string[]
+  ): Promise<void> {
+    const existing = this.files.get(fromPath);
+    if (!existing) {
+      throw new Error(`No indexed file at ${fromPath}`);
+    }
+
+    if (chunkIds) {
+      if (chunkIds.length !== existing.chunkIds.length) {
+        throw new Error(`Expected ${existing.chunkIds.length} chunk ids for ${fromPath}, got ${chunkIds.length}`);
       }
-      
-      const data = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
-      return data.embeddings.filter((record: EmbeddingRecord) => record.path === filePath);
-    } catch (error) {
-      console.error('Failed to get embeddings by path:', error);
+      // Rewrite the chunks under their new ids, keeping the stored vectors
+      const now = new Date().toISOString();
+      const moved: PendingFrame[] = [];
+      existing.chunkIds.forEach((id, i) => {
+        const record = this.toRecord(id);
+        if (!record) return;
+        const { vector, ...row } = record;
+        moved.push({ header: { op: 'chunk', ...row, id: chunkIds[i], path: file.path, updated_at: now }, vector });
+      });
+
+      await this.commit([
+        { header: { op: 'deleteFile', path: file.path } },
+        { header: { op: 'deleteFile', path: fromPath } },
+        {
+          header: {
+            op: 'file',
+            path: file.path,
+            lastModified: file.lastModified,
+            size: file.size,
+            contentHash: file.contentHash ?? existing.contentHash,
+            updated_at: now
+          }
+        },
+        ...moved
+      ]);
+      return;
+    }
+
+    await this.commit([
+      { header: { op: 'deleteFile', path: file.path } },
+      { header: { op: 'renameFile', from: fromPath, to: file.path } },
+      {
+        header: {
+          op: 'file',
+          path: file.path,
+          lastModified: file.lastModified,
+          size: file.size,
+          // A rename found by matching chunks keeps the content it was embedded from
+          contentHash: file.contentHash ?? existing.contentHash,
+          updated_at: new Date().toISOString()
+        }
+      }
+    ]);
+  }
+
+  async getEmbeddingsByPath(filePath: string): Promise<EmbeddingRecord[]> {
+    const file = this.files.get(filePath);
+    if (!file) {
       return [];
     }
+    return file.chunkIds
+      .map(id => this.toRecord(id))
+      .filter((record): record is EmbeddingRecord => record !== null);
   }
 
   async deleteEmbeddingsByPath(filePath: string): Promise<void> {
-    try {
-      const jsonPath = this.dbPath.replace('.sqlite', '.json');
-      if (!fs.existsSync(jsonPath)) {
-        return;
-      }
-      
-      const data = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
-      data.embeddings = data.embeddings.filter((record: EmbeddingRecord) => record.path !== filePath);
-      fs.writeFileSync(jsonPath, JSON.stringify(data, null, 2));
-    } catch (error) {
-      console.error('Failed to delete embeddings by path:', error);
-      throw error;
+    if (!this.files.has(filePath)) {
+      return;
     }
+    await this.commit([{ header: { op: 'deleteFile', path: filePath } }]);
   }
 
   async getAllEmbeddings(): Promise<EmbeddingRecord[]> {
-    try {
-      const jsonPath = this.dbPath.replace('.sqlite', '.json');
-      if (!fs.existsSync(jsonPath)) {
-        return [];
+    return Array.from(this.chunks.keys())
+      .map(id => this.toRecord(id))
+      .filter((record): record is EmbeddingRecord => record !== null);
+  }
+
+  /**
+   * Clear every row, including the metadata
+   */
+  async clearAllEmbeddings(): Promise<void> {
+    await this.commit([{ header: { op: 'clear' } }]);
+  }
+
+  /**
+   * Model, dimension and chunker version of the stored vectors, or null
+   * for an empty store or one written before metadata was recorded
+   */
+  async getMetadata(): Promise<IndexMetadata | null> {
+    return this.metadata ? { ...this.metadata } : null;
+  }
+
+  async setMetadata(metadata: IndexMetadata): Promise<void> {
+    await this.commit([{ header: { op: 'meta', ...metadata } }]);
+  }
+
+  /**
+   * Replace this store with another closed store file, e.g. one rebuilt
+   * with a new embedding model. The file is moved into place and replayed.
+   */
+  async replaceWith(sourcePath: string): Promise<void> {
+    await this.init();
+    await this.enqueue(async () => {
+      await this.db?.close();
+      this.db = null;
+      try {
+        await fs.promises.rename(sourcePath, this.dbPath);
+      } finally {
+        this.apply({ op: 'clear' }, undefined, 0);
+        await this.replay();
+        this.db = await fs.promises.open(this.dbPath, 'a');
+      }
+    });
+  }
+
+  /**
+   * Approximate nearest-neighbour search by cosine similarity
+   */
+  async searchNearest(queryVector: number[], limit: number = 10, filter?: RecordFilter): Promise<Array<{
+    record: EmbeddingRecord;
+    similarity: number;
+  }>> {
+    return this.index
+      .search(queryVector, limit, this.acceptIds(filter))
+      .map(hit => ({ record: this.toRecord(hit.id), similarity: hit.similarity }))
+      .filter((result): result is { record: EmbeddingRecord; similarity: number } => result.record !== null);
+  }
+
+  /**
+   * BM25 keyword search over the chunk text
+   */
+  async searchKeyword(query: string, limit: number = 10, filter?: RecordFilter): Promise<Array<{
+    record: EmbeddingRecord;
+    score: number;
+  }>> {
+    return this.keywords
+      .search(query, limit, this.acceptIds(filter))
+      .map(hit => ({ record: this.toRecord(hit.id), score: hit.score }))
+      .filter((result): result is { record: EmbeddingRecord; score: number } => result.record !== null);
+  }
+
+  /**
+   * Cosine similarity of the query against specific chunks
+   */
+  async scoreSimilarity(ids: string[], queryVector: number[]): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    for (const id of ids) {
+      const similarity = this.index.similarity(id, queryVector);
+      if (similarity !== null) {
+        scores.set(id, similarity);
       }
-      
-      const data = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
-      return data.embeddings || [];
-    } catch (error) {
-      console.error('Failed to get all embeddings:', error);
-      return [];
     }
+    return scores;
   }
 
-  async clearAllEmbeddings(): Promise<void> {
+  async getStats(): Promise<DatabaseStats> {
+    return {
+      totalEmbeddings: this.chunks.size,
+      uniqueFiles: this.files.size,
+      sizeBytes: this.logBytes,
+      dimension: this.vectors.values().next().value?.length ?? null,
+      unindexedChunks: this.unindexed.size
+    };
+  }
+
+  /**
+   * Rewrite the log with only live rows, dropping deleted and replaced frames
+   */
+  async compact(): Promise<void> {
+    await this.enqueue(async () => {
+      const frames: PendingFrame[] = [];
+      if (this.metadata) {
+        frames.push({ header: { op: 'meta', ...this.metadata } });
+      }
+      for (const file of this.files.values()) {
+        frames.push({
+          header: {
+            op: 'file',
+            path: file.path,
+            lastModified: file.lastModified,
+            size: file.size,
+            contentHash: file.contentHash,
+            updated_at: file.updated_at || new Date().toISOString()
+          }
+        });
+        for (const id of file.chunkIds) {
+          const chunk = this.chunks.get(id);
+          const vector = this.vectors.get(id);
+          if (chunk && vector) {
+            frames.push({ header: { op: 'chunk', ...chunk }, vector: vectorBytes(vector) });
+          }
+        }
+      }
+      frames.push({ header: { op: 'commit', tx: this.nextTx++ } });
+
+      const encoded = frames.map(encodeFrame);
+      const body = Buffer.concat([LOG_MAGIC, ...encoded]);
+      const tempPath = `${this.dbPath}.compact`;
+      await fs.promises.writeFile(tempPath, body);
+
+      await this.db?.close();
+      await fs.promises.rename(tempPath, this.dbPath);
+      this.db = await fs.promises.open(this.dbPath, 'a');
+
+      this.logBytes = body.length;
+      this.liveBytes = body.length;
+      this.frameBytes.clear();
+      frames.forEach(({ header }, i) => {
+        if (header.op === 'meta') {
+          this.frameBytes.set('meta', encoded[i].length);
+        } else if (header.op === 'file') {
+          this.frameBytes.set(`file:${header.path}`, encoded[i].length);
+        } else if (header.op === 'chunk') {
+          this.frameBytes.set(`chunk:${header.id}`, encoded[i].length);
+        }
+      });
+    });
+  }
+
+  /**
+   * Build a chunk frame for a record, stamping its timestamps
+   */
+  private chunkFrame(record: EmbeddingRecord, now: string): PendingFrame {
+    const existing = this.chunks.get(record.id);
+    const { vector, ...row } = record;
+    return {
+      header: {
+        op: 'chunk',
+        ...row,
+        created_at: existing?.created_at || now,
+        updated_at: now
+      },
+      vector
+    };
+  }
+
+  /**
+   * Append a batch of frames plus a COMMIT frame, then apply it in memory
+   */
+  private async commit(frames: PendingFrame[]): Promise<void> {
+    await this.init();
+    this.checkVectorDimensions(frames);
+    await this.append(frames);
+  }
+
+  /**
+   * Refuse vectors the ANN index would reject, so no chunk is stored where
+   * vector search can never find it
+   */
+  private checkVectorDimensions(frames: PendingFrame[]): void {
+    let expected = this.index.vectorDimension;
+    for (const { header, vector } of frames) {
+      if (header.op === 'clear') {
+        expected = null;
+      }
+      if (header.op !== 'chunk' || !vector) continue;
+
+      const dimension = vector.length / Float32Array.BYTES_PER_ELEMENT;
+      if (expected === null) {
+        expected = dimension;
+      } else if (dimension !== expected) {
+        throw new Error(
+          `Chunk ${header.id} has a ${dimension}-dimensional vector but the index holds ${expected}; re-embed the index`
+        );
+      }
+    }
+  }
+
+  private async append(frames: PendingFrame[]): Promise<void> {
+    await this.enqueue(async () => {
+      if (!this.db) {
+        throw new Error('Embeddings database is closed');
+      }
+
+      const batch = [...frames, { header: { op: 'commit', tx: this.nextTx++ } as LogOp }];
+      const encoded = batch.map(encodeFrame);
+      const body = Buffer.concat(encoded);
+
+      await this.db.write(body);
+      this.logBytes += body.length;
+
+      frames.forEach((frame, i) => this.apply(frame.header, frame.vector, encoded[i].length));
+    });
+  }
+
+  /**
+   * Serialize writes so batches never interleave in the log
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Load the log into memory, discarding and truncating an uncommitted tail
+   */
+  private async replay(): Promise<void> {
+    const data = await fs.promises.readFile(this.dbPath);
+    if (data.length < LOG_MAGIC.length || !data.subarray(0, LOG_MAGIC.length).equals(LOG_MAGIC)) {
+      throw new Error(`Not an embeddings store: ${this.dbPath}`);
+    }
+
+    let offset = LOG_MAGIC.length;
+    let committedOffset = offset;
+    let pending: Array<{ header: LogOp; vector?: Buffer; size: number }> = [];
+
+    while (offset + FRAME_PREFIX_BYTES <= data.length) {
+      const headerBytes = data.readUInt32LE(offset);
+      const vectorByteCount = data.readUInt32LE(offset + 4);
+      const frameEnd = offset + FRAME_PREFIX_BYTES + headerBytes + vectorByteCount;
+      if (frameEnd > data.length) break;
+
+      let header: LogOp;
+      try {
+        const headerStart = offset + FRAME_PREFIX_BYTES;
+        header = JSON.parse(data.toString('utf8', headerStart, headerStart + headerBytes));
+      } catch {
+        break;
+      }
+
+      const vector = vectorByteCount > 0
+        ? Buffer.from(data.subarray(frameEnd - vectorByteCount, frameEnd))
+        : undefined;
+      const size = frameEnd - offset;
+      offset = frameEnd;
+
+      if (header.op === 'commit') {
+        pending.forEach(frame => this.apply(frame.header, frame.vector, frame.size));
+        pending = [];
+        committedOffset = offset;
+        this.nextTx = Math.max(this.nextTx, header.tx + 1);
+      } else {
+        pending.push({ header, vector, size });
+      }
+    }
+
+    if (committedOffset < data.length) {
+      console.warn(`Discarding ${data.length - committedOffset} bytes of uncommitted embeddings log`);
+      await fs.promises.truncate(this.dbPath, committedOffset);
+    }
+
+    this.logBytes = committedOffset;
+  }
+
+  /**
+   * Apply one logged operation to the in-memory tables and index
+   */
+  private apply(op: LogOp, vector: Buffer | undefined, frameSize: number): void {
+    switch (op.op) {
+      case 'file': {
+        const existing = this.files.get(op.path);
+        this.trackFrame(`file:${op.path}`, frameSize);
+        this.files.set(op.path, {
+          path: op.path,
+          lastModified: op.lastModified,
+          size: op.size,
+          contentHash: op.contentHash,
+          chunkIds: existing?.chunkIds || [],
+          updated_at: op.updated_at
+        });
+        break;
+      }
+      case 'chunk': {
+        if (!vector) break;
+        const { op: _op, ...row } = op;
+        if (this.chunks.has(row.id)) {
+          this.removeChunk(row.id);
+        }
+
+        this.chunks.set(row.id, row);
+        const floats = bufferToFloats(vector);
+        this.vectors.set(row.id, floats);
+        if (!this.index.add(row.id, floats)) {
+          // Only reachable when replaying a log written before writes were checked
+          this.unindexed.add(row.id);
+        }
+        // Headings are searchable even when a chunk no longer repeats them
+        this.keywords.add(row.id, row.headingPath ? `${row.headingPath}\n${row.chunk}` : row.chunk);
+
+        let file = this.files.get(row.path);
+        if (!file) {
+          file = { path: row.path, lastModified: 0, size: 0, chunkIds: [] };
+          this.files.set(row.path, file);
+        }
+        file.chunkIds.push(row.id);
+        this.trackFrame(`chunk:${row.id}`, frameSize);
+        break;
+      }
+      case 'deleteFile': {
+        const file = this.files.get(op.path);
+        if (file) {
+          file.chunkIds.forEach(id => this.removeChunk(id));
+          this.files.delete(op.path);
+          this.trackFrame(`file:${op.path}`, 0);
+        }
+        break;
+      }
+      case 'renameFile': {
+        const file = this.files.get(op.from);
+        if (!file || op.from === op.to) break;
+
+        this.files.delete(op.from);
+        this.files.set(op.to, { ...file, path: op.to });
+        for (const id of file.chunkIds) {
+          const row = this.chunks.get(id);
+          if (row) {
+            row.path = op.to;
+          }
+        }
+        // The file frame written with the rename supersedes the old one
+        this.trackFrame(`file:${op.from}`, 0);
+        break;
+      }
+      case 'meta': {
+        const { op: _op, ...metadata } = op;
+        this.metadata = metadata;
+        this.trackFrame('meta', frameSize);
+        break;
+      }
+      case 'clear':
+        this.metadata = null;
+        this.files.clear();
+        this.chunks.clear();
+        this.vectors.clear();
+        this.unindexed.clear();
+        this.index.clear();
+        this.keywords.clear();
+        this.frameBytes.clear();
+        this.liveBytes = 0;
+        break;
+    }
+  }
+
+  /**
+   * Record the log bytes backing a live row; 0 marks the row as dead
+   */
+  private trackFrame(key: string, size: number): void {
+    this.liveBytes += size - (this.frameBytes.get(key) || 0);
+    if (size > 0) {
+      this.frameBytes.set(key, size);
+    } else {
+      this.frameBytes.delete(key);
+    }
+  }
+
+  private removeChunk(id: string): void {
+    const row = this.chunks.get(id);
+    if (!row) return;
+
+    this.chunks.delete(id);
+    this.vectors.delete(id);
+    this.unindexed.delete(id);
+    this.index.remove(id);
+    this.keywords.remove(id);
+    this.trackFrame(`chunk:${id}`, 0);
+
+    const file = this.files.get(row.path);
+    if (file) {
+      file.chunkIds = file.chunkIds.filter(chunkId => chunkId !== id);
+    }
+  }
+
+  private acceptIds(filter?: RecordFilter): ((id: string) => boolean) | undefined {
+    if (!filter) return undefined;
+    return id => {
+      const row = this.chunks.get(id);
+      return !!row && filter(row);
+    };
+  }
+
+  private toRecord(id: string): EmbeddingRecord | null {
+    const row = this.chunks.get(id);
+    const vector = this.vectors.get(id);
+    if (!row || !vector) {
+      return null;
+    }
+    return { ...row, vector: vectorBytes(vector) };
+  }
+
+  private needsCompaction(): boolean {
+    const deadBytes = this.logBytes - this.liveBytes;
+    return this.logBytes > COMPACTION_MIN_BYTES && deadBytes / this.logBytes > COMPACTION_RATIO;
+  }
+
+  /**
+   * One-time import of the old JSON store. The JSON file is renamed to
+   * `.migrated` afterwards so it is never imported twice.
+   */
+  private async migrateLegacyJson(): Promise<void> {
     try {
-      const jsonPath = this.dbPath.replace('.sqlite', '.json');
-      fs.writeFileSync(jsonPath, JSON.stringify({ embeddings: [] }, null, 2));
+      const raw = await fs.promises.readFile(this.legacyJsonPath, 'utf8');
+      const data = JSON.parse(raw) as {
+        embeddings?: Array<Omit<EmbeddingRecord, 'vector'> & { vector: unknown }>;
+      };
+      const legacy = data.embeddings || [];
+
+      const byPath = new Map<string, EmbeddingRecord[]>();
+      for (const entry of legacy) {
+        const vector = legacyVectorToBuffer(entry.vector);
+        if (!vector) continue;
+        const records = byPath.get(entry.path) || [];
+        records.push({ ...entry, vector });
+        byPath.set(entry.path, records);
+      }
+
+      const frames: PendingFrame[] = [];
+      for (const [filePath, records] of byPath) {
+        // Treat the file as indexed at its newest chunk so unchanged files are not re-embedded
+        const lastModified = Math.max(
+          0,
+          ...records.map(record => Date.parse(record.updated_at || '') || 0)
+        );
+        const now = new Date().toISOString();
+        frames.push({
+          header: { op: 'file', path: filePath, lastModified, size: 0, updated_at: now }
+        });
+        for (const record of records) {
+          frames.push({
+            header: {
+              op: 'chunk',
+              id: record.id,
+              path: filePath,
+              chunk: record.chunk,
+              created_at: record.created_at || now,
+              updated_at: record.updated_at || now
+            },
+            vector: record.vector
+          });
+        }
+      }
+
+      if (frames.length > 0) {
+        // Called from open(), so append directly rather than waiting on init()
+        await this.append(frames);
+      }
+      await fs.promises.rename(this.legacyJsonPath, `${this.legacyJsonPath}.migrated`);
+      console.log(`Migrated ${this.chunks.size} embeddings from ${this.legacyJsonPath}`);
     } catch (error) {
-      console.error('Failed to clear all embeddings:', error);
-      throw error;
+      console.warn('Failed to migrate legacy embeddings.json:', error);
     }
   }
-} 
\ No newline at end of file
+}
+
+function encodeFrame(frame: PendingFrame): Buffer {
+  const header = Buffer.from(JSON.stringify(frame.header), 'utf8');
+  const vector = frame.vector || Buffer.alloc(0);
+  const prefix = Buffer.alloc(FRAME_PREFIX_BYTES);
+  prefix.writeUInt32LE(header.length, 0);
+  prefix.writeUInt32LE(vector.length, 4);
+  return Buffer.concat([prefix, header, vector]);
+}
+
+function bufferToFloats(buffer: Buffer): Float32Array {
+  // Copy so the vector is 4-byte aligned and independent of the source buffer
+  const copy = new Uint8Array(buffer.length);
+  copy.set(buffer);
+  return new Float32Array(copy.buffer, 0, Math.floor(buffer.length / 4));
+}
+
+function vectorBytes(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * The JSON store serialised Buffers as `{ type: 'Buffer', data: [...] }`
+ */
+function legacyVectorToBuffer(vector: unknown): Buffer | null {
+  if (Buffer.isBuffer(vector)) {
+    return vector;
+  }
+  if (vector && typeof vector === 'object' && Array.isArray((vector as { data?: unknown }).data)) {
+    return Buffer.from((vector as { data: number[] }).data);
+  }
+  if (Array.isArray(vector)) {
+    return Buffer.from(new Float32Array(vector as number[]).buffer);
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+/**
+ * Tests for the portable index snapshot format
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { IndexSnapshot, readSnapshot, writeSnapshot, SNAPSHOT_FORMAT_VERSION } from './indexSnapshot';
+
+function createSnapshot(): IndexSnapshot {
+  return {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    createdAt: '2024-05-01T00:00:00.000Z',
+    metadata: { embeddingModel: 'nomic-embed-text', dimension: 2, chunkerVersion: 2 },
+    files: [{
+      path: 'docs/deploy.md',
+      size: 32,
+      contentHash: 'abc',
+      records: [
+        { id: 'a', path: 'docs/deploy.md', chunk: 'Run the release script.', vector: Buffer.from(new Float32Array([1, 2]).buffer), startLine: 3, tags: ['ops'] },
+        { id: 'b', path: 'docs/deploy.md', chunk: 'Tag the commit.', vector: Buffer.from(new Float32Array([3, 4]).buffer) }
+      ]
+    }]
+  };
+}
+
+function readVector(vector: Buffer): number[] {
+  return Array.from(new Float32Array(vector.buffer, vector.byteOffset, vector.length / 4));
+}
+
+describe('index snapshots', () => {
+  let dir: string;
+  let snapshotPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-snapshot-'));
+    snapshotPath = path.join(dir, 'index.locusindex');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should round-trip metadata, chunk rows and vectors', async () => {
+    const snapshot = createSnapshot();
+
+    const size = await writeSnapshot(snapshotPath, snapshot);
+    const loaded = await readSnapshot(snapshotPath);
+
+    expect(size).toBe(fs.statSync(snapshotPath).size);
+    expect(loaded.metadata).toEqual(snapshot.metadata);
+    expect(loaded.files[0].contentHash).toBe('abc');
+    expect(loaded.files[0].records.map(record => record.id)).toEqual(['a', 'b']);
+    expect(loaded.files[0].records[0]).toMatchObject({ path: 'docs/deploy.md', startLine: 3, tags: ['ops'] });
+    expect(readVector(loaded.files[0].records[1].vector)).toEqual([3, 4]);
+  });
+
+  test('should refuse vectors that do not match the recorded dimension', async () => {
+    const snapshot = createSnapshot();
+    snapshot.metadata.dimension = 3;
+
+    await expect(writeSnapshot(snapshotPath, snapshot)).rejects.toThrow('3-dimensional');
+  });
+
+  test('should reject other files and unknown versions', async () => {
+    fs.writeFileSync(snapshotPath, 'not a snapshot');
+    await expect(readSnapshot(snapshotPath)).rejects.toThrow('Not an index snapshot');
+
+    const future = { ...createSnapshot(), formatVersion: SNAPSHOT_FORMAT_VERSION + 1 };
+    await writeSnapshot(snapshotPath, future);
+    await expect(readSnapshot(snapshotPath)).rejects.toThrow('Unsupported index snapshot version');
+  });
+
+  test('should detect truncated vector data', async () => {
+    const header = Buffer.from(JSON.stringify({
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      createdAt: '2024-05-01T00:00:00.000Z',
+      metadata: { embeddingModel: 'nomic-embed-text', dimension: 2, chunkerVersion: 2 },
+      files: [{ path: 'a.md', size: 1, contentHash: 'x', chunks: [{ id: 'a', chunk: 'a' }] }]
+    }));
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(header.length);
+    fs.writeFileSync(snapshotPath, gzipSync(Buffer.concat([Buffer.from('LCSNAP01'), length, header, Buffer.alloc(4)])));
+
+    await expect(readSnapshot(snapshotPath)).rejects.toThrow('Corrupt index snapshot');
+  });
+});
@@ -0,0 +1,127 @@
+// Portable snapshot of a workspace index, for sharing embeddings between
+// machines that have the same workspace checked out
+//
+// A snapshot is a single gzip-compressed file:
+//   [8-byte magic][u32 header bytes][JSON header][float32 vectors]
+// The header holds the format version, the index metadata (embedding model,
+// dimension, chunker version) and every file with its content hash and
+// chunk rows. Vectors follow in the order of the chunks in the header, each
+// `dimension` floats long.
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import type { EmbeddingRecord, IndexMetadata } from './database';
+
+const SNAPSHOT_MAGIC = Buffer.from('LCSNAP01', 'ascii');
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export interface SnapshotFile {
+  /** Project-relative path */
+  path: string;
+  size: number;
+  /** sha256 of the file content the chunks were embedded from */
+  contentHash: string;
+  records: EmbeddingRecord[];
+}
+
+export interface IndexSnapshot {
+  formatVersion: number;
+  createdAt: string;
+  metadata: IndexMetadata;
+  files: SnapshotFile[];
+}
+
+type ChunkHeader = Omit<EmbeddingRecord, 'vector' | 'path'>;
+
+interface SnapshotHeader {
+  formatVersion: number;
+  createdAt: string;
+  metadata: IndexMetadata;
+  files: Array<Omit<SnapshotFile, 'records'> & { chunks: ChunkHeader[] }>;
+}
+
+/**
+ * Write a snapshot to one file. Returns its size in bytes.
+ */
+export async function writeSnapshot(filePath: string, snapshot: IndexSnapshot): Promise<number> {
+  const { dimension } = snapshot.metadata;
+  const vectors: Buffer[] = [];
+  const header: SnapshotHeader = {
+    formatVersion: snapshot.formatVersion,
+    createdAt: snapshot.createdAt,
+    metadata: snapshot.metadata,
+    files: snapshot.files.map(file => ({
+      path: file.path,
+      size: file.size,
+      contentHash: file.contentHash,
+      chunks: file.records.map(({ vector, path: _path, ...chunk }) => {
+        if (vector.length !== dimension * 4) {
+          throw new Error(`Chunk ${chunk.id} of ${file.path} is not a ${dimension}-dimensional vector`);
+        }
+        vectors.push(vector);
+        return chunk;
+      })
+    }))
+  };
+
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const headerLength = Buffer.alloc(4);
+  headerLength.writeUInt32LE(headerBytes.length);
+  const body = await gzipAsync(Buffer.concat([SNAPSHOT_MAGIC, headerLength, headerBytes, ...vectors]));
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, body);
+  await fs.promises.rename(tempPath, filePath);
+  return body.length;
+}
+
+/**
+ * Read and validate a snapshot file
+ */
+export async function readSnapshot(filePath: string): Promise<IndexSnapshot> {
+  let data: Buffer;
+  try {
+    data = await gunzipAsync(await fs.promises.readFile(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw error;
+    throw new Error(`Not an index snapshot: ${filePath}`);
+  }
+  if (data.length < SNAPSHOT_MAGIC.length + 4 || !data.subarray(0, SNAPSHOT_MAGIC.length).equals(SNAPSHOT_MAGIC)) {
+    throw new Error(`Not an index snapshot: ${filePath}`);
+  }
+
+  const headerLength = data.readUInt32LE(SNAPSHOT_MAGIC.length);
+  const headerStart = SNAPSHOT_MAGIC.length + 4;
+  const header: SnapshotHeader = JSON.parse(data.toString('utf8', headerStart, headerStart + headerLength));
+  if (header.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported index snapshot version ${header.formatVersion} (expected ${SNAPSHOT_FORMAT_VERSION})`);
+  }
+
+  const vectorBytes = header.metadata.dimension * 4;
+  const chunkCount = header.files.reduce((count, file) => count + file.chunks.length, 0);
+  let offset = headerStart + headerLength;
+  if (data.length - offset !== chunkCount * vectorBytes) {
+    throw new Error(`Corrupt index snapshot: expected ${chunkCount} vectors of ${header.metadata.dimension} dimensions`);
+  }
+
+  return {
+    formatVersion: header.formatVersion,
+    createdAt: header.createdAt,
+    metadata: header.metadata,
+    files: header.files.map(file => ({
+      path: file.path,
+      size: file.size,
+      contentHash: file.contentHash,
+      records: file.chunks.map(chunk => {
+        const vector = Buffer.from(data.subarray(offset, offset + vectorBytes));
+        offset += vectorBytes;
+        return { ...chunk, path: file.path, vector };
+      })
+    }))
+  };
+}
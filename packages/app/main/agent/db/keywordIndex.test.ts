@@ -0,0 +1,66 @@
+/**
+ * Tests for the BM25 keyword index
+ */
+
+import { KeywordIndex, tokenize } from './keywordIndex';
+
+describe('tokenize', () => {
+  test('should split identifiers at case, underscore and dot boundaries', () => {
+    const tokens = tokenize('FileOpsParser.sanitizePath(MAX_PATH_LENGTH)');
+
+    expect(tokens).toContain('fileopsparser.sanitizepath');
+    expect(tokens).toContain('fileopsparser');
+    expect(tokens).toContain('sanitizepath');
+    expect(tokens).toContain('sanitize');
+    expect(tokens).toContain('parser');
+    expect(tokens).toContain('max_path_length');
+    expect(tokens).toContain('length');
+  });
+
+  test('should keep acronyms together', () => {
+    expect(tokenize('parseHTMLDocument')).toEqual(['parsehtmldocument', 'parse', 'html', 'document']);
+  });
+});
+
+describe('KeywordIndex', () => {
+  test('should rank exact identifier matches first', () => {
+    const index = new KeywordIndex();
+    index.add('parser', 'export class FileOpsParser { static sanitizePath(p: string) { return p; } }');
+    index.add('paths', 'Paths in the workspace are resolved relative to the project root.');
+    index.add('other', 'function renderTree(nodes) { return nodes.map(renderNode); }');
+
+    const hits = index.search('FileOpsParser.sanitizePath');
+
+    expect(hits[0].id).toBe('parser');
+    expect(hits.map(hit => hit.id)).not.toContain('other');
+  });
+
+  test('should favour rarer terms', () => {
+    const index = new KeywordIndex();
+    index.add('a', 'common common common unique');
+    index.add('b', 'common words only here');
+    index.add('c', 'common again');
+
+    expect(index.search('common unique')[0].id).toBe('a');
+  });
+
+  test('should forget removed documents', () => {
+    const index = new KeywordIndex();
+    index.add('a', 'sanitizePath');
+    index.add('b', 'renderTree');
+
+    index.remove('a');
+
+    expect(index.size).toBe(1);
+    expect(index.search('sanitizePath')).toEqual([]);
+  });
+
+  test('should replace a document when re-added', () => {
+    const index = new KeywordIndex();
+    index.add('a', 'alphaValue');
+    index.add('a', 'betaCount');
+
+    expect(index.search('alphaValue')).toEqual([]);
+    expect(index.search('betaCount').map(hit => hit.id)).toEqual(['a']);
+  });
+});
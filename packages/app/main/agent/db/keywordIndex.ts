@@ -0,0 +1,156 @@
+/**
+ * Lexical index for chunk text, scored with Okapi BM25
+ *
+ * Complements the vector index: exact identifiers such as
+ * `FileOpsParser.sanitizePath` rarely land near each other in embedding
+ * space, but they match here token for token.
+ */
+
+export interface KeywordSearchHit {
+  id: string;
+  score: number;
+}
+
+export interface KeywordIndexOptions {
+  /** Term-frequency saturation */
+  k1?: number;
+  /** Document-length normalisation, 0 (none) to 1 (full) */
+  b?: number;
+}
+
+export class KeywordIndex {
+  private options: Required<KeywordIndexOptions>;
+  private postings: Map<string, Map<string, number>> = new Map();
+  private docTerms: Map<string, string[]> = new Map();
+  private docLengths: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  constructor(options: KeywordIndexOptions = {}) {
+    this.options = {
+      k1: 1.2,
+      b: 0.75,
+      ...options
+    };
+  }
+
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  /**
+   * Index (or re-index) a document
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.docTerms.set(id, Array.from(frequencies.keys()));
+    this.docLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const terms = this.docTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.docLengths.get(id) || 0;
+    this.docTerms.delete(id);
+    this.docLengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docTerms.clear();
+    this.docLengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Rank documents against the query by BM25. With `accept`, only ids it
+   * returns true for are ranked.
+   */
+  search(query: string, limit: number = 10, accept?: (id: string) => boolean): KeywordSearchHit[] {
+    const documentCount = this.docLengths.size;
+    if (documentCount === 0 || limit <= 0) {
+      return [];
+    }
+
+    const { k1, b } = this.options;
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      // Lucene's idf variant stays positive even for very common terms
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (accept && !accept(id)) continue;
+        const length = this.docLengths.get(id) || 0;
+        const normalised = frequency * (k1 + 1) /
+          (frequency + k1 * (1 - b + b * length / averageLength));
+        scores.set(id, (scores.get(id) || 0) + idf * normalised);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Split text into lowercase search terms. Identifiers are kept whole and
+ * also broken at camelCase, snake_case and dotted boundaries, so
+ * `sanitizePath` matches both `sanitizePath` and `sanitize path`.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.match(/[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*|\d+/g) || [];
+
+  for (const word of words) {
+    const parts = word.split('.');
+    if (parts.length > 1) {
+      tokens.push(word.toLowerCase());
+    }
+
+    for (const part of parts) {
+      const lower = part.toLowerCase();
+      tokens.push(lower);
+
+      const pieces = part
+        .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .split(/[\s_$]+/)
+        .filter(Boolean);
+      if (pieces.length > 1) {
+        tokens.push(...pieces.map(piece => piece.toLowerCase()));
+      }
+    }
+  }
+
+  return tokens.filter(token => token.length > 1);
+}
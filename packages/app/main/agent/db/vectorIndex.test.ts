@@ -0,0 +1,73 @@
+/**
+ * Tests for the IVF nearest-neighbour index
+ */
+
+import { IvfVectorIndex } from './vectorIndex';
+
+// Small deterministic PRNG so cluster layouts are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function randomVector(random: () => number, dimension: number): Float32Array {
+  return Float32Array.from({ length: dimension }, () => random() - 0.5);
+}
+
+describe('IvfVectorIndex', () => {
+  test('should search exactly below the threshold', () => {
+    const index = new IvfVectorIndex({ exactSearchThreshold: 100 });
+    index.add('a', Float32Array.from([1, 0]));
+    index.add('b', Float32Array.from([0, 1]));
+
+    const hits = index.search([0.9, 0.1], 1);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0].id).toBe('a');
+  });
+
+  test('should reject vectors of a different dimension', () => {
+    const index = new IvfVectorIndex();
+    expect(index.add('a', Float32Array.from([1, 0, 0]))).toBe(true);
+    expect(index.add('b', Float32Array.from([1, 0]))).toBe(false);
+    expect(index.size).toBe(1);
+  });
+
+  test('should recall the true nearest neighbours when clustered', () => {
+    const random = createRandom(7);
+    const index = new IvfVectorIndex({ exactSearchThreshold: 50, nProbe: 6 });
+    const exact = new IvfVectorIndex({ exactSearchThreshold: Infinity });
+
+    for (let i = 0; i < 1500; i++) {
+      const vector = randomVector(random, 16);
+      index.add(`v${i}`, vector);
+      exact.add(`v${i}`, vector);
+    }
+
+    let found = 0;
+    for (let q = 0; q < 20; q++) {
+      const query = randomVector(random, 16);
+      const truth = exact.search(query, 5).map(hit => hit.id);
+      const approx = new Set(index.search(query, 5).map(hit => hit.id));
+      found += truth.filter(id => approx.has(id)).length;
+    }
+
+    // IVF is approximate; most true neighbours should still be found
+    expect(found / 100).toBeGreaterThan(0.6);
+  });
+
+  test('should stop returning removed vectors', () => {
+    const index = new IvfVectorIndex({ exactSearchThreshold: 2 });
+    index.add('a', Float32Array.from([1, 0]));
+    index.add('b', Float32Array.from([0.9, 0.1]));
+    index.add('c', Float32Array.from([0, 1]));
+    index.search([1, 0], 1);
+
+    index.remove('a');
+
+    expect(index.search([1, 0], 3).map(hit => hit.id)).not.toContain('a');
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Approximate nearest-neighbour index for embedding vectors
+ *
+ * Inverted-file (IVF) index: vectors are clustered with k-means and each
+ * query only scans the lists of the closest centroids. Small collections
+ * are searched exactly, since building clusters is not worth it there.
+ */
+
+export interface VectorSearchHit {
+  id: string;
+  similarity: number;
+}
+
+export interface VectorIndexOptions {
+  /** Below this many vectors every search is an exact linear scan */
+  exactSearchThreshold?: number;
+  /** Number of closest clusters scanned per query */
+  nProbe?: number;
+  /** k-means refinement rounds when (re)building the clusters */
+  kmeansIterations?: number;
+  /** Maximum number of vectors sampled to train the centroids */
+  maxTrainingSamples?: number;
+}
+
+export class IvfVectorIndex {
+  private options: Required<VectorIndexOptions>;
+  private vectors: Map<string, Float32Array> = new Map();
+  private norms: Map<string, number> = new Map();
+  private centroids: Float32Array[] = [];
+  private lists: Array<Set<string>> = [];
+  private assignments: Map<string, number> = new Map();
+  private builtForSize = 0;
+  private dimension: number | null = null;
+
+  constructor(options: VectorIndexOptions = {}) {
+    this.options = {
+      exactSearchThreshold: 2048,
+      nProbe: 8,
+      kmeansIterations: 8,
+      maxTrainingSamples: 16384,
+      ...options
+    };
+  }
+
+  /**
+   * Number of vectors in the index
+   */
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  /**
+   * Length of the vectors the index accepts; null until the first is added
+   */
+  get vectorDimension(): number | null {
+    return this.dimension;
+  }
+
+  /**
+   * Add or replace a vector. Vectors whose dimension differs from the
+   * first vector added are rejected.
+   */
+  add(id: string, vector: Float32Array): boolean {
+    if (this.dimension === null) {
+      this.dimension = vector.length;
+    } else if (vector.length !== this.dimension) {
+      return false;
+    }
+
+    this.remove(id);
+    this.vectors.set(id, vector);
+    this.norms.set(id, vectorNorm(vector));
+
+    if (this.centroids.length > 0) {
+      this.assign(id, vector);
+    }
+    return true;
+  }
+
+  /**
+   * Remove a vector from the index
+   */
+  remove(id: string): void {
+    if (!this.vectors.delete(id)) {
+      return;
+    }
+    this.norms.delete(id);
+
+    const listIndex = this.assignments.get(id);
+    if (listIndex !== undefined) {
+      this.lists[listIndex].delete(id);
+      this.assignments.delete(id);
+    }
+  }
+
+  /**
+   * Drop every vector and the trained clusters
+   */
+  clear(): void {
+    this.vectors.clear();
+    this.norms.clear();
+    this.resetClusters();
+    this.dimension = null;
+  }
+
+  /**
+   * Cosine similarity between the query and one stored vector, or null
+   * when the id is not indexed
+   */
+  similarity(id: string, query: ArrayLike<number>): number | null {
+    const vector = this.vectors.get(id);
+    if (!vector || vector.length !== query.length) {
+      return null;
+    }
+    const norms = (this.norms.get(id) || 0) * vectorNorm(query);
+    return norms === 0 ? 0 : dot(query, vector) / norms;
+  }
+
+  /**
+   * Find the vectors most similar (cosine) to the query. With `accept`,
+   * only ids it returns true for are considered.
+   */
+  search(query: ArrayLike<number>, limit: number = 10, accept?: (id: string) => boolean): VectorSearchHit[] {
+    if (this.vectors.size === 0 || limit <= 0) {
+      return [];
+    }
+    if (this.dimension !== null && query.length !== this.dimension) {
+      throw new Error(
+        `Query vector has dimension ${query.length}, index expects ${this.dimension}`
+      );
+    }
+
+    const queryNorm = vectorNorm(query);
+    if (queryNorm === 0) {
+      return [];
+    }
+
+    if (this.vectors.size < this.options.exactSearchThreshold) {
+      return this.scan(this.vectors.keys(), query, queryNorm, limit, accept);
+    }
+
+    this.ensureClusters();
+
+    const probes = this.centroids
+      .map((centroid, index) => ({ index, score: dot(query, centroid) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.options.nProbe);
+
+    const candidates: string[] = [];
+    for (const probe of probes) {
+      for (const id of this.lists[probe.index]) {
+        if (!accept || accept(id)) candidates.push(id);
+      }
+    }
+
+    // Too few candidates in the probed lists: fall back to an exact scan
+    if (candidates.length < limit) {
+      return this.scan(this.vectors.keys(), query, queryNorm, limit, accept);
+    }
+
+    return this.scan(candidates, query, queryNorm, limit);
+  }
+
+  /**
+   * Score a set of ids against the query and keep the best `limit`
+   */
+  private scan(
+    ids: Iterable<string>,
+    query: ArrayLike<number>,
+    queryNorm: number,
+    limit: number,
+    accept?: (id: string) => boolean
+  ): VectorSearchHit[] {
+    const hits: VectorSearchHit[] = [];
+
+    for (const id of ids) {
+      if (accept && !accept(id)) continue;
+
+      const vector = this.vectors.get(id)!;
+      const norm = this.norms.get(id)!;
+      if (norm === 0) continue;
+
+      const similarity = dot(query, vector) / (queryNorm * norm);
+      if (hits.length < limit) {
+        hits.push({ id, similarity });
+        if (hits.length === limit) {
+          hits.sort((a, b) => b.similarity - a.similarity);
+        }
+      } else if (similarity > hits[hits.length - 1].similarity) {
+        // Insert in order, dropping the current worst hit
+        let position = hits.length - 1;
+        while (position > 0 && hits[position - 1].similarity < similarity) {
+          position--;
+        }
+        hits.splice(position, 0, { id, similarity });
+        hits.pop();
+      }
+    }
+
+    return hits.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Train clusters if there are none yet, or if the collection has grown
+   * or shrunk enough that the old centroids no longer fit it.
+   */
+  private ensureClusters(): void {
+    const size = this.vectors.size;
+    const drifted =
+      size > this.builtForSize * 2 || size < this.builtForSize / 2;
+
+    if (this.centroids.length === 0 || drifted) {
+      this.train();
+    }
+  }
+
+  /**
+   * Run k-means on a sample of the vectors and assign every vector to a list
+   */
+  private train(): void {
+    this.resetClusters();
+
+    const ids = Array.from(this.vectors.keys());
+    const clusterCount = Math.max(1, Math.round(Math.sqrt(ids.length)));
+
+    // Deterministic strided sample keeps rebuilds reproducible
+    const sampleSize = Math.min(ids.length, this.options.maxTrainingSamples);
+    const stride = ids.length / sampleSize;
+    const sample: Float32Array[] = [];
+    for (let i = 0; i < sampleSize; i++) {
+      sample.push(this.unit(ids[Math.floor(i * stride)]));
+    }
+
+    const centroidStride = sample.length / clusterCount;
+    this.centroids = Array.from({ length: clusterCount }, (_, i) =>
+      Float32Array.from(sample[Math.floor(i * centroidStride)])
+    );
+
+    for (let iteration = 0; iteration < this.options.kmeansIterations; iteration++) {
+      const sums = this.centroids.map(c => new Float32Array(c.length));
+      const counts = new Array<number>(clusterCount).fill(0);
+
+      for (const vector of sample) {
+        const nearest = this.nearestCentroid(vector);
+        counts[nearest]++;
+        const sum = sums[nearest];
+        for (let d = 0; d < vector.length; d++) {
+          sum[d] += vector[d];
+        }
+      }
+
+      for (let c = 0; c < clusterCount; c++) {
+        // Empty clusters keep their previous centroid
+        if (counts[c] === 0) continue;
+        const norm = vectorNorm(sums[c]);
+        if (norm === 0) continue;
+        for (let d = 0; d < sums[c].length; d++) {
+          sums[c][d] /= norm;
+        }
+        this.centroids[c] = sums[c];
+      }
+    }
+
+    this.lists = this.centroids.map(() => new Set<string>());
+    for (const [id, vector] of this.vectors) {
+      this.assign(id, vector);
+    }
+    this.builtForSize = ids.length;
+  }
+
+  private assign(id: string, vector: Float32Array): void {
+    const listIndex = this.nearestCentroid(vector);
+    this.lists[listIndex].add(id);
+    this.assignments.set(id, listIndex);
+  }
+
+  private nearestCentroid(vector: ArrayLike<number>): number {
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let c = 0; c < this.centroids.length; c++) {
+      const score = dot(vector, this.centroids[c]);
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+    return best;
+  }
+
+  private unit(id: string): Float32Array {
+    const vector = this.vectors.get(id)!;
+    const norm = this.norms.get(id) || 1;
+    return vector.map(value => value / norm);
+  }
+
+  private resetClusters(): void {
+    this.centroids = [];
+    this.lists = [];
+    this.assignments.clear();
+    this.builtForSize = 0;
+  }
+}
+
+/**
+ * Dot product of two equal-length vectors
+ */
+export function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Euclidean length of a vector
+ */
+export function vectorNorm(vector: ArrayLike<number>): number {
+  return Math.sqrt(dot(vector, vector));
+}
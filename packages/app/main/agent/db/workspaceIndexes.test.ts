@@ -0,0 +1,113 @@
+/**
+ * Tests for per-workspace index directories
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { WorkspaceIndexes } from './workspaceIndexes';
+import { EmbeddingsDatabase } from './database';
+
+describe('WorkspaceIndexes', () => {
+  let tmp: string;
+  let indexes: WorkspaceIndexes;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-indexes-'));
+    fs.mkdirSync(path.join(tmp, 'notes'));
+    fs.mkdirSync(path.join(tmp, 'code'));
+    indexes = new WorkspaceIndexes(path.join(tmp, 'userData', 'indexes'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test('should give each workspace its own store', async () => {
+    const notes = await indexes.resolveIndexPath(path.join(tmp, 'notes'));
+    const code = await indexes.resolveIndexPath(path.join(tmp, 'code'));
+
+    expect(notes).not.toBe(code);
+    expect(path.basename(path.dirname(notes)).startsWith('notes-')).toBe(true);
+    expect(await indexes.resolveIndexPath(path.join(tmp, 'notes', '.'))).toBe(notes);
+  });
+
+  test('should list indexes with their size', async () => {
+    const database = new EmbeddingsDatabase(await indexes.resolveIndexPath(path.join(tmp, 'notes')));
+    await database.init();
+    await database.replaceFileEmbeddings({ path: 'a.md', lastModified: 1, size: 10 }, [
+      { id: 'a#0', path: 'a.md', chunk: 'hello world', vector: Buffer.from(new Float32Array([1, 0]).buffer) }
+    ]);
+    await database.close();
+
+    const [info] = await indexes.listIndexes();
+
+    expect(info.workspaceRoot).toBe(path.join(tmp, 'notes'));
+    expect(info.workspaceExists).toBe(true);
+    // Store plus manifest
+    expect(info.sizeBytes).toBeGreaterThan(fs.statSync(info.indexPath).size);
+  });
+
+  test('should prune indexes of deleted workspaces', async () => {
+    await indexes.resolveIndexPath(path.join(tmp, 'notes'));
+    await indexes.resolveIndexPath(path.join(tmp, 'code'));
+    fs.rmSync(path.join(tmp, 'code'), { recursive: true });
+
+    const removed = await indexes.pruneIndexes();
+
+    expect(removed.map(index => index.workspaceRoot)).toEqual([path.join(tmp, 'code')]);
+    expect((await indexes.listIndexes()).map(index => index.workspaceRoot)).toEqual([path.join(tmp, 'notes')]);
+  });
+
+  test('should keep listed ids when pruning by age', async () => {
+    await indexes.resolveIndexPath(path.join(tmp, 'notes'));
+    await indexes.resolveIndexPath(path.join(tmp, 'code'));
+    const keep = indexes.getIndexId(path.join(tmp, 'notes'));
+
+    const removed = await indexes.pruneIndexes({ maxAgeMs: -1, keep: [keep] });
+
+    expect(removed).toHaveLength(1);
+    expect((await indexes.listIndexes()).map(index => index.id)).toEqual([keep]);
+  });
+
+  test('should move a store left in the workspace into its index', async () => {
+    const legacy = new EmbeddingsDatabase(path.join(tmp, 'notes', '.vscode', 'embeddings.vdb'));
+    await legacy.init();
+    await legacy.replaceFileEmbeddings({ path: 'a.md', lastModified: 1, size: 10 }, [
+      { id: 'a#0', path: 'a.md', chunk: 'hello world', vector: Buffer.from(new Float32Array([1, 0]).buffer) }
+    ]);
+    await legacy.close();
+
+    const database = new EmbeddingsDatabase(await indexes.resolveIndexPath(path.join(tmp, 'notes')));
+    await database.init();
+
+    expect((await database.getEmbeddingsByPath('a.md')).map(record => record.id)).toEqual(['a#0']);
+    expect(fs.existsSync(path.join(tmp, 'notes', '.vscode', 'embeddings.vdb'))).toBe(false);
+    await database.close();
+  });
+
+  test('should migrate a legacy JSON store from the workspace', async () => {
+    fs.mkdirSync(path.join(tmp, 'code', '.vscode'));
+    fs.writeFileSync(path.join(tmp, 'code', '.vscode', 'embeddings.json'), JSON.stringify({
+      embeddings: [{ id: 'l1', path: 'index.ts', chunk: 'hello', vector: Buffer.from(new Float32Array([0.5, 0.5]).buffer) }]
+    }));
+
+    const database = new EmbeddingsDatabase(await indexes.resolveIndexPath(path.join(tmp, 'code')));
+    await database.init();
+
+    expect((await database.getEmbeddingsByPath('index.ts')).map(record => record.id)).toEqual(['l1']);
+    await database.close();
+  });
+
+  test('should reject ids outside the indexes directory', async () => {
+    let error: Error | null = null;
+    try {
+      await indexes.deleteIndex('../notes');
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).toContain('Invalid index id');
+    expect(fs.existsSync(path.join(tmp, 'notes'))).toBe(true);
+  });
+});
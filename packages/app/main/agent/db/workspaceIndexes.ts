@@ -0,0 +1,219 @@
+// Per-workspace embedding stores under a single base directory (the app's
+// userData in production), so switching workspaces never mixes vectors from
+// unrelated projects.
+//
+// Each workspace gets a directory named after its folder plus a hash of its
+// resolved path, holding the store and a small manifest:
+//   <baseDir>/<name>-<hash>/embeddings.vdb
+//   <baseDir>/<name>-<hash>/workspace.json   { workspaceRoot, createdAt, lastUsed }
+//
+// Older versions kept the store in the workspace's .vscode folder; it is
+// moved here the first time the workspace is opened.
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+import { createHash } from 'node:crypto';
+
+const MANIFEST_FILE = 'workspace.json';
+const STORE_FILE = 'embeddings.vdb';
+// Stores older versions kept inside the workspace, newest format first. A
+// JSON store is migrated by EmbeddingsDatabase when it opens next to it.
+const LEGACY_STORE_DIR = '.vscode';
+const LEGACY_STORE_FILES = [STORE_FILE, 'embeddings.json'];
+
+interface WorkspaceManifest {
+  workspaceRoot: string;
+  createdAt: number;
+  lastUsed: number;
+}
+
+export interface WorkspaceIndexInfo {
+  /** Directory name, used to address the index */
+  id: string;
+  workspaceRoot: string;
+  indexPath: string;
+  /** Bytes on disk across all files of the index */
+  sizeBytes: number;
+  createdAt: number;
+  lastUsed: number;
+  /** False when the workspace folder no longer exists */
+  workspaceExists: boolean;
+}
+
+export class WorkspaceIndexes {
+  constructor(private baseDir: string) {}
+
+  /**
+   * Directory id for a workspace root. Stable for the same resolved path.
+   */
+  getIndexId(workspaceRoot: string): string {
+    return workspaceDirName(workspaceRoot);
+  }
+
+  /**
+   * Store path for a workspace, creating its directory and manifest and
+   * marking it as used now. When the workspace has no store here yet, one
+   * left in the workspace by an older version is moved in.
+   */
+  async resolveIndexPath(workspaceRoot: string): Promise<string> {
+    const dir = path.join(this.baseDir, this.getIndexId(workspaceRoot));
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const now = Date.now();
+    const existing = await this.readManifest(dir);
+    const manifest: WorkspaceManifest = {
+      workspaceRoot: path.resolve(workspaceRoot),
+      createdAt: existing?.createdAt ?? now,
+      lastUsed: now
+    };
+    await fs.promises.writeFile(path.join(dir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    const storePath = path.join(dir, STORE_FILE);
+    if (!fs.existsSync(storePath)) {
+      await this.adoptLegacyStore(workspaceRoot, dir);
+    }
+    return storePath;
+  }
+
+  /**
+   * All known indexes, most recently used first
+   */
+  async listIndexes(): Promise<WorkspaceIndexInfo[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.baseDir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const indexes: WorkspaceIndexInfo[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+
+      const dir = path.join(this.baseDir, entry.name);
+      const manifest = await this.readManifest(dir);
+      if (!manifest) continue;
+
+      indexes.push({
+        id: entry.name,
+        workspaceRoot: manifest.workspaceRoot,
+        indexPath: path.join(dir, STORE_FILE),
+        sizeBytes: await directorySize(dir),
+        createdAt: manifest.createdAt,
+        lastUsed: manifest.lastUsed,
+        workspaceExists: fs.existsSync(manifest.workspaceRoot)
+      });
+    }
+
+    return indexes.sort((a, b) => b.lastUsed - a.lastUsed);
+  }
+
+  /**
+   * Delete an index by id. Returns false if it did not exist.
+   */
+  async deleteIndex(id: string): Promise<boolean> {
+    // Ids are plain directory names; refuse anything that could escape baseDir
+    if (!id || id !== path.basename(id) || id === '.' || id === '..') {
+      throw new Error(`Invalid index id: ${id}`);
+    }
+
+    const dir = path.join(this.baseDir, id);
+    if (!(await this.readManifest(dir))) return false;
+
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    return true;
+  }
+
+  /**
+   * Delete indexes whose workspace folder is gone or that have not been
+   * used for `maxAgeMs`. Ids in `keep` are never deleted.
+   */
+  async pruneIndexes(options: { maxAgeMs?: number; keep?: string[] } = {}): Promise<WorkspaceIndexInfo[]> {
+    const keep = new Set(options.keep ?? []);
+    const cutoff = options.maxAgeMs !== undefined ? Date.now() - options.maxAgeMs : -Infinity;
+
+    const removed: WorkspaceIndexInfo[] = [];
+    for (const index of await this.listIndexes()) {
+      if (keep.has(index.id)) continue;
+      if (index.workspaceExists && index.lastUsed >= cutoff) continue;
+
+      await this.deleteIndex(index.id);
+      removed.push(index);
+    }
+    return removed;
+  }
+
+  /**
+   * Move the workspace's old store into its index directory so it is not
+   * embedded again from scratch. A failed move only costs the re-embed.
+   */
+  private async adoptLegacyStore(workspaceRoot: string, dir: string): Promise<void> {
+    for (const file of LEGACY_STORE_FILES) {
+      const legacyPath = path.join(workspaceRoot, LEGACY_STORE_DIR, file);
+      if (!fs.existsSync(legacyPath)) continue;
+
+      try {
+        await moveFile(legacyPath, path.join(dir, file));
+        console.log(`Moved workspace index from ${legacyPath}`);
+      } catch (error) {
+        console.warn(`Failed to move workspace index from ${legacyPath}:`, error);
+      }
+      return;
+    }
+  }
+
+  private async readManifest(dir: string): Promise<WorkspaceManifest | null> {
+    try {
+      const data = JSON.parse(await fs.promises.readFile(path.join(dir, MANIFEST_FILE), 'utf8'));
+      return typeof data.workspaceRoot === 'string' ? data : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Directory name for per-workspace data: the folder name plus a hash of
+ * its resolved path. Stable for the same resolved path.
+ */
+export function workspaceDirName(workspaceRoot: string): string {
+  const key = normalizeRoot(workspaceRoot);
+  const hash = createHash('sha256').update(key).digest('hex').slice(0, 12);
+  const name = path.basename(key).replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 40) || 'root';
+  return `${name}-${hash}`;
+}
+
+/**
+ * Resolved path used as the index key. Case-insensitive file systems map
+ * differently cased paths to the same index.
+ */
+function normalizeRoot(workspaceRoot: string): string {
+  const resolved = path.resolve(workspaceRoot);
+  return process.platform === 'win32' || process.platform === 'darwin'
+    ? resolved.toLowerCase()
+    : resolved;
+}
+
+// Rename, falling back to copy and delete across devices
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.promises.rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    await fs.promises.copyFile(from, to);
+    await fs.promises.unlink(from);
+  }
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let total = 0;
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await directorySize(entryPath);
+    } else if (entry.isFile()) {
+      total += (await fs.promises.stat(entryPath)).size;
+    }
+  }
+  return total;
+}
@@ -1,3 +1,5 @@
+import { IgnoreRules } from '@shared/utils/ignore';
+
 /**
  * Utility to normalize file paths relative to project root
  * Ensures all file operations stay within the project directory
@@ -14,6 +16,7 @@ interface FileStats {
 
 export class ProjectPaths {
   private static projectRoot: string = '';
+  private static ignoreRules: IgnoreRules = new IgnoreRules();
 
   /**
    * Initialize the project root path
@@ -32,6 +35,23 @@ export class ProjectPaths {
         this.projectRoot = '';
       }
     }
+    await this.loadIgnoreRules();
+  }
+
+  /**
+   * Load the workspace's ignore rules from the main process, so paths are
+   * filtered the same way as in the file tree and the embeddings index
+   */
+  static async loadIgnoreRules(): Promise<void> {
+    try {
+      const sources = await window.api?.getIgnoreRules?.();
+      if (sources) {
+        this.ignoreRules = IgnoreRules.fromSources(sources);
+      }
+    } catch (error) {
+      console.warn('Failed to load ignore rules, using defaults:', error);
+      this.ignoreRules = new IgnoreRules();
+    }
   }
 
   /**
@@ -157,7 +177,7 @@ export class ProjectPaths {
         if (Array.isArray(items)) {
           for (const item of items) {
             // Only include files, not folders
-            if (item.type === 'file') {
+            if (item.type === 'file' && !this.shouldIgnore(this.toRelativePath(item.path))) {
               const filePath = item.path;
               
               // Filter by extensions if provided
@@ -195,29 +215,10 @@ export class ProjectPaths {
   }
 
   /**
-   * Check if a file/directory should be ignored
+   * Check if a project-relative file/directory should be ignored
    */
-  private static shouldIgnore(name: string): boolean {
-    const ignorePatterns = [
-      'node_modules',
-      '.git',
-      '.vscode',
-      '.cursor',
-      'dist',
-      'build',
-      'coverage',
-      '.nyc_output',
-      '.DS_Store',
-      'Thumbs.db'
-    ];
-
-    return ignorePatterns.some(pattern => {
-      if (pattern.includes('*')) {
-        const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-        return regex.test(name);
-      }
-      return name === pattern;
-    });
+  static shouldIgnore(relativePath: string, isDirectory: boolean = false): boolean {
+    return this.ignoreRules.ignores(relativePath, isDirectory);
   }
 }
 
@@ -0,0 +1,159 @@
+/**
+ * Tests for pulling, deleting and inspecting models against a stub Ollama server
+ */
+
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ModelLibrary, ModelPullProgress } from './modelLibrary';
+import { OllamaService } from './ollamaService';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: any;
+}
+
+type Handler = (request: RecordedRequest, response: http.ServerResponse) => void;
+
+function json(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+describe('ModelLibrary', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let handler: Handler;
+  let library: ModelLibrary;
+
+  beforeEach(async () => {
+    requests = [];
+    handler = (_request, response) => json(response, 404, { error: 'not found' });
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const request = { method: req.method || '', url: req.url || '', body: body ? JSON.parse(body) : undefined };
+        requests.push(request);
+        handler(request, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    library = new ModelLibrary(new OllamaService(`http://127.0.0.1:${port}`));
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should stream pull progress until Ollama reports success', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.write('{"status":"pulling manifest"}\n{"status":"pulling 6a0746a1ec1a","digest":"sha256:6a07","total":400,');
+      response.write('"completed":100}\n{"status":"pulling 6a0746a1ec1a","digest":"sha256:6a07","total":400,"completed":400}\n');
+      response.end('{"status":"verifying sha256 digest"}\n{"status":"success"}\n');
+    };
+    const updates: ModelPullProgress[] = [];
+    library.onPullProgress(progress => updates.push(progress));
+
+    await library.pull('llama3.2:1b');
+
+    expect(requests[0]).toEqual({ method: 'POST', url: '/api/pull', body: { model: 'llama3.2:1b', stream: true } });
+    expect(updates.map(update => update.status)).toEqual([
+      'starting',
+      'pulling manifest',
+      'pulling 6a0746a1ec1a',
+      'pulling 6a0746a1ec1a',
+      'verifying sha256 digest',
+      'success',
+      'success'
+    ]);
+    expect(updates[2].percent).toBe(25);
+    expect(updates[updates.length - 1].state).toBe('done');
+    expect(library.getActivePulls()).toEqual([]);
+  });
+
+  test('should report errors sent in the pull stream', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.end('{"status":"pulling manifest"}\n{"error":"pull model manifest: file does not exist"}\n');
+    };
+    const updates: ModelPullProgress[] = [];
+    library.onPullProgress(progress => updates.push(progress));
+
+    await expect(library.pull('no-such-model')).rejects.toThrow('pull model manifest: file does not exist');
+    expect(updates[updates.length - 1].state).toBe('failed');
+  });
+
+  test('should cancel a running pull and join repeated pulls of the same model', async () => {
+    handler = (_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      response.write('{"status":"pulling manifest"}\n');
+    };
+    const updates: ModelPullProgress[] = [];
+    library.onPullProgress(progress => {
+      updates.push(progress);
+      if (progress.status === 'pulling manifest') library.cancelPull('qwen2.5:7b');
+    });
+
+    const first = library.pull('qwen2.5:7b');
+    const second = library.pull('qwen2.5:7b');
+
+    expect(second).toBe(first);
+    await expect(first).rejects.toThrow('Pull of qwen2.5:7b cancelled');
+    expect(updates[updates.length - 1].state).toBe('cancelled');
+    expect(requests).toHaveLength(1);
+  });
+
+  test('should delete, show, list running and unload models', async () => {
+    handler = (request, response) => {
+      if (request.url === '/api/delete') return json(response, 200, {});
+      if (request.url === '/api/show') {
+        return json(response, 200, {
+          license: 'LLAMA 3.2 COMMUNITY LICENSE',
+          parameters: 'stop "<|eot_id|>"',
+          template: '{{ .Prompt }}',
+          details: { family: 'llama', parameter_size: '1.2B', quantization_level: 'Q8_0' }
+        });
+      }
+      if (request.url === '/api/ps') {
+        return json(response, 200, {
+          models: [{
+            name: 'llama3.2:1b',
+            model: 'llama3.2:1b',
+            size: 2000,
+            size_vram: 1500,
+            digest: 'baf6a787',
+            expires_at: '2026-10-18T12:05:00Z'
+          }]
+        });
+      }
+      return json(response, 200, { model: 'llama3.2:1b', response: '', done: true, done_reason: 'unload' });
+    };
+
+    await library.deleteModel('old:7b');
+    const details = await library.showModel('llama3.2:1b');
+    const running = await library.getRunningModels();
+    await library.unloadModel('llama3.2:1b');
+
+    expect(requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'DELETE /api/delete',
+      'POST /api/show',
+      'GET /api/ps',
+      'POST /api/generate'
+    ]);
+    expect(requests[0].body).toEqual({ model: 'old:7b' });
+    expect(details.details?.quantization_level).toBe('Q8_0');
+    expect(details.license).toBe('LLAMA 3.2 COMMUNITY LICENSE');
+    expect(running.map(model => [model.name, model.size_vram])).toEqual([['llama3.2:1b', 1500]]);
+    expect(requests[3].body).toEqual({ model: 'llama3.2:1b', keep_alive: 0 });
+  });
+
+  test('should report the server error message', async () => {
+    handler = (_request, response) => json(response, 404, { error: 'model "missing" not found' });
+
+    await expect(library.deleteModel('missing')).rejects.toThrow('Failed to delete model missing: model "missing" not found');
+  });
+});
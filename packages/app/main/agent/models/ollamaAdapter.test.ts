@@ -0,0 +1,183 @@
+/**
+ * Tests for chat requests to Ollama's /api/chat
+ */
+
+import { chatOllamaModel, chatOllamaModelStream } from './ollamaAdapter';
+import { chatWithModel } from './modelAdapter';
+import { OllamaProvider, OLLAMA_DEFAULT_NUM_CTX } from './ollamaProvider';
+import { ChatTurn } from './types';
+
+interface RecordedRequest {
+  url: string;
+  body: any;
+}
+
+// Response whose body arrives in the given pieces
+function streamResponse(pieces: string[]) {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    status: 200,
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      }
+    })
+  };
+}
+
+const conversation: ChatTurn[] = [
+  { role: 'system', content: 'You are a helpful coding assistant.' },
+  { role: 'user', content: 'What does parse() return?' },
+  { role: 'assistant', content: 'A list of file operations.' },
+  { role: 'user', content: 'And on invalid input?' }
+];
+
+describe('Ollama chat', () => {
+  let requests: RecordedRequest[];
+  const originalFetch = globalThis.fetch;
+
+  function stubFetch(respond: (url: string) => unknown) {
+    globalThis.fetch = (async (url: string, init: { body: string }) => {
+      requests.push({ url, body: JSON.parse(init.body) });
+      return respond(url);
+    }) as unknown as typeof fetch;
+  }
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('should send roles and options in Ollama names', async () => {
+    stubFetch(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        message: { role: 'assistant', content: ' It throws. ' },
+        done: true,
+        prompt_eval_count: 48,
+        eval_count: 4
+      })
+    }));
+
+    const response = await chatOllamaModel('llama3:8b', conversation, {
+      temperature: 0.2,
+      topK: 40,
+      topP: 0.9,
+      numCtx: 8192,
+      seed: 7,
+      stop: ['</answer>']
+    }, 'http://ollama.local:11434');
+
+    expect(response).toEqual({ content: 'It throws.', usage: { promptTokens: 48, responseTokens: 4 } });
+    expect(requests[0].url).toBe('http://ollama.local:11434/api/chat');
+    expect(requests[0].body).toEqual({
+      model: 'llama3:8b',
+      messages: conversation,
+      stream: false,
+      options: { temperature: 0.2, top_k: 40, top_p: 0.9, num_ctx: 8192, seed: 7, stop: ['</answer>'] }
+    });
+  });
+
+  test('should leave out options that are not set', async () => {
+    stubFetch(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ message: { role: 'assistant', content: 'Hi' }, done: true })
+    }));
+
+    await chatWithModel('ollama:llama3', [{ role: 'user', content: 'Hello' }], { temperature: undefined, stop: [] });
+
+    expect(requests[0].body).toEqual({
+      model: 'llama3',
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: false
+    });
+  });
+
+  test('should stream message content split across reads', async () => {
+    stubFetch(() => streamResponse([
+      '{"message":{"role":"assistant","content":"It "},"done":false}\n{"message":{"role":"assi',
+      'stant","content":"throws."},"done":false}\n',
+      '{"message":{"role":"assistant","content":""},"done":true,"prompt_eval_count":52,"eval_count":3}\n'
+    ]));
+    const chunks: string[] = [];
+
+    const response = await chatOllamaModelStream('llama3:8b', conversation, chunk => chunks.push(chunk), { seed: 1 });
+
+    expect(chunks).toEqual(['It ', 'throws.']);
+    expect(response).toEqual({ content: 'It throws.', usage: { promptTokens: 52, responseTokens: 3 } });
+    expect(requests[0].body).toMatchObject({ stream: true, options: { seed: 1 } });
+  });
+
+  test('should leave out usage when the server did not count the prompt', async () => {
+    stubFetch(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ message: { role: 'assistant', content: 'Hi' }, done: true, eval_count: 1 })
+    }));
+
+    const response = await chatOllamaModel('llama3', [{ role: 'user', content: 'Hello' }]);
+
+    expect(response.usage).toBeUndefined();
+  });
+
+  test('should report errors sent in the stream', async () => {
+    stubFetch(() => streamResponse(['{"error":"model \\"missing\\" not found"}\n']));
+
+    await expect(chatOllamaModelStream('missing', conversation, () => {})).rejects.toThrow('model "missing" not found');
+  });
+});
+
+describe('Ollama context length', () => {
+  const originalFetch = globalThis.fetch;
+  let shown: string[];
+
+  function stubShow(respond: () => unknown) {
+    globalThis.fetch = (async (_url: string, init: { body: string }) => {
+      shown.push(JSON.parse(init.body).model);
+      return respond();
+    }) as unknown as typeof fetch;
+  }
+
+  beforeEach(() => {
+    shown = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('should use the Modelfile num_ctx capped at the trained length, once per model', async () => {
+    stubShow(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        parameters: 'stop "<|eot_id|>"\nnum_ctx 16384',
+        model_info: { 'general.architecture': 'llama', 'llama.context_length': 8192 }
+      })
+    }));
+    const provider = new OllamaProvider('http://ollama.local:11434');
+
+    expect(await provider.getContextLength('llama3:8b')).toBe(8192);
+    expect(await provider.getContextLength('llama3:8b', 2048)).toBe(2048);
+    expect(shown).toEqual(['llama3:8b']);
+  });
+
+  test('should fall back to the default num_ctx and retry after failures', async () => {
+    stubShow(() => ({ ok: false, status: 500, statusText: 'Internal Server Error' }));
+    const provider = new OllamaProvider('http://ollama.local:11434');
+
+    expect(await provider.getContextLength('qwen2.5')).toBeUndefined();
+
+    stubShow(() => ({ ok: true, status: 200, json: async () => ({ model_info: { 'qwen2.context_length': 32768 } }) }));
+
+    expect(await provider.getContextLength('qwen2.5')).toBe(OLLAMA_DEFAULT_NUM_CTX);
+    expect(shown).toEqual(['qwen2.5', 'qwen2.5']);
+  });
+});
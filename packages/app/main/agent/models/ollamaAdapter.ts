@@ -1,3 +1,8 @@
+import type { TokenUsage } from '../types';
+import type { ChatResponse, ChatTurn, GenerationOptions } from './types';
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
 interface OllamaRequest {
   model: string;
   prompt: string;
@@ -34,13 +39,43 @@ interface OllamaStreamResponse {
   eval_duration?: number;
 }
 
+interface OllamaChatOptions {
+  temperature?: number;
+  top_k?: number;
+  top_p?: number;
+  num_ctx?: number;
+  seed?: number;
+  stop?: string[];
+}
+
+interface OllamaChatRequest {
+  model: string;
+  messages: ChatTurn[];
+  stream: boolean;
+  options?: OllamaChatOptions;
+}
+
+interface OllamaChatResponse {
+  message?: { role: string; content: string };
+  done: boolean;
+  error?: string;
+  total_duration?: number;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
 /**
  * Query Ollama model via local API
  * @param modelName - The Ollama model name (e.g., "codellama:7b")
  * @param prompt - The prompt to send to the model
+ * @param baseUrl - Ollama server root
  * @returns Promise<string> - Clean, plain-text response from Ollama
  */
-export async function queryOllamaModel(modelName: string, prompt: string): Promise<string> {
+export async function queryOllamaModel(
+  modelName: string,
+  prompt: string,
+  baseUrl: string = DEFAULT_OLLAMA_URL
+): Promise<string> {
   if (!modelName || !prompt) {
     throw new Error('Both modelName and prompt are required');
   }
@@ -52,7 +87,7 @@ export async function queryOllamaModel(modelName: string, prompt: string): Promi
   };
 
   try {
-    const response = await fetch('http://localhost:11434/api/generate', {
+    const response = await fetch(`${baseUrl}/api/generate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -74,7 +109,7 @@ export async function queryOllamaModel(modelName: string, prompt: string): Promi
     return data.response.trim();
   } catch (error) {
     if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error('Unable to connect to Ollama. Make sure Ollama is running on localhost:11434');
+      throw new Error(`Unable to connect to Ollama. Make sure Ollama is running on ${baseUrl.replace(/^https?:\/\//, '')}`);
     }
     throw error;
   }
@@ -86,13 +121,15 @@ export async function queryOllamaModel(modelName: string, prompt: string): Promi
  * @param prompt - The prompt to send to the model
  * @param onChunk - Callback function called for each streaming chunk
  * @param abortSignal - Optional AbortSignal to cancel the request
+ * @param baseUrl - Ollama server root
  * @returns Promise<string> - Complete response from Ollama
  */
 export async function queryOllamaModelStream(
   modelName: string, 
   prompt: string,
   onChunk: (chunk: string) => void,
-  abortSignal?: AbortSignal
+  abortSignal?: AbortSignal,
+  baseUrl: string = DEFAULT_OLLAMA_URL
 ): Promise<string> {
   if (!modelName || !prompt) {
     throw new Error('Both modelName and prompt are required');
@@ -105,7 +142,7 @@ export async function queryOllamaModelStream(
   };
 
   try {
-    const response = await fetch('http://localhost:11434/api/generate', {
+    const response = await fetch(`${baseUrl}/api/generate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -169,11 +206,206 @@ export async function queryOllamaModelStream(
     return fullResponse.trim();
   } catch (error) {
     if (error instanceof TypeError && error.message.includes('fetch')) {
-      throw new Error('Unable to connect to Ollama. Make sure Ollama is running on localhost:11434');
+      throw new Error(`Unable to connect to Ollama. Make sure Ollama is running on ${baseUrl.replace(/^https?:\/\//, '')}`);
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Request was cancelled');
+    }
+    throw error;
+  }
+} 
+
+/**
+ * Answer a conversation through Ollama's /api/chat
+ * @param modelName - The Ollama model name (e.g., "codellama:7b")
+ * @param messages - System, user and assistant messages, oldest first
+ * @param options - Sampling settings; unset ones keep the model's defaults
+ * @param baseUrl - Ollama server root
+ * @returns Promise<ChatResponse> - Clean, plain-text answer and token counts
+ */
+export async function chatOllamaModel(
+  modelName: string,
+  messages: ChatTurn[],
+  options: GenerationOptions = {},
+  baseUrl: string = DEFAULT_OLLAMA_URL
+): Promise<ChatResponse> {
+  if (!modelName || messages.length === 0) {
+    throw new Error('Both modelName and messages are required');
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(buildChatRequest(modelName, messages, options, false)),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data: OllamaChatResponse = await response.json();
+    if (typeof data.message?.content !== 'string') {
+      throw new Error(`Invalid response from Ollama API: ${data.error || 'missing message field'}`);
+    }
+
+    return { content: data.message.content.trim(), usage: readUsage(data) };
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error(`Unable to connect to Ollama. Make sure Ollama is running on ${baseUrl.replace(/^https?:\/\//, '')}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Answer a conversation through Ollama's /api/chat with streaming
+ * @param modelName - The Ollama model name (e.g., "codellama:7b")
+ * @param messages - System, user and assistant messages, oldest first
+ * @param onChunk - Callback function called for each streaming chunk
+ * @param options - Sampling settings; unset ones keep the model's defaults
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @param baseUrl - Ollama server root
+ * @returns Promise<ChatResponse> - Complete answer and token counts
+ */
+export async function chatOllamaModelStream(
+  modelName: string,
+  messages: ChatTurn[],
+  onChunk: (chunk: string) => void,
+  options: GenerationOptions = {},
+  abortSignal?: AbortSignal,
+  baseUrl: string = DEFAULT_OLLAMA_URL
+): Promise<ChatResponse> {
+  if (!modelName || messages.length === 0) {
+    throw new Error('Both modelName and messages are required');
+  }
+
+  try {
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(buildChatRequest(modelName, messages, options, true)),
+      signal: abortSignal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let fullResponse = '';
+    // A JSON line can be split across reads; keep the unfinished one
+    let buffered = '';
+
+    try {
+      while (true) {
+        if (abortSignal?.aborted) {
+          throw new Error('Request was aborted');
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          let jsonChunk: OllamaChatResponse;
+          try {
+            jsonChunk = JSON.parse(line);
+          } catch (parseError) {
+            console.warn('Failed to parse streaming chunk:', line);
+            continue;
+          }
+
+          if (jsonChunk.error) {
+            throw new Error(`Ollama API error: ${jsonChunk.error}`);
+          }
+
+          const content = jsonChunk.message?.content;
+          if (content) {
+            fullResponse += content;
+            if (!abortSignal?.aborted) {
+              onChunk(content);
+            }
+          }
+
+          // The final line carries the token counts
+          if (jsonChunk.done) {
+            return { content: fullResponse.trim(), usage: readUsage(jsonChunk) };
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    return { content: fullResponse.trim() };
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error(`Unable to connect to Ollama. Make sure Ollama is running on ${baseUrl.replace(/^https?:\/\//, '')}`);
     }
     if (error instanceof Error && error.name === 'AbortError') {
       throw new Error('Request was cancelled');
     }
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Token counts of a finished chat response. Ollama leaves
+ * prompt_eval_count out when the whole prompt came from its cache.
+ */
+function readUsage(response: OllamaChatResponse): TokenUsage | undefined {
+  if (response.prompt_eval_count === undefined || response.eval_count === undefined) {
+    return undefined;
+  }
+  return { promptTokens: response.prompt_eval_count, responseTokens: response.eval_count };
+}
+
+/**
+ * Request body for /api/chat, with options in Ollama's snake_case names.
+ * Options are left out entirely when none are set.
+ */
+function buildChatRequest(
+  modelName: string,
+  messages: ChatTurn[],
+  options: GenerationOptions,
+  stream: boolean
+): OllamaChatRequest {
+  const ollamaOptions: OllamaChatOptions = {
+    temperature: options.temperature,
+    top_k: options.topK,
+    top_p: options.topP,
+    num_ctx: options.numCtx,
+    seed: options.seed,
+    stop: options.stop?.length ? options.stop : undefined
+  };
+  const setOptions = Object.fromEntries(
+    Object.entries(ollamaOptions).filter(([, value]) => value !== undefined)
+  ) as OllamaChatOptions;
+
+  const request: OllamaChatRequest = {
+    model: modelName,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+    stream
+  };
+  if (Object.keys(setOptions).length > 0) {
+    request.options = setOptions;
+  }
+  return request;
+}
@@ -0,0 +1,245 @@
+/**
+ * Ollama as a model provider
+ */
+
+import { ModelInfo } from '../types';
+import { ChatResponse, ChatTurn, GenerationOptions, ModelProvider, ProviderCapabilities } from './types';
+import {
+  chatOllamaModel,
+  chatOllamaModelStream,
+  DEFAULT_OLLAMA_URL,
+  queryOllamaModel,
+  queryOllamaModelStream
+} from './ollamaAdapter';
+import { OllamaModelInfo, OllamaService, OllamaShowResponse, OllamaUtils } from './ollamaService';
+
+interface OllamaEmbedResponse {
+  embeddings: number[][];
+}
+
+interface OllamaLegacyEmbeddingResponse {
+  embedding: number[];
+}
+
+/**
+ * num_ctx Ollama runs a model with when neither the request nor the
+ * Modelfile sets one (OLLAMA_CONTEXT_LENGTH on the server changes it)
+ */
+export const OLLAMA_DEFAULT_NUM_CTX = 4096;
+
+interface OllamaContextInfo {
+  /** Context length the model was trained with, from its GGUF metadata */
+  trained?: number;
+  /** num_ctx set in the Modelfile */
+  numCtx?: number;
+}
+
+export class OllamaProvider implements ModelProvider {
+  readonly id = 'ollama';
+  readonly displayName = 'Ollama';
+  readonly capabilities: ProviderCapabilities = { chat: true, streaming: true, embeddings: true };
+
+  private service: OllamaService;
+  /** null until the first request tells us whether /api/embed exists */
+  private batchEndpointAvailable: boolean | null = null;
+  private contextInfo = new Map<string, Promise<OllamaContextInfo>>();
+
+  constructor(private baseUrl: string = DEFAULT_OLLAMA_URL) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.service = new OllamaService(this.baseUrl);
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.service.isAvailable();
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    if (!(await this.service.isAvailable())) {
+      console.warn(`Ollama is not available at ${this.baseUrl}`);
+      return [];
+    }
+
+    const models = await this.service.getAvailableModels();
+    return models.map(model => this.convertToModelInfo(model));
+  }
+
+  generate(model: string, prompt: string): Promise<string> {
+    return queryOllamaModel(model, prompt, this.baseUrl);
+  }
+
+  stream(model: string, prompt: string, onChunk: (chunk: string) => void, abortSignal?: AbortSignal): Promise<string> {
+    return queryOllamaModelStream(model, prompt, onChunk, abortSignal, this.baseUrl);
+  }
+
+  chat(model: string, messages: ChatTurn[], options?: GenerationOptions): Promise<ChatResponse> {
+    return chatOllamaModel(model, messages, options, this.baseUrl);
+  }
+
+  chatStream(
+    model: string,
+    messages: ChatTurn[],
+    onChunk: (chunk: string) => void,
+    options?: GenerationOptions,
+    abortSignal?: AbortSignal
+  ): Promise<ChatResponse> {
+    return chatOllamaModelStream(model, messages, onChunk, options, abortSignal, this.baseUrl);
+  }
+
+  /**
+   * The num_ctx Ollama will use: the requested one, else the Modelfile's,
+   * else Ollama's default, capped at what the model was trained with.
+   * Prompts longer than this are cut from the front without an error.
+   */
+  async getContextLength(model: string, numCtx?: number): Promise<number | undefined> {
+    let info = this.contextInfo.get(model);
+    if (!info) {
+      info = this.service.showModel(model).then(parseContextInfo);
+      this.contextInfo.set(model, info);
+    }
+
+    let resolved: OllamaContextInfo;
+    try {
+      resolved = await info;
+    } catch (error) {
+      this.contextInfo.delete(model);
+      console.warn(`Failed to read the context length of ${model}:`, error);
+      return undefined;
+    }
+
+    const length = numCtx ?? resolved.numCtx ?? OLLAMA_DEFAULT_NUM_CTX;
+    return resolved.trained ? Math.min(length, resolved.trained) : length;
+  }
+
+  /**
+   * Embed texts with the batch /api/embed endpoint, falling back to one
+   * /api/embeddings call per text on Ollama versions that predate it
+   */
+  async embed(model: string, inputs: string[], abortSignal?: AbortSignal): Promise<number[][]> {
+    if (inputs.length === 0) return [];
+
+    if (this.batchEndpointAvailable !== false) {
+      const response = await fetch(`${this.baseUrl}/api/embed`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model,
+          input: inputs
+        }),
+        signal: abortSignal
+      });
+
+      // Unknown route is a plain 404; a missing model is a 404 that names the model
+      const body = response.status === 404 ? await response.text() : '';
+      if (response.status === 404 && !/model/i.test(body)) {
+        console.warn('Ollama has no /api/embed endpoint, embedding one chunk per request');
+        this.batchEndpointAvailable = false;
+      } else {
+        if (!response.ok) {
+          throw new Error(`Ollama API error: ${response.status} ${body || response.statusText}`);
+        }
+
+        const data: OllamaEmbedResponse = await response.json();
+        if (!Array.isArray(data.embeddings) || data.embeddings.length !== inputs.length) {
+          throw new Error('Invalid embedding response from Ollama');
+        }
+        this.batchEndpointAvailable = true;
+        return data.embeddings;
+      }
+    }
+
+    const embeddings: number[][] = [];
+    for (const input of inputs) {
+      embeddings.push(await this.embedOne(model, input, abortSignal));
+    }
+    return embeddings;
+  }
+
+  /**
+   * Embed one text with Ollama's single-prompt API
+   */
+  private async embedOne(model: string, input: string, abortSignal?: AbortSignal): Promise<number[]> {
+    const response = await fetch(`${this.baseUrl}/api/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model,
+        prompt: input
+      }),
+      signal: abortSignal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: OllamaLegacyEmbeddingResponse = await response.json();
+    if (!data.embedding || !Array.isArray(data.embedding)) {
+      throw new Error('Invalid embedding response from Ollama');
+    }
+    return data.embedding;
+  }
+
+  /**
+   * Convert Ollama model info to generic ModelInfo format
+   */
+  private convertToModelInfo(ollamaModel: OllamaModelInfo): ModelInfo {
+    return {
+      id: ollamaModel.id,
+      name: ollamaModel.name,
+      displayName: ollamaModel.displayName,
+      provider: this.id,
+      available: ollamaModel.available,
+      size: ollamaModel.size,
+      family: ollamaModel.family,
+      parameterSize: ollamaModel.parameterSize,
+      lastModified: ollamaModel.lastModified,
+      description: this.generateModelDescription(ollamaModel),
+    };
+  }
+
+  /**
+   * Generate a description for a model
+   */
+  private generateModelDescription(model: OllamaModelInfo): string {
+    const parts: string[] = [];
+
+    if (model.family) {
+      parts.push(`${model.family} family`);
+    }
+
+    if (model.parameterSize) {
+      parts.push(model.parameterSize);
+    }
+
+    if (model.size) {
+      parts.push(OllamaUtils.formatSize(model.size));
+    }
+
+    return parts.join(' • ');
+  }
+}
+
+/**
+ * Context sizes from /api/show: `<architecture>.context_length` in the
+ * model metadata and a `num_ctx` PARAMETER line in the Modelfile
+ */
+function parseContextInfo(show: OllamaShowResponse): OllamaContextInfo {
+  const info: OllamaContextInfo = {};
+
+  for (const [key, value] of Object.entries(show.model_info || {})) {
+    if (key.endsWith('.context_length') && typeof value === 'number' && value > 0) {
+      info.trained = value;
+    }
+  }
+
+  const numCtx = show.parameters?.match(/^\s*num_ctx\s+(\d+)/m);
+  if (numCtx) {
+    info.numCtx = parseInt(numCtx[1], 10);
+  }
+
+  return info;
+}
@@ -21,6 +21,53 @@ export interface OllamaTagsResponse {
   models: OllamaModel[];
 }
 
+/**
+ * Response of /api/show
+ */
+export interface OllamaShowResponse {
+  modelfile?: string;
+  /** Modelfile PARAMETER lines, e.g. "num_ctx 8192\nstop <|eot_id|>" */
+  parameters?: string;
+  template?: string;
+  system?: string;
+  license?: string;
+  details?: OllamaModel['details'];
+  /** GGUF metadata, e.g. "llama.context_length": 131072 */
+  model_info?: Record<string, unknown>;
+  modified_at?: string;
+}
+
+/**
+ * One line of the /api/pull progress stream
+ */
+export interface OllamaPullProgress {
+  /** e.g. "pulling manifest", "pulling <digest>", "verifying sha256 digest", "success" */
+  status: string;
+  digest?: string;
+  /** Bytes of the layer being downloaded */
+  total?: number;
+  completed?: number;
+}
+
+/**
+ * A model loaded in memory, from /api/ps
+ */
+export interface OllamaRunningModel {
+  name: string;
+  model: string;
+  /** Bytes in memory, VRAM included */
+  size: number;
+  size_vram: number;
+  digest: string;
+  details?: OllamaModel['details'];
+  /** When Ollama unloads it unless it is used again */
+  expires_at: string;
+}
+
+interface OllamaPsResponse {
+  models: OllamaRunningModel[];
+}
+
 export interface OllamaModelInfo {
   id: string;
   name: string;
@@ -103,6 +150,167 @@ export class OllamaService {
     }
   }
 
+  /**
+   * Fetch a model's Modelfile parameters, template and metadata
+   */
+  async showModel(modelName: string): Promise<OllamaShowResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/show`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: modelName }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to show model ${modelName}: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timeout: Ollama took too long to respond');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Download a model, reporting each progress line. Resolves once Ollama
+   * reports success; no timeout applies since large models take minutes.
+   */
+  async pullModel(
+    modelName: string,
+    onProgress: (progress: OllamaPullProgress) => void,
+    abortSignal?: AbortSignal
+  ): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/pull`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: modelName, stream: true }),
+      signal: abortSignal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to pull model ${modelName}: ${await this.readError(response)}`);
+    }
+    if (!response.body) {
+      throw new Error('No response body received from Ollama');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let succeeded = false;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const progress: OllamaPullProgress & { error?: string } = JSON.parse(line);
+          if (progress.error) {
+            throw new Error(`Failed to pull model ${modelName}: ${progress.error}`);
+          }
+          onProgress(progress);
+          succeeded = succeeded || progress.status === 'success';
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (!succeeded) {
+      throw new Error(`Pull of ${modelName} ended before Ollama reported success`);
+    }
+  }
+
+  /**
+   * Remove a model and the layers no other model uses
+   */
+  async deleteModel(modelName: string): Promise<void> {
+    const response = await this.request('/api/delete', 'DELETE', { model: modelName });
+    if (!response.ok) {
+      throw new Error(`Failed to delete model ${modelName}: ${await this.readError(response)}`);
+    }
+  }
+
+  /**
+   * Models loaded in memory and how much of each sits in VRAM
+   */
+  async getRunningModels(): Promise<OllamaRunningModel[]> {
+    const response = await this.request('/api/ps', 'GET');
+    if (!response.ok) {
+      throw new Error(`Failed to list running models: ${await this.readError(response)}`);
+    }
+    const data: OllamaPsResponse = await response.json();
+    return data.models || [];
+  }
+
+  /**
+   * Unload a model from memory now instead of after its keep-alive
+   */
+  async unloadModel(modelName: string): Promise<void> {
+    const response = await this.request('/api/generate', 'POST', { model: modelName, keep_alive: 0 });
+    if (!response.ok) {
+      throw new Error(`Failed to unload model ${modelName}: ${await this.readError(response)}`);
+    }
+  }
+
+  /**
+   * Send a request with the service timeout
+   */
+  private async request(endpoint: string, method: string, body?: unknown): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      return await fetch(`${this.baseUrl}${endpoint}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timeout: Ollama took too long to respond');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Ollama's error message, e.g. `model "x" not found`, or the status line
+   */
+  private async readError(response: Response): Promise<string> {
+    try {
+      const data = await response.json();
+      if (data?.error) return data.error;
+    } catch {
+      // Not JSON
+    }
+    return `${response.status} ${response.statusText}`;
+  }
+
   /**
    * Transform Ollama model data to our format
    */
@@ -0,0 +1,184 @@
+/**
+ * Tests for the OpenAI-compatible provider
+ */
+
+import {
+  chatOpenAIModel,
+  chatOpenAIModelStream,
+  configureOpenAICompatible,
+  createOpenAIEmbeddings,
+  queryOpenAIModel,
+  queryOpenAIModelStream
+} from './openaiAdapter';
+import { queryModelStream } from './modelAdapter';
+import { openaiCompatibleService } from './openaiService';
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+// Response whose body arrives in the given pieces
+function streamResponse(pieces: string[]) {
+  const encoder = new TextEncoder();
+  return {
+    ok: true,
+    status: 200,
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      }
+    })
+  };
+}
+
+describe('OpenAI-compatible provider', () => {
+  let requests: RecordedRequest[];
+  const originalFetch = globalThis.fetch;
+
+  function stubFetch(respond: (url: string) => unknown) {
+    globalThis.fetch = (async (url: string, init: { headers: Record<string, string>; body?: string }) => {
+      requests.push({ url, headers: init.headers, body: init.body ? JSON.parse(init.body) : undefined });
+      return respond(url);
+    }) as unknown as typeof fetch;
+  }
+
+  beforeEach(() => {
+    requests = [];
+    configureOpenAICompatible({ baseUrl: 'http://localhost:1234/v1/', apiKey: 'secret' });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    configureOpenAICompatible(null);
+  });
+
+  test('should send chat completions with the API key', async () => {
+    stubFetch(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ choices: [{ message: { content: ' Hello there. ' } }] })
+    }));
+
+    const answer = await queryOpenAIModel('qwen2.5-7b', 'Say hello');
+
+    expect(answer).toBe('Hello there.');
+    expect(requests[0].url).toBe('http://localhost:1234/v1/chat/completions');
+    expect(requests[0].headers.Authorization).toBe('Bearer secret');
+    expect(requests[0].body).toEqual({
+      model: 'qwen2.5-7b',
+      messages: [{ role: 'user', content: 'Say hello' }],
+      stream: false
+    });
+  });
+
+  test('should send the conversation with sampling options', async () => {
+    stubFetch(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        choices: [{ message: { content: 'Sure.' } }],
+        usage: { prompt_tokens: 21, completion_tokens: 2, total_tokens: 23 }
+      })
+    }));
+    const messages = [
+      { role: 'system' as const, content: 'Be brief.' },
+      { role: 'user' as const, content: 'Explain closures' }
+    ];
+
+    const response = await chatOpenAIModel('qwen2.5-7b', messages, { temperature: 0.3, topK: 20, topP: 0.8, numCtx: 4096, seed: 3, stop: ['###'] });
+
+    expect(response).toEqual({ content: 'Sure.', usage: { promptTokens: 21, responseTokens: 2 } });
+
+    expect(requests[0].body).toEqual({
+      model: 'qwen2.5-7b',
+      messages,
+      stream: false,
+      temperature: 0.3,
+      top_k: 20,
+      top_p: 0.8,
+      seed: 3,
+      stop: ['###']
+    });
+  });
+
+  test('should stream server-sent events split across reads', async () => {
+    stubFetch(() => streamResponse([
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\ndata: {"choices":[{"delta":{"con',
+      'tent":"Hel"}}]}\n\n: keep-alive\n\ndata: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+      'data: [DONE]\n\n'
+    ]));
+    const chunks: string[] = [];
+
+    const answer = await queryModelStream('openai:qwen2.5-7b', 'Say hello', chunk => chunks.push(chunk));
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(answer).toBe('Hello');
+    expect(requests[0].body).toMatchObject({ model: 'qwen2.5-7b', stream: true });
+  });
+
+  test('should read token usage from the last streamed event', async () => {
+    stubFetch(() => streamResponse([
+      'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":9,"completion_tokens":1,"total_tokens":10}}\n\n',
+      'data: [DONE]\n\n'
+    ]));
+
+    const response = await chatOpenAIModelStream('qwen2.5-7b', [{ role: 'user', content: 'Hi' }], () => undefined);
+
+    expect(response).toEqual({ content: 'Hi', usage: { promptTokens: 9, responseTokens: 1 } });
+    expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+  });
+
+  test('should return embeddings in input order', async () => {
+    stubFetch(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] }
+        ]
+      })
+    }));
+
+    const vectors = await createOpenAIEmbeddings('nomic-embed-text', ['first', 'second']);
+
+    expect(vectors).toEqual([[1, 0], [0, 1]]);
+    expect(requests[0].url).toBe('http://localhost:1234/v1/embeddings');
+    expect(requests[0].body).toEqual({ model: 'nomic-embed-text', input: ['first', 'second'] });
+  });
+
+  test('should list served models with prefixed ids', async () => {
+    stubFetch(() => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ data: [{ id: 'models/Qwen2.5-7B-Instruct.gguf', owned_by: 'llamacpp' }] })
+    }));
+
+    const models = await openaiCompatibleService.getAvailableModels();
+
+    expect(requests[0].url).toBe('http://localhost:1234/v1/models');
+    expect(models).toEqual([{
+      id: 'openai:models/Qwen2.5-7B-Instruct.gguf',
+      name: 'models/Qwen2.5-7B-Instruct.gguf',
+      displayName: 'Qwen2.5-7B-Instruct',
+      ownedBy: 'llamacpp',
+      available: true,
+      lastModified: undefined
+    }]);
+  });
+
+  test('should report the server error message', async () => {
+    stubFetch(() => ({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      json: async () => ({ error: { message: 'model "missing" not loaded' } })
+    }));
+
+    await expect(queryOpenAIModel('missing', 'hi')).rejects.toThrow('404 Not Found - model "missing" not loaded');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for resolving provider:model ids and listing models across providers
+ */
+
+import { ProviderRegistry } from './providerRegistry';
+import { ModelManager } from './modelManager';
+import { ModelProvider } from './types';
+import { ModelInfo } from '../types';
+
+function fakeProvider(id: string, models: string[], overrides: Partial<ModelProvider> = {}): ModelProvider {
+  return {
+    id,
+    displayName: id,
+    capabilities: { chat: true, streaming: true, embeddings: false },
+    isAvailable: async () => true,
+    listModels: async (): Promise<ModelInfo[]> => models.map(name => ({
+      id: `${id}:${name}`,
+      name,
+      provider: id,
+      available: true
+    })),
+    generate: async (model, prompt) => `${id}/${model}: ${prompt}`,
+    stream: async () => '',
+    chat: async (model, messages) => ({ content: `${id}/${model}: ${messages[messages.length - 1].content}` }),
+    chatStream: async () => ({ content: '' }),
+    ...overrides
+  };
+}
+
+describe('ProviderRegistry', () => {
+  test('should resolve prefixed ids and fall back to the default provider', () => {
+    const registry = new ProviderRegistry('ollama');
+    registry.register(fakeProvider('ollama', []));
+    registry.register(fakeProvider('openai', []));
+
+    const resolveToText = (modelId: string) => {
+      const { provider, model } = registry.resolve(modelId);
+      return `${provider.id} ${model}`;
+    };
+
+    expect(resolveToText('openai:qwen2.5-7b')).toBe('openai qwen2.5-7b');
+    expect(resolveToText('ollama:llama3:8b')).toBe('ollama llama3:8b');
+    // Ollama tags contain colons too
+    expect(resolveToText('llama3:8b')).toBe('ollama llama3:8b');
+  });
+
+  test('should unregister only the provider it registered', () => {
+    const registry = new ProviderRegistry('ollama');
+    const unregister = registry.register(fakeProvider('custom', []));
+    const replacement = fakeProvider('custom', []);
+    registry.register(replacement);
+
+    unregister();
+
+    expect(registry.get('custom')).toBe(replacement);
+    expect(() => registry.resolve('llama3')).toThrow('No model provider registered');
+  });
+});
+
+describe('ModelManager with a provider registry', () => {
+  test('should list models of configured providers and skip failing ones', async () => {
+    const registry = new ProviderRegistry('ollama');
+    registry.register(fakeProvider('ollama', ['llama3']));
+    registry.register(fakeProvider('lmstudio', ['qwen']));
+    registry.register(fakeProvider('offline', [], {
+      listModels: async () => {
+        throw new Error('connection refused');
+      }
+    }));
+    registry.register(fakeProvider('unset', ['hidden'], { isConfigured: () => false }));
+    const manager = new ModelManager({ refreshInterval: 0 }, registry);
+
+    const models = await manager.getAllAvailableModels();
+
+    expect(models.map(model => model.id).sort()).toEqual(['lmstudio:qwen', 'ollama:llama3']);
+  });
+});
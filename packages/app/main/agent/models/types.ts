@@ -1,7 +1,9 @@
 /**
- * Common types for model adapters
+ * Common types for model providers
  */
 
+import type { ModelInfo, TokenUsage } from '../types';
+
 export interface ModelConfig {
   maxTokens?: number;
   temperature?: number;
@@ -17,14 +19,82 @@ export interface ModelResponse {
   };
 }
 
-export type ModelProvider = 'ollama' | 'openai' | 'anthropic' | 'custom';
+/**
+ * A message in a chat request
+ */
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Sampling and context settings sent with a chat request. Unset fields
+ * leave the server's defaults in place.
+ */
+export interface GenerationOptions {
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  /** Context window size in tokens (Ollama only) */
+  numCtx?: number;
+  seed?: number;
+  /** Sequences that end the answer */
+  stop?: string[];
+}
+
+/**
+ * A chat answer with the token counts the server reported, when it did
+ */
+export interface ChatResponse {
+  content: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * What a provider can be asked to do
+ */
+export interface ProviderCapabilities {
+  chat: boolean;
+  streaming: boolean;
+  embeddings: boolean;
+}
+
+/**
+ * A backend serving models, addressed by `<id>:<model>` model ids.
+ * Model names passed to its methods have the provider prefix removed.
+ */
+export interface ModelProvider {
+  /** Prefix of its model ids, e.g. 'ollama' */
+  readonly id: string;
+  readonly displayName: string;
+  readonly capabilities: ProviderCapabilities;
 
-export interface ModelInfo {
-  id: string;
-  provider: ModelProvider;
-  name: string;
-  description?: string;
-  available: boolean;
+  /**
+   * Whether the provider has the settings it needs. Unconfigured providers
+   * are left out of model lists. Defaults to true.
+   */
+  isConfigured?(): boolean;
+  isAvailable(): Promise<boolean>;
+  /** Models it serves, with ids prefixed by the provider id */
+  listModels(): Promise<ModelInfo[]>;
+  generate(model: string, prompt: string): Promise<string>;
+  stream(model: string, prompt: string, onChunk: (chunk: string) => void, abortSignal?: AbortSignal): Promise<string>;
+  /** Answer the last message of a conversation */
+  chat(model: string, messages: ChatTurn[], options?: GenerationOptions): Promise<ChatResponse>;
+  chatStream(
+    model: string,
+    messages: ChatTurn[],
+    onChunk: (chunk: string) => void,
+    options?: GenerationOptions,
+    abortSignal?: AbortSignal
+  ): Promise<ChatResponse>;
+  /**
+   * Tokens of context the model will be run with, given the requested
+   * numCtx; undefined when the server does not say
+   */
+  getContextLength?(model: string, numCtx?: number): Promise<number | undefined>;
+  /** One vector per input, in input order; required when capabilities.embeddings is set */
+  embed?(model: string, inputs: string[], abortSignal?: AbortSignal): Promise<number[][]>;
 }
 
 export class ModelError extends Error {
@@ -37,4 +107,4 @@ export class ModelError extends Error {
     super(message);
     this.name = 'ModelError';
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -91,6 +91,21 @@ describe('ContextWindowOptimizer', () => {
       expect(result.summary).toContain('CONVERSATION SUMMARY');
       expect(result.optimizationsApplied).toContain('summarization');
     });
+
+    test('should move the oldest recent messages to the summary when over maxHistoryTokens', () => {
+      const limited = new ContextWindowOptimizer({ maxHistoryTokens: 50 });
+      const messages = [
+        createMockMessage('1', 'user', 'a'.repeat(160)),
+        createMockMessage('2', 'assistant', 'b'.repeat(80)),
+        createMockMessage('3', 'user', 'c'.repeat(80))
+      ];
+
+      const result = limited.optimizeContext(messages);
+
+      expect(result.messages.map(message => message.id)).toEqual(['2', '3']);
+      expect(result.summary).toContain('Previous discussion covered 1 messages');
+      expect(result.optimizationsApplied).toContain('sliding_window');
+    });
   });
 
   describe('Path Compression Strategy', () => {
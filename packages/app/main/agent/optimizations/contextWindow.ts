@@ -5,12 +5,21 @@
 
 import { ChatMessage } from '../types';
 import { ContextChunk } from '../chat/promptBuilder';
+import { createReranker, DEFAULT_RERANK_CONFIG, RelevanceScorer, ContextReranker } from './reranker';
+import { countTokens } from './tokenCounter';
 
 export interface ContextWindowConfig {
   /** Maximum number of recent messages to include in full */
   maxRecentMessages: number;
+  /**
+   * Token limit for the recent messages; the oldest of them move to the
+   * summary until the rest fit. Unlimited when unset.
+   */
+  maxHistoryTokens?: number;
   /** Maximum number of tokens before triggering optimizations */
   maxTokens: number;
+  /** Model whose tokenizer counts tokens; a generic count when unset */
+  modelId?: string;
   /** Whether to enable summarization for older messages */
   enableSummarization: boolean;
   /** Whether to compress file paths */
@@ -19,6 +28,27 @@ export interface ContextWindowConfig {
   enableDeduplication: boolean;
   /** Minimum relevance score for context chunks */
   minRelevanceScore: number;
+  /** Whether to re-rank retrieved chunks against the query before final selection */
+  enableReranking?: boolean;
+  /**
+   * How the re-ranker scores candidates: 'llm' grades them all in one
+   * prompt to a chat model, 'cross_encoder' asks a small relevance model
+   * served by Ollama about each (query, chunk) pair
+   */
+  rerankStrategy?: 'llm' | 'cross_encoder';
+  /** Ollama model that scores candidates; 'llm' falls back to the chat model */
+  rerankModel?: string;
+  /** Number of top candidates sent to the re-ranker */
+  rerankTopN?: number;
+  /** Share of the final score taken from the re-ranker, the rest from retrieval (0-1) */
+  rerankWeight?: number;
+  /** Added for a file modified just now; halves every recencyHalfLifeDays */
+  recencyBoost?: number;
+  recencyHalfLifeDays?: number;
+  /** Added to chunks of the active file */
+  activeFileBoost?: number;
+  /** Added to chunks of other files in the active file's directory */
+  sameDirectoryBoost?: number;
 }
 
 export interface OptimizedContext {
@@ -48,10 +78,44 @@ export class ContextWindowOptimizer {
       compressFilePaths: true,
       enableDeduplication: true,
       minRelevanceScore: 0.1,
+      enableReranking: false,
+      ...DEFAULT_RERANK_CONFIG,
       ...config
     };
   }
 
+  /**
+   * Re-rank retrieved chunks against the query when enableReranking is set,
+   * replacing each chunk's relevanceScore with its final score. Runs before
+   * optimizeContext, whose relevance filter then applies to those scores.
+   */
+  async rerankContext(
+    query: string,
+    contextChunks: ContextChunk[],
+    options: {
+      /** Chat model, used for scoring when no rerankModel is configured */
+      modelId?: string;
+      activeFilePath?: string;
+      lastModified?: (filePath: string) => number | undefined;
+      /** Overrides the scorer picked by rerankStrategy */
+      scorer?: RelevanceScorer | null;
+    } = {}
+  ): Promise<ContextChunk[]> {
+    if (!this.config.enableReranking || contextChunks.length === 0) {
+      return contextChunks;
+    }
+
+    const reranker = options.scorer !== undefined
+      ? new ContextReranker(options.scorer, this.config)
+      : createReranker(this.config, options.modelId);
+    const results = await reranker.rerank(contextChunks, {
+      query,
+      activeFilePath: options.activeFilePath,
+      lastModified: options.lastModified
+    });
+    return results.map(result => ({ ...result.chunk, relevanceScore: result.score }));
+  }
+
   /**
    * Main optimization function
    * Applies all configured optimization strategies
@@ -110,20 +174,33 @@ export class ContextWindowOptimizer {
   }
 
   /**
-   * Apply sliding window to keep only recent messages
+   * Apply sliding window to keep only recent messages, within
+   * maxHistoryTokens when it is set
    */
   private applySlidingWindow(messages: ChatMessage[]): {
     messages: ChatMessage[];
     olderMessages: ChatMessage[];
   } {
-    if (messages.length <= this.config.maxRecentMessages) {
-      return { messages, olderMessages: [] };
+    let keep = Math.min(messages.length, this.config.maxRecentMessages);
+
+    const { maxHistoryTokens } = this.config;
+    if (maxHistoryTokens !== undefined) {
+      let tokens = 0;
+      let fitting = 0;
+      for (let i = messages.length - 1; i >= messages.length - keep; i--) {
+        tokens += countTokens(messages[i].content, this.config.modelId);
+        if (tokens > maxHistoryTokens) break;
+        fitting++;
+      }
+      keep = fitting;
     }
 
-    const recentMessages = messages.slice(-this.config.maxRecentMessages);
-    const olderMessages = messages.slice(0, -this.config.maxRecentMessages);
+    if (keep === messages.length) {
+      return { messages, olderMessages: [] };
+    }
 
-    return { messages: recentMessages, olderMessages };
+    const split = messages.length - keep;
+    return { messages: messages.slice(split), olderMessages: messages.slice(0, split) };
   }
 
   /**
@@ -352,22 +429,20 @@ Summary: ${conversationSummary.summary}
     contextChunks: ContextChunk[],
     summary?: string
   ): number {
+    const { modelId } = this.config;
     let tokens = 0;
 
-    // Estimate tokens for messages (rough: 1 token per 4 characters)
     messages.forEach(message => {
-      tokens += Math.ceil(message.content.length / 4);
+      tokens += countTokens(message.content, modelId);
     });
 
-    // Estimate tokens for context chunks
     contextChunks.forEach(chunk => {
-      tokens += Math.ceil(chunk.content.length / 4);
-      tokens += Math.ceil(chunk.filePath.length / 4);
+      tokens += countTokens(chunk.content, modelId);
+      tokens += countTokens(chunk.filePath, modelId);
     });
 
-    // Estimate tokens for summary
     if (summary) {
-      tokens += Math.ceil(summary.length / 4);
+      tokens += countTokens(summary, modelId);
     }
 
     return tokens;
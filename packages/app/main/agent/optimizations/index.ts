@@ -8,7 +8,8 @@
  * - Summarization: Automatic summarization of older messages
  * - Path Compression: Shorten file paths to save tokens
  * - Deduplication: Remove duplicate context chunks
- * - Token Estimation: Estimate and manage token usage
+ * - Token Counting: Per-family tokenizers corrected by the model's own counts
+ * - Re-ranking: Score retrieved chunks against the query with a local model
  * 
  * @example
  * ```typescript
@@ -32,6 +33,28 @@ export {
   type MessageSummary
 } from './contextWindow';
 
+// Token counting with per-model corrections
+export {
+  TokenCounter,
+  tokenCounter,
+  countTokens,
+  detectTokenizerFamily,
+  type TokenizerFamily
+} from './tokenCounter';
+
+// Second-stage re-ranking of retrieved context
+export {
+  ContextReranker,
+  createReranker,
+  createLlmScorer,
+  createCrossEncoderScorer,
+  DEFAULT_RERANK_CONFIG,
+  type RelevanceScorer,
+  type RerankConfig,
+  type RerankContext,
+  type RerankResult
+} from './reranker';
+
 // Enhanced chat agent with optimization
 export {
   OptimizedChatAgent,
@@ -104,7 +127,8 @@ export const OptimizationPresets = {
 };
 
 /**
- * Model-specific token limits for Ollama models
+ * Token limits for Ollama models, used when the model's context length
+ * cannot be read from the server
  */
 export const ModelTokenLimits = {
   'codellama:7b': 4096,
@@ -129,20 +153,29 @@ export function createOptimizerWithPreset(preset: keyof typeof OptimizationPrese
 }
 
 /**
- * Get recommended optimization settings for a specific model
+ * Get recommended optimization settings for a specific model. With the
+ * model's context length, as its server reports it, the token budget is
+ * 80% of that length; otherwise the preset's.
  */
-export function getModelOptimizationConfig(modelId: string): ContextWindowConfig {
-  const tokenLimit = ModelTokenLimits[modelId as keyof typeof ModelTokenLimits] || 4000;
+export function getModelOptimizationConfig(modelId: string, contextLength?: number): ContextWindowConfig {
+  const tokenLimit = contextLength || ModelTokenLimits[modelId as keyof typeof ModelTokenLimits] || 4000;
   
+  let preset: ContextWindowConfig;
   if (tokenLimit >= 32000) {
-    return OptimizationPresets.largeContext;
+    preset = OptimizationPresets.largeContext;
   } else if (tokenLimit >= 8000) {
-    return OptimizationPresets.conservative;
+    preset = OptimizationPresets.conservative;
   } else if (tokenLimit >= 4000) {
-    return OptimizationPresets.balanced;
+    preset = OptimizationPresets.balanced;
   } else {
-    return OptimizationPresets.aggressive;
+    preset = OptimizationPresets.aggressive;
   }
+
+  return {
+    ...preset,
+    ...(contextLength ? { maxTokens: Math.floor(contextLength * 0.8) } : {}),
+    ...(modelId ? { modelId } : {})
+  };
 }
 
 /**
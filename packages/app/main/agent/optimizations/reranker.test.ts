@@ -0,0 +1,139 @@
+/**
+ * Tests for second-stage re-ranking of retrieved context
+ */
+
+import { ContextReranker, createLlmScorer, RelevanceScorer } from './reranker';
+import { ContextWindowOptimizer } from './contextWindow';
+import { ContextChunk } from '../chat/promptBuilder';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function chunk(filePath: string, content: string, relevanceScore: number): ContextChunk {
+  return { filePath, content, relevanceScore };
+}
+
+// Fake model: scores documents that mention any of the given words as relevant
+function fakeScorer(relevantWords: string[], calls: string[][] = []): RelevanceScorer {
+  return async (_query, documents) => {
+    calls.push(documents);
+    return documents.map(document => relevantWords.some(word => document.includes(word)) ? 1 : 0);
+  };
+}
+
+const noBoosts = { recencyBoost: 0, activeFileBoost: 0, sameDirectoryBoost: 0 };
+
+describe('ContextReranker', () => {
+  test('should blend model scores with retrieval scores', async () => {
+    const chunks = [
+      chunk('src/ui.ts', 'render the save button', 0.8),
+      chunk('src/save.ts', 'write the note with an atomic rename', 0.6)
+    ];
+    const reranker = new ContextReranker(fakeScorer(['atomic']), { ...noBoosts, rerankWeight: 0.5 });
+
+    const results = await reranker.rerank(chunks, { query: 'why is saving flaky?' });
+
+    expect(results.map(result => result.chunk.filePath)).toEqual(['src/save.ts', 'src/ui.ts']);
+    expect(results[0]).toMatchObject({ index: 1, modelScore: 1 });
+    expect(results[0].score).toBe(0.8);
+  });
+
+  test('should only send the top N candidates to the model', async () => {
+    const calls: string[][] = [];
+    const chunks = [
+      chunk('a.ts', 'a', 0.9),
+      chunk('b.ts', 'b', 0.3),
+      chunk('c.ts', 'c relevant', 0.5)
+    ];
+    const reranker = new ContextReranker(fakeScorer(['relevant'], calls), { ...noBoosts, rerankTopN: 2 });
+
+    const results = await reranker.rerank(chunks, { query: 'q' });
+
+    expect(calls).toEqual([['a', 'c relevant']]);
+    expect(results.map(result => result.chunk.filePath)).toEqual(['c.ts', 'a.ts', 'b.ts']);
+    expect(results[2].score).toBeLessThanOrEqual(results[1].score);
+  });
+
+  test('should boost the active file, its directory and recent files', async () => {
+    const now = Date.now();
+    const modified: Record<string, number> = {
+      'lib/old.ts': now - 60 * DAY_MS,
+      'lib/new.ts': now
+    };
+    const chunks = [
+      chunk('lib/old.ts', 'old', 0.5),
+      chunk('lib/new.ts', 'new', 0.5),
+      chunk('src/editor/save.ts', 'save', 0.5),
+      chunk('src/editor/toolbar.ts', 'toolbar', 0.5),
+      chunk('src/other.ts', 'other', 0.55)
+    ];
+    const reranker = new ContextReranker(null, {
+      recencyBoost: 0.1,
+      recencyHalfLifeDays: 7,
+      activeFileBoost: 0.3,
+      sameDirectoryBoost: 0.2
+    });
+
+    const results = await reranker.rerank(chunks, {
+      query: 'q',
+      activeFilePath: 'src/editor/save.ts',
+      lastModified: filePath => modified[filePath],
+      now
+    });
+
+    expect(results.map(result => result.chunk.filePath)).toEqual([
+      'src/editor/save.ts',
+      'src/editor/toolbar.ts',
+      'lib/new.ts',
+      'src/other.ts',
+      'lib/old.ts'
+    ]);
+  });
+
+  test('should keep retrieval order when the model fails', async () => {
+    const failing: RelevanceScorer = async () => {
+      throw new Error('model not found');
+    };
+    const chunks = [chunk('a.ts', 'a', 0.4), chunk('b.ts', 'b', 0.7)];
+
+    const results = await new ContextReranker(failing, noBoosts).rerank(chunks, { query: 'q' });
+
+    expect(results.map(result => result.chunk.filePath)).toEqual(['b.ts', 'a.ts']);
+    expect(results[0].modelScore).toBeUndefined();
+  });
+});
+
+describe('createLlmScorer', () => {
+  test('should send every candidate in one prompt and parse graded lines', async () => {
+    const prompts: string[] = [];
+    const scorer = createLlmScorer('llama3', async (modelId, prompt) => {
+      prompts.push(`${modelId}:${prompt}`);
+      return 'Scores:\n1: 2\n[2]: 9\n3 - 10';
+    });
+
+    const scores = await scorer('why is saving flaky?', ['first', 'second', 'third']);
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('[3]\nthird');
+    expect(scores).toEqual([0.2, 0.9, 1]);
+  });
+
+  test('should fail when the answer contains no scores', async () => {
+    const scorer = createLlmScorer('llama3', async () => 'They all look relevant.');
+
+    await expect(scorer('q', ['a'])).rejects.toThrow('no scores');
+  });
+});
+
+describe('ContextWindowOptimizer.rerankContext', () => {
+  test('should leave chunks alone unless re-ranking is enabled', async () => {
+    const chunks = [chunk('a.ts', 'a', 0.2), chunk('b.ts', 'b relevant', 0.1)];
+
+    const disabled = await new ContextWindowOptimizer().rerankContext('q', chunks, { scorer: fakeScorer(['relevant']) });
+    const enabled = await new ContextWindowOptimizer({ enableReranking: true, ...noBoosts })
+      .rerankContext('q', chunks, { scorer: fakeScorer(['relevant']) });
+
+    expect(disabled).toBe(chunks);
+    expect(enabled.map(result => result.filePath)).toEqual(['b.ts', 'a.ts']);
+    expect(enabled[0].relevanceScore).toBe(0.55);
+  });
+});
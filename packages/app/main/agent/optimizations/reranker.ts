@@ -0,0 +1,254 @@
+/**
+ * Second-stage re-ranking of retrieved context
+ *
+ * Retrieval scores come from embeddings and keywords alone. The re-ranker
+ * scores the top candidates against the query with a local model, blends
+ * that with the retrieval score and adds boosts for recently modified
+ * files and for files near the one being edited.
+ */
+
+import { ContextChunk } from '../chat/promptBuilder';
+import { queryModel } from '../models/modelAdapter';
+import type { QueryGenerator } from '../context/queryRewriter';
+import type { ContextWindowConfig } from './contextWindow';
+
+/**
+ * Scores each document's relevance to the query between 0 and 1
+ */
+export type RelevanceScorer = (query: string, documents: string[]) => Promise<number[]>;
+
+export type RerankConfig = Required<Pick<
+  ContextWindowConfig,
+  | 'rerankStrategy'
+  | 'rerankTopN'
+  | 'rerankWeight'
+  | 'recencyBoost'
+  | 'recencyHalfLifeDays'
+  | 'activeFileBoost'
+  | 'sameDirectoryBoost'
+>>;
+
+export const DEFAULT_RERANK_CONFIG: RerankConfig = {
+  rerankStrategy: 'llm',
+  rerankTopN: 10,
+  rerankWeight: 0.5,
+  recencyBoost: 0.05,
+  recencyHalfLifeDays: 7,
+  activeFileBoost: 0.1,
+  sameDirectoryBoost: 0.05
+};
+
+export interface RerankContext {
+  query: string;
+  /** File being edited, in the same form as the chunks' paths */
+  activeFilePath?: string;
+  /** Modification time in ms of a chunk's file, when known */
+  lastModified?: (filePath: string) => number | undefined;
+  /** Defaults to Date.now() */
+  now?: number;
+}
+
+export interface RerankResult {
+  chunk: ContextChunk;
+  /** Position of the chunk in the input */
+  index: number;
+  /** Final score, ordering the results */
+  score: number;
+  /** Model relevance, for candidates the model scored */
+  modelScore?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Characters of each candidate shown to the model
+const MAX_DOCUMENT_CHARS = 1200;
+
+export class ContextReranker {
+  private config: RerankConfig;
+
+  /**
+   * @param scorer Model scorer; with null only the boosts are applied
+   */
+  constructor(private scorer: RelevanceScorer | null, config: Partial<RerankConfig> = {}) {
+    this.config = { ...DEFAULT_RERANK_CONFIG, ...config };
+  }
+
+  /**
+   * Re-rank chunks by retrieval score, model score and boosts. Only the top
+   * rerankTopN by retrieval score are re-ranked; the rest keep their order
+   * after them. If the model fails, the boosts are still applied.
+   */
+  async rerank(chunks: ContextChunk[], context: RerankContext): Promise<RerankResult[]> {
+    const ordered = chunks
+      .map((chunk, index) => ({ chunk, index }))
+      .sort((a, b) => (b.chunk.relevanceScore ?? 0) - (a.chunk.relevanceScore ?? 0));
+    const head = ordered.slice(0, this.config.rerankTopN);
+    const tail = ordered.slice(this.config.rerankTopN);
+
+    let modelScores: number[] | null = null;
+    if (this.scorer && head.length > 0) {
+      try {
+        modelScores = await this.scorer(context.query, head.map(({ chunk }) => chunk.content));
+        if (modelScores.length !== head.length) {
+          throw new Error(`expected ${head.length} scores, got ${modelScores.length}`);
+        }
+      } catch (error) {
+        console.warn('Re-ranking failed, using retrieval scores:', error);
+        modelScores = null;
+      }
+    }
+
+    const weight = modelScores ? this.config.rerankWeight : 0;
+    const reranked: RerankResult[] = head.map(({ chunk, index }, i) => {
+      const modelScore = modelScores?.[i];
+      const blended = (1 - weight) * (chunk.relevanceScore ?? 0) + weight * (modelScore ?? 0);
+      return { chunk, index, modelScore, score: blended + this.boost(chunk.filePath, context) };
+    }).sort((a, b) => b.score - a.score);
+
+    // Scores of the rest are capped so they stay below every re-ranked chunk
+    const floor = reranked.length > 0 ? reranked[reranked.length - 1].score : Infinity;
+    return [
+      ...reranked,
+      ...tail.map(({ chunk, index }) => ({ chunk, index, score: Math.min(chunk.relevanceScore ?? 0, floor) }))
+    ];
+  }
+
+  /**
+   * Recency, active-file and same-directory boosts for a file
+   */
+  private boost(filePath: string, context: RerankContext): number {
+    let boost = 0;
+
+    if (context.activeFilePath) {
+      const file = normalizePath(filePath);
+      const active = normalizePath(context.activeFilePath);
+      if (file === active) {
+        boost += this.config.activeFileBoost;
+      } else if (directoryOf(file) === directoryOf(active)) {
+        boost += this.config.sameDirectoryBoost;
+      }
+    }
+
+    const modified = context.lastModified?.(filePath);
+    if (modified !== undefined && this.config.recencyBoost > 0) {
+      const ageDays = Math.max(0, ((context.now ?? Date.now()) - modified) / DAY_MS);
+      boost += this.config.recencyBoost * Math.pow(0.5, ageDays / this.config.recencyHalfLifeDays);
+    }
+    return boost;
+  }
+}
+
+/**
+ * Build the re-ranker a config asks for. The 'llm' strategy falls back to
+ * the chat model; without any model only the boosts are applied.
+ */
+export function createReranker(config: Partial<ContextWindowConfig>, chatModelId?: string): ContextReranker {
+  const strategy = config.rerankStrategy ?? DEFAULT_RERANK_CONFIG.rerankStrategy;
+  const model = config.rerankModel || (strategy === 'llm' ? chatModelId : undefined);
+
+  let scorer: RelevanceScorer | null = null;
+  if (model) {
+    scorer = strategy === 'cross_encoder' ? createCrossEncoderScorer(model) : createLlmScorer(model);
+  }
+
+  const overrides = Object.fromEntries(
+    (Object.keys(DEFAULT_RERANK_CONFIG) as Array<keyof RerankConfig>)
+      .filter(key => config[key] !== undefined)
+      .map(key => [key, config[key]])
+  );
+  return new ContextReranker(scorer, overrides);
+}
+
+/**
+ * Grade every candidate in a single prompt to a chat model, which answers
+ * with `<number>: <score 0-10>` lines
+ */
+export function createLlmScorer(modelId: string, generate: QueryGenerator = queryModel): RelevanceScorer {
+  return async (query, documents) => {
+    const passages = documents
+      .map((document, i) => `[${i + 1}]\n${document.slice(0, MAX_DOCUMENT_CHARS)}`)
+      .join('\n\n');
+    const prompt = `Rate how relevant each numbered passage is to the question, from 0 (unrelated) to 10 (answers it directly).
+Reply with one line per passage in the form "<number>: <score>" and nothing else.
+
+Question: ${query}
+
+${passages}`;
+
+    const answer = await generate(modelId, prompt);
+    const scores = new Array<number>(documents.length).fill(0);
+    let found = 0;
+    for (const line of answer.split('\n')) {
+      const match = line.match(/^\s*\[?(\d+)\]?\s*[:=\-]\s*(\d+(?:\.\d+)?)/);
+      const position = match ? Number(match[1]) - 1 : -1;
+      if (position >= 0 && position < documents.length) {
+        scores[position] = clamp(Number(match![2]) / 10);
+        found++;
+      }
+    }
+    if (found === 0) {
+      throw new Error('Re-ranking model returned no scores');
+    }
+    return scores;
+  };
+}
+
+/**
+ * Score each (query, candidate) pair with a small relevance model served by
+ * Ollama. The model is expected to answer yes/no or a score, which is read
+ * from the start of its reply.
+ */
+export function createCrossEncoderScorer(
+  model: string,
+  baseUrl: string = 'http://localhost:11434'
+): RelevanceScorer {
+  return async (query, documents) => {
+    const scores: number[] = [];
+    for (const document of documents) {
+      const response = await fetch(`${baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model,
+          prompt: `Query: ${query}\nDocument: ${document.slice(0, MAX_DOCUMENT_CHARS)}\nRelevant:`,
+          stream: false,
+          options: { temperature: 0, num_predict: 4 }
+        })
+      });
+      if (!response.ok) {
+        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data: { response?: string } = await response.json();
+      scores.push(parseRelevance(data.response || ''));
+    }
+    return scores;
+  };
+}
+
+/**
+ * Read `yes`, `no`, a 0-1 probability or a 0-10 grade from a model reply
+ */
+function parseRelevance(reply: string): number {
+  const text = reply.trim().toLowerCase();
+  if (text.startsWith('yes')) return 1;
+  if (text.startsWith('no')) return 0;
+
+  const value = parseFloat(text);
+  if (Number.isNaN(value)) return 0;
+  return clamp(value > 1 ? value / 10 : value);
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function directoryOf(filePath: string): string {
+  const slash = filePath.lastIndexOf('/');
+  return slash === -1 ? '' : filePath.slice(0, slash);
+}
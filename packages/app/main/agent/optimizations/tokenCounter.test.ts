@@ -0,0 +1,66 @@
+/**
+ * Tests for tokenizer-family token counting and calibration
+ */
+
+import { detectTokenizerFamily, TokenCounter } from './tokenCounter';
+
+describe('detectTokenizerFamily', () => {
+  test('should recognise common model families from Ollama and OpenAI-style ids', () => {
+    expect(detectTokenizerFamily('llama3.1:8b')).toBe('llama3');
+    expect(detectTokenizerFamily('openai:Meta-Llama-3-8B-Instruct')).toBe('llama3');
+    expect(detectTokenizerFamily('codellama:7b')).toBe('llama2');
+    expect(detectTokenizerFamily('mistral:7b-instruct')).toBe('mistral');
+    expect(detectTokenizerFamily('qwen2.5-coder:7b')).toBe('qwen');
+    expect(detectTokenizerFamily('gemma2:9b')).toBe('gemma');
+    expect(detectTokenizerFamily('phi3:mini')).toBe('phi3');
+    expect(detectTokenizerFamily('deepseek-coder:6.7b')).toBe('deepseek');
+    expect(detectTokenizerFamily('some-custom-model')).toBe('generic');
+  });
+});
+
+describe('TokenCounter', () => {
+  test('should count digits and symbols apart on SentencePiece vocabularies', () => {
+    const counter = new TokenCounter();
+    const text = 'const total = 1234567 * rate;';
+
+    expect(counter.count(text, 'codellama:7b')).toBeGreaterThan(counter.count(text, 'llama3:8b'));
+    expect(counter.count('', 'llama3:8b')).toBe(0);
+  });
+
+  test('should count CJK text per character', () => {
+    const counter = new TokenCounter();
+
+    expect(counter.count('今日は良い天気です', 'llama3:8b')).toBeGreaterThanOrEqual(9);
+  });
+
+  test('should correct counts towards the prompt tokens the model reported', () => {
+    const counter = new TokenCounter();
+    const messages = [{ content: 'Explain what the parser returns for invalid input.' }];
+    const counted = counter.countMessages(messages, 'llama3:8b');
+
+    counter.calibrate('llama3:8b', messages, Math.round(counted * 1.5));
+
+    expect(counter.getCorrection('llama3:8b')).toBeCloseTo(Math.round(counted * 1.5) / counted);
+    expect(counter.countMessages(messages, 'llama3:8b')).toBe(Math.round(counted * 1.5));
+    expect(counter.getCorrection('mistral:7b')).toBe(1);
+  });
+
+  test('should ignore prompt counts shortened by the prompt cache', () => {
+    const counter = new TokenCounter();
+    const messages = [{ content: 'A long system prompt that Ollama has already evaluated once before.' }];
+
+    counter.calibrate('llama3:8b', messages, 3);
+
+    expect(counter.getCorrection('llama3:8b')).toBe(1);
+  });
+
+  test('should forget corrections on reset', () => {
+    const counter = new TokenCounter();
+    const messages = [{ content: 'Hello there' }];
+    counter.calibrate('llama3:8b', messages, counter.countMessages(messages, 'llama3:8b') + 2);
+
+    counter.reset('llama3:8b');
+
+    expect(counter.getCorrection('llama3:8b')).toBe(1);
+  });
+});
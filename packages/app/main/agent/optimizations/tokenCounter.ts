@@ -0,0 +1,170 @@
+/**
+ * Token counting for context budgeting
+ *
+ * Counts come from approximate tokenizers for common model families: text
+ * is split the way BPE and SentencePiece pre-tokenizers split it (words,
+ * digit runs, symbols, whitespace) and each piece is costed with the
+ * family's vocabulary statistics. Prompt token counts reported back by the
+ * model (Ollama's prompt_eval_count) then correct the count per model.
+ */
+
+export type TokenizerFamily =
+  | 'llama3'
+  | 'llama2'
+  | 'mistral'
+  | 'qwen'
+  | 'gemma'
+  | 'phi3'
+  | 'deepseek'
+  | 'generic';
+
+interface TokenizerProfile {
+  /** Average characters per token within a word */
+  wordChars: number;
+  /** Digits merged into one token; 1 when every digit is its own token */
+  digitGroup: number;
+  /** Characters per token in runs of punctuation and symbols */
+  symbolChars: number;
+  /** Characters per token in runs of whitespace */
+  whitespaceChars: number;
+  /** Tokens per character of Chinese, Japanese and Korean text */
+  cjkTokensPerChar: number;
+  /** Chat template tokens around each message */
+  messageOverhead: number;
+}
+
+const PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  // 128k-token tiktoken-style vocabulary
+  llama3: { wordChars: 6, digitGroup: 3, symbolChars: 2, whitespaceChars: 4, cjkTokensPerChar: 1.1, messageOverhead: 5 },
+  // 32k SentencePiece vocabularies split digits and most symbols apart
+  llama2: { wordChars: 4, digitGroup: 1, symbolChars: 1, whitespaceChars: 2, cjkTokensPerChar: 1.5, messageOverhead: 6 },
+  mistral: { wordChars: 4, digitGroup: 1, symbolChars: 1, whitespaceChars: 2, cjkTokensPerChar: 1.5, messageOverhead: 4 },
+  phi3: { wordChars: 4, digitGroup: 1, symbolChars: 1, whitespaceChars: 2, cjkTokensPerChar: 1.5, messageOverhead: 4 },
+  qwen: { wordChars: 6, digitGroup: 1, symbolChars: 2, whitespaceChars: 4, cjkTokensPerChar: 0.7, messageOverhead: 5 },
+  gemma: { wordChars: 6.5, digitGroup: 1, symbolChars: 2, whitespaceChars: 8, cjkTokensPerChar: 0.8, messageOverhead: 5 },
+  deepseek: { wordChars: 5, digitGroup: 1, symbolChars: 2, whitespaceChars: 4, cjkTokensPerChar: 1, messageOverhead: 4 },
+  generic: { wordChars: 5, digitGroup: 2, symbolChars: 1.5, whitespaceChars: 3, cjkTokensPerChar: 1.2, messageOverhead: 4 }
+};
+
+// Reported counts this far below the estimate are cache hits, where Ollama
+// only counts the part of the prompt it had to evaluate
+const MIN_CALIBRATION_RATIO = 0.75;
+// Further above means the count was for a different prompt
+const MAX_CALIBRATION_RATIO = 2;
+// Weight of each new sample in the correction factor
+const CALIBRATION_RATE = 0.3;
+
+const PIECE_PATTERN = /\s+|\p{L}+|\p{N}+|[^\s\p{L}\p{N}]+/gu;
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+/**
+ * The tokenizer family of a model, from its id
+ */
+export function detectTokenizerFamily(modelId: string): TokenizerFamily {
+  const name = modelId.toLowerCase();
+  if (name.includes('codellama') || /llama-?2|tinyllama|vicuna/.test(name)) return 'llama2';
+  if (/llama-?3/.test(name)) return 'llama3';
+  if (/mistral|mixtral|codestral/.test(name)) return 'mistral';
+  if (/qwen|qwq/.test(name)) return 'qwen';
+  if (name.includes('gemma')) return 'gemma';
+  if (name.includes('phi')) return 'phi3';
+  if (name.includes('deepseek')) return 'deepseek';
+  return 'generic';
+}
+
+export class TokenCounter {
+  /** Ratio of reported to counted prompt tokens, per model */
+  private corrections = new Map<string, number>();
+
+  /**
+   * Tokens in a text for a model; a generic count when no model is given
+   */
+  count(text: string, modelId?: string): number {
+    if (!text) return 0;
+    const tokens = countWithProfile(text, PROFILES[detectTokenizerFamily(modelId || '')]);
+    return Math.ceil(tokens * this.getCorrection(modelId));
+  }
+
+  /**
+   * Tokens of chat messages, including the template around each
+   */
+  countMessages(messages: Array<{ content: string }>, modelId?: string): number {
+    const tokens = countMessagesWithProfile(messages, PROFILES[detectTokenizerFamily(modelId || '')]);
+    return Math.ceil(tokens * this.getCorrection(modelId));
+  }
+
+  /**
+   * Correct later counts for a model with the prompt token count it
+   * reported for these messages
+   */
+  calibrate(modelId: string, messages: Array<{ content: string }>, promptTokens: number): void {
+    const counted = countMessagesWithProfile(messages, PROFILES[detectTokenizerFamily(modelId)]);
+    if (counted === 0 || promptTokens <= 0) return;
+
+    const ratio = promptTokens / counted;
+    if (ratio < MIN_CALIBRATION_RATIO || ratio > MAX_CALIBRATION_RATIO) return;
+
+    const previous = this.corrections.get(modelId);
+    this.corrections.set(
+      modelId,
+      previous === undefined ? ratio : previous + (ratio - previous) * CALIBRATION_RATE
+    );
+  }
+
+  getCorrection(modelId?: string): number {
+    return (modelId && this.corrections.get(modelId)) || 1;
+  }
+
+  /**
+   * Forget the corrections of one model, or of all of them
+   */
+  reset(modelId?: string): void {
+    if (modelId) {
+      this.corrections.delete(modelId);
+    } else {
+      this.corrections.clear();
+    }
+  }
+}
+
+/**
+ * Uncorrected token count of a text under a family's profile
+ */
+function countWithProfile(text: string, profile: TokenizerProfile): number {
+  let tokens = 0;
+  const pieces = text.match(PIECE_PATTERN) || [];
+
+  pieces.forEach((piece, i) => {
+    if (/^\s/.test(piece)) {
+      // A single space before a word is part of the word's token
+      const merged = piece.endsWith(' ') && i + 1 < pieces.length ? 1 : 0;
+      const length = piece.length - merged;
+      tokens += length > 0 ? Math.ceil(length / profile.whitespaceChars) : 0;
+    } else if (/^\p{N}/u.test(piece)) {
+      tokens += Math.ceil(piece.length / profile.digitGroup);
+    } else if (/^\p{L}/u.test(piece)) {
+      tokens += CJK_PATTERN.test(piece)
+        ? Math.ceil(piece.length * profile.cjkTokensPerChar)
+        : Math.ceil(piece.length / profile.wordChars);
+    } else {
+      tokens += Math.ceil(piece.length / profile.symbolChars);
+    }
+  });
+
+  return tokens;
+}
+
+function countMessagesWithProfile(messages: Array<{ content: string }>, profile: TokenizerProfile): number {
+  return messages.reduce((sum, message) => sum + countWithProfile(message.content, profile) + profile.messageOverhead, 0);
+}
+
+// Shared by the context assembler and the chat agent, so corrections from
+// one answer apply to the next prompt
+export const tokenCounter = new TokenCounter();
+
+/**
+ * Tokens in a text with the shared counter
+ */
+export function countTokens(text: string, modelId?: string): number {
+  return tokenCounter.count(text, modelId);
+}
@@ -0,0 +1,142 @@
+/**
+ * Tests for syntax-tree chunking of TS/JS sources
+ */
+
+import { AstChunker } from './astChunker';
+import { CodeChunker } from './chunker';
+
+const SOURCE = `import * as path from 'node:path';
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Parses file operations out of model output
+ */
+export class FileOpsParser {
+  private static readonly MAX_DEPTH = 8;
+
+  constructor(private root: string) {}
+
+  /**
+   * Resolve a path inside the workspace root
+   * @param input relative path from the model
+   */
+  sanitizePath(input: string): string {
+    if (input.includes('..')) {
+      throw new Error('Path escapes workspace');
+    }
+    return path.join(this.root, input);
+  }
+
+  parse(text: string): string[];
+  parse(text: string, limit: number): string[];
+  parse(text: string, limit?: number): string[] {
+    return text.split('\\n').slice(0, limit);
+  }
+}
+
+export interface FileOp {
+  path: string;
+  content: string;
+}
+
+export const loadOps = async (file: string) => JSON.parse(await readFile(file, 'utf8'));
+
+console.log('loaded parser module');
+`;
+
+describe('AstChunker', () => {
+  const { chunks, metadata } = new AstChunker().chunk('fileOpsParser.ts', SOURCE);
+  const byName = (qualifiedName: string) => {
+    const index = metadata.findIndex(meta => meta.qualifiedName === qualifiedName);
+    return { chunk: chunks[index], meta: metadata[index] };
+  };
+
+  test('should group consecutive imports', () => {
+    expect(metadata[0]).toEqual({ type: 'import', startLine: 1, endLine: 2 });
+  });
+
+  test('should emit a class header chunk with its JSDoc', () => {
+    const { chunk, meta } = byName('FileOpsParser');
+
+    expect(meta.type).toBe('class');
+    expect(meta.docComment).toBe('Parses file operations out of model output');
+    expect(meta.startLine).toBe(4);
+    expect(chunk.startsWith('/**')).toBe(true);
+    expect(chunk).toContain('export class FileOpsParser {');
+    expect(chunk).not.toContain('sanitizePath');
+  });
+
+  test('should emit one chunk per class member with qualified names', () => {
+    const { chunk, meta } = byName('FileOpsParser.sanitizePath');
+
+    expect(meta.type).toBe('method');
+    expect(meta.name).toBe('sanitizePath');
+    expect(meta.startLine).toBe(12);
+    expect(meta.endLine).toBe(21);
+    expect(meta.docComment).toContain('Resolve a path inside the workspace root');
+    expect(meta.docComment).toContain('@param input relative path from the model');
+    expect(chunk.endsWith('}')).toBe(true);
+
+    expect(byName('FileOpsParser.constructor').meta.type).toBe('constructor');
+    expect(byName('FileOpsParser.MAX_DEPTH').meta.type).toBe('property');
+  });
+
+  test('should keep overload signatures with their implementation', () => {
+    const parseChunks = metadata.filter(meta => meta.qualifiedName === 'FileOpsParser.parse');
+    const { chunk, meta } = byName('FileOpsParser.parse');
+
+    expect(parseChunks).toHaveLength(1);
+    expect(meta.startLine).toBe(23);
+    expect(meta.endLine).toBe(27);
+    expect(chunk).toContain('parse(text: string, limit: number): string[];');
+  });
+
+  test('should classify top-level declarations', () => {
+    expect(byName('FileOp').meta.type).toBe('interface');
+    expect(byName('loadOps').meta.type).toBe('function');
+    expect(metadata[metadata.length - 1].type).toBe('text');
+  });
+
+  test('should parse TSX', () => {
+    const result = new AstChunker().chunk('Button.tsx', `
+export function Button({ label }: { label: string }) {
+  return <button className="btn">{label}</button>;
+}
+`);
+
+    expect(result.metadata).toEqual([
+      { type: 'function', name: 'Button', qualifiedName: 'Button', startLine: 2, endLine: 4 }
+    ]);
+  });
+
+  test('should split a declaration above the size limit into line windows', () => {
+    const body = Array.from({ length: 40 }, (_, i) => `  total += values[${i}] * ${i};`);
+    const source = ['/** Weighted sum */', 'export function weigh(values: number[]) {', '  let total = 0;', ...body, '  return total;', '}', ''].join('\n');
+
+    const result = new AstChunker(300).chunk('weigh.ts', source);
+
+    expect(result.chunks.length).toBeGreaterThan(1);
+    expect(result.chunks.every(chunk => chunk.length <= 300)).toBe(true);
+    expect(result.chunks.join('\n')).toBe(source.trim());
+    expect(result.metadata.every(meta => meta.qualifiedName === 'weigh' && meta.type === 'function')).toBe(true);
+    expect(result.metadata[0]).toMatchObject({ startLine: 1, docComment: 'Weighted sum' });
+    expect(result.metadata[1].docComment).toBeUndefined();
+    expect(result.metadata[result.metadata.length - 1].endLine).toBe(45);
+    result.metadata.slice(1).forEach((meta, i) => expect(meta.startLine).toBe(result.metadata[i].endLine + 1));
+  });
+});
+
+describe('CodeChunker', () => {
+  test('should use the syntax tree for TypeScript files', async () => {
+    const result = await new CodeChunker().chunkFile('/project/fileOpsParser.ts', SOURCE);
+
+    expect(result.metadata.some(meta => meta.qualifiedName === 'FileOpsParser.sanitizePath')).toBe(true);
+  });
+
+  test('should keep line-based chunking for other languages', async () => {
+    const result = await new CodeChunker().chunkFile('/project/script.py', 'def main():\n    print("hello world")\n');
+
+    expect(result.metadata[0].type).toBe('text');
+    expect(result.metadata[0].qualifiedName).toBeUndefined();
+  });
+});
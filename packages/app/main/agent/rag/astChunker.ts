@@ -0,0 +1,306 @@
+import * as ts from 'typescript';
+import type { ChunkMetadata, ChunkResult } from './chunker';
+
+/**
+ * Syntax-tree chunker for TypeScript and JavaScript sources.
+ *
+ * Emits one chunk per top-level declaration, and for classes one chunk for
+ * the class header plus one per member, so methods never get split and
+ * always know which class they belong to. Consecutive imports are grouped,
+ * as are loose top-level statements. Leading JSDoc stays attached to the
+ * declaration it documents. A declaration longer than `maxChunkSize`
+ * characters is split into windows of whole lines that all carry its name.
+ *
+ * The compiler API is bundled into the main-process build by vite, so
+ * `typescript` stays a dev dependency.
+ */
+export class AstChunker {
+  constructor(private maxChunkSize: number = 2000) {}
+
+  /**
+   * Chunk a source file. Throws if the compiler cannot parse it at all;
+   * callers fall back to the line-based chunker in that case.
+   */
+  chunk(filePath: string, content: string): ChunkResult {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(filePath)
+    );
+
+    const builder = new ChunkBuilder(sourceFile, this.maxChunkSize);
+    let looseStatements: ts.Statement[] = [];
+    let imports: ts.Statement[] = [];
+
+    const flushLoose = () => {
+      if (looseStatements.length > 0) {
+        builder.addRange(looseStatements[0], looseStatements[looseStatements.length - 1], { type: 'text' });
+        looseStatements = [];
+      }
+    };
+    const flushImports = () => {
+      if (imports.length > 0) {
+        builder.addRange(imports[0], imports[imports.length - 1], { type: 'import' });
+        imports = [];
+      }
+    };
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement)) {
+        flushLoose();
+        imports.push(statement);
+        continue;
+      }
+      flushImports();
+
+      const info = this.describe(statement);
+      if (!info) {
+        looseStatements.push(statement);
+        continue;
+      }
+      flushLoose();
+
+      if (ts.isClassDeclaration(statement) && statement.members.length > 0) {
+        this.addClass(builder, statement, info.name);
+      } else if (isOverloadSignature(statement)) {
+        builder.deferOverload(statement);
+      } else {
+        builder.addNode(statement, info);
+      }
+    }
+
+    flushImports();
+    flushLoose();
+    return builder.result();
+  }
+
+  /**
+   * One chunk for the class header, then one per member
+   */
+  private addClass(builder: ChunkBuilder, node: ts.ClassDeclaration, className: string): void {
+    const sourceFile = node.getSourceFile();
+    const firstMember = node.members[0];
+    const headerEnd = firstMember.getStart(sourceFile, true);
+    const headerText = sourceFile.text.slice(node.getStart(sourceFile, true), headerEnd).trimEnd();
+
+    builder.addText(node, headerText, {
+      type: 'class',
+      name: className,
+      qualifiedName: className
+    });
+
+    for (const member of node.members) {
+      const memberInfo = this.describeMember(member, className);
+      if (!memberInfo) continue;
+
+      if (isOverloadSignature(member)) {
+        builder.deferOverload(member);
+      } else {
+        builder.addNode(member, memberInfo);
+      }
+    }
+  }
+
+  /**
+   * Kind and name of a top-level statement, or null for loose code
+   */
+  private describe(node: ts.Statement): Omit<ChunkMetadata, 'startLine' | 'endLine'> & { name: string } | null {
+    const name = (declaration: { name?: ts.Node }) =>
+      declaration.name ? declaration.name.getText() : 'default';
+
+    if (ts.isFunctionDeclaration(node)) {
+      return { type: 'function', name: name(node), qualifiedName: name(node) };
+    }
+    if (ts.isClassDeclaration(node)) {
+      return { type: 'class', name: name(node), qualifiedName: name(node) };
+    }
+    if (ts.isInterfaceDeclaration(node)) {
+      return { type: 'interface', name: node.name.text, qualifiedName: node.name.text };
+    }
+    if (ts.isTypeAliasDeclaration(node)) {
+      return { type: 'type', name: node.name.text, qualifiedName: node.name.text };
+    }
+    if (ts.isEnumDeclaration(node)) {
+      return { type: 'enum', name: node.name.text, qualifiedName: node.name.text };
+    }
+    if (ts.isModuleDeclaration(node)) {
+      const moduleName = node.name.getText();
+      return { type: 'namespace', name: moduleName, qualifiedName: moduleName };
+    }
+    if (ts.isVariableStatement(node)) {
+      const declarations = node.declarationList.declarations;
+      const variableName = declarations.map(declaration => declaration.name.getText()).join(', ');
+      const initializer = declarations.length === 1 ? declarations[0].initializer : undefined;
+      const isFunction = !!initializer &&
+        (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+      return {
+        type: isFunction ? 'function' : 'variable',
+        name: variableName,
+        qualifiedName: variableName
+      };
+    }
+    if (ts.isExportAssignment(node) || ts.isExportDeclaration(node)) {
+      return { type: 'export', name: ts.isExportAssignment(node) ? 'default' : '' };
+    }
+    return null;
+  }
+
+  private describeMember(member: ts.ClassElement, className: string): Omit<ChunkMetadata, 'startLine' | 'endLine'> | null {
+    if (ts.isConstructorDeclaration(member)) {
+      return { type: 'constructor', name: 'constructor', qualifiedName: `${className}.constructor` };
+    }
+    if (ts.isClassStaticBlockDeclaration(member)) {
+      return { type: 'method', name: 'static', qualifiedName: `${className}.static` };
+    }
+    if (!member.name) {
+      // Index signatures and stray semicolons
+      return ts.isSemicolonClassElement(member) ? null : { type: 'property', qualifiedName: className };
+    }
+
+    const memberName = member.name.getText();
+    const type: ChunkMetadata['type'] =
+      ts.isMethodDeclaration(member) || ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)
+        ? 'method'
+        : 'property';
+    return { type, name: memberName, qualifiedName: `${className}.${memberName}` };
+  }
+
+  private getScriptKind(filePath: string): ts.ScriptKind {
+    const ext = filePath.slice(filePath.lastIndexOf('.')).toLowerCase();
+    switch (ext) {
+      case '.tsx':
+        return ts.ScriptKind.TSX;
+      case '.jsx':
+        return ts.ScriptKind.JSX;
+      case '.js':
+      case '.mjs':
+      case '.cjs':
+        return ts.ScriptKind.JS;
+      default:
+        return ts.ScriptKind.TS;
+    }
+  }
+}
+
+/**
+ * Accumulates chunks with exact line ranges. Bodiless overload signatures
+ * are held back and emitted together with their implementation. Oversized
+ * chunks are split so none exceeds what the embedding model takes.
+ */
+class ChunkBuilder {
+  private chunks: string[] = [];
+  private metadata: ChunkMetadata[] = [];
+  private overloadStart: number | null = null;
+
+  constructor(private sourceFile: ts.SourceFile, private maxChunkSize: number) {}
+
+  deferOverload(node: ts.Node): void {
+    if (this.overloadStart === null) {
+      this.overloadStart = node.getStart(this.sourceFile, true);
+    }
+  }
+
+  addNode(node: ts.Node, info: Omit<ChunkMetadata, 'startLine' | 'endLine'>): void {
+    const start = this.takeStart(node);
+    this.push(start, node.getEnd(), { ...info, docComment: getDocComment(node) });
+  }
+
+  addRange(first: ts.Node, last: ts.Node, info: Omit<ChunkMetadata, 'startLine' | 'endLine'>): void {
+    this.push(this.takeStart(first), last.getEnd(), info);
+  }
+
+  addText(node: ts.Node, text: string, info: Omit<ChunkMetadata, 'startLine' | 'endLine'>): void {
+    const start = node.getStart(this.sourceFile, true);
+    this.push(start, start + text.length, { ...info, docComment: getDocComment(node) });
+  }
+
+  result(): ChunkResult {
+    return { chunks: this.chunks, metadata: this.metadata };
+  }
+
+  private takeStart(node: ts.Node): number {
+    const start = this.overloadStart ?? node.getStart(this.sourceFile, true);
+    this.overloadStart = null;
+    return start;
+  }
+
+  private push(start: number, end: number, info: Omit<ChunkMetadata, 'startLine' | 'endLine'>): void {
+    const text = this.sourceFile.text.slice(start, end).trim();
+    // Same threshold as the line-based chunker: skip fragments with no content
+    if (text.length <= 10) return;
+
+    const startLine = this.sourceFile.getLineAndCharacterOfPosition(start).line + 1;
+    const endLine = this.sourceFile.getLineAndCharacterOfPosition(end).line + 1;
+    if (text.length <= this.maxChunkSize) {
+      this.emit(text, startLine, endLine, info);
+      return;
+    }
+
+    // Pack whole lines up to the limit; only the first window keeps the JSDoc
+    const lines = text.split('\n');
+    let windowStart = 0;
+    let size = 0;
+    for (let i = 0; i <= lines.length; i++) {
+      const lineSize = i < lines.length ? lines[i].length + 1 : Infinity;
+      if (size > 0 && size + lineSize > this.maxChunkSize) {
+        const window = lines.slice(windowStart, i).join('\n').trimEnd();
+        if (window.trim().length > 10) {
+          this.emit(window, startLine + windowStart, startLine + i - 1, windowStart === 0 ? info : { ...info, docComment: undefined });
+        }
+        windowStart = i;
+        size = 0;
+      }
+      size += lineSize;
+    }
+  }
+
+  private emit(text: string, startLine: number, endLine: number, info: Omit<ChunkMetadata, 'startLine' | 'endLine'>): void {
+    const metadata: ChunkMetadata = { ...info, startLine, endLine };
+    if (!metadata.name) delete metadata.name;
+    if (!metadata.docComment) delete metadata.docComment;
+
+    this.chunks.push(text);
+    this.metadata.push(metadata);
+  }
+}
+
+function isOverloadSignature(node: ts.Node): boolean {
+  return (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node)) &&
+    node.body === undefined &&
+    !isAmbient(node) &&
+    !(ts.getCombinedModifierFlags(node as ts.Declaration) & ts.ModifierFlags.Abstract);
+}
+
+/**
+ * Declarations in .d.ts files or under `declare` never have bodies
+ */
+function isAmbient(node: ts.Node): boolean {
+  if (node.getSourceFile().isDeclarationFile) return true;
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (ts.canHaveModifiers(current) && ts.getModifiers(current)?.some(m => m.kind === ts.SyntaxKind.DeclareKeyword)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Text of the JSDoc block(s) directly attached to a node, without the
+ * comment delimiters
+ */
+function getDocComment(node: ts.Node): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  if (docs.length === 0) return undefined;
+
+  return docs
+    .map(doc => doc.getText()
+      .replace(/^\/\*\*\s*/, '')
+      .replace(/\s*\*\/$/, '')
+      .split('\n')
+      .map(line => line.replace(/^\s*\* ?/, ''))
+      .join('\n')
+      .trim())
+    .join('\n\n');
+}
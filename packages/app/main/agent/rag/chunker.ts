@@ -1,3 +1,13 @@
+import { AstChunker } from './astChunker';
+import { MarkdownChunker } from './markdownChunker';
+
+/**
+ * Version of the chunk boundaries and embedded text. Bump it whenever
+ * either changes, so indexes built by an older chunker are flagged for
+ * re-embedding.
+ */
+export const CHUNKER_VERSION = 3;
+
 export interface ChunkResult {
   chunks: string[];
   metadata: ChunkMetadata[];
@@ -6,13 +16,33 @@ export interface ChunkResult {
 export interface ChunkMetadata {
   startLine: number;
   endLine: number;
-  type: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'import' | 'export' | 'comment' | 'text';
+  type:
+    | 'function' | 'class' | 'interface' | 'type' | 'variable' | 'import' | 'export' | 'comment' | 'text'
+    | 'method' | 'constructor' | 'property' | 'enum' | 'namespace' | 'section';
   name?: string;
+  /** Name including its container, e.g. `FileOpsParser.sanitizePath` */
+  qualifiedName?: string;
+  /** JSDoc attached to the declaration, without comment delimiters */
+  docComment?: string;
+  /** Markdown heading breadcrumb, outermost first */
+  headingPath?: string[];
+  /** Front-matter of the note the chunk comes from */
+  title?: string;
+  tags?: string[];
+  date?: string;
 }
 
 export class CodeChunker {
-  constructor() {
-    // No tree-sitter initialization needed for renderer version
+  private astChunker: AstChunker;
+  private markdownChunker: MarkdownChunker;
+
+  /**
+   * @param maxChunkSize Size in characters above which a markdown section
+   *   is split between paragraphs, and a declaration between lines
+   */
+  constructor(maxChunkSize?: number) {
+    this.astChunker = new AstChunker(maxChunkSize);
+    this.markdownChunker = new MarkdownChunker(maxChunkSize);
   }
 
   /**
@@ -26,8 +56,11 @@ export class CodeChunker {
       case '.tsx':
       case '.js':
       case '.jsx':
-        return this.chunkCodeFile(content);
+        return this.chunkSourceFile(filePath, content);
       case '.md':
+      case '.markdown':
+      case '.mdx':
+        return this.markdownChunker.chunk(content);
       case '.txt':
         return this.chunkTextFile(content);
       default:
@@ -43,6 +76,19 @@ export class CodeChunker {
     return lastDotIndex === -1 ? '' : filePath.substring(lastDotIndex);
   }
 
+  /**
+   * Syntax-tree chunking for TS/JS, falling back to the regex chunker if
+   * the compiler cannot handle the file
+   */
+  private chunkSourceFile(filePath: string, content: string): ChunkResult {
+    try {
+      return this.astChunker.chunk(filePath, content);
+    } catch (error) {
+      console.warn(`AST chunking failed for ${filePath}, using line-based chunking:`, error);
+      return this.chunkCodeFile(content);
+    }
+  }
+
   /**
    * Text-based chunking for code files using regex patterns
    */
@@ -221,7 +267,7 @@ export class CodeChunker {
   }
 
   /**
-   * Text-based chunking for markdown and text files
+   * Paragraph chunking for plain text files
    */
   private chunkTextFile(content: string): ChunkResult {
     const chunks: string[] = [];
@@ -1,11 +1,22 @@
 import { ProjectPaths } from '../fs/projectPaths';
 import { ContextChunk } from '../chat/promptBuilder';
 import { detectLanguageFromPath, getLanguageInfoFromPath } from '../utils/langDetect';
+import { ChatMessage } from '../types';
+import { ContextWindowOptimizer } from '../optimizations/contextWindow';
 
 export interface ContextBuilderOptions {
   includeFileList?: boolean;
   includeActiveFile?: boolean;
   activeFilePath?: string;
+  /** Model the prompt is for; retrieved chunks are only added when set */
+  modelId?: string;
+  /** Context size the chat request will ask for (Ollama's num_ctx) */
+  numCtx?: number;
+  pinnedFiles?: string[];
+  /** Also search model-written reformulations of the query */
+  rewriteQuery?: boolean;
+  /** Earlier messages of the conversation; the ones that fit are returned */
+  history?: ChatMessage[];
   maxFileListItems?: number;
   relevantExtensions?: string[];
 }
@@ -33,11 +44,18 @@ export class ContextBuilder {
     contextChunks: ContextChunk[];
     projectFilesBlock: string;
     activeFileBlock: string;
+    history: ChatMessage[];
+    historySummary?: string;
   }> {
     const {
       includeFileList = true,
       includeActiveFile = true,
       activeFilePath,
+      modelId,
+      numCtx,
+      pinnedFiles,
+      rewriteQuery,
+      history = [],
       maxFileListItems = 50,
       relevantExtensions = ['.ts', '.tsx', '.js', '.jsx', '.json', '.md', '.css', '.scss']
     } = options;
@@ -48,19 +66,49 @@ export class ContextBuilder {
       projectFilesBlock = await this.buildProjectFilesBlock(maxFileListItems, relevantExtensions);
     }
 
-    // Build active file block with enhanced validation
+    // Retrieved chunks are ranked and packed into the model's budget in the main process
+    // and history shares that budget
+    let contextChunks: ContextChunk[] = [];
+    let keptHistory: ChatMessage[] | null = null;
+    let historySummary: string | undefined;
+    if (modelId && window.electronAPI?.agent?.assembleContext) {
+      try {
+        const context = await window.electronAPI.agent.assembleContext({
+          query: userQuery,
+          modelId,
+          numCtx,
+          activeFilePath: includeActiveFile ? activeFilePath : undefined,
+          pinnedFiles,
+          rewriteQuery,
+          history
+        });
+        contextChunks = context.chunks;
+        keptHistory = context.history;
+        historySummary = context.historySummary;
+      } catch (error) {
+        console.warn('Failed to assemble context chunks:', error);
+      }
+    }
+
+    // The assembler budgets the active file as a chunk; the unbudgeted block
+    // is only a fallback for when it could not run
     let activeFileBlock = '';
-    if (includeActiveFile && activeFilePath) {
+    if (includeActiveFile && activeFilePath && !keptHistory) {
       activeFileBlock = await this.buildActiveFileBlock(activeFilePath);
     }
 
-    // For now, return empty context chunks - this will be enhanced with RAG later
-    const contextChunks: ContextChunk[] = [];
+    if (!keptHistory) {
+      const optimized = new ContextWindowOptimizer().optimizeContext(history);
+      keptHistory = optimized.messages;
+      historySummary = optimized.summary;
+    }
 
     return {
       contextChunks,
       projectFilesBlock,
-      activeFileBlock
+      activeFileBlock,
+      history: keptHistory,
+      historySummary
     };
   }
 
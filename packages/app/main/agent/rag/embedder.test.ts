@@ -121,7 +121,7 @@ export async function testDatabase() {
   // Import dynamically to avoid issues in browser environment
   const { EmbeddingsDatabase } = await import('../db/database');
   
-  const testDbPath = './test-embeddings.sqlite';
+  const testDbPath = './test-embeddings.vdb';
   const db = new EmbeddingsDatabase(testDbPath);
   
   try {
@@ -176,17 +176,9 @@ export function testVectorOperations() {
         return this['normalizeVector'](vector);
       }
       
-      public testCosineSimilarity(a: number[], b: number[]) {
-        return this['cosineSimilarity'](a, b);
-      }
-      
       public testVectorToBuffer(vector: number[]) {
         return this['vectorToBuffer'](vector);
       }
-      
-      public testBufferToVector(buffer: Buffer) {
-        return this['bufferToVector'](buffer);
-      }
     })({ projectRoot: '/tmp' });
     
     // Test normalization
@@ -195,21 +187,10 @@ export function testVectorOperations() {
     const expectedMagnitude = Math.sqrt(normalized.reduce((sum, val) => sum + val * val, 0));
     console.log(`Normalized vector magnitude: ${expectedMagnitude.toFixed(6)} (should be ~1.0)`);
     
-    // Test cosine similarity
-    const a = [1, 0, 0];
-    const b = [0, 1, 0];
-    const c = [1, 0, 0];
-    
-    const similarity1 = embedder.testCosineSimilarity(a, b); // orthogonal = 0
-    const similarity2 = embedder.testCosineSimilarity(a, c); // identical = 1
-    
-    console.log(`Cosine similarity (orthogonal): ${similarity1} (should be 0)`);
-    console.log(`Cosine similarity (identical): ${similarity2} (should be 1)`);
-    
     // Test buffer conversion
     const testVector = [0.1, 0.2, 0.3, 0.4];
     const buffer = embedder.testVectorToBuffer(testVector);
-    const reconstructed = embedder.testBufferToVector(buffer);
+    const reconstructed = Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.length / 4));
     
     const conversionError = testVector.reduce((sum, val, i) => 
       sum + Math.abs(val - reconstructed[i]), 0
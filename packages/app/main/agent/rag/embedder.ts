@@ -1,8 +1,19 @@
 import { FileWalker, FileInfo, WalkOptions } from './fileWalker';
-import { CodeChunker, ChunkResult, ChunkMetadata } from './chunker';
-import { EmbeddingsDatabase, EmbeddingRecord } from '../db/database';
+import { CodeChunker, ChunkResult, ChunkMetadata, CHUNKER_VERSION } from './chunker';
+import { EmbeddingsDatabase, EmbeddingRecord, IndexMetadata } from '../db/database';
+import { readSnapshot, writeSnapshot, SnapshotFile, SNAPSHOT_FORMAT_VERSION } from '../db/indexSnapshot';
+import { reciprocalRankFusion } from './rankFusion';
+import { createRecordFilter, SearchFilter } from './searchFilter';
+import { SymbolIndex } from './symbolIndex';
+import { getSymbolExtractor, SymbolDefinition, SymbolReference } from './symbolExtractor';
+import { detectLanguageFromPath } from '../utils/langDetect';
+import { ModelProvider } from '../models/types';
+import { OllamaProvider } from '../models/ollamaProvider';
+import { providerRegistry } from '../models/providerRegistry';
+import { IGNORE_FILE_NAMES } from '@shared/utils/ignore';
 import { createHash } from 'node:crypto';
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 
 export interface EmbeddingConfig {
   projectRoot: string;
@@ -11,6 +22,10 @@ export interface EmbeddingConfig {
   dbPath?: string;
   chunkSize?: number;
   walkOptions?: Partial<WalkOptions>;
+  /** Files embedded in parallel */
+  concurrency?: number;
+  /** Chunks sent per embedding request */
+  batchSize?: number;
 }
 
 export interface ProcessingStats {
@@ -21,31 +36,171 @@ export interface ProcessingStats {
   errors: string[];
   startTime: number;
   endTime?: number;
+  /** Files found up to date and left alone */
+  skippedFiles?: number;
+  cancelled?: boolean;
+}
+
+export interface IndexingProgress {
+  phase: 'scanning' | 'embedding' | 'done' | 'cancelled';
+  /** Files that need embedding in this run */
+  totalFiles: number;
+  processedFiles: number;
+  skippedFiles: number;
+  totalChunks: number;
+  processedChunks: number;
+  currentFile?: string;
+  errors: string[];
+  /** Estimated time remaining, from bytes embedded so far */
+  etaMs?: number;
+  startTime: number;
+}
+
+export interface ProcessingOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: IndexingProgress) => void;
+}
+
+export interface ReembedOptions extends ProcessingOptions {
+  /**
+   * Build the new index beside the old one and swap it in when complete,
+   * so search keeps working meanwhile (default: true). When false the old
+   * index is cleared first.
+   */
+  keepOldIndex?: boolean;
+}
+
+/**
+ * Whether the stored vectors can be used with the current settings:
+ * - empty: nothing indexed yet
+ * - ready: built with the configured model and the current chunker
+ * - model_changed: built with another model; it is still searched and
+ *   updated with that model until re-embedded
+ * - dimension_changed: the model now returns vectors of another size
+ *   (e.g. a different model pulled under the same name), or the store
+ *   holds vectors of mixed sizes; vector search is disabled or misses
+ *   chunks until re-embedded
+ * - chunker_outdated: built by an older chunker; usable, but re-embedding
+ *   gives better chunks
+ */
+export type IndexState = 'empty' | 'ready' | 'model_changed' | 'dimension_changed' | 'chunker_outdated';
+
+export interface IndexStatus {
+  state: IndexState;
+  /** How the stored vectors were made; null for an empty index */
+  embeddingModel: string | null;
+  dimension: number | null;
+  chunkerVersion: number | null;
+  /** Model a re-embed will use */
+  configuredModel: string;
+  currentChunkerVersion: number;
+  /** A re-embed is building the new index in the background */
+  reembedding: boolean;
+}
+
+export interface IndexExportResult {
+  path: string;
+  files: number;
+  chunks: number;
+  /** Files left out because they changed since they were embedded */
+  skippedFiles: string[];
+  sizeBytes: number;
+}
+
+export interface IndexImportResult {
+  /** Files whose vectors were taken from the snapshot */
+  importedFiles: number;
+  importedChunks: number;
+  /** Files whose content differs from the snapshot; re-embedded locally */
+  changedFiles: string[];
+  /** Snapshot files absent or ignored in this workspace */
+  missingFiles: string[];
+  /** The catch-up run that embedded changed and new files */
+  stats: ProcessingStats;
+}
+
+export interface IncrementalUpdateResult {
+  indexed: string[];
+  removed: string[];
+  renamed: Array<{ from: string; to: string }>;
+  errors: string[];
+}
+
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+export interface SearchOptions {
+  mode?: SearchMode;
+  /** Weight of the vector ranking in hybrid mode */
+  semanticWeight?: number;
+  /** Weight of the BM25 ranking in hybrid mode */
+  keywordWeight?: number;
+  /** Reciprocal rank fusion constant; larger values flatten rank differences */
+  rrfK?: number;
+  /** Only search chunks with these tags or under these paths */
+  filter?: SearchFilter;
+}
+
+export interface SearchResult {
+  record: EmbeddingRecord;
+  /** Cosine similarity to the query; in keyword mode the BM25 score relative to the best hit */
+  similarity: number;
+  /** The score results are ordered by: cosine, BM25 or fused RRF depending on the mode */
+  score: number;
 }
 
 export interface EmbeddingResponse {
   embedding: number[];
 }
 
+export interface BatchEmbeddingResponse {
+  embeddings: number[][];
+}
+
+// Minimum gap between progress events, so large indexes do not flood IPC
+const PROGRESS_INTERVAL_MS = 100;
+
+// Indexes written before the chunker version was recorded
+const LEGACY_CHUNKER_VERSION = 1;
+
+/**
+ * A store and the model its vectors are made with
+ */
+interface IndexTarget {
+  database: EmbeddingsDatabase;
+  model: string;
+}
+
 export class CodebaseEmbedder {
   private fileWalker: FileWalker;
   private chunker: CodeChunker;
   private database: EmbeddingsDatabase;
+  private symbolIndex: SymbolIndex;
   private config: Required<EmbeddingConfig>;
+  /** Serves Ollama embedding models from this embedder's ollamaBaseUrl */
+  private ollama: OllamaProvider;
+  /** Vector size the index's model returned when it no longer matched the index */
+  private mismatchedDimension: number | null = null;
+  private reembedding = false;
 
-  constructor(config: EmbeddingConfig) {
+  constructor(config: EmbeddingConfig, database?: EmbeddingsDatabase) {
     this.config = {
       projectRoot: config.projectRoot,
       ollamaBaseUrl: config.ollamaBaseUrl || 'http://localhost:11434',
       embeddingModel: config.embeddingModel || 'nomic-embed-text',
-      dbPath: config.dbPath || './agent/db/embeddings.sqlite',
+      dbPath: config.dbPath || path.join(config.projectRoot, '.vscode', 'embeddings.vdb'),
       chunkSize: config.chunkSize || 1000,
-      walkOptions: config.walkOptions || {}
+      walkOptions: config.walkOptions || {},
+      concurrency: config.concurrency || 4,
+      batchSize: config.batchSize || 16
     };
 
+    this.ollama = new OllamaProvider(this.config.ollamaBaseUrl);
     this.fileWalker = new FileWalker();
-    this.chunker = new CodeChunker();
-    this.database = new EmbeddingsDatabase(this.config.dbPath);
+    this.chunker = new CodeChunker(this.config.chunkSize);
+    // Share the caller's store when given one: two open handles on the same log would diverge
+    this.database = database || new EmbeddingsDatabase(this.config.dbPath);
+    // Symbols live beside the store, e.g. embeddings.vdb -> embeddings.symbols.json
+    this.symbolIndex = new SymbolIndex(this.config.dbPath.replace(/\.[^./\\]+$/, '') + '.symbols.json');
   }
 
   /**
@@ -53,83 +208,343 @@ export class CodebaseEmbedder {
    */
   async initialize(): Promise<void> {
     await this.database.init();
+    await this.symbolIndex.load();
+    await this.fileWalker.refreshIgnoreRules(this.config.projectRoot, this.config.walkOptions);
     console.log('Embedder initialized successfully');
   }
 
   /**
-   * Process the entire codebase
+   * Whether a project-relative path is left out of the index by the walk
+   * options or the project's .gitignore/.locusignore files
    */
-  async processCodebase(): Promise<ProcessingStats> {
+  isIgnored(relativePath: string, isDirectory: boolean = false): boolean {
+    return this.fileWalker.isExcluded(relativePath, this.projectWalkOptions(), isDirectory);
+  }
+
+  private projectWalkOptions(): WalkOptions {
+    return { ...this.config.walkOptions, rootPath: this.config.projectRoot };
+  }
+
+  /**
+   * Process the entire codebase.
+   *
+   * Files are embedded by a bounded pool of workers, each sending its chunks
+   * in batches. Every file is committed to the store atomically once all of
+   * its chunks are embedded, so a run that is cancelled or crashes can be
+   * resumed: the next run skips files whose stored mtime is current.
+   */
+  async processCodebase(options: ProcessingOptions = {}): Promise<ProcessingStats> {
+    return this.indexInto(await this.activeTarget(), options);
+  }
+
+  private async indexInto(target: IndexTarget, options: ProcessingOptions): Promise<ProcessingStats> {
+    const { signal, onProgress } = options;
     const stats: ProcessingStats = {
       totalFiles: 0,
       processedFiles: 0,
       totalChunks: 0,
       processedChunks: 0,
+      skippedFiles: 0,
       errors: [],
       startTime: Date.now()
     };
 
+    let phase: IndexingProgress['phase'] = 'scanning';
+    let currentFile: string | undefined;
+    let totalBytes = 0;
+    let doneBytes = 0;
+    let embeddingStart = 0;
+    let lastEmit = 0;
+
+    const report = (force: boolean = false) => {
+      if (!onProgress) return;
+      const now = Date.now();
+      if (!force && now - lastEmit < PROGRESS_INTERVAL_MS) return;
+      lastEmit = now;
+
+      const elapsed = now - embeddingStart;
+      onProgress({
+        phase,
+        totalFiles: stats.totalFiles,
+        processedFiles: stats.processedFiles,
+        skippedFiles: stats.skippedFiles || 0,
+        totalChunks: stats.totalChunks,
+        processedChunks: stats.processedChunks,
+        currentFile,
+        errors: [...stats.errors],
+        etaMs: phase === 'embedding' && doneBytes > 0
+          ? Math.round(elapsed * (totalBytes - doneBytes) / doneBytes)
+          : undefined,
+        startTime: stats.startTime
+      });
+    };
+
     try {
       console.log('Starting codebase processing...');
-      
+      report(true);
+
       // Walk the directory tree
       const files = await this.fileWalker.walkDirectory({
         rootPath: this.config.projectRoot,
         ...this.config.walkOptions
       });
 
-      stats.totalFiles = files.length;
-      console.log(`Found ${files.length} files to process`);
-
-      // Process each file
+      // Only files changed since their last commit need work
+      this.symbolIndex.retainFiles(new Set(files.map(file => file.relativePath)));
+      const pending: FileInfo[] = [];
       for (const file of files) {
+        if (await this.needsUpdate(file, target.database)) {
+          pending.push(file);
+          totalBytes += file.size;
+        } else {
+          stats.skippedFiles!++;
+          if (this.symbolIndex.needsUpdate(file.relativePath, file.lastModified)) {
+            await this.updateSymbols(file);
+          }
+        }
+      }
+
+      stats.totalFiles = pending.length;
+      console.log(`Found ${files.length} files, ${pending.length} to process`);
+
+      phase = 'embedding';
+      embeddingStart = Date.now();
+      report(true);
+
+      await runWithConcurrency(pending, this.config.concurrency, async file => {
+        if (signal?.aborted) return;
+        currentFile = file.relativePath;
+        report();
+
         try {
-          await this.processFile(file, stats);
+          await this.processFile(file, stats, target, signal, () => report());
           stats.processedFiles++;
         } catch (error) {
+          if (signal?.aborted) return;
           const errorMsg = `Error processing file ${file.relativePath}: ${error}`;
           console.error(errorMsg);
           stats.errors.push(errorMsg);
         }
-      }
+        doneBytes += file.size;
+        report();
+      });
 
+      await this.saveSymbols();
+      stats.cancelled = !!signal?.aborted;
       stats.endTime = Date.now();
-      console.log('Codebase processing completed:', stats);
-      
+      phase = stats.cancelled ? 'cancelled' : 'done';
+      currentFile = undefined;
+      report(true);
+      console.log(stats.cancelled ? 'Codebase processing cancelled:' : 'Codebase processing completed:', stats);
+
       return stats;
     } catch (error) {
+      await this.saveSymbols();
       stats.endTime = Date.now();
       const errorMsg = `Error during codebase processing: ${error}`;
       console.error(errorMsg);
       stats.errors.push(errorMsg);
+      phase = 'done';
+      report(true);
       throw error;
     }
   }
 
   /**
-   * Process a single file
+   * Bring the index up to date for a set of changed paths (relative to the
+   * project root). Missing paths are removed, directories are walked, and a
+   * new file whose chunks match a removed file's stored chunks is treated as
+   * a rename so its vectors are moved rather than re-embedded.
    */
-  private async processFile(file: FileInfo, stats: ProcessingStats): Promise<void> {
-    // Check if file has been processed and is up to date
-    const existingEmbeddings = await this.database.getEmbeddingsByPath(file.relativePath);
-    const needsUpdate = existingEmbeddings.length === 0 || 
-                       await this.fileWalker.isModifiedSince(file.path, file.lastModified);
+  async applyFileChanges(relativePaths: string[]): Promise<IncrementalUpdateResult> {
+    const result: IncrementalUpdateResult = { indexed: [], removed: [], renamed: [], errors: [] };
+    const stats: ProcessingStats = {
+      totalFiles: 0,
+      processedFiles: 0,
+      totalChunks: 0,
+      processedChunks: 0,
+      errors: result.errors,
+      startTime: Date.now()
+    };
+
+    const target = await this.activeTarget();
+    const indexedPaths = await this.database.getIndexedPaths();
+    const present = new Map<string, FileInfo>();
+    const missing = new Set<string>();
+    const paths = new Set(relativePaths);
+
+    // A changed ignore file can add or drop files anywhere: recheck
+    // everything indexed and walk the whole project
+    if (relativePaths.some(relativePath => IGNORE_FILE_NAMES.includes(path.basename(relativePath)))) {
+      await this.fileWalker.refreshIgnoreRules(this.config.projectRoot, this.config.walkOptions);
+      paths.add('');
+      indexedPaths.forEach(indexedPath => paths.add(indexedPath));
+    }
+
+    for (const relativePath of paths) {
+      const fullPath = path.join(this.config.projectRoot, relativePath);
+      const stat = await fs.promises.stat(fullPath).catch(() => null);
 
-    if (!needsUpdate) {
+      if (stat?.isDirectory()) {
+        if (this.isIgnored(relativePath, true)) continue;
+        // Ignore files are matched from the project root below, not the subdirectory
+        const files = await this.fileWalker.walkDirectory({
+          ...this.config.walkOptions,
+          rootPath: fullPath,
+          useIgnoreFiles: false
+        });
+        for (const file of files) {
+          const fileRelativePath = path.relative(this.config.projectRoot, file.path);
+          if (this.isIgnored(fileRelativePath)) continue;
+          present.set(fileRelativePath, { ...file, relativePath: fileRelativePath });
+        }
+        continue;
+      }
+
+      const file = stat
+        ? await this.fileWalker.getFileInfo(this.config.projectRoot, relativePath, this.config.walkOptions)
+        : null;
+      if (file) {
+        present.set(relativePath, file);
+        continue;
+      }
+
+      // Gone or no longer indexable: drop the file, or everything under a removed directory
+      const prefix = relativePath + path.sep;
+      for (const indexedPath of indexedPaths) {
+        if (indexedPath === relativePath || indexedPath.startsWith(prefix)) {
+          missing.add(indexedPath);
+        }
+      }
+    }
+
+    for (const file of present.values()) {
+      try {
+        const renamedFrom = await this.findRenameSource(file, missing);
+        if (renamedFrom) {
+          // Chunk ids include the path; new ones keep a file later created
+          // at the old path from colliding with the moved chunks
+          const stored = await this.database.getEmbeddingsByPath(renamedFrom);
+          await this.database.renameFile(renamedFrom, {
+            path: file.relativePath,
+            lastModified: file.lastModified,
+            size: file.size
+          }, stored.map((record, i) => this.generateChunkId(file.relativePath, i, record.chunk)));
+          this.symbolIndex.renameFile(renamedFrom, file.relativePath);
+          // Relative imports resolve differently from the new location
+          await this.updateSymbols(file);
+          missing.delete(renamedFrom);
+          result.renamed.push({ from: renamedFrom, to: file.relativePath });
+          continue;
+        }
+
+        if (await this.processFile(file, stats, target)) {
+          result.indexed.push(file.relativePath);
+        }
+      } catch (error) {
+        const errorMsg = `Error processing file ${file.relativePath}: ${error}`;
+        console.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    for (const removedPath of missing) {
+      await this.database.deleteEmbeddingsByPath(removedPath);
+      this.symbolIndex.removeFile(removedPath);
+      result.removed.push(removedPath);
+    }
+
+    await this.saveSymbols();
+    return result;
+  }
+
+  /**
+   * Find a removed file whose stored chunks are identical to the new file's
+   * chunks. Only files that are not indexed yet are considered.
+   */
+  private async findRenameSource(file: FileInfo, missing: Set<string>): Promise<string | null> {
+    if (missing.size === 0 || await this.database.getFileRecord(file.relativePath)) {
+      return null;
+    }
+
+    const candidates: string[] = [];
+    for (const missingPath of missing) {
+      const record = await this.database.getFileRecord(missingPath);
+      if (record && record.size === file.size && record.chunkIds.length > 0) {
+        candidates.push(missingPath);
+      }
+    }
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const content = await this.fileWalker.readFileContent(file.path);
+    if (!content) {
+      return null;
+    }
+    const { chunks } = await this.chunker.chunkFile(file.path, content);
+
+    for (const candidate of candidates) {
+      const stored = await this.database.getEmbeddingsByPath(candidate);
+      if (stored.length === chunks.length && stored.every((record, i) => record.chunk === chunks[i])) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether a file is new or changed since it was last embedded. A file
+   * that was touched without changing keeps its chunks and gets its new
+   * mtime recorded. Files that produced no chunks are up to date as well.
+   */
+  private async needsUpdate(file: FileInfo, database: EmbeddingsDatabase): Promise<boolean> {
+    const fileRecord = await database.getFileRecord(file.relativePath);
+    if (!fileRecord) return true;
+    if (file.lastModified <= fileRecord.lastModified) return false;
+    if (!fileRecord.contentHash) return true;
+
+    const content = await this.fileWalker.readFileContent(file.path);
+    if (content === null || hashContent(content) !== fileRecord.contentHash) {
+      return true;
+    }
+    await database.updateFileRecord({
+      path: file.relativePath,
+      lastModified: file.lastModified,
+      size: file.size,
+      contentHash: fileRecord.contentHash
+    });
+    return false;
+  }
+
+  /**
+   * Process a single file. Returns false when it was already up to date.
+   * Nothing is written unless every chunk was embedded, so a failed or
+   * cancelled file keeps its previous embeddings and is retried next run.
+   */
+  private async processFile(
+    file: FileInfo,
+    stats: ProcessingStats,
+    target: IndexTarget,
+    signal?: AbortSignal,
+    onBatch?: () => void
+  ): Promise<boolean> {
+    if (!(await this.needsUpdate(file, target.database))) {
       console.log(`Skipping unchanged file: ${file.relativePath}`);
-      return;
+      if (this.symbolIndex.needsUpdate(file.relativePath, file.lastModified)) {
+        await this.updateSymbols(file);
+      }
+      return false;
     }
 
     // Read file content
     const content = await this.fileWalker.readFileContent(file.path);
-    if (!content) {
+    if (content === null) {
       throw new Error(`Could not read file content: ${file.path}`);
     }
 
-    // Delete existing embeddings for this file
-    if (existingEmbeddings.length > 0) {
-      await this.database.deleteEmbeddingsByPath(file.relativePath);
-    }
+    // Symbols need no embedding model, so they are updated even if embedding fails
+    await this.updateSymbols(file, content);
 
     // Chunk the file
     const chunkResult = await this.chunker.chunkFile(file.path, content);
@@ -137,81 +552,406 @@ export class CodebaseEmbedder {
 
     console.log(`Processing ${chunkResult.chunks.length} chunks for ${file.relativePath}`);
 
-    // Process each chunk
-    for (let i = 0; i < chunkResult.chunks.length; i++) {
-      const chunk = chunkResult.chunks[i];
-      const metadata = chunkResult.metadata[i];
+    // Embed in batches, then swap the file's rows in a single transaction
+    const records: EmbeddingRecord[] = [];
+    const { batchSize } = this.config;
+    let dimension = 0;
+    for (let start = 0; start < chunkResult.chunks.length; start += batchSize) {
+      signal?.throwIfAborted();
 
-      try {
-        await this.processChunk(file, chunk, metadata, i);
-        stats.processedChunks++;
-      } catch (error) {
-        const errorMsg = `Error processing chunk ${i} of ${file.relativePath}: ${error}`;
-        console.error(errorMsg);
-        stats.errors.push(errorMsg);
+      const batch = chunkResult.chunks.slice(start, start + batchSize);
+      const inputs = batch.map((chunk, offset) => this.embeddingInput(chunk, chunkResult.metadata[start + offset]));
+      const embeddings = await this.generateEmbeddings(inputs, target.model, signal);
+      dimension = embeddings[0]?.length ?? dimension;
+      embeddings.forEach((embedding, offset) => {
+        const index = start + offset;
+        records.push(this.buildRecord(file, batch[offset], chunkResult.metadata[index], index, embedding));
+      });
+
+      stats.processedChunks += batch.length;
+      onBatch?.();
+    }
+
+    signal?.throwIfAborted();
+    if (records.length > 0) {
+      await this.checkDimension(target, dimension);
+    }
+    await target.database.replaceFileEmbeddings(
+      { path: file.relativePath, lastModified: file.lastModified, size: file.size, contentHash: hashContent(content) },
+      records
+    );
+    return true;
+  }
+
+  /**
+   * The live index, embedded with the model it was built with so vectors of
+   * different models never meet in one store
+   */
+  private async activeTarget(): Promise<IndexTarget> {
+    const metadata = await this.readMetadata(this.database);
+    return { database: this.database, model: metadata?.embeddingModel || this.config.embeddingModel };
+  }
+
+  /**
+   * Metadata of a store. Stores written before it was recorded are assumed
+   * to use the configured model and an outdated chunker.
+   */
+  private async readMetadata(database: EmbeddingsDatabase): Promise<IndexMetadata | null> {
+    const stored = await database.getMetadata();
+    if (stored) return stored;
+
+    const { dimension } = await database.getStats();
+    return dimension === null
+      ? null
+      : { embeddingModel: this.config.embeddingModel, dimension, chunkerVersion: LEGACY_CHUNKER_VERSION };
+  }
+
+  /**
+   * Refuse vectors whose size differs from the index's; the first write to
+   * an empty store records its metadata
+   */
+  private async checkDimension(target: IndexTarget, dimension: number): Promise<void> {
+    const stored = await target.database.getMetadata();
+    const metadata = stored || await this.readMetadata(target.database);
+    if (!metadata) {
+      await target.database.setMetadata({
+        embeddingModel: target.model,
+        dimension,
+        chunkerVersion: CHUNKER_VERSION
+      });
+      return;
+    }
+
+    if (metadata.dimension !== dimension) {
+      if (target.database === this.database) {
+        this.mismatchedDimension = dimension;
       }
+      throw new Error(
+        `${target.model} returned ${dimension}-dimensional vectors but the index holds ${metadata.dimension}; re-embed the index`
+      );
+    }
+    if (!stored) {
+      await target.database.setMetadata(metadata);
     }
   }
 
   /**
-   * Process a single chunk: generate embedding and store in database
+   * Whether the stored vectors can be used with the current settings
    */
-  private async processChunk(
-    file: FileInfo,
-    chunk: string,
-    metadata: ChunkMetadata,
-    chunkIndex: number
-  ): Promise<void> {
-    // Generate unique ID for this chunk
-    const chunkId = this.generateChunkId(file.relativePath, chunkIndex, chunk);
+  async getIndexStatus(): Promise<IndexStatus> {
+    const metadata = await this.readMetadata(this.database);
+    const status: IndexStatus = {
+      state: 'ready',
+      embeddingModel: metadata?.embeddingModel ?? null,
+      dimension: metadata?.dimension ?? null,
+      chunkerVersion: metadata?.chunkerVersion ?? null,
+      configuredModel: this.config.embeddingModel,
+      currentChunkerVersion: CHUNKER_VERSION,
+      reembedding: this.reembedding
+    };
+
+    const { unindexedChunks } = await this.database.getStats();
+    if (!metadata) {
+      status.state = 'empty';
+    } else if (
+      (this.mismatchedDimension !== null && this.mismatchedDimension !== metadata.dimension) ||
+      unindexedChunks > 0
+    ) {
+      status.state = 'dimension_changed';
+    } else if (metadata.embeddingModel !== this.config.embeddingModel) {
+      status.state = 'model_changed';
+    } else if (metadata.chunkerVersion < CHUNKER_VERSION) {
+      status.state = 'chunker_outdated';
+    }
+    return status;
+  }
+
+  /**
+   * Re-embed the whole project with the configured model and chunker.
+   *
+   * By default the new index is built in a sibling store while the old one
+   * keeps serving searches, then swapped in once every file is embedded. A
+   * cancelled or failed run leaves the old index in place, and the next
+   * run resumes the partial build.
+   */
+  async reembed(options: ReembedOptions = {}): Promise<ProcessingStats> {
+    const { keepOldIndex = true, ...processing } = options;
+    if (!keepOldIndex) {
+      return this.rebuild(processing);
+    }
+
+    // e.g. embeddings.vdb -> embeddings.reembed.vdb
+    const nextPath = this.config.dbPath.replace(/\.[^./\\]+$/, '') + '.reembed.vdb';
+    const next = new EmbeddingsDatabase(nextPath);
+    await next.init();
+    const target: IndexTarget = { database: next, model: this.config.embeddingModel };
+
+    this.reembedding = true;
+    try {
+      // A partial build is only resumed if it was made the same way
+      const partial = await next.getMetadata();
+      if (partial && (partial.embeddingModel !== target.model || partial.chunkerVersion !== CHUNKER_VERSION)) {
+        await next.clearAllEmbeddings();
+      }
+
+      console.log(`Re-embedding index with ${target.model}...`);
+      const stats = await this.indexInto(target, processing);
+      if (stats.cancelled || stats.errors.length > 0) {
+        console.warn('Re-embedding incomplete, keeping the old index');
+        return stats;
+      }
+
+      // Files changed meanwhile were only updated in the old index
+      await this.indexInto(target, { signal: processing.signal });
+      if (processing.signal?.aborted) {
+        stats.cancelled = true;
+        return stats;
+      }
+
+      await next.close();
+      await this.database.replaceWith(nextPath);
+      this.mismatchedDimension = null;
+      console.log('Re-embedded index swapped in');
+      return stats;
+    } finally {
+      this.reembedding = false;
+      await next.close();
+    }
+  }
+
+  /**
+   * Write the index to a portable snapshot: its metadata, and every file's
+   * content hash with its chunks and vectors. Files edited since they were
+   * embedded are left out, since their vectors no longer match the content.
+   */
+  async exportIndex(targetPath: string): Promise<IndexExportResult> {
+    const metadata = await this.readMetadata(this.database);
+    if (!metadata) {
+      throw new Error('The index is empty; index the workspace before exporting it');
+    }
+
+    const files: SnapshotFile[] = [];
+    const skippedFiles: string[] = [];
+    let chunks = 0;
+    for (const relativePath of await this.database.getIndexedPaths()) {
+      const record = await this.database.getFileRecord(relativePath);
+      if (!record || record.chunkIds.length === 0) continue;
+
+      // Stores written before file hashes were recorded are hashed from
+      // disk, as long as the file is unchanged since it was embedded
+      let contentHash = record.contentHash;
+      const fullPath = path.join(this.config.projectRoot, relativePath);
+      const stat = await fs.promises.stat(fullPath).catch(() => null);
+      if (!stat || stat.mtime.getTime() > record.lastModified) {
+        skippedFiles.push(relativePath);
+        continue;
+      }
+      if (!contentHash) {
+        const content = await this.fileWalker.readFileContent(fullPath);
+        if (content === null) {
+          skippedFiles.push(relativePath);
+          continue;
+        }
+        contentHash = hashContent(content);
+      }
+
+      const records = await this.database.getEmbeddingsByPath(relativePath);
+      const portablePath = toPortablePath(relativePath);
+      files.push({
+        path: portablePath,
+        size: record.size,
+        contentHash,
+        records: records.map(chunk => ({ ...chunk, path: portablePath }))
+      });
+      chunks += records.length;
+    }
 
-    // Generate embedding using Ollama
-    const embedding = await this.generateEmbedding(chunk);
+    const sizeBytes = await writeSnapshot(targetPath, {
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      metadata,
+      files
+    });
+    console.log(`Exported ${files.length} files (${chunks} chunks) to ${targetPath}`);
+    return { path: targetPath, files: files.length, chunks, skippedFiles, sizeBytes };
+  }
 
-    // Convert embedding to Buffer
-    const vectorBuffer = this.vectorToBuffer(embedding);
+  /**
+   * Replace the index with a snapshot exported from another copy of the
+   * workspace. Only files whose content hash matches the snapshot keep its
+   * vectors; changed and new files are then embedded locally with the
+   * snapshot's model, and files not in the workspace are dropped.
+   *
+   * The snapshot is loaded into a sibling store and swapped in, so the
+   * current index is untouched if the snapshot is invalid.
+   */
+  async importIndex(sourcePath: string, options: ProcessingOptions = {}): Promise<IndexImportResult> {
+    const snapshot = await readSnapshot(sourcePath);
+
+    // e.g. embeddings.vdb -> embeddings.import.vdb
+    const nextPath = this.config.dbPath.replace(/\.[^./\\]+$/, '') + '.import.vdb';
+    await fs.promises.rm(nextPath, { force: true });
+    const next = new EmbeddingsDatabase(nextPath);
+    await next.init();
 
-    // Create embedding record
-    const record: EmbeddingRecord = {
-      id: chunkId,
+    const changedFiles: string[] = [];
+    const missingFiles: string[] = [];
+    let importedFiles = 0;
+    let importedChunks = 0;
+    try {
+      await next.setMetadata(snapshot.metadata);
+      for (const snapshotFile of snapshot.files) {
+        const relativePath = fromPortablePath(snapshotFile.path);
+        // Never follow a path out of the workspace
+        if (path.isAbsolute(relativePath) || relativePath.split(path.sep).includes('..')) {
+          missingFiles.push(snapshotFile.path);
+          continue;
+        }
+
+        const file = await this.fileWalker.getFileInfo(this.config.projectRoot, relativePath, this.config.walkOptions);
+        const content = file && await this.fileWalker.readFileContent(file.path);
+        if (!file || content === null) {
+          missingFiles.push(relativePath);
+          continue;
+        }
+
+        const contentHash = hashContent(content);
+        if (contentHash !== snapshotFile.contentHash) {
+          changedFiles.push(relativePath);
+          continue;
+        }
+
+        await next.replaceFileEmbeddings(
+          { path: relativePath, lastModified: file.lastModified, size: file.size, contentHash },
+          snapshotFile.records.map(record => ({ ...record, path: relativePath }))
+        );
+        importedFiles++;
+        importedChunks += snapshotFile.records.length;
+      }
+
+      await next.close();
+      await this.database.replaceWith(nextPath);
+      this.mismatchedDimension = null;
+    } finally {
+      await next.close();
+      await fs.promises.rm(nextPath, { force: true });
+    }
+
+    console.log(`Imported ${importedFiles} files from ${sourcePath}; ${changedFiles.length} changed files to re-embed`);
+    // Symbols are not part of the snapshot; the catch-up run extracts them
+    // for imported files too, and embeds the changed and new ones
+    const stats = await this.processCodebase(options);
+    return { importedFiles, importedChunks, changedFiles, missingFiles, stats };
+  }
+
+  /**
+   * Re-extract a file's symbols, if its language has an extractor
+   */
+  private async updateSymbols(file: FileInfo, content?: string | null): Promise<void> {
+    const extractor = getSymbolExtractor(file.path);
+    if (!extractor) return;
+
+    try {
+      const source = content ?? await this.fileWalker.readFileContent(file.path);
+      if (source === null) return;
+      this.symbolIndex.setFile(file.relativePath, file.lastModified, extractor.extract(file.relativePath, source));
+    } catch (error) {
+      console.warn(`Failed to extract symbols from ${file.relativePath}:`, error);
+    }
+  }
+
+  private async saveSymbols(): Promise<void> {
+    try {
+      await this.symbolIndex.save();
+    } catch (error) {
+      console.error('Failed to save symbol index:', error);
+    }
+  }
+
+  /**
+   * Where an exported symbol is defined. Pass the file the name appears in
+   * to prefer the definition that file imports.
+   */
+  findDefinition(name: string, fromPath?: string): SymbolDefinition[] {
+    return this.symbolIndex.findDefinition(name, fromPath);
+  }
+
+  /**
+   * Definitions whose name contains `query`, for autocomplete
+   */
+  searchDefinitions(query: string, limit?: number): SymbolDefinition[] {
+    return this.symbolIndex.searchDefinitions(query, limit);
+  }
+
+  /**
+   * Where a symbol is imported or used. Pass its defining file to exclude
+   * unrelated symbols with the same name.
+   */
+  findReferences(name: string, definitionPath?: string): SymbolReference[] {
+    return this.symbolIndex.findReferences(name, definitionPath);
+  }
+
+  /**
+   * Build the database record for an embedded chunk
+   */
+  private buildRecord(
+    file: FileInfo,
+    chunk: string,
+    metadata: ChunkMetadata,
+    chunkIndex: number,
+    embedding: number[]
+  ): EmbeddingRecord {
+    return {
+      id: this.generateChunkId(file.relativePath, chunkIndex, chunk),
       path: file.relativePath,
       chunk: chunk,
-      vector: vectorBuffer
+      vector: this.vectorToBuffer(embedding),
+      startLine: metadata.startLine,
+      endLine: metadata.endLine,
+      chunkType: metadata.type,
+      symbolName: metadata.qualifiedName || metadata.name,
+      language: detectLanguageFromPath(file.relativePath),
+      headingPath: metadata.headingPath?.join(' > '),
+      title: metadata.title,
+      tags: metadata.tags,
+      date: metadata.date,
+      contentHash: createHash('sha256').update(chunk).digest('hex')
     };
+  }
 
-    // Store in database
-    await this.database.insertEmbedding(record);
+  /**
+   * Text sent to the embedding model for a chunk. Note chunks are prefixed
+   * with their title and heading breadcrumb, which a section split below its
+   * heading would otherwise lose.
+   */
+  private embeddingInput(chunk: string, metadata: ChunkMetadata): string {
+    const context = [metadata.title, metadata.headingPath?.join(' > ')].filter(Boolean);
+    return context.length > 0 ? `${context.join('\n')}\n\n${chunk}` : chunk;
   }
 
   /**
-   * Generate embedding using Ollama API
+   * Generate the embedding for a single text (e.g. a search query)
    */
-  private async generateEmbedding(text: string): Promise<number[]> {
-    const url = `${this.config.ollamaBaseUrl}/api/embeddings`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.config.embeddingModel,
-        prompt: text
-      })
-    });
+  private async generateEmbedding(text: string, model: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text], model);
+    return embedding;
+  }
 
-    if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-    }
+  /**
+   * Generate embeddings for several texts with the provider the model id
+   * names, e.g. `openai:nomic-embed-text`; plain names are Ollama models
+   */
+  private async generateEmbeddings(texts: string[], model: string, signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return [];
 
-    const data: EmbeddingResponse = await response.json();
-    
-    if (!data.embedding || !Array.isArray(data.embedding)) {
-      throw new Error('Invalid embedding response from Ollama');
+    const resolved = providerRegistry.resolve(model);
+    const provider: ModelProvider = resolved.provider.id === this.ollama.id ? this.ollama : resolved.provider;
+    if (!provider.capabilities.embeddings || !provider.embed) {
+      throw new Error(`${provider.displayName} cannot embed text with "${model}"`);
     }
 
-    // Normalize the embedding vector
-    return this.normalizeVector(data.embedding);
+    const embeddings = await provider.embed(resolved.model, texts, signal);
+    return embeddings.map(embedding => this.normalizeVector(embedding));
   }
 
   /**
@@ -230,14 +970,6 @@ export class CodebaseEmbedder {
     return Buffer.from(float32Array.buffer);
   }
 
-  /**
-   * Convert buffer back to number array
-   */
-  private bufferToVector(buffer: Buffer): number[] {
-    const float32Array = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.length / 4);
-    return Array.from(float32Array);
-  }
-
   /**
    * Generate unique chunk ID
    */
@@ -248,53 +980,76 @@ export class CodebaseEmbedder {
   }
 
   /**
-   * Search for similar chunks using cosine similarity
+   * Search for relevant chunks. Hybrid mode (the default) fuses the
+   * nearest-neighbour ranking with a BM25 keyword ranking so exact
+   * identifiers are found even when their embeddings are not close.
    */
-  async searchSimilar(queryText: string, limit: number = 10): Promise<Array<{
-    record: EmbeddingRecord;
-    similarity: number;
-  }>> {
-    // Generate embedding for query
-    const queryEmbedding = await this.generateEmbedding(queryText);
-    
-    // Get all embeddings from database
-    const allEmbeddings = await this.database.getAllEmbeddings();
-    
-    // Calculate similarities
-    const similarities = allEmbeddings.map(record => {
-      const recordVector = this.bufferToVector(record.vector);
-      const similarity = this.cosineSimilarity(queryEmbedding, recordVector);
-      return { record, similarity };
-    });
-
-    // Sort by similarity and return top results
-    similarities.sort((a, b) => b.similarity - a.similarity);
-    return similarities.slice(0, limit);
-  }
+  async searchSimilar(queryText: string, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const mode = options.mode || 'hybrid';
+    const filter = createRecordFilter(options.filter);
 
-  /**
-   * Calculate cosine similarity between two vectors
-   */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error('Vectors must have the same length');
+    if (mode === 'keyword') {
+      const hits = await this.database.searchKeyword(queryText, limit, filter);
+      const best = hits[0]?.score || 1;
+      return hits.map(hit => ({ record: hit.record, similarity: hit.score / best, score: hit.score }));
     }
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+    // Generate embedding for query with the model the index was built with
+    const target = await this.activeTarget();
+    let queryEmbedding: number[];
+    try {
+      queryEmbedding = await this.generateEmbedding(queryText, target.model);
+    } catch (error) {
+      // Keyword search needs no embedder, so hybrid search still answers
+      // while the provider is down or the model is missing
+      if (mode === 'semantic') {
+        throw error;
+      }
+      console.warn(`Failed to embed the query with ${target.model}. Searching by keyword only:`, error);
+      return this.searchSimilar(queryText, limit, { ...options, mode: 'keyword' });
+    }
 
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+    const metadata = await this.readMetadata(this.database);
+    if (metadata && metadata.dimension !== queryEmbedding.length) {
+      this.mismatchedDimension = queryEmbedding.length;
+      const message = `${target.model} returned ${queryEmbedding.length}-dimensional vectors but the index holds ${metadata.dimension}; re-embed the index`;
+      if (mode === 'semantic') {
+        throw new Error(message);
+      }
+      console.warn(`${message}. Searching by keyword only.`);
+      return this.searchSimilar(queryText, limit, { ...options, mode: 'keyword' });
     }
 
-    if (normA === 0 || normB === 0) {
-      return 0;
+    if (mode === 'semantic') {
+      const hits = await this.database.searchNearest(queryEmbedding, limit, filter);
+      return hits.map(hit => ({ ...hit, score: hit.similarity }));
     }
 
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+    // Over-fetch from both rankings so fusion has overlap to work with
+    const candidates = Math.max(limit * 4, 20);
+    const [semanticHits, keywordHits] = await Promise.all([
+      this.database.searchNearest(queryEmbedding, candidates, filter),
+      this.database.searchKeyword(queryText, candidates, filter)
+    ]);
+
+    const fused = reciprocalRankFusion([
+      { ids: semanticHits.map(hit => hit.record.id), weight: options.semanticWeight ?? 1 },
+      { ids: keywordHits.map(hit => hit.record.id), weight: options.keywordWeight ?? 1 }
+    ], options.rrfK ?? 60, limit);
+
+    const records = new Map<string, EmbeddingRecord>();
+    semanticHits.forEach(hit => records.set(hit.record.id, hit.record));
+    keywordHits.forEach(hit => records.set(hit.record.id, hit.record));
+    const similarities = await this.database.scoreSimilarity(fused.map(hit => hit.id), queryEmbedding);
+
+    const results: SearchResult[] = [];
+    for (const hit of fused) {
+      const record = records.get(hit.id);
+      if (record) {
+        results.push({ record, similarity: similarities.get(hit.id) ?? 0, score: hit.score });
+      }
+    }
+    return results;
   }
 
   /**
@@ -304,32 +1059,18 @@ export class CodebaseEmbedder {
     totalEmbeddings: number;
     uniqueFiles: number;
     dbSize: string;
+    index: IndexStatus;
   }> {
-    const allEmbeddings = await this.database.getAllEmbeddings();
-    const uniqueFiles = new Set(allEmbeddings.map(e => e.path)).size;
-    
-    // Get database file size
-    const dbSize = await this.getDbFileSize();
+    const stats = await this.database.getStats();
 
     return {
-      totalEmbeddings: allEmbeddings.length,
-      uniqueFiles,
-      dbSize: this.formatBytes(dbSize)
+      totalEmbeddings: stats.totalEmbeddings,
+      uniqueFiles: stats.uniqueFiles,
+      dbSize: this.formatBytes(stats.sizeBytes),
+      index: await this.getIndexStatus()
     };
   }
 
-  /**
-   * Get database file size in bytes
-   */
-  private async getDbFileSize(): Promise<number> {
-    try {
-      const stats = await fs.promises.stat(this.config.dbPath);
-      return stats.size;
-    } catch (error) {
-      return 0;
-    }
-  }
-
   /**
    * Format bytes to human readable string
    */
@@ -344,16 +1085,51 @@ export class CodebaseEmbedder {
   /**
    * Clear all embeddings and rebuild
    */
-  async rebuild(): Promise<ProcessingStats> {
+  async rebuild(options: ProcessingOptions = {}): Promise<ProcessingStats> {
     console.log('Rebuilding embeddings database...');
     await this.database.clearAllEmbeddings();
-    return this.processCodebase();
+    this.symbolIndex.clear();
+    this.mismatchedDimension = null;
+    return this.processCodebase(options);
   }
 
   /**
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
+    await this.saveSymbols();
     await this.database.close();
   }
-} 
\ No newline at end of file
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Snapshots store paths with forward slashes so they load on any platform
+ */
+function toPortablePath(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+function fromPortablePath(portablePath: string): string {
+  return portablePath.split('/').join(path.sep);
+}
+
+/**
+ * Run a task for every item with at most `limit` tasks in flight
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
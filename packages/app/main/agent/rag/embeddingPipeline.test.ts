@@ -0,0 +1,150 @@
+/**
+ * Tests for full-codebase indexing: batching, fallback, progress and cancellation
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { CodebaseEmbedder, IndexingProgress } from './embedder';
+import { EmbeddingsDatabase } from '../db/database';
+
+interface FetchCall {
+  url: string;
+  body: any;
+}
+
+describe('CodebaseEmbedder.processCodebase', () => {
+  let root: string;
+  let database: EmbeddingsDatabase;
+  let calls: FetchCall[];
+  const originalFetch = globalThis.fetch;
+
+  // Answers /api/embed with one vector per input unless the handler returns a response
+  function stubFetch(handler?: (call: FetchCall) => Promise<{ status: number; body: any } | void>) {
+    globalThis.fetch = (async (url: string, init: { body: string }) => {
+      const call = { url, body: JSON.parse(init.body) };
+      calls.push(call);
+      const override = handler ? await handler(call) : undefined;
+      if (override) {
+        return {
+          ok: override.status < 400,
+          status: override.status,
+          statusText: 'stubbed',
+          text: async () => String(override.body),
+          json: async () => override.body
+        };
+      }
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ embeddings: call.body.input.map(() => [0.6, 0.8]) })
+      };
+    }) as unknown as typeof fetch;
+  }
+
+  function writeNotes(count: number) {
+    for (let i = 0; i < count; i++) {
+      fs.writeFileSync(
+        path.join(root, `note${i}.md`),
+        `# Note ${i}\n\nThese are the meeting notes for session number ${i}.`
+      );
+    }
+  }
+
+  function createEmbedder(config: { concurrency?: number; batchSize?: number; chunkSize?: number } = {}) {
+    return new CodebaseEmbedder({ projectRoot: root, walkOptions: { excludeDirectories: ['.vscode'] }, ...config }, database);
+  }
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-pipeline-'));
+    database = new EmbeddingsDatabase(path.join(root, '.vscode', 'embeddings.vdb'));
+    await database.init();
+    calls = [];
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await database.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should send chunks in batches', async () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `Paragraph ${i} describes one part of the design in detail.`);
+    fs.writeFileSync(path.join(root, 'design.md'), lines.join('\n\n'));
+    stubFetch();
+
+    const stats = await createEmbedder({ batchSize: 3, chunkSize: 200 }).processCodebase();
+
+    expect(stats.totalChunks).toBeGreaterThan(3);
+    expect(calls.every(call => call.url.endsWith('/api/embed'))).toBe(true);
+    expect(calls.every(call => call.body.input.length <= 3)).toBe(true);
+    expect(calls.length).toBe(Math.ceil(stats.totalChunks / 3));
+    expect((await database.getStats()).totalEmbeddings).toBe(stats.totalChunks);
+  });
+
+  test('should fall back to single embeddings when /api/embed is missing', async () => {
+    writeNotes(2);
+    stubFetch(async call => {
+      if (call.url.endsWith('/api/embed')) return { status: 404, body: '404 page not found' };
+      return { status: 200, body: { embedding: [0.6, 0.8] } };
+    });
+
+    const stats = await createEmbedder().processCodebase();
+
+    expect(stats.errors).toEqual([]);
+    expect(stats.processedFiles).toBe(2);
+    expect(calls.filter(call => call.url.endsWith('/api/embed'))).toHaveLength(1);
+    expect(calls.filter(call => call.url.endsWith('/api/embeddings'))).toHaveLength(2);
+  });
+
+  test('should report a missing model instead of falling back', async () => {
+    writeNotes(1);
+    stubFetch(async () => ({ status: 404, body: 'model "nomic-embed-text" not found' }));
+
+    const stats = await createEmbedder().processCodebase();
+
+    expect(stats.processedFiles).toBe(0);
+    expect(stats.errors).toHaveLength(1);
+    expect(stats.errors[0]).toContain('not found');
+  });
+
+  test('should emit progress ending in a done event', async () => {
+    writeNotes(3);
+    stubFetch();
+    const events: IndexingProgress[] = [];
+
+    await createEmbedder().processCodebase({ onProgress: progress => events.push(progress) });
+
+    expect(events[0].phase).toBe('scanning');
+    expect(events.some(event => event.phase === 'embedding')).toBe(true);
+    expect(events[events.length - 1]).toMatchObject({
+      phase: 'done',
+      totalFiles: 3,
+      processedFiles: 3,
+      skippedFiles: 0
+    });
+  });
+
+  test('should stop on cancel and resume with the remaining files', async () => {
+    writeNotes(4);
+    const controller = new AbortController();
+    stubFetch(async () => {
+      // Cancel while the second file is being embedded
+      if (calls.length === 2) controller.abort();
+    });
+
+    const first = await createEmbedder({ concurrency: 1 }).processCodebase({ signal: controller.signal });
+
+    expect(first.cancelled).toBe(true);
+    expect(first.processedFiles).toBe(1);
+    expect(first.errors).toEqual([]);
+
+    stubFetch();
+    const second = await createEmbedder().processCodebase();
+
+    expect(second.cancelled).toBe(false);
+    expect(second.skippedFiles).toBe(first.processedFiles);
+    expect(second.processedFiles).toBe(4 - first.processedFiles);
+    expect((await database.getStats()).uniqueFiles).toBe(4);
+  });
+});
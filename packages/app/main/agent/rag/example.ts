@@ -20,7 +20,7 @@ export async function exampleBasicUsage() {
     projectRoot: path.resolve(__dirname, '../../../../../'), // Go to project root
     ollamaBaseUrl: 'http://localhost:11434',
     embeddingModel: 'nomic-embed-text',
-    dbPath: './agent/db/embeddings.sqlite',
+    dbPath: './agent/db/embeddings.vdb',
     chunkSize: 1000,
     walkOptions: {
       excludeDirectories: ['node_modules', '.git', 'dist', 'build'],
@@ -70,7 +70,7 @@ export async function exampleBasicUsage() {
 export async function exampleIncrementalUpdate() {
   const config = {
     projectRoot: path.resolve(__dirname, '../../../../../'),
-    dbPath: './agent/db/embeddings.sqlite'
+    dbPath: './agent/db/embeddings.vdb'
   };
 
   const embedder = new CodebaseEmbedder(config);
@@ -97,7 +97,7 @@ export async function exampleIncrementalUpdate() {
 export async function exampleRebuild() {
   const config = {
     projectRoot: path.resolve(__dirname, '../../../../../'),
-    dbPath: './agent/db/embeddings.sqlite'
+    dbPath: './agent/db/embeddings.vdb'
   };
 
   const embedder = new CodebaseEmbedder(config);
@@ -124,7 +124,7 @@ export async function exampleWithCustomConfig() {
     projectRoot: path.resolve(__dirname, '../../../../../'),
     ollamaBaseUrl: 'http://localhost:11434',
     embeddingModel: 'nomic-embed-text',
-    dbPath: './agent/db/embeddings.sqlite',
+    dbPath: './agent/db/embeddings.vdb',
     chunkSize: 1000,
     walkOptions: {
       excludeDirectories: ['node_modules', '.git', 'dist', 'build'],
@@ -175,7 +175,7 @@ export async function exampleSearchAndRetrieval() {
     projectRoot: path.resolve(__dirname, '../../../../../'),
     ollamaBaseUrl: 'http://localhost:11434',
     embeddingModel: 'nomic-embed-text',
-    dbPath: './agent/db/embeddings.sqlite',
+    dbPath: './agent/db/embeddings.vdb',
     chunkSize: 1000,
     walkOptions: {
       excludeDirectories: ['node_modules', '.git', 'dist', 'build'],
@@ -0,0 +1,114 @@
+/**
+ * Tests for ignore-file handling in the file walker
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { IgnoreRules } from '@shared/utils/ignore';
+import { FileWalker } from './fileWalker';
+
+describe('IgnoreRules', () => {
+  test('should follow gitignore pattern syntax', () => {
+    const rules = new IgnoreRules([]);
+    rules.add([
+      '# generated',
+      '*.gen.ts',
+      '/fixtures/',
+      'docs/**/draft.md',
+      'logs/**',
+      '!keep.gen.ts'
+    ].join('\n'));
+
+    expect(rules.ignores('src/api.gen.ts')).toBe(true);
+    expect(rules.ignores('src/keep.gen.ts')).toBe(false);
+    expect(rules.ignores('fixtures', true)).toBe(true);
+    expect(rules.ignores('fixtures/big.json')).toBe(true);
+    expect(rules.ignores('test/fixtures', true)).toBe(false);
+    expect(rules.ignores('docs/draft.md')).toBe(true);
+    expect(rules.ignores('docs/a/b/draft.md')).toBe(true);
+    expect(rules.ignores('logs/today.txt')).toBe(true);
+    expect(rules.ignores('# generated')).toBe(false);
+  });
+
+  test('should scope nested rules to their directory', () => {
+    const rules = new IgnoreRules([]);
+    rules.add('/out.txt', 'packages/a');
+
+    expect(rules.ignores('packages/a/out.txt')).toBe(true);
+    expect(rules.ignores('packages/b/out.txt')).toBe(false);
+    expect(rules.ignores('out.txt')).toBe(false);
+  });
+
+  test('should not re-include files inside an ignored directory', () => {
+    const rules = new IgnoreRules([]);
+    rules.add('vendor/\n!vendor/lib.ts');
+
+    expect(rules.ignores('vendor/lib.ts')).toBe(true);
+  });
+
+  test('should round-trip through sources', () => {
+    const rules = new IgnoreRules();
+    rules.add('*.snap', 'src');
+
+    const copy = IgnoreRules.fromSources(rules.getSources());
+
+    expect(copy.ignores('src/a.snap')).toBe(true);
+    expect(copy.ignores('node_modules', true)).toBe(true);
+  });
+});
+
+describe('FileWalker', () => {
+  let root: string;
+  const write = (relativePath: string, content: string = 'export const value = 1;') => {
+    fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(root, relativePath), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-walker-'));
+    write('.gitignore', 'generated/\n*.snap\n');
+    write('.locusignore', 'fixtures/\n');
+    write('src/index.ts');
+    write('src/__snapshots__/index.snap', 'snapshot');
+    write('generated/api.ts');
+    write('fixtures/large.json', '{}');
+    write('packages/web/.gitignore', 'legacy.ts\n');
+    write('packages/web/legacy.ts');
+    write('packages/web/app.ts');
+    write('packages/api/legacy.ts');
+    write('node_modules/dep/index.js');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should skip paths matched by .gitignore and .locusignore files', async () => {
+    const files = await new FileWalker().walkDirectory({ rootPath: root, includeExtensions: ['.ts', '.json', '.js', '.snap'] });
+    const paths = files
+      .map(file => file.relativePath.split(path.sep).join('/'))
+      .filter(relativePath => !path.basename(relativePath).startsWith('.'))
+      .sort();
+
+    expect(paths).toEqual(['packages/api/legacy.ts', 'packages/web/app.ts', 'src/index.ts']);
+  });
+
+  test('should include ignored files when ignore files are disabled', async () => {
+    const files = await new FileWalker().walkDirectory({ rootPath: root, useIgnoreFiles: false });
+    const paths = files.map(file => file.relativePath.split(path.sep).join('/'));
+
+    expect(paths).toContain('generated/api.ts');
+    expect(paths).not.toContain('node_modules/dep/index.js');
+  });
+
+  test('should apply the same rules to single paths', async () => {
+    const walker = new FileWalker();
+    await walker.refreshIgnoreRules(root);
+
+    expect(walker.isExcluded('generated', { rootPath: root }, true)).toBe(true);
+    expect(walker.isExcluded(path.join('packages', 'web', 'legacy.ts'), { rootPath: root })).toBe(true);
+    expect(walker.isExcluded(path.join('packages', 'api', 'legacy.ts'), { rootPath: root })).toBe(false);
+    expect(await walker.getFileInfo(root, path.join('fixtures', 'large.json'))).toBeNull();
+  });
+});
@@ -1,5 +1,7 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { IgnoreRules, IgnoreSource, DEFAULT_IGNORE_PATTERNS } from '@shared/utils/ignore';
+import { readIgnoreFiles } from '@domains/fileSystem/ignoreFiles';
 
 export interface FileInfo {
   path: string;
@@ -15,53 +17,11 @@ export interface WalkOptions {
   excludeFiles?: string[];
   includeExtensions?: string[];
   maxFileSize?: number; // in bytes
+  /** Apply .gitignore and .locusignore files found in the tree (default true) */
+  useIgnoreFiles?: boolean;
 }
 
 export class FileWalker {
-  private static DEFAULT_EXCLUDE_DIRS = [
-    'node_modules',
-    '.git',
-    '.next',
-    'dist',
-    'build',
-    'out',
-    '.nuxt',
-    '.output',
-    'coverage',
-    '.nyc_output',
-    '.vscode',
-    '.idea',
-    '__pycache__',
-    '.pytest_cache',
-    'target',
-    'bin',
-    'obj',
-    '.vs',
-    'Debug',
-    'Release',
-    'Pods',
-    'DerivedData',
-    '.expo',
-    'android/app/build',
-    'ios/build',
-    '.gradle'
-  ];
-
-  private static DEFAULT_EXCLUDE_FILES = [
-    '.DS_Store',
-    'Thumbs.db',
-    '*.log',
-    '*.tmp',
-    '*.temp',
-    '*.lock',
-    'package-lock.json',
-    'yarn.lock',
-    'pnpm-lock.yaml',
-    '*.min.js',
-    '*.min.css',
-    '*.map'
-  ];
-
   private static SUPPORTED_EXTENSIONS = [
     '.ts',
     '.tsx',
@@ -102,6 +62,8 @@ export class FileWalker {
     '.conf',
     '.cfg',
     '.md',
+    '.markdown',
+    '.mdx',
     '.rst',
     '.txt',
     '.dockerfile',
@@ -110,37 +72,148 @@ export class FileWalker {
     '.env'
   ];
 
+  /** Rules from ignore files seen by the last walk of each root */
+  private projectIgnoreSources: Map<string, IgnoreSource[]> = new Map();
+
   /**
    * Walk through directory tree and collect file information
    */
   async walkDirectory(options: WalkOptions): Promise<FileInfo[]> {
     const files: FileInfo[] = [];
-    const excludeDirs = new Set([
-      ...FileWalker.DEFAULT_EXCLUDE_DIRS,
-      ...(options.excludeDirectories || [])
-    ]);
-    const excludeFiles = new Set([
-      ...FileWalker.DEFAULT_EXCLUDE_FILES,
-      ...(options.excludeFiles || [])
-    ]);
-    const includeExts = new Set(
-      options.includeExtensions || FileWalker.SUPPORTED_EXTENSIONS
-    );
-    const maxSize = options.maxFileSize || 10 * 1024 * 1024; // 10MB default
+    const { rules, includeExts, maxSize } = this.resolveFilters(options);
+    const useIgnoreFiles = options.useIgnoreFiles !== false;
 
     await this.walkRecursive(
       options.rootPath,
       options.rootPath,
       files,
-      excludeDirs,
-      excludeFiles,
+      rules,
       includeExts,
-      maxSize
+      maxSize,
+      useIgnoreFiles
     );
 
+    if (useIgnoreFiles) {
+      // The first source is the defaults plus options; the rest came from the tree
+      this.projectIgnoreSources.set(path.resolve(options.rootPath), rules.getSources().slice(1));
+    }
+
     return files;
   }
 
+  /**
+   * Re-read the ignore files under a root, e.g. after one of them changed,
+   * so isExcluded and getFileInfo see the new rules
+   */
+  async refreshIgnoreRules(rootPath: string, options: Partial<WalkOptions> = {}): Promise<void> {
+    const { rules } = this.resolveFilters(options);
+
+    const visit = async (directory: string, relativeDir: string): Promise<void> => {
+      await readIgnoreFiles(rules, directory, relativeDir);
+
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(directory, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const childRelative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory() && !this.isHidden(entry.name) && !rules.ignores(childRelative, true)) {
+          await visit(path.join(directory, entry.name), childRelative);
+        }
+      }
+    };
+
+    await visit(rootPath, '');
+    this.projectIgnoreSources.set(path.resolve(rootPath), rules.getSources().slice(1));
+  }
+
+  /**
+   * Check whether a path relative to the walk root would be skipped by
+   * walkDirectory. Every directory segment is checked; the last segment is
+   * checked as a file unless `isDirectory` is set.
+   */
+  isExcluded(relativePath: string, options: Partial<WalkOptions> = {}, isDirectory: boolean = false): boolean {
+    const { rules, includeExts } = this.resolveFilters(options);
+    const segments = relativePath.split(/[\\/]/).filter(Boolean);
+    const directories = isDirectory ? segments : segments.slice(0, -1);
+
+    if (directories.some(name => this.isHidden(name))) {
+      return true;
+    }
+
+    if (options.rootPath && options.useIgnoreFiles !== false) {
+      for (const source of this.projectIgnoreSources.get(path.resolve(options.rootPath)) || []) {
+        rules.add(source.patterns, source.baseDir);
+      }
+    }
+
+    if (rules.ignores(segments.join('/'), isDirectory)) {
+      return true;
+    }
+
+    if (isDirectory) {
+      return false;
+    }
+
+    const filename = segments[segments.length - 1] || '';
+
+    const ext = path.extname(filename).toLowerCase();
+    return !includeExts.has(ext) && ext !== '';
+  }
+
+  /**
+   * Stat a single file and return its info, or null when it is missing,
+   * not a regular file, excluded or too large
+   */
+  async getFileInfo(rootPath: string, relativePath: string, options: Partial<WalkOptions> = {}): Promise<FileInfo | null> {
+    if (this.isExcluded(relativePath, { ...options, rootPath })) {
+      return null;
+    }
+
+    const fullPath = path.join(rootPath, relativePath);
+    try {
+      const stats = await fs.promises.stat(fullPath);
+      if (!stats.isFile() || stats.size > this.resolveFilters(options).maxSize) {
+        return null;
+      }
+
+      return {
+        path: fullPath,
+        relativePath,
+        size: stats.size,
+        lastModified: stats.mtime.getTime(),
+        extension: path.extname(fullPath).toLowerCase()
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Merge walk options with the default ignore rules. Extra directories and
+   * file patterns from the options are added as ignore patterns.
+   */
+  private resolveFilters(options: Partial<WalkOptions>): {
+    rules: IgnoreRules;
+    includeExts: Set<string>;
+    maxSize: number;
+  } {
+    return {
+      rules: new IgnoreRules([
+        ...DEFAULT_IGNORE_PATTERNS,
+        ...(options.excludeDirectories || []).map(name => `${name}/`),
+        ...(options.excludeFiles || [])
+      ]),
+      includeExts: new Set(
+        options.includeExtensions || FileWalker.SUPPORTED_EXTENSIONS
+      ),
+      maxSize: options.maxFileSize || 10 * 1024 * 1024 // 10MB default
+    };
+  }
+
   /**
    * Recursive directory walking implementation
    */
@@ -148,21 +221,28 @@ export class FileWalker {
     currentPath: string,
     rootPath: string,
     files: FileInfo[],
-    excludeDirs: Set<string>,
-    excludeFiles: Set<string>,
+    rules: IgnoreRules,
     includeExts: Set<string>,
-    maxSize: number
+    maxSize: number,
+    useIgnoreFiles: boolean
   ): Promise<void> {
     try {
+      const relativeDir = path.relative(rootPath, currentPath).split(path.sep).join('/');
+      if (useIgnoreFiles) {
+        // Nested ignore files only apply below their own directory
+        await readIgnoreFiles(rules, currentPath, relativeDir);
+      }
+
       const entries = await fs.promises.readdir(currentPath, { withFileTypes: true });
 
       for (const entry of entries) {
         const fullPath = path.join(currentPath, entry.name);
         const relativePath = path.relative(rootPath, fullPath);
+        const rulePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
 
         if (entry.isDirectory()) {
-          // Skip excluded directories
-          if (excludeDirs.has(entry.name) || this.isHidden(entry.name)) {
+          // Skip hidden and ignored directories
+          if (this.isHidden(entry.name) || rules.ignores(rulePath, true)) {
             continue;
           }
 
@@ -171,14 +251,14 @@ export class FileWalker {
             fullPath,
             rootPath,
             files,
-            excludeDirs,
-            excludeFiles,
+            rules,
             includeExts,
-            maxSize
+            maxSize,
+            useIgnoreFiles
           );
         } else if (entry.isFile()) {
-          // Skip excluded files
-          if (this.shouldExcludeFile(entry.name, excludeFiles)) {
+          // Skip ignored files
+          if (rules.ignores(rulePath)) {
             continue;
           }
 
@@ -215,28 +295,6 @@ export class FileWalker {
     }
   }
 
-  /**
-   * Check if a file should be excluded based on patterns
-   */
-  private shouldExcludeFile(filename: string, excludeFiles: Set<string>): boolean {
-    // Check exact matches
-    if (excludeFiles.has(filename)) {
-      return true;
-    }
-
-    // Check pattern matches (simple glob patterns)
-    for (const pattern of excludeFiles) {
-      if (pattern.includes('*')) {
-        const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-        if (regex.test(filename)) {
-          return true;
-        }
-      }
-    }
-
-    return false;
-  }
-
   /**
    * Check if a directory/file is hidden (starts with .)
    */
@@ -3,9 +3,34 @@ export { CodebaseEmbedder } from './embedder';
 export type { 
   EmbeddingConfig, 
   ProcessingStats, 
-  EmbeddingResponse 
+  EmbeddingResponse,
+  IncrementalUpdateResult,
+  IndexExportResult,
+  IndexImportResult,
+  IndexState,
+  IndexStatus,
+  ReembedOptions,
+  SearchMode,
+  SearchOptions,
+  SearchResult
 } from './embedder';
 
+// Retrieval exports
+export { reciprocalRankFusion } from './rankFusion';
+export { createRecordFilter } from './searchFilter';
+export type { SearchFilter } from './searchFilter';
+export type {
+  RankedList,
+  FusedHit
+} from './rankFusion';
+
+// File watching exports
+export { IndexWatcher } from './indexWatcher';
+export type {
+  IndexWatcherOptions,
+  ChangeHandler
+} from './indexWatcher';
+
 // File walking exports
 export { FileWalker } from './fileWalker';
 export type { 
@@ -14,7 +39,9 @@ export type {
 } from './fileWalker';
 
 // Chunking exports
-export { CodeChunker } from './chunker';
+export { CodeChunker, CHUNKER_VERSION } from './chunker';
+export { MarkdownChunker } from './markdownChunker';
+export type { FrontMatter } from './markdownChunker';
 export type { 
   ChunkResult, 
   ChunkMetadata 
@@ -23,5 +50,6 @@ export type {
 // Database exports
 export { EmbeddingsDatabase } from '../db/database';
 export type { 
-  EmbeddingRecord 
+  EmbeddingRecord,
+  IndexMetadata
 } from '../db/database'; 
\ No newline at end of file
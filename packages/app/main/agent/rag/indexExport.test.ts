@@ -0,0 +1,110 @@
+/**
+ * Tests for exporting the index and importing it into another copy of the
+ * workspace
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { CodebaseEmbedder } from './embedder';
+import { EmbeddingsDatabase } from '../db/database';
+
+describe('CodebaseEmbedder export/import', () => {
+  let dir: string;
+  let embedded: string[];
+  const databases: EmbeddingsDatabase[] = [];
+  const originalFetch = globalThis.fetch;
+
+  // A workspace copy with its own store
+  async function createWorkspace(name: string, files: Record<string, string>) {
+    const root = path.join(dir, name);
+    for (const [relativePath, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+      fs.writeFileSync(path.join(root, relativePath), content);
+    }
+    const database = new EmbeddingsDatabase(path.join(root, '.vscode', 'embeddings.vdb'));
+    await database.init();
+    databases.push(database);
+    const embedder = new CodebaseEmbedder({
+      projectRoot: root,
+      walkOptions: { excludeDirectories: ['.vscode'] }
+    }, database);
+    return { root, database, embedder };
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-export-'));
+    embedded = [];
+    globalThis.fetch = (async (_url: string, init: { body: string }) => {
+      const body = JSON.parse(init.body);
+      embedded.push(...body.input);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ embeddings: body.input.map(() => [1, 0]) })
+      };
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await Promise.all(databases.splice(0).map(database => database.close()));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should import matching files and re-embed only the ones that differ', async () => {
+    const files = {
+      'deploy.md': '# Deploy\n\nRun the release script.',
+      'docs/setup.md': '# Setup\n\nInstall Ollama first.',
+      'old.md': '# Old\n\nRemoved on the other machine.'
+    };
+    const source = await createWorkspace('source', files);
+    await source.embedder.processCodebase();
+    const snapshotPath = path.join(dir, 'index.locusindex');
+
+    const exported = await source.embedder.exportIndex(snapshotPath);
+    expect(exported).toMatchObject({ files: 3, chunks: 3, skippedFiles: [] });
+
+    const target = await createWorkspace('target', {
+      'deploy.md': files['deploy.md'],
+      'docs/setup.md': '# Setup\n\nInstall Ollama and pull a model.',
+      'notes.md': '# Notes\n\nNew here.'
+    });
+    embedded = [];
+
+    const result = await target.embedder.importIndex(snapshotPath);
+
+    expect(result).toMatchObject({
+      importedFiles: 1,
+      importedChunks: 1,
+      changedFiles: [path.join('docs', 'setup.md')],
+      missingFiles: ['old.md']
+    });
+    expect(result.stats.processedFiles).toBe(2);
+    expect(embedded.some(input => input.includes('release script'))).toBe(false);
+    expect((await target.database.getIndexedPaths()).sort()).toEqual(['deploy.md', path.join('docs', 'setup.md'), 'notes.md']);
+    expect((await target.embedder.getIndexStatus()).state).toBe('ready');
+  });
+
+  test('should leave out files edited since they were embedded', async () => {
+    const source = await createWorkspace('source', { 'deploy.md': '# Deploy\n\nRun the release script.' });
+    await source.embedder.processCodebase();
+    const future = new Date(Date.now() + 60_000);
+    fs.writeFileSync(path.join(source.root, 'deploy.md'), '# Deploy\n\nEdited.');
+    fs.utimesSync(path.join(source.root, 'deploy.md'), future, future);
+
+    const exported = await source.embedder.exportIndex(path.join(dir, 'index.locusindex'));
+
+    expect(exported).toMatchObject({ files: 0, skippedFiles: ['deploy.md'] });
+  });
+
+  test('should keep the current index when the snapshot is invalid', async () => {
+    const target = await createWorkspace('target', { 'deploy.md': '# Deploy\n\nRun the release script.' });
+    await target.embedder.processCodebase();
+    const snapshotPath = path.join(dir, 'broken.locusindex');
+    fs.writeFileSync(snapshotPath, 'garbage');
+
+    await expect(target.embedder.importIndex(snapshotPath)).rejects.toThrow('Not an index snapshot');
+    expect(await target.database.getIndexedPaths()).toEqual(['deploy.md']);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for embedding model change detection and re-embedding the index
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { CodebaseEmbedder } from './embedder';
+import { CHUNKER_VERSION } from './chunker';
+import { EmbeddingsDatabase } from '../db/database';
+
+describe('CodebaseEmbedder index migration', () => {
+  let root: string;
+  let dbPath: string;
+  let database: EmbeddingsDatabase;
+  let models: string[];
+  // Vector size each stubbed model returns
+  let dimensions: Record<string, number>;
+  const originalFetch = globalThis.fetch;
+
+  function createEmbedder(embeddingModel: string) {
+    return new CodebaseEmbedder({
+      projectRoot: root,
+      embeddingModel,
+      walkOptions: { excludeDirectories: ['.vscode'] }
+    }, database);
+  }
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-migration-'));
+    dbPath = path.join(root, '.vscode', 'embeddings.vdb');
+    database = new EmbeddingsDatabase(dbPath);
+    await database.init();
+    fs.writeFileSync(path.join(root, 'deploy.md'), '# Deploy\n\nRun the release script.');
+    models = [];
+    dimensions = { 'nomic-embed-text': 2, 'mxbai-embed-large': 3 };
+
+    globalThis.fetch = (async (_url: string, init: { body: string }) => {
+      const body = JSON.parse(init.body);
+      models.push(body.model);
+      const vector = Array.from({ length: dimensions[body.model] }, (_, i) => i + 1);
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({ embeddings: body.input.map(() => vector) })
+      };
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await database.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should record how the index was built', async () => {
+    const embedder = createEmbedder('nomic-embed-text');
+    expect((await embedder.getIndexStatus()).state).toBe('empty');
+
+    await embedder.processCodebase();
+
+    expect(await database.getMetadata()).toEqual({
+      embeddingModel: 'nomic-embed-text',
+      dimension: 2,
+      chunkerVersion: CHUNKER_VERSION
+    });
+    expect((await embedder.getStats()).index).toMatchObject({ state: 'ready', reembedding: false });
+  });
+
+  test('should keep using the index model after the configured model changes', async () => {
+    await createEmbedder('nomic-embed-text').processCodebase();
+    const embedder = createEmbedder('mxbai-embed-large');
+    fs.writeFileSync(path.join(root, 'setup.md'), '# Setup\n\nInstall Ollama first.');
+    models = [];
+
+    await embedder.processCodebase();
+    const results = await embedder.searchSimilar('release', 5, { mode: 'semantic' });
+
+    expect(models).toEqual(['nomic-embed-text', 'nomic-embed-text']);
+    expect(results.length).toBeGreaterThan(0);
+    expect(await embedder.getIndexStatus()).toMatchObject({
+      state: 'model_changed',
+      embeddingModel: 'nomic-embed-text',
+      configuredModel: 'mxbai-embed-large'
+    });
+  });
+
+  test('should re-embed beside the old index and swap it in', async () => {
+    await createEmbedder('nomic-embed-text').processCodebase();
+    const embedder = createEmbedder('mxbai-embed-large');
+
+    const stats = await embedder.reembed();
+
+    expect(stats.processedFiles).toBe(1);
+    expect(fs.existsSync(path.join(root, '.vscode', 'embeddings.reembed.vdb'))).toBe(false);
+    expect(await embedder.getIndexStatus()).toMatchObject({ state: 'ready', embeddingModel: 'mxbai-embed-large', dimension: 3 });
+
+    models = [];
+    await embedder.searchSimilar('release', 5, { mode: 'semantic' });
+    expect(models).toEqual(['mxbai-embed-large']);
+  });
+
+  test('should refuse vectors of another size and fall back to keyword search', async () => {
+    const embedder = createEmbedder('nomic-embed-text');
+    await embedder.processCodebase();
+    dimensions['nomic-embed-text'] = 4;
+
+    const results = await embedder.searchSimilar('release', 5);
+
+    expect(results.map(result => result.record.path)).toEqual(['deploy.md']);
+    expect((await embedder.getIndexStatus()).state).toBe('dimension_changed');
+    await expect(embedder.searchSimilar('release', 5, { mode: 'semantic' })).rejects.toThrow('re-embed the index');
+  });
+
+  test('should fall back to keyword search when the query cannot be embedded', async () => {
+    const embedder = createEmbedder('nomic-embed-text');
+    await embedder.processCodebase();
+    globalThis.fetch = (async () => {
+      throw new Error('connect ECONNREFUSED 127.0.0.1:11434');
+    }) as unknown as typeof fetch;
+
+    const results = await embedder.searchSimilar('release', 5);
+
+    expect(results.map(result => result.record.path)).toEqual(['deploy.md']);
+    await expect(embedder.searchSimilar('release', 5, { mode: 'semantic' })).rejects.toThrow();
+  });
+
+  test('should flag indexes written before metadata was recorded', async () => {
+    await database.insertEmbedding({
+      id: 'legacy',
+      path: 'deploy.md',
+      chunk: 'Run the release script.',
+      vector: Buffer.from(new Float32Array([1, 0]).buffer)
+    });
+
+    expect(await createEmbedder('nomic-embed-text').getIndexStatus()).toMatchObject({
+      state: 'chunker_outdated',
+      embeddingModel: 'nomic-embed-text',
+      chunkerVersion: 1
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Tests for live re-indexing: the debounced watcher and incremental updates
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { IndexWatcher } from './indexWatcher';
+import { CodebaseEmbedder } from './embedder';
+import { CodeChunker } from './chunker';
+import { EmbeddingsDatabase } from '../db/database';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('IndexWatcher', () => {
+  let root: string;
+  let watcher: IndexWatcher | null = null;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-watch-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.mkdirSync(path.join(root, 'node_modules'));
+  });
+
+  afterEach(async () => {
+    await watcher?.stop();
+    watcher = null;
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should batch a burst of events into one flush', async () => {
+    const batches: string[][] = [];
+    watcher = new IndexWatcher({ rootPath: root, debounceMs: 100 }, async paths => {
+      batches.push(paths);
+    });
+    await watcher.start();
+
+    fs.writeFileSync(path.join(root, 'src', 'a.ts'), 'export const a = 1;');
+    fs.writeFileSync(path.join(root, 'src', 'b.ts'), 'export const b = 2;');
+    await sleep(400);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toContain(path.join('src', 'a.ts'));
+    expect(batches[0]).toContain(path.join('src', 'b.ts'));
+  });
+
+  test('should not report ignored directories', async () => {
+    const seen: string[] = [];
+    watcher = new IndexWatcher({
+      rootPath: root,
+      debounceMs: 50,
+      isIgnored: relativePath => relativePath.split(path.sep)[0] === 'node_modules'
+    }, async paths => {
+      seen.push(...paths);
+    });
+    await watcher.start();
+
+    fs.writeFileSync(path.join(root, 'node_modules', 'dep.js'), 'module.exports = 1;');
+    fs.writeFileSync(path.join(root, 'src', 'c.ts'), 'export const c = 3;');
+    await sleep(300);
+
+    expect(seen).toContain(path.join('src', 'c.ts'));
+    expect(seen.some(p => p.startsWith('node_modules'))).toBe(false);
+  });
+
+  test('should pick up directories created after start', async () => {
+    const seen: string[] = [];
+    watcher = new IndexWatcher({ rootPath: root, debounceMs: 50 }, async paths => {
+      seen.push(...paths);
+    });
+    await watcher.start();
+
+    fs.mkdirSync(path.join(root, 'src', 'nested'));
+    await sleep(200);
+    fs.writeFileSync(path.join(root, 'src', 'nested', 'd.ts'), 'export const d = 4;');
+    await sleep(300);
+
+    expect(seen).toContain(path.join('src', 'nested', 'd.ts'));
+  });
+});
+
+describe('CodebaseEmbedder.applyFileChanges', () => {
+  let root: string;
+  let database: EmbeddingsDatabase;
+  let embedder: CodebaseEmbedder;
+
+  // Store a file the way processFile would, with dummy vectors
+  async function seedIndex(relativePath: string): Promise<void> {
+    const fullPath = path.join(root, relativePath);
+    const content = fs.readFileSync(fullPath, 'utf8');
+    const stats = fs.statSync(fullPath);
+    const { chunks } = await new CodeChunker().chunkFile(fullPath, content);
+    await database.replaceFileEmbeddings(
+      { path: relativePath, lastModified: stats.mtime.getTime(), size: stats.size },
+      chunks.map((chunk, i) => ({
+        id: `${relativePath}#${i}`,
+        path: relativePath,
+        chunk,
+        vector: Buffer.from(new Float32Array([1, i]).buffer)
+      }))
+    );
+  }
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-incremental-'));
+    fs.mkdirSync(path.join(root, 'notes'));
+    database = new EmbeddingsDatabase(path.join(root, '.vscode', 'embeddings.vdb'));
+    embedder = new CodebaseEmbedder({ projectRoot: root }, database);
+    await embedder.initialize();
+  });
+
+  afterEach(async () => {
+    await embedder.cleanup();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should move vectors when an unchanged file is renamed', async () => {
+    fs.writeFileSync(path.join(root, 'notes', 'old.md'), '# Title\n\nSome notes about the project.');
+    await seedIndex(path.join('notes', 'old.md'));
+    const before = await database.getEmbeddingsByPath(path.join('notes', 'old.md'));
+
+    fs.renameSync(path.join(root, 'notes', 'old.md'), path.join(root, 'notes', 'new.md'));
+    const result = await embedder.applyFileChanges([
+      path.join('notes', 'old.md'),
+      path.join('notes', 'new.md')
+    ]);
+
+    expect(result.renamed).toEqual([{ from: path.join('notes', 'old.md'), to: path.join('notes', 'new.md') }]);
+    expect(result.indexed).toEqual([]);
+    expect(await database.getFileRecord(path.join('notes', 'old.md'))).toBeNull();
+    const after = await database.getEmbeddingsByPath(path.join('notes', 'new.md'));
+    expect(after.map(record => record.chunk)).toEqual(before.map(record => record.chunk));
+    expect(after.map(record => record.vector)).toEqual(before.map(record => record.vector));
+    expect(after.every(record => record.path === path.join('notes', 'new.md'))).toBe(true);
+  });
+
+  test('should keep renamed chunks apart from a new file at the old path', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, init: { body: string }) => ({
+      ok: true,
+      json: async () => ({ embeddings: JSON.parse(init.body).input.map(() => [0.6, 0.8]) })
+    })) as unknown as typeof fetch;
+
+    try {
+      const oldPath = path.join('notes', 'old.md');
+      const newPath = path.join('notes', 'new.md');
+      const content = '# Title\n\nSome notes about the project.';
+      fs.writeFileSync(path.join(root, oldPath), content);
+      await embedder.applyFileChanges([oldPath]);
+
+      fs.renameSync(path.join(root, oldPath), path.join(root, newPath));
+      await embedder.applyFileChanges([oldPath, newPath]);
+      fs.writeFileSync(path.join(root, oldPath), content);
+      await embedder.applyFileChanges([oldPath]);
+
+      const moved = await database.getEmbeddingsByPath(newPath);
+      const created = await database.getEmbeddingsByPath(oldPath);
+      expect(moved.length).toBeGreaterThan(0);
+      expect(created.length).toBe(moved.length);
+      expect(created.some(record => moved.some(other => other.id === record.id))).toBe(false);
+
+      fs.rmSync(path.join(root, oldPath));
+      await embedder.applyFileChanges([oldPath]);
+      expect(await database.getEmbeddingsByPath(newPath)).toHaveLength(moved.length);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('should delete embeddings for removed files and directories', async () => {
+    fs.mkdirSync(path.join(root, 'notes', 'archive'));
+    fs.writeFileSync(path.join(root, 'notes', 'archive', 'a.md'), 'first');
+    fs.writeFileSync(path.join(root, 'notes', 'archive', 'b.md'), 'second');
+    await seedIndex(path.join('notes', 'archive', 'a.md'));
+    await seedIndex(path.join('notes', 'archive', 'b.md'));
+
+    fs.rmSync(path.join(root, 'notes', 'archive'), { recursive: true });
+    const result = await embedder.applyFileChanges([path.join('notes', 'archive')]);
+
+    expect(result.removed.sort()).toEqual([
+      path.join('notes', 'archive', 'a.md'),
+      path.join('notes', 'archive', 'b.md')
+    ]);
+    expect((await database.getStats()).uniqueFiles).toBe(0);
+  });
+
+  test('should store line ranges and symbols for newly indexed files', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, init: { body: string }) => ({
+      ok: true,
+      json: async () => ({ embeddings: JSON.parse(init.body).input.map(() => [0.6, 0.8]) })
+    })) as unknown as typeof fetch;
+
+    try {
+      fs.writeFileSync(path.join(root, 'notes', 'math.ts'), [
+        'export class Calculator {',
+        '  add(a: number, b: number): number {',
+        '    return a + b;',
+        '  }',
+        '}',
+        ''
+      ].join('\n'));
+
+      const result = await embedder.applyFileChanges([path.join('notes', 'math.ts')]);
+      const records = await database.getEmbeddingsByPath(path.join('notes', 'math.ts'));
+      const method = records.find(record => record.symbolName === 'Calculator.add');
+
+      expect(result.indexed).toEqual([path.join('notes', 'math.ts')]);
+      expect(method).toMatchObject({ startLine: 2, endLine: 4, chunkType: 'method', language: 'typescript' });
+      expect(method?.contentHash).toHaveLength(64);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('should drop files that a changed .gitignore now ignores', async () => {
+    fs.writeFileSync(path.join(root, 'notes', 'scratch.md'), '# Scratch\n\nTemporary notes that should not be indexed.');
+    await seedIndex(path.join('notes', 'scratch.md'));
+
+    fs.writeFileSync(path.join(root, '.gitignore'), 'scratch.md\n');
+    const result = await embedder.applyFileChanges(['.gitignore']);
+
+    expect(result.removed).toEqual([path.join('notes', 'scratch.md')]);
+    expect(embedder.isIgnored(path.join('notes', 'scratch.md'))).toBe(true);
+  });
+
+  test('should not process empty or touched files again', async () => {
+    const emptyPath = path.join('notes', 'empty.md');
+    fs.writeFileSync(path.join(root, emptyPath), '');
+
+    const first = await embedder.applyFileChanges([emptyPath]);
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(path.join(root, emptyPath), future, future);
+    const touched = await embedder.applyFileChanges([emptyPath]);
+    const again = await embedder.applyFileChanges([emptyPath]);
+
+    expect(first.indexed).toEqual([emptyPath]);
+    expect((await database.getFileRecord(emptyPath))?.chunkIds).toEqual([]);
+    expect(touched.indexed).toEqual([]);
+    expect(again.indexed).toEqual([]);
+    expect([...first.errors, ...touched.errors, ...again.errors]).toEqual([]);
+    expect((await database.getFileRecord(emptyPath))?.lastModified).toBe(future.getTime());
+  });
+
+  test('should skip files that are already up to date', async () => {
+    fs.writeFileSync(path.join(root, 'notes', 'same.md'), '# Unchanged\n\nThis note has not been edited since it was indexed.');
+    await seedIndex(path.join('notes', 'same.md'));
+
+    const result = await embedder.applyFileChanges([path.join('notes', 'same.md')]);
+
+    expect(result.indexed).toEqual([]);
+    expect(result.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+export interface IndexWatcherOptions {
+  rootPath: string;
+  /** Quiet period after the last event before changes are flushed */
+  debounceMs?: number;
+  /** Upper bound on how long a burst of events can postpone a flush */
+  maxWaitMs?: number;
+  /** Paths relative to the root for which this returns true are not watched or reported */
+  isIgnored?: (relativePath: string) => boolean;
+}
+
+export type ChangeHandler = (relativePaths: string[]) => Promise<void>;
+
+/**
+ * Watches a project tree and reports changed paths in debounced batches.
+ *
+ * fs.watch only supports `recursive` on macOS and Windows in the Node
+ * version Electron ships, so elsewhere every directory gets its own watcher
+ * and new directories are picked up as they appear. Events carry no
+ * reliable create/change/delete/rename kind, so the handler only receives
+ * paths and is expected to stat them.
+ */
+export class IndexWatcher {
+  private options: Required<IndexWatcherOptions>;
+  private handler: ChangeHandler;
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private pending: Set<string> = new Set();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private firstPendingAt = 0;
+  private flushing: Promise<void> = Promise.resolve();
+  private running = false;
+
+  constructor(options: IndexWatcherOptions, handler: ChangeHandler) {
+    this.options = {
+      debounceMs: 500,
+      maxWaitMs: 5000,
+      isIgnored: () => false,
+      ...options,
+      rootPath: path.resolve(options.rootPath)
+    };
+    this.handler = handler;
+  }
+
+  /**
+   * Start watching the root directory
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    if (process.platform === 'darwin' || process.platform === 'win32') {
+      this.watch(this.options.rootPath, true);
+    } else {
+      await this.watchTree(this.options.rootPath);
+    }
+    console.log(`Watching ${this.options.rootPath} for changes (${this.watchers.size} watchers)`);
+  }
+
+  /**
+   * Stop watching and wait for any in-flight flush. Queued changes are dropped.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pending.clear();
+    await this.flushing;
+  }
+
+  /**
+   * Hand all queued paths to the handler now. Flushes never overlap.
+   */
+  flush(): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    this.flushing = this.flushing.then(async () => {
+      if (this.pending.size === 0) return;
+      const paths = Array.from(this.pending);
+      this.pending.clear();
+
+      try {
+        await this.handler(paths);
+      } catch (error) {
+        console.error('Error applying watched changes:', error);
+      }
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Watch a directory and, without recursive support, all of its subdirectories
+   */
+  private async watchTree(dirPath: string): Promise<void> {
+    if (!this.running || this.watchers.has(dirPath)) return;
+
+    this.watch(dirPath, false);
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const childPath = path.join(dirPath, entry.name);
+      if (!this.options.isIgnored(this.toRelative(childPath))) {
+        await this.watchTree(childPath);
+      }
+    }
+  }
+
+  private watch(dirPath: string, recursive: boolean): void {
+    try {
+      const watcher = fs.watch(dirPath, { recursive }, (_eventType, filename) => {
+        const changedPath = filename ? path.join(dirPath, filename.toString()) : dirPath;
+        this.handleEvent(changedPath, recursive);
+      });
+      watcher.on('error', () => this.unwatch(dirPath));
+      this.watchers.set(dirPath, watcher);
+    } catch (error) {
+      // ENOSPC when the inotify limit is hit; keep watching what we can
+      console.warn(`Cannot watch ${dirPath}:`, error);
+    }
+  }
+
+  private unwatch(dirPath: string): void {
+    const prefix = dirPath + path.sep;
+    for (const [watchedPath, watcher] of this.watchers) {
+      if (watchedPath === dirPath || watchedPath.startsWith(prefix)) {
+        watcher.close();
+        this.watchers.delete(watchedPath);
+      }
+    }
+  }
+
+  private handleEvent(changedPath: string, recursive: boolean): void {
+    if (!this.running) return;
+
+    const relativePath = this.toRelative(changedPath);
+    if (this.options.isIgnored(relativePath)) return;
+
+    if (!recursive) {
+      // Follow directories created or moved into the tree, drop removed ones
+      fs.promises.stat(changedPath).then(
+        stats => {
+          if (stats.isDirectory()) {
+            void this.watchTree(changedPath);
+          }
+        },
+        () => this.unwatch(changedPath)
+      );
+    }
+
+    this.enqueue(relativePath);
+  }
+
+  private enqueue(relativePath: string): void {
+    const now = Date.now();
+    if (this.pending.size === 0) {
+      this.firstPendingAt = now;
+    }
+    this.pending.add(relativePath);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    const waited = now - this.firstPendingAt;
+    const delay = Math.max(0, Math.min(this.options.debounceMs, this.options.maxWaitMs - waited));
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private toRelative(fullPath: string): string {
+    return path.relative(this.options.rootPath, fullPath);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for heading-aware markdown chunking and note search filters
+ */
+
+import { MarkdownChunker, parseFrontMatter } from './markdownChunker';
+import { CodeChunker } from './chunker';
+import { createRecordFilter } from './searchFilter';
+
+const NOTE = `---
+title: Local setup
+tags: [Deployment, "#ops"]
+date: 2024-05-01
+---
+Intro paragraph before any heading.
+
+# Setup
+
+## Ollama
+
+Install Ollama first.
+
+### Models
+
+Pull the embedding model:
+
+\`\`\`bash
+# not a heading
+ollama pull nomic-embed-text
+\`\`\`
+
+## Editor
+Open the workspace folder.
+`;
+
+describe('MarkdownChunker', () => {
+  test('should chunk by section with heading breadcrumbs', () => {
+    const { chunks, metadata } = new MarkdownChunker().chunk(NOTE);
+
+    expect(metadata.map(m => m.headingPath?.join(' > '))).toEqual([
+      undefined,
+      'Setup > Ollama',
+      'Setup > Ollama > Models',
+      'Setup > Editor'
+    ]);
+    expect(chunks[2]).toContain('ollama pull nomic-embed-text');
+    expect(metadata[2]).toMatchObject({ type: 'section', name: 'Models', startLine: 14, endLine: 21 });
+    expect(metadata[0]).toMatchObject({ startLine: 6, endLine: 6 });
+  });
+
+  test('should attach front-matter to every chunk', () => {
+    const { metadata } = new MarkdownChunker().chunk(NOTE);
+
+    for (const chunk of metadata) {
+      expect(chunk).toMatchObject({ title: 'Local setup', tags: ['deployment', 'ops'], date: '2024-05-01' });
+    }
+  });
+
+  test('should parse block lists and comma-separated tags', () => {
+    const block = parseFrontMatter(['---', 'tags:', '  - Notes', '  - ideas', '---', 'body']);
+    const inline = parseFrontMatter(['---', "title: 'Quoted'", 'tags: a, b', '---']);
+    const none = parseFrontMatter(['# Heading', '---']);
+
+    expect(block).toEqual({ frontMatter: { tags: ['notes', 'ideas'] }, bodyStart: 5 });
+    expect(inline.frontMatter).toEqual({ title: 'Quoted', tags: ['a', 'b'] });
+    expect(none).toEqual({ frontMatter: {}, bodyStart: 0 });
+  });
+
+  test('should split long sections between paragraphs but keep code fences whole', () => {
+    const fence = ['```ts', ...Array.from({ length: 20 }, (_, i) => `const value${i} = ${i};`), '', 'const after = 1;', '```'];
+    const paragraph = 'Some explanation of the code below. '.repeat(4);
+    const content = ['# Long', '', paragraph, '', ...fence, '', paragraph, ''].join('\n');
+
+    const { chunks, metadata } = new MarkdownChunker(300).chunk(content);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    const fenceChunk = chunks.find(chunk => chunk.includes('```ts'))!;
+    expect(fenceChunk).toContain('const after = 1;');
+    expect(metadata.every(m => m.headingPath?.join(' > ') === 'Long')).toBe(true);
+  });
+
+  test('should be used for markdown files only', async () => {
+    const chunker = new CodeChunker();
+
+    expect((await chunker.chunkFile('notes/setup.md', NOTE)).metadata[1].type).toBe('section');
+    expect((await chunker.chunkFile('notes/setup.txt', NOTE)).metadata[0].type).toBe('text');
+  });
+});
+
+describe('createRecordFilter', () => {
+  const note = { id: '1', path: 'notes/deploy.md', chunk: '', tags: ['deployment'] };
+  const code = { id: '2', path: 'src/deploy.ts', chunk: '' };
+
+  test('should match tags case-insensitively', () => {
+    const filter = createRecordFilter({ tags: ['#Deployment'] })!;
+
+    expect(filter(note)).toBe(true);
+    expect(filter(code)).toBe(false);
+  });
+
+  test('should match paths and globs', () => {
+    expect(createRecordFilter({ paths: ['notes/'] })!(note)).toBe(true);
+    expect(createRecordFilter({ paths: ['*.md'] })!(code)).toBe(false);
+    expect(createRecordFilter({ paths: ['src'] })!(code)).toBe(true);
+  });
+
+  test('should not filter when empty', () => {
+    expect(createRecordFilter({ tags: [], paths: [''] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,229 @@
+import type { ChunkMetadata, ChunkResult } from './chunker';
+
+/**
+ * Front-matter fields carried onto every chunk of a note
+ */
+export interface FrontMatter {
+  title?: string;
+  tags?: string[];
+  date?: string;
+}
+
+interface Section {
+  /** Headings from the top level down to this section's own heading */
+  headings: string[];
+  /** 0-based index of the section's first line (its heading, if any) */
+  start: number;
+  /** 0-based index one past the section's last line */
+  end: number;
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Markdown chunker for notes.
+ *
+ * Splits on heading boundaries so each chunk is one section, tagged with
+ * its heading breadcrumb (`Setup > Ollama > Models`). Sections longer than
+ * `maxChunkSize` are split between paragraphs; a fenced code block is never
+ * split, even when it alone exceeds the limit. YAML front-matter is parsed
+ * and its title, tags and date are attached to every chunk of the file.
+ */
+export class MarkdownChunker {
+  constructor(private maxChunkSize: number = 2000) {}
+
+  chunk(content: string): ChunkResult {
+    const lines = content.split('\n');
+    const { frontMatter, bodyStart } = parseFrontMatter(lines);
+    const chunks: string[] = [];
+    const metadata: ChunkMetadata[] = [];
+
+    for (const section of this.findSections(lines, bodyStart)) {
+      const contentStart = section.headings.length > 0 ? section.start + 1 : section.start;
+      const bodyLines = lines.slice(contentStart, section.end);
+      // A heading with nothing under it is still covered by its children's breadcrumbs
+      if (bodyLines.every(line => line.trim() === '')) continue;
+
+      for (const [start, end] of this.splitSection(lines, section)) {
+        const text = lines.slice(start, end).join('\n').trim();
+        if (!text) continue;
+
+        chunks.push(text);
+        metadata.push({
+          startLine: start + 1 + leadingBlankLines(lines, start, end),
+          endLine: end - trailingBlankLines(lines, start, end),
+          type: 'section',
+          name: section.headings[section.headings.length - 1],
+          headingPath: section.headings.length > 0 ? [...section.headings] : undefined,
+          ...frontMatter
+        });
+      }
+    }
+
+    return { chunks, metadata };
+  }
+
+  /**
+   * One section per ATX heading outside code fences, plus any text before
+   * the first heading
+   */
+  private findSections(lines: string[], bodyStart: number): Section[] {
+    const sections: Section[] = [];
+    const stack: Array<{ level: number; text: string }> = [];
+    let current: Section = { headings: [], start: bodyStart, end: lines.length };
+    let fence: string | null = null;
+
+    for (let i = bodyStart; i < lines.length; i++) {
+      const fenceMatch = lines[i].match(FENCE_PATTERN);
+      if (fenceMatch) {
+        fence = updateFence(fence, fenceMatch[1], lines[i]);
+        continue;
+      }
+      if (fence) continue;
+
+      const heading = lines[i].match(HEADING_PATTERN);
+      if (!heading) continue;
+
+      current.end = i;
+      sections.push(current);
+
+      const level = heading[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+      stack.push({ level, text: heading[2].trim() });
+      current = { headings: stack.map(entry => entry.text), start: i, end: lines.length };
+    }
+
+    current.end = lines.length;
+    sections.push(current);
+    return sections;
+  }
+
+  /**
+   * Line ranges for a section, packing paragraphs up to the size limit.
+   * Blocks are separated by blank lines outside fences, so a fenced code
+   * block is always one block.
+   */
+  private splitSection(lines: string[], section: Section): Array<[number, number]> {
+    const sectionSize = lines.slice(section.start, section.end).join('\n').length;
+    if (sectionSize <= this.maxChunkSize) {
+      return [[section.start, section.end]];
+    }
+
+    const blocks: Array<[number, number]> = [];
+    let blockStart = section.start;
+    let fence: string | null = null;
+    for (let i = section.start; i < section.end; i++) {
+      const fenceMatch = lines[i].match(FENCE_PATTERN);
+      if (fenceMatch) {
+        fence = updateFence(fence, fenceMatch[1], lines[i]);
+      } else if (!fence && lines[i].trim() === '') {
+        blocks.push([blockStart, i + 1]);
+        blockStart = i + 1;
+      }
+    }
+    if (blockStart < section.end) {
+      blocks.push([blockStart, section.end]);
+    }
+
+    const ranges: Array<[number, number]> = [];
+    let rangeStart = blocks[0][0];
+    let size = 0;
+    for (const [start, end] of blocks) {
+      const blockSize = lines.slice(start, end).join('\n').length;
+      if (size > 0 && size + blockSize > this.maxChunkSize) {
+        ranges.push([rangeStart, start]);
+        rangeStart = start;
+        size = 0;
+      }
+      size += blockSize;
+    }
+    ranges.push([rangeStart, section.end]);
+    return ranges;
+  }
+}
+
+/**
+ * Read a leading `---` YAML block. Only the flat subset notes use is
+ * understood: `key: value`, inline `[a, b]` lists and `- item` lists.
+ */
+export function parseFrontMatter(lines: string[]): { frontMatter: FrontMatter; bodyStart: number } {
+  if (lines[0]?.trim() !== '---') {
+    return { frontMatter: {}, bodyStart: 0 };
+  }
+  const close = lines.findIndex((line, index) => index > 0 && (line.trim() === '---' || line.trim() === '...'));
+  if (close === -1) {
+    return { frontMatter: {}, bodyStart: 0 };
+  }
+
+  const values = new Map<string, string | string[]>();
+  let listKey: string | null = null;
+  for (const line of lines.slice(1, close)) {
+    const item = line.match(/^\s+-\s*(.*)$|^-\s+(.*)$/);
+    if (item && listKey) {
+      const list = values.get(listKey);
+      values.set(listKey, [...(Array.isArray(list) ? list : []), unquote(item[1] ?? item[2])]);
+      continue;
+    }
+
+    const entry = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!entry) continue;
+    const key = entry[1].toLowerCase();
+    const value = entry[2].trim();
+    listKey = value === '' ? key : null;
+    if (value.startsWith('[') && value.endsWith(']')) {
+      values.set(key, value.slice(1, -1).split(',').map(unquote).filter(Boolean));
+    } else {
+      values.set(key, unquote(value));
+    }
+  }
+
+  const frontMatter: FrontMatter = {};
+  const title = values.get('title');
+  if (typeof title === 'string' && title) frontMatter.title = title;
+
+  const date = values.get('date');
+  if (typeof date === 'string' && date) frontMatter.date = date;
+
+  const tags = values.get('tags') ?? values.get('tag');
+  const tagList = Array.isArray(tags) ? tags : (tags || '').split(/[,\s]+/);
+  const normalized = tagList.map(normalizeTag).filter(Boolean);
+  if (normalized.length > 0) frontMatter.tags = [...new Set(normalized)];
+
+  return { frontMatter, bodyStart: close + 1 };
+}
+
+/**
+ * Tags compare case-insensitively and with or without a leading `#`
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(['"]).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * Open a fence, or close it if the marker matches the open one
+ */
+function updateFence(open: string | null, marker: string, line: string): string | null {
+  if (!open) return marker;
+  const closes = marker[0] === open[0] && marker.length >= open.length && line.trim() === marker;
+  return closes ? null : open;
+}
+
+function leadingBlankLines(lines: string[], start: number, end: number): number {
+  let count = 0;
+  while (start + count < end && lines[start + count].trim() === '') count++;
+  return count;
+}
+
+function trailingBlankLines(lines: string[], start: number, end: number): number {
+  let count = 0;
+  while (end - count - 1 >= start && lines[end - count - 1].trim() === '') count++;
+  return count;
+}
@@ -0,0 +1,37 @@
+/**
+ * Tests for reciprocal rank fusion
+ */
+
+import { reciprocalRankFusion } from './rankFusion';
+
+describe('reciprocalRankFusion', () => {
+  test('should promote ids ranked well by both lists', () => {
+    const fused = reciprocalRankFusion([
+      { ids: ['a', 'b', 'c'], weight: 1 },
+      { ids: ['c', 'b', 'd'], weight: 1 }
+    ]);
+
+    expect(fused.slice(0, 2).map(hit => hit.id).sort()).toEqual(['b', 'c']);
+    expect(fused).toHaveLength(4);
+  });
+
+  test('should let weights tilt the ranking', () => {
+    const lists = (keywordWeight: number) => [
+      { ids: ['semantic-top', 'shared'], weight: 1 },
+      { ids: ['keyword-top', 'shared'], weight: keywordWeight }
+    ];
+
+    const tilted = reciprocalRankFusion(lists(3)).map(hit => hit.id);
+    expect(tilted.indexOf('keyword-top')).toBeLessThan(tilted.indexOf('semantic-top'));
+    expect(reciprocalRankFusion(lists(0)).map(hit => hit.id)).toEqual(['semantic-top', 'shared']);
+  });
+
+  test('should apply the limit after fusing', () => {
+    const fused = reciprocalRankFusion([
+      { ids: ['a', 'b', 'c'], weight: 1 },
+      { ids: ['d', 'e'], weight: 1 }
+    ], 60, 2);
+
+    expect(fused.map(hit => hit.id).sort()).toEqual(['a', 'd']);
+  });
+});
@@ -0,0 +1,31 @@
+export interface RankedList {
+  /** Ids in rank order, best first */
+  ids: string[];
+  /** Relative influence of this list on the fused ranking */
+  weight: number;
+}
+
+export interface FusedHit {
+  id: string;
+  score: number;
+}
+
+/**
+ * Weighted reciprocal rank fusion: each list contributes
+ * `weight / (k + rank)` for every id it contains. Only ranks are used, so
+ * lists with incomparable scores (cosine vs BM25) combine cleanly.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = 60, limit?: number): FusedHit[] {
+  const scores = new Map<string, number>();
+
+  for (const list of lists) {
+    if (list.weight <= 0) continue;
+    list.ids.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + list.weight / (k + index + 1));
+    });
+  }
+
+  const fused = Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+  return limit === undefined ? fused : fused.slice(0, limit);
+}
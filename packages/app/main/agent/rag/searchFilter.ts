@@ -0,0 +1,36 @@
+import { IgnoreRules } from '@shared/utils/ignore';
+import type { RecordFilter } from '../db/database';
+import { normalizeTag } from './markdownChunker';
+
+export interface SearchFilter {
+  /** Keep chunks of notes tagged with any of these (front-matter `tags`) */
+  tags?: string[];
+  /**
+   * Keep chunks whose file matches any of these project-relative paths or
+   * gitignore-style globs, e.g. `notes/`, `*.md`, `journal/2024-*`
+   */
+  paths?: string[];
+}
+
+/**
+ * Build the record predicate for a filter, or undefined when it restricts
+ * nothing
+ */
+export function createRecordFilter(filter?: SearchFilter): RecordFilter | undefined {
+  const tags = (filter?.tags || []).map(normalizeTag).filter(Boolean);
+  const paths = (filter?.paths || []).map(pattern => pattern.trim()).filter(Boolean);
+  if (tags.length === 0 && paths.length === 0) {
+    return undefined;
+  }
+
+  // Same glob engine as the ignore files; "ignored" here means "matched"
+  const pathRules = paths.length > 0 ? new IgnoreRules([]) : null;
+  pathRules?.add(paths.join('\n'));
+
+  return record => {
+    if (tags.length > 0 && !record.tags?.some(tag => tags.includes(tag))) {
+      return false;
+    }
+    return !pathRules || pathRules.ignores(record.path);
+  };
+}
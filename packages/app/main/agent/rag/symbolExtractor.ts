@@ -0,0 +1,289 @@
+import * as ts from 'typescript';
+import * as path from 'node:path';
+
+export type SymbolKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+export interface SymbolDefinition {
+  name: string;
+  kind: SymbolKind;
+  /** Project-relative path of the defining file */
+  path: string;
+  /** 1-based position of the declared name */
+  line: number;
+  column: number;
+  /** 1-based line range of the whole declaration */
+  startLine: number;
+  endLine: number;
+}
+
+export interface SymbolReference {
+  /** Name as exported by the defining module */
+  name: string;
+  path: string;
+  line: number;
+  column: number;
+  /** 'import' for import/re-export specifiers, 'usage' for uses in code */
+  kind: 'import' | 'usage';
+  /**
+   * Where the symbol comes from: a project-relative module path without
+   * extension for relative imports, the bare specifier for packages, or
+   * undefined for uses of the file's own exports
+   */
+  module?: string;
+}
+
+export interface FileSymbols {
+  definitions: SymbolDefinition[];
+  references: SymbolReference[];
+}
+
+/**
+ * Extracts symbols for one family of languages. Register more with
+ * registerSymbolExtractor to extend the index beyond TS/JS.
+ */
+export interface SymbolExtractor {
+  extensions: string[];
+  extract(relativePath: string, content: string): FileSymbols;
+}
+
+const extractors: SymbolExtractor[] = [];
+
+export function registerSymbolExtractor(extractor: SymbolExtractor): void {
+  extractors.push(extractor);
+}
+
+/**
+ * Extractor for a file, or null if its language is not indexed
+ */
+export function getSymbolExtractor(filePath: string): SymbolExtractor | null {
+  const ext = path.extname(filePath).toLowerCase();
+  return extractors.find(extractor => extractor.extensions.includes(ext)) || null;
+}
+
+/**
+ * Project-relative module path without extension, with forward slashes, used
+ * to match imports against defining files
+ */
+export function toModuleKey(relativePath: string): string {
+  return relativePath
+    .replace(/\\/g, '/')
+    .replace(/\.(d\.ts|tsx?|jsx?|mjs|cjs|mts|cts)$/, '');
+}
+
+/**
+ * TypeScript and JavaScript symbols via the compiler's parser. Records
+ * exported top-level declarations, and references to imported names and to
+ * the file's own exports. No type checking: references are matched by name
+ * and import path.
+ */
+export class TypeScriptSymbolExtractor implements SymbolExtractor {
+  extensions = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+  extract(relativePath: string, content: string): FileSymbols {
+    const sourceFile = ts.createSourceFile(relativePath, content, ts.ScriptTarget.Latest, true, getScriptKind(relativePath));
+    const definitions: SymbolDefinition[] = [];
+    const references: SymbolReference[] = [];
+
+    // Local binding -> where it comes from and its exported name there
+    const tracked = new Map<string, { name: string; module?: string }>();
+    const namespaces = new Map<string, string>();
+    const declarationNames = new Set<ts.Node>();
+
+    const position = (node: ts.Node) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      return { line: line + 1, column: character + 1 };
+    };
+    const addReference = (node: ts.Node, name: string, kind: SymbolReference['kind'], module?: string) => {
+      references.push({ name, path: relativePath, ...position(node), kind, ...(module !== undefined ? { module } : {}) });
+    };
+
+    // Top-level declarations and which of them are exported
+    const declarations = new Map<string, { node: ts.Node; nameNode: ts.Node; kind: SymbolKind }>();
+    const exportedAs = new Map<string, string[]>();
+    const markExported = (local: string, exported: string) => {
+      exportedAs.set(local, [...(exportedAs.get(local) || []), exported]);
+    };
+
+    for (const statement of sourceFile.statements) {
+      const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+      const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+      for (const declaration of describeDeclaration(statement)) {
+        declarations.set(declaration.name, { node: statement, nameNode: declaration.nameNode, kind: declaration.kind });
+        declarationNames.add(declaration.nameNode);
+        if (exported) markExported(declaration.name, isDefault ? 'default' : declaration.name);
+      }
+
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const module = resolveModule(relativePath, statement.moduleSpecifier.text);
+        const clause = statement.importClause;
+        if (clause?.name) {
+          tracked.set(clause.name.text, { name: 'default', module });
+          declarationNames.add(clause.name);
+          addReference(clause.name, 'default', 'import', module);
+        }
+        const bindings = clause?.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) {
+          namespaces.set(bindings.name.text, module);
+          declarationNames.add(bindings.name);
+        } else if (bindings) {
+          for (const element of bindings.elements) {
+            const importedName = (element.propertyName || element.name).text;
+            tracked.set(element.name.text, { name: importedName, module });
+            declarationNames.add(element.name);
+            if (element.propertyName) declarationNames.add(element.propertyName);
+            addReference(element.propertyName || element.name, importedName, 'import', module);
+          }
+        }
+      }
+
+      if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        const module = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? resolveModule(relativePath, statement.moduleSpecifier.text)
+          : undefined;
+
+        for (const element of statement.exportClause.elements) {
+          const localName = (element.propertyName || element.name).text;
+          if (module !== undefined) {
+            // Re-export from another module
+            addReference(element.propertyName || element.name, localName, 'import', module);
+          } else {
+            markExported(localName, element.name.text);
+          }
+          declarationNames.add(element.name);
+          if (element.propertyName) declarationNames.add(element.propertyName);
+        }
+      }
+
+      if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        markExported(statement.expression.text, 'default');
+      }
+    }
+
+    for (const [localName, exportedNames] of exportedAs) {
+      const declaration = declarations.get(localName);
+      if (!declaration) continue;
+
+      for (const exportedName of exportedNames) {
+        definitions.push({
+          name: exportedName,
+          kind: declaration.kind,
+          path: relativePath,
+          ...position(declaration.nameNode),
+          startLine: sourceFile.getLineAndCharacterOfPosition(declaration.node.getStart(sourceFile)).line + 1,
+          endLine: sourceFile.getLineAndCharacterOfPosition(declaration.node.getEnd()).line + 1
+        });
+      }
+      // Uses of an exported declaration inside its own file
+      if (!tracked.has(localName)) {
+        tracked.set(localName, { name: exportedNames[0] });
+      }
+    }
+
+    const visit = (node: ts.Node) => {
+      if (ts.isImportDeclaration(node)) return;
+
+      if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && namespaces.has(node.expression.text)) {
+        addReference(node.name, node.name.text, 'usage', namespaces.get(node.expression.text));
+        return;
+      }
+      if (ts.isQualifiedName(node) && ts.isIdentifier(node.left) && namespaces.has(node.left.text)) {
+        addReference(node.right, node.right.text, 'usage', namespaces.get(node.left.text));
+        return;
+      }
+
+      if (ts.isIdentifier(node) && !declarationNames.has(node) && isValueOrTypeReference(node)) {
+        const binding = tracked.get(node.text);
+        if (binding) {
+          addReference(node, binding.name, 'usage', binding.module);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(sourceFile, visit);
+
+    return { definitions, references };
+  }
+}
+
+registerSymbolExtractor(new TypeScriptSymbolExtractor());
+
+function describeDeclaration(statement: ts.Statement): Array<{ name: string; nameNode: ts.Node; kind: SymbolKind }> {
+  if (ts.isFunctionDeclaration(statement) && statement.name) {
+    return [{ name: statement.name.text, nameNode: statement.name, kind: 'function' }];
+  }
+  if (ts.isClassDeclaration(statement) && statement.name) {
+    return [{ name: statement.name.text, nameNode: statement.name, kind: 'class' }];
+  }
+  if (ts.isInterfaceDeclaration(statement)) {
+    return [{ name: statement.name.text, nameNode: statement.name, kind: 'interface' }];
+  }
+  if (ts.isTypeAliasDeclaration(statement)) {
+    return [{ name: statement.name.text, nameNode: statement.name, kind: 'type' }];
+  }
+  if (ts.isEnumDeclaration(statement)) {
+    return [{ name: statement.name.text, nameNode: statement.name, kind: 'enum' }];
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations
+      .filter(declaration => ts.isIdentifier(declaration.name))
+      .map(declaration => {
+        const initializer = declaration.initializer;
+        const isFunction = !!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+        return {
+          name: (declaration.name as ts.Identifier).text,
+          nameNode: declaration.name,
+          kind: isFunction ? 'function' as const : 'variable' as const
+        };
+      });
+  }
+  return [];
+}
+
+/**
+ * False for identifiers that only name something locally: property names
+ * after a dot, object literal keys, member and parameter declarations
+ */
+function isValueOrTypeReference(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === node) return false;
+  if (ts.isQualifiedName(parent) && parent.right === node) return false;
+  if ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isPropertySignature(parent) ||
+       ts.isMethodDeclaration(parent) || ts.isMethodSignature(parent) || ts.isGetAccessor(parent) ||
+       ts.isSetAccessor(parent) || ts.isEnumMember(parent)) && parent.name === node) return false;
+  if ((ts.isParameter(parent) || ts.isVariableDeclaration(parent) || ts.isFunctionDeclaration(parent) ||
+       ts.isClassDeclaration(parent) || ts.isTypeParameterDeclaration(parent) ||
+       ts.isBindingElement(parent)) && parent.name === node) return false;
+  if (ts.isJsxAttribute(parent)) return false;
+  return true;
+}
+
+/**
+ * Module key for a relative specifier, or the bare specifier for packages
+ */
+function resolveModule(fromPath: string, specifier: string): string {
+  if (!specifier.startsWith('.')) return specifier;
+  const fromDir = path.posix.dirname(fromPath.replace(/\\/g, '/'));
+  return toModuleKey(path.posix.normalize(path.posix.join(fromDir, specifier)));
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+}
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  const ext = path.extname(filePath).toLowerCase();
+  switch (ext) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Tests for symbol extraction and the workspace symbol index
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { getSymbolExtractor } from './symbolExtractor';
+import { SymbolIndex } from './symbolIndex';
+
+const MATH_SOURCE = `export function add(a: number, b: number): number {
+  return a + b;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const scale = (point: Point, factor: number): Point => ({ x: point.x * factor, y: point.y * factor });
+export { scale };
+
+export default class Vector {}
+`;
+
+const APP_SOURCE = `import Vector, { add as sum, Point } from './lib/math';
+import * as math from './lib/math';
+
+const origin: Point = { x: 0, y: 0 };
+export const total = sum(1, 2) + math.add(3, 4);
+export const v = new Vector();
+`;
+
+const OTHER_SOURCE = `export function add(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
+`;
+
+function extract(relativePath: string, content: string) {
+  return getSymbolExtractor(relativePath)!.extract(relativePath, content);
+}
+
+describe('TypeScriptSymbolExtractor', () => {
+  test('should record exported declarations with their positions', () => {
+    const { definitions } = extract('src/lib/math.ts', MATH_SOURCE);
+    const byName = Object.fromEntries(definitions.map(definition => [definition.name, definition]));
+
+    expect(definitions.map(definition => definition.name).sort()).toEqual(['Point', 'add', 'default', 'scale']);
+    expect(byName.add).toMatchObject({ kind: 'function', path: 'src/lib/math.ts', line: 1, column: 17, startLine: 1, endLine: 3 });
+    expect(byName.Point).toMatchObject({ kind: 'interface', line: 5, startLine: 5, endLine: 8 });
+    expect(byName.scale).toMatchObject({ kind: 'function', line: 10 });
+    expect(byName.default).toMatchObject({ kind: 'class', line: 13 });
+  });
+
+  test('should resolve imports, aliases and namespace access to the exported name', () => {
+    const { definitions, references } = extract('src/app.ts', APP_SOURCE);
+    const summary = references.map(reference => `${reference.kind}:${reference.name}@${reference.line}:${reference.module}`);
+
+    expect(definitions.map(definition => definition.name)).toEqual(['total', 'v']);
+    expect(summary).toContain('import:default@1:src/lib/math');
+    expect(summary).toContain('import:add@1:src/lib/math');
+    expect(summary).toContain('usage:Point@4:src/lib/math');
+    expect(summary).toContain('usage:add@5:src/lib/math');
+    expect(summary).toContain('usage:default@6:src/lib/math');
+    expect(summary.filter(entry => entry.startsWith('usage:add@5'))).toHaveLength(2);
+    expect(references.some(reference => reference.name === 'sum')).toBe(false);
+  });
+
+  test('should not index unsupported languages', () => {
+    expect(getSymbolExtractor('README.md')).toBeNull();
+    expect(getSymbolExtractor('styles.css')).toBeNull();
+  });
+});
+
+describe('SymbolIndex', () => {
+  let dir: string;
+  let index: SymbolIndex;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-symbols-'));
+    index = new SymbolIndex(path.join(dir, 'embeddings.symbols.json'));
+    index.setFile('src/lib/math.ts', 1, extract('src/lib/math.ts', MATH_SOURCE));
+    index.setFile('src/lib/other.ts', 1, extract('src/lib/other.ts', OTHER_SOURCE));
+    index.setFile('src/app.ts', 1, extract('src/app.ts', APP_SOURCE));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should prefer the definition the calling file imports', () => {
+    expect(index.findDefinition('add')).toHaveLength(2);
+
+    const fromApp = index.findDefinition('add', 'src/app.ts');
+    expect(fromApp).toHaveLength(1);
+    expect(fromApp[0].path).toBe('src/lib/math.ts');
+  });
+
+  test('should filter references by defining file', () => {
+    const toMath = index.findReferences('add', 'src/lib/math.ts');
+    const toOther = index.findReferences('add', 'src/lib/other.ts');
+
+    expect(toMath.map(reference => reference.path)).toEqual(['src/app.ts', 'src/app.ts', 'src/app.ts']);
+    expect(toOther).toHaveLength(0);
+  });
+
+  test('should search definitions by name, prefix matches first', () => {
+    const found = index.searchDefinitions('a');
+
+    expect(found.map(definition => `${definition.name}@${definition.path}`)).toEqual([
+      'add@src/lib/math.ts',
+      'add@src/lib/other.ts',
+      'scale@src/lib/math.ts',
+      'total@src/app.ts'
+    ]);
+    expect(index.searchDefinitions('POI').map(definition => definition.name)).toEqual(['Point']);
+    expect(index.searchDefinitions('a', 1)).toHaveLength(1);
+  });
+
+  test('should follow renames and removals', () => {
+    index.renameFile('src/lib/math.ts', 'src/lib/arith.ts');
+
+    expect(index.findDefinition('Point')[0].path).toBe('src/lib/arith.ts');
+    const references = index.findReferences('Point', 'src/lib/arith.ts');
+    expect(references.filter(reference => reference.path === 'src/app.ts')).toHaveLength(2);
+    expect(references.filter(reference => reference.path === 'src/lib/arith.ts')).toHaveLength(2);
+
+    index.removeFile('src/lib/arith.ts');
+    expect(index.findDefinition('Point')).toHaveLength(0);
+  });
+
+  test('should persist and reload', async () => {
+    await index.save();
+
+    const reloaded = new SymbolIndex(path.join(dir, 'embeddings.symbols.json'));
+    await reloaded.load();
+
+    expect(reloaded.getStats()).toEqual(index.getStats());
+    expect(reloaded.needsUpdate('src/app.ts', 1)).toBe(false);
+    expect(reloaded.needsUpdate('src/app.ts', 2)).toBe(true);
+    expect(reloaded.findDefinition('total')[0].path).toBe('src/app.ts');
+  });
+});
@@ -0,0 +1,237 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { FileSymbols, SymbolDefinition, SymbolReference, toModuleKey } from './symbolExtractor';
+
+const INDEX_VERSION = 1;
+
+interface IndexedFile extends FileSymbols {
+  lastModified: number;
+}
+
+/**
+ * Workspace-wide index of symbol definitions and references, kept next to
+ * the embeddings store and updated with it. Persisted as a JSON file; a
+ * missing or outdated file is simply rebuilt on the next indexing pass.
+ */
+export class SymbolIndex {
+  private files: Map<string, IndexedFile> = new Map();
+  private definitionsByName: Map<string, SymbolDefinition[]> = new Map();
+  private referencesByName: Map<string, SymbolReference[]> = new Map();
+  private dirty = false;
+  /** Lookups are rebuilt on the next query after a change */
+  private lookupsStale = true;
+
+  constructor(private indexPath: string) {}
+
+  /**
+   * Load the persisted index, starting empty if there is none
+   */
+  async load(): Promise<void> {
+    this.files.clear();
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.indexPath, 'utf8'));
+      if (data.version === INDEX_VERSION) {
+        for (const [filePath, file] of Object.entries<IndexedFile>(data.files)) {
+          this.files.set(filePath, file);
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn('Failed to load symbol index, rebuilding:', error);
+      }
+    }
+    this.lookupsStale = true;
+    this.dirty = false;
+  }
+
+  /**
+   * Write the index if it changed since the last save
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    const data = { version: INDEX_VERSION, files: Object.fromEntries(this.files) };
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.indexPath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(data));
+    await fs.promises.rename(tempPath, this.indexPath);
+    this.dirty = false;
+  }
+
+  /**
+   * Whether a file's symbols are missing or older than its mtime
+   */
+  needsUpdate(relativePath: string, lastModified: number): boolean {
+    const file = this.files.get(relativePath);
+    return !file || file.lastModified < lastModified;
+  }
+
+  setFile(relativePath: string, lastModified: number, symbols: FileSymbols): void {
+    this.files.set(relativePath, { lastModified, ...symbols });
+    this.markChanged();
+  }
+
+  removeFile(relativePath: string): void {
+    if (this.files.delete(relativePath)) {
+      this.markChanged();
+    }
+  }
+
+  renameFile(fromPath: string, toPath: string): void {
+    const file = this.files.get(fromPath);
+    if (!file) return;
+
+    // Paths are stored per entry; re-extracting would need the content
+    const fromKey = toModuleKey(fromPath);
+    const toKey = toModuleKey(toPath);
+    this.files.delete(fromPath);
+    this.files.set(toPath, {
+      lastModified: file.lastModified,
+      definitions: file.definitions.map(definition => ({ ...definition, path: toPath })),
+      references: file.references.map(reference => ({ ...reference, path: toPath }))
+    });
+
+    // Imports of the old module path now point at the new one
+    for (const other of this.files.values()) {
+      for (const reference of other.references) {
+        if (reference.module === fromKey) reference.module = toKey;
+      }
+    }
+    this.markChanged();
+  }
+
+  /**
+   * Drop files that are no longer part of the project
+   */
+  retainFiles(relativePaths: Set<string>): void {
+    let changed = false;
+    for (const filePath of [...this.files.keys()]) {
+      if (!relativePaths.has(filePath)) {
+        this.files.delete(filePath);
+        changed = true;
+      }
+    }
+    if (changed) this.markChanged();
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.markChanged();
+  }
+
+  /**
+   * Where a symbol is defined. With `fromPath`, a definition in the module
+   * that file imports the name from is preferred over same-named ones.
+   */
+  findDefinition(name: string, fromPath?: string): SymbolDefinition[] {
+    this.ensureLookups();
+    const definitions = this.definitionsByName.get(name) || [];
+    if (!fromPath || definitions.length <= 1) {
+      return [...definitions];
+    }
+
+    const own = definitions.filter(definition => definition.path === fromPath);
+    if (own.length > 0) return own;
+
+    const imported = (this.files.get(fromPath)?.references || [])
+      .find(reference => reference.name === name && reference.module !== undefined);
+    if (imported) {
+      const matching = definitions.filter(definition => moduleMatches(imported.module!, definition.path));
+      if (matching.length > 0) return matching;
+    }
+    return [...definitions];
+  }
+
+  /**
+   * Where a symbol is referenced. With `definitionPath`, only references
+   * that resolve to that file are returned; otherwise every reference to
+   * the name from project files.
+   */
+  findReferences(name: string, definitionPath?: string): SymbolReference[] {
+    this.ensureLookups();
+    const references = this.referencesByName.get(name) || [];
+    if (!definitionPath) return [...references];
+
+    return references.filter(reference =>
+      reference.module === undefined
+        ? reference.path === definitionPath
+        : moduleMatches(reference.module, definitionPath)
+    );
+  }
+
+  /**
+   * Definitions whose name contains `query`, ignoring case, for
+   * autocomplete: names that start with it first, then shorter names
+   */
+  searchDefinitions(query: string, limit: number = 20): SymbolDefinition[] {
+    this.ensureLookups();
+    const needle = query.toLowerCase();
+    const matches: Array<{ definition: SymbolDefinition; prefix: boolean }> = [];
+    for (const [name, definitions] of this.definitionsByName) {
+      const lower = name.toLowerCase();
+      // Default exports are indexed under 'default', which names nothing
+      if (name === 'default' || !lower.includes(needle)) continue;
+      for (const definition of definitions) {
+        matches.push({ definition, prefix: lower.startsWith(needle) });
+      }
+    }
+
+    return matches
+      .sort((a, b) =>
+        Number(b.prefix) - Number(a.prefix) ||
+        a.definition.name.length - b.definition.name.length ||
+        a.definition.name.localeCompare(b.definition.name) ||
+        a.definition.path.localeCompare(b.definition.path)
+      )
+      .slice(0, limit)
+      .map(match => match.definition);
+  }
+
+  getStats(): { files: number; definitions: number; references: number } {
+    let definitions = 0;
+    let references = 0;
+    for (const file of this.files.values()) {
+      definitions += file.definitions.length;
+      references += file.references.length;
+    }
+    return { files: this.files.size, definitions, references };
+  }
+
+  private markChanged(): void {
+    this.dirty = true;
+    this.lookupsStale = true;
+  }
+
+  private ensureLookups(): void {
+    if (!this.lookupsStale) return;
+    this.lookupsStale = false;
+
+    this.definitionsByName.clear();
+    this.referencesByName.clear();
+    for (const file of this.files.values()) {
+      for (const definition of file.definitions) {
+        pushTo(this.definitionsByName, definition.name, definition);
+      }
+      for (const reference of file.references) {
+        pushTo(this.referencesByName, reference.name, reference);
+      }
+    }
+  }
+}
+
+function pushTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Whether an import's module key points at a file, directly or via index
+ */
+function moduleMatches(moduleKey: string, filePath: string): boolean {
+  const fileKey = toModuleKey(filePath);
+  return fileKey === moduleKey || fileKey === `${moduleKey}/index`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for the agent's workspace tools
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ToolRetriever, WorkspaceTools } from './workspaceTools';
+
+function retriever(): ToolRetriever {
+  return {
+    searchSimilar: async () => [{
+      record: { id: '1', path: 'src/math.ts', chunk: 'export function add() {}', vector: Buffer.alloc(0), startLine: 1, endLine: 1, symbolName: 'add' },
+      similarity: 0.9,
+      score: 0.9
+    }],
+    findDefinition: async name => name === 'add'
+      ? [{ name: 'add', kind: 'function', path: 'src/math.ts', line: 1, column: 17, startLine: 1, endLine: 1 }]
+      : [],
+    findReferences: async () => [{ name: 'add', path: 'src/index.ts', line: 3, column: 1, kind: 'usage' }],
+    isIgnored: relativePath => relativePath === 'node_modules' || relativePath === '.env'
+  };
+}
+
+describe('WorkspaceTools', () => {
+  let root: string;
+  let tools: WorkspaceTools;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'locus-tools-'));
+    fs.mkdirSync(path.join(root, 'src'));
+    fs.mkdirSync(path.join(root, 'node_modules'));
+    fs.writeFileSync(path.join(root, 'src', 'math.ts'), 'line 1\nline 2\nline 3\n');
+    fs.writeFileSync(path.join(root, 'README.md'), '# Notes');
+    tools = new WorkspaceTools(root, retriever(), { timeoutMs: 5000, maxOutputChars: 50, approve: async () => true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should read files with line numbers and refuse paths outside the project', async () => {
+    const result = await tools.run({ tool: 'read_file', args: { path: 'src/math.ts', startLine: 2, endLine: 3 } });
+
+    expect(result).toBe('src/math.ts (lines 2-3 of 4)\n2: line 2\n3: line 3\n... (1 more lines; read them with startLine 4)');
+    await expect(tools.run({ tool: 'read_file', args: { path: '../secrets.txt' } })).rejects.toThrow('outside the project');
+    await expect(tools.run({ tool: 'read_file', args: { path: 'missing.ts' } })).rejects.toThrow('File not found');
+  });
+
+  test('should refuse ignored files and start lines past the end', async () => {
+    fs.writeFileSync(path.join(root, '.env'), 'API_KEY=secret');
+
+    await expect(tools.run({ tool: 'read_file', args: { path: '.env' } })).rejects.toThrow('ignore rules');
+    await expect(tools.run({ tool: 'read_file', args: { path: 'src/math.ts', startLine: 500 } }))
+      .rejects.toThrow('startLine 500 is past the end of src/math.ts (4 lines)');
+  });
+
+  test('should list directories first and skip ignored ones', async () => {
+    expect(await tools.run({ tool: 'list_dir', args: {} })).toBe('src/\nREADME.md');
+  });
+
+  test('should search code and find symbols', async () => {
+    expect(await tools.run({ tool: 'search_code', args: { query: 'add' } }))
+      .toBe('src/math.ts:1-1 (add) score 0.90\nexport function add() {}');
+    expect(await tools.run({ tool: 'find_symbol', args: { name: 'add' } }))
+      .toBe('Definitions:\n- function add in src/math.ts:1-1\nReferences:\n- src/index.ts:3 (usage)');
+    expect(await tools.run({ tool: 'find_symbol', args: { name: 'sub' } })).toContain('No definition of sub');
+  });
+
+  test('should run commands in the project root with capped output', async () => {
+    const result = await tools.run({ tool: 'run_command', args: { command: 'ls' } });
+    expect(result).toContain('exit code 0');
+    expect(result).toContain('README.md');
+
+    const long = await tools.run({ tool: 'run_command', args: { command: 'node -e "console.log(\'x\'.repeat(500))"' } });
+    expect(long).toContain('(output truncated)');
+
+    const failed = await tools.run({ tool: 'run_command', args: { command: 'exit 3' } });
+    expect(failed).toContain('exit code 3');
+  });
+
+  test('should refuse commands that were not approved', async () => {
+    const asked: string[] = [];
+    const denying = new WorkspaceTools(root, retriever(), {
+      approve: async command => {
+        asked.push(command);
+        return false;
+      }
+    });
+    const unattended = new WorkspaceTools(root, retriever());
+
+    await expect(denying.run({ tool: 'run_command', args: { command: 'touch ran' } })).rejects.toThrow('not approved');
+    await expect(unattended.run({ tool: 'run_command', args: { command: 'touch ran' } })).rejects.toThrow('not approved');
+    expect(asked).toEqual(['touch ran']);
+    expect(fs.existsSync(path.join(root, 'ran'))).toBe(false);
+  });
+
+  test('should not run edits', async () => {
+    await expect(tools.run({ tool: 'propose_edit', args: { path: 'a.ts', content: '' } })).rejects.toThrow('cannot run');
+  });
+});
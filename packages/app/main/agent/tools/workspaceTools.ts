@@ -0,0 +1,217 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { spawn } from 'node:child_process';
+import type { AgentToolCall } from '../types';
+import type { SearchOptions, SearchResult } from '../rag/embedder';
+import type { SymbolDefinition, SymbolReference } from '../rag/symbolExtractor';
+
+export interface ToolRetriever {
+  searchSimilar(query: string, limit?: number, options?: SearchOptions): Promise<SearchResult[]>;
+  findDefinition(name: string, fromPath?: string): Promise<SymbolDefinition[]>;
+  findReferences(name: string, definitionPath?: string): Promise<SymbolReference[]>;
+  /** Whether a project-relative file or directory is ignored by the index */
+  isIgnored?(relativePath: string, isDirectory?: boolean): boolean;
+}
+
+export interface CommandOptions {
+  /** Killed after this long (default: 60s) */
+  timeoutMs?: number;
+  /** Output kept from stdout and stderr together (default: 20000 chars) */
+  maxOutputChars?: number;
+  /**
+   * Asks the user whether this exact command may run. run_command calls
+   * are refused when it is unset or says no.
+   */
+  approve?: (command: string) => Promise<boolean>;
+}
+
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 20;
+// Lines read when no range is given
+const MAX_READ_LINES = 400;
+const MAX_REFERENCES = 30;
+// Environment passed to commands; everything else, such as tokens, is left out
+const COMMAND_ENV_KEYS = ['PATH', 'HOME', 'USER', 'LANG', 'TERM', 'SHELL', 'TMPDIR', 'SystemRoot', 'ComSpec', 'PATHEXT'];
+
+/**
+ * Runs the agent's read-only tools and commands inside one workspace.
+ * Paths are project-relative and may not leave the project root.
+ *
+ * Commands run non-interactively in the project root with a reduced
+ * environment, no stdin, a time limit and capped output. A run_command
+ * call only runs once the `approve` option allowed it; runCommand itself
+ * does not ask. propose_edit is applied by the renderer, which owns the
+ * approval and the file write.
+ */
+export class WorkspaceTools {
+  constructor(
+    private projectRoot: string,
+    private retriever: ToolRetriever,
+    private commandOptions: CommandOptions = {}
+  ) {}
+
+  async run(call: AgentToolCall): Promise<string> {
+    const { args } = call;
+    switch (call.tool) {
+      case 'read_file':
+        return this.readFile(String(args.path), optionalNumber(args.startLine), optionalNumber(args.endLine));
+      case 'list_dir':
+        return this.listDir(args.path === undefined ? '.' : String(args.path));
+      case 'search_code':
+        return this.searchCode(String(args.query), optionalNumber(args.limit));
+      case 'find_symbol':
+        return this.findSymbol(String(args.name));
+      case 'run_command':
+        return this.runApprovedCommand(String(args.command));
+      default:
+        throw new Error(`Tool ${call.tool} cannot run in the main process`);
+    }
+  }
+
+  async readFile(filePath: string, startLine?: number, endLine?: number): Promise<string> {
+    const fullPath = this.resolve(filePath);
+    const relativePath = path.relative(this.projectRoot, fullPath).split(path.sep).join('/');
+    if (this.retriever.isIgnored?.(relativePath)) {
+      throw new Error(`File is excluded by the project's ignore rules: ${filePath}`);
+    }
+
+    let content: string;
+    try {
+      content = await fs.promises.readFile(fullPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      throw error;
+    }
+
+    const lines = content.split('\n');
+    const first = Math.max(1, startLine ?? 1);
+    if (first > lines.length) {
+      throw new Error(`startLine ${first} is past the end of ${filePath} (${lines.length} lines)`);
+    }
+    const last = Math.min(lines.length, endLine ?? first + MAX_READ_LINES - 1);
+    const numbered = lines.slice(first - 1, last).map((line, i) => `${first + i}: ${line}`);
+    const more = last < lines.length ? `\n... (${lines.length - last} more lines; read them with startLine ${last + 1})` : '';
+    return `${filePath} (lines ${first}-${last} of ${lines.length})\n${numbered.join('\n')}${more}`;
+  }
+
+  async listDir(dirPath: string): Promise<string> {
+    const fullPath = this.resolve(dirPath);
+    const entries = await fs.promises.readdir(fullPath, { withFileTypes: true });
+    const relativeDir = path.relative(this.projectRoot, fullPath).split(path.sep).join('/');
+
+    const listed = entries
+      .filter(entry => !entry.isDirectory() ||
+        !this.retriever.isIgnored?.(relativeDir ? `${relativeDir}/${entry.name}` : entry.name, true))
+      .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name)
+      .sort((a, b) => Number(b.endsWith('/')) - Number(a.endsWith('/')) || a.localeCompare(b));
+
+    return listed.length > 0 ? listed.join('\n') : '(empty directory)';
+  }
+
+  async searchCode(query: string, limit: number = DEFAULT_SEARCH_LIMIT): Promise<string> {
+    const results = await this.retriever.searchSimilar(query, Math.min(Math.max(1, limit), MAX_SEARCH_LIMIT));
+    if (results.length === 0) return 'No matches. The project may not be indexed yet.';
+
+    return results.map(({ record, similarity }) => {
+      const lines = record.startLine ? `:${record.startLine}-${record.endLine ?? record.startLine}` : '';
+      const symbol = record.symbolName ? ` (${record.symbolName})` : '';
+      return `${record.path}${lines}${symbol} score ${similarity.toFixed(2)}\n${record.chunk}`;
+    }).join('\n\n---\n\n');
+  }
+
+  async findSymbol(name: string): Promise<string> {
+    const definitions = await this.retriever.findDefinition(name);
+    if (definitions.length === 0) return `No definition of ${name} found in the symbol index.`;
+
+    const references = (await Promise.all(
+      definitions.map(definition => this.retriever.findReferences(name, definition.path))
+    )).flat();
+
+    const lines = [
+      'Definitions:',
+      ...definitions.map(definition =>
+        `- ${definition.kind} ${definition.name} in ${definition.path}:${definition.startLine}-${definition.endLine}`),
+      references.length > 0 ? 'References:' : 'No references found.',
+      ...references.slice(0, MAX_REFERENCES).map(reference =>
+        `- ${reference.path}:${reference.line} (${reference.kind})`)
+    ];
+    if (references.length > MAX_REFERENCES) {
+      lines.push(`... ${references.length - MAX_REFERENCES} more`);
+    }
+    return lines.join('\n');
+  }
+
+  async runApprovedCommand(command: string): Promise<string> {
+    const { approve } = this.commandOptions;
+    if (!approve || !(await approve(command))) {
+      throw new Error(`Command was not approved: ${command}`);
+    }
+    return this.runCommand(command);
+  }
+
+  runCommand(command: string): Promise<string> {
+    const { timeoutMs = 60_000, maxOutputChars = 20_000 } = this.commandOptions;
+    const env: NodeJS.ProcessEnv = { CI: '1' };
+    for (const key of COMMAND_ENV_KEYS) {
+      if (process.env[key] !== undefined) env[key] = process.env[key];
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, {
+        cwd: this.projectRoot,
+        env,
+        shell: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        windowsHide: true
+      });
+
+      let output = '';
+      let truncated = false;
+      let timedOut = false;
+      const append = (data: Buffer) => {
+        if (output.length >= maxOutputChars) {
+          truncated = true;
+          return;
+        }
+        output += data.toString();
+        if (output.length > maxOutputChars) {
+          output = output.slice(0, maxOutputChars);
+          truncated = true;
+        }
+      };
+      child.stdout.on('data', append);
+      child.stderr.on('data', append);
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        const status = timedOut ? `killed after ${timeoutMs / 1000}s` : `exit code ${code}`;
+        resolve(`$ ${command}\n${status}\n${output}${truncated ? '\n... (output truncated)' : ''}`.trimEnd());
+      });
+    });
+  }
+
+  private resolve(relativePath: string): string {
+    const fullPath = path.resolve(this.projectRoot, relativePath);
+    const relative = path.relative(this.projectRoot, fullPath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Path is outside the project: ${relativePath}`);
+    }
+    return fullPath;
+  }
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value === undefined || value === null || Number.isNaN(number) ? undefined : number;
+}
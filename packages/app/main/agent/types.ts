@@ -1,8 +1,45 @@
+import type { Mention } from './chat/mentions';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
+  /** Message this one answers or follows; absent on the first message */
+  parentId?: string;
+  /** Model that wrote this answer */
+  modelId?: string;
+  /** Tokens the model reported for the request that produced this answer */
+  usage?: TokenUsage;
+  /** Tools the agent called while writing this answer, in order */
+  toolSteps?: AgentToolStep[];
+  /** Slash command the user typed; `content` is the prompt it expanded to */
+  command?: string;
+}
+
+export type AgentToolName = 'read_file' | 'list_dir' | 'search_code' | 'find_symbol' | 'propose_edit' | 'run_command';
+
+export interface AgentToolCall {
+  tool: AgentToolName;
+  args: Record<string, unknown>;
+}
+
+/**
+ * One tool call of an agent run, as shown in the transcript
+ */
+export interface AgentToolStep extends AgentToolCall {
+  id: string;
+  /** What the model wrote before the call */
+  thought?: string;
+  status: 'awaiting_approval' | 'running' | 'done' | 'declined' | 'failed';
+  /** Output sent back to the model, shortened if long */
+  result?: string;
+}
+
+export interface TokenUsage {
+  /** Prompt tokens the model evaluated, history and context included */
+  promptTokens: number;
+  responseTokens: number;
 }
 
 export interface ChatHistory {
@@ -10,11 +47,35 @@ export interface ChatHistory {
   currentSessionId: string;
 }
 
+/**
+ * A saved conversation, without its messages
+ */
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  /** Model selected when the session was last saved */
+  modelId: string;
+  mode: 'ask' | 'agent';
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+export interface ChatSession extends Omit<ChatSessionSummary, 'messageCount'> {
+  /** The conversation as shown, first message first */
+  messages: ChatMessage[];
+  /** Edited or regenerated messages left off the shown conversation */
+  branches?: ChatMessage[];
+  /** Files, folders, notes and symbols pinned to the conversation */
+  pinnedMentions?: Mention[];
+}
+
 export interface ModelInfo {
   id: string;
   name: string;
   displayName?: string;
-  provider: 'ollama';
+  /** Id of the provider serving it, e.g. 'ollama' */
+  provider: string;
   available: boolean;
   size?: number;
   family?: string;
@@ -1,4 +1,4 @@
-import { app, BrowserWindow, Menu, shell, ipcMain, dialog } from 'electron';
+import { app, BrowserWindow, Menu, shell, ipcMain, dialog, MessageBoxOptions, WebContents } from 'electron';
 import { fileURLToPath } from 'node:url';
 import * as path from 'node:path';
 import * as os from 'node:os';
@@ -7,6 +7,12 @@ import { TerminalService } from '@shared/services/terminal';
 import { spawn, ChildProcess } from 'child_process';
 import { EmbeddingsDatabase } from './agent/db/database';
 import { agentService } from './agent/agentService';
+import { SearchOptions } from './agent/rag/embedder';
+import { ContextRequest } from './agent/context/contextAssembler';
+import { modelLibrary } from './agent/models/modelLibrary';
+import { ChatSessionStore } from './agent/db/chatSessions';
+import { loadWorkspaceCommands } from './agent/chat/workspaceCommands';
+import { AgentToolCall, ChatSession } from './agent/types';
 
 process.on('unhandledRejection', (reason, promise) => {
   console.error('=== Unhandled Promise Rejection ===');
@@ -48,6 +54,9 @@ let terminalService = new TerminalService();
 // Embeddings database instance
 let embeddingsDatabase: EmbeddingsDatabase | null = null;
 
+// Saved chat sessions, kept per workspace
+const chatSessions = new ChatSessionStore(path.join(app.getPath('userData'), 'chats'));
+
 function createWindow() {
   const distPath = process.env.DIST || path.join(__dirname, '../dist');
   const publicPath = process.env.VITE_PUBLIC || path.join(distPath, '../public');
@@ -98,6 +107,29 @@ function createWindow() {
   });
 }
 
+/**
+ * Switch to another workspace: reopen the window on it and move the agent
+ * over to that workspace's own embeddings index
+ */
+function changeWorkspace(newWorkspace: string) {
+  // Store the new workspace for restart
+  currentWorkspace = newWorkspace;
+
+  agentService.setWorkspace(newWorkspace).catch(error => {
+    console.warn('Failed to switch agent workspace:', error);
+  });
+
+  // Close current window and create new one with new workspace
+  if (win) {
+    win.close();
+    // Create new window after a short delay to ensure clean shutdown
+    setTimeout(() => {
+      fileSystemService = new FileSystemService(newWorkspace);
+      createWindow();
+    }, 100);
+  }
+}
+
 // This method will be called when Electron has finished initialization
 app.whenReady().then(async () => {
   createWindow();
@@ -108,7 +140,7 @@ app.whenReady().then(async () => {
       projectRoot: currentWorkspace,
       ollamaBaseUrl: 'http://localhost:11434',
       embeddingModel: 'nomic-embed-text',
-      dbPath: path.join(currentWorkspace, '.vscode', 'embeddings.json'),
+      indexesDir: path.join(app.getPath('userData'), 'indexes'),
       chunkSize: 1000
     });
   } catch (error) {
@@ -161,20 +193,7 @@ app.whenReady().then(async () => {
             });
 
             if (!result.canceled && result.filePaths.length > 0) {
-              const newWorkspace = result.filePaths[0];
-              
-              // Store the new workspace for restart
-              currentWorkspace = newWorkspace;
-              
-              // Close current window and create new one with new workspace
-              if (win) {
-                win.close();
-                // Create new window after a short delay to ensure clean shutdown
-                setTimeout(() => {
-                  fileSystemService = new FileSystemService(newWorkspace);
-                  createWindow();
-                }, 100);
-              }
+              changeWorkspace(result.filePaths[0]);
             }
           },
         },
@@ -270,6 +289,9 @@ app.on('before-quit', async () => {
 
   // Clean up terminals on app quit
   terminalService.closeAllTerminals();
+
+  // Stop the index watcher and close the embeddings store
+  await agentService.cleanup();
 });
 
 // Core FileSystem Service IPC handlers
@@ -430,6 +452,16 @@ ipcMain.handle('core:getCurrentWorkspace', async () => {
   return currentWorkspace;
 });
 
+// Ignore rules (.gitignore/.locusignore) shared by the tree, the index and the agent
+registerIpcHandler('core:getIgnoreRules', async () => {
+  try {
+    return await fileSystemService.getIgnoreRules();
+  } catch (error) {
+    console.error('Failed to load ignore rules:', error);
+    throw error;
+  }
+});
+
 // Add IPC handler for selecting workspace directory
 ipcMain.handle('core:selectWorkspace', async () => {
   if (!win) return null;
@@ -466,20 +498,7 @@ ipcMain.handle('core:selectWorkspace', async () => {
 
   if (!result.canceled && result.filePaths.length > 0) {
     const newWorkspace = result.filePaths[0];
-    
-    // Store the new workspace for restart
-    currentWorkspace = newWorkspace;
-    
-    // Close current window and create new one with new workspace
-    if (win) {
-      win.close();
-      // Create new window after a short delay to ensure clean shutdown
-      setTimeout(() => {
-        fileSystemService = new FileSystemService(newWorkspace);
-        createWindow();
-      }, 100);
-    }
-    
+    changeWorkspace(newWorkspace);
     return newWorkspace;
   }
   
@@ -646,15 +665,107 @@ registerIpcHandler('agent:processCodebase', async (_event: any) => {
   }
 });
 
-registerIpcHandler('agent:searchSimilar', async (_event: any, query: string, limit: number = 10) => {
+registerIpcHandler('agent:cancelIndexing', async (_event: any) => {
+  return agentService.cancelIndexing();
+});
+
+// Forward indexing progress to whichever window is open
+agentService.onIndexingProgress(progress => {
+  win?.webContents.send('agent:indexingProgress', progress);
+});
+
+registerIpcHandler('agent:searchSimilar', async (_event: any, query: string, limit: number = 10, options?: SearchOptions) => {
   try {
-    return await agentService.searchSimilar(query, limit);
+    return await agentService.searchSimilar(query, limit, options);
   } catch (error) {
     console.error('Failed to search similar:', error);
     throw error;
   }
 });
 
+registerIpcHandler('agent:assembleContext', async (_event: any, request: ContextRequest) => {
+  try {
+    return await agentService.assembleContext(request);
+  } catch (error) {
+    console.error('Failed to assemble context:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:estimatePinnedContext', async (_event: any, request: Omit<ContextRequest, 'query'>) => {
+  try {
+    return await agentService.estimatePinnedContext(request);
+  } catch (error) {
+    console.error('Failed to estimate pinned context:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:recordTokenUsage', async (_event: any, modelId: string, messages: Array<{ content: string }>, promptTokens: number) => {
+  try {
+    agentService.recordTokenUsage(modelId, messages, promptTokens);
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:findDefinition', async (_event: any, name: string, fromPath?: string) => {
+  try {
+    return await agentService.findDefinition(name, fromPath);
+  } catch (error) {
+    console.error('Failed to find definition:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:searchSymbols', async (_event: any, query: string, limit?: number) => {
+  try {
+    return await agentService.searchSymbols(query, limit);
+  } catch (error) {
+    console.error('Failed to search symbols:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:findReferences', async (_event: any, name: string, definitionPath?: string) => {
+  try {
+    return await agentService.findReferences(name, definitionPath);
+  } catch (error) {
+    console.error('Failed to find references:', error);
+    throw error;
+  }
+});
+
+// Commands are approved here, not by the renderer that asked to run them
+async function confirmAgentCommand(sender: WebContents, command: string): Promise<boolean> {
+  const owner = BrowserWindow.fromWebContents(sender) ?? win;
+  const options: MessageBoxOptions = {
+    type: 'warning',
+    title: 'Run Command',
+    message: 'The agent wants to run a command in your workspace.',
+    detail: command,
+    buttons: ['Cancel', 'Run'],
+    defaultId: 0,
+    cancelId: 0,
+  };
+  const { response } = owner ? await dialog.showMessageBox(owner, options) : await dialog.showMessageBox(options);
+  return response === 1;
+}
+
+registerIpcHandler('agent:setAllowCommands', async (_event: any, allowed: boolean) => {
+  agentService.setAllowCommands(allowed === true);
+});
+
+registerIpcHandler('agent:runTool', async (event: any, call: AgentToolCall) => {
+  try {
+    return await agentService.runTool(call, command => confirmAgentCommand(event.sender, command));
+  } catch (error) {
+    console.error('Failed to run agent tool:', error);
+    throw error;
+  }
+});
+
 registerIpcHandler('agent:getStats', async (_event: any) => {
   try {
     return await agentService.getStats();
@@ -673,6 +784,33 @@ registerIpcHandler('agent:rebuild', async (_event: any) => {
   }
 });
 
+registerIpcHandler('agent:reembed', async (_event: any, options?: { keepOldIndex?: boolean }) => {
+  try {
+    return await agentService.reembed(options);
+  } catch (error) {
+    console.error('Failed to re-embed index:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:exportIndex', async (_event: any, filePath: string) => {
+  try {
+    return await agentService.exportIndex(filePath);
+  } catch (error) {
+    console.error('Failed to export index:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:importIndex', async (_event: any, filePath: string) => {
+  try {
+    return await agentService.importIndex(filePath);
+  } catch (error) {
+    console.error('Failed to import index:', error);
+    throw error;
+  }
+});
+
 registerIpcHandler('agent:getFileList', async (_event: any, baseDir: string = '.', extensions?: string[]) => {
   try {
     return await agentService.getFileList(baseDir, extensions);
@@ -700,6 +838,33 @@ registerIpcHandler('agent:updateConfig', async (_event: any, config: any) => {
   }
 });
 
+registerIpcHandler('agent:listIndexes', async (_event: any) => {
+  try {
+    return await agentService.listIndexes();
+  } catch (error) {
+    console.error('Failed to list indexes:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:deleteIndex', async (_event: any, id: string) => {
+  try {
+    return await agentService.deleteIndex(id);
+  } catch (error) {
+    console.error('Failed to delete index:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('agent:pruneIndexes', async (_event: any, maxAgeMs?: number) => {
+  try {
+    return await agentService.pruneIndexes(maxAgeMs);
+  } catch (error) {
+    console.error('Failed to prune indexes:', error);
+    throw error;
+  }
+});
+
 registerIpcHandler('agent:getConfig', async (_event: any) => {
   try {
     return agentService.getConfig();
@@ -707,4 +872,119 @@ registerIpcHandler('agent:getConfig', async (_event: any) => {
     console.error('Failed to get agent config:', error);
     throw error;
   }
-}); 
\ No newline at end of file
+});
+
+// Model library IPC handlers
+registerIpcHandler('ollama:pull', async (_event: any, model: string) => {
+  try {
+    return await modelLibrary.pull(model);
+  } catch (error) {
+    console.error('Failed to pull model:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('ollama:cancelPull', async (_event: any, model: string) => {
+  return modelLibrary.cancelPull(model);
+});
+
+registerIpcHandler('ollama:getActivePulls', async (_event: any) => {
+  return modelLibrary.getActivePulls();
+});
+
+// Forward pull progress to whichever window is open
+modelLibrary.onPullProgress(progress => {
+  win?.webContents.send('ollama:pullProgress', progress);
+});
+
+registerIpcHandler('ollama:delete', async (_event: any, model: string) => {
+  try {
+    return await modelLibrary.deleteModel(model);
+  } catch (error) {
+    console.error('Failed to delete model:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('ollama:show', async (_event: any, model: string) => {
+  try {
+    return await modelLibrary.showModel(model);
+  } catch (error) {
+    console.error('Failed to show model:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('ollama:listRunning', async (_event: any) => {
+  try {
+    return await modelLibrary.getRunningModels();
+  } catch (error) {
+    console.error('Failed to list running models:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('ollama:unload', async (_event: any, model: string) => {
+  try {
+    return await modelLibrary.unloadModel(model);
+  } catch (error) {
+    console.error('Failed to unload model:', error);
+    throw error;
+  }
+});
+
+// Chat session IPC handlers; sessions belong to the current workspace
+registerIpcHandler('chat:listSessions', async (_event: any, query?: string) => {
+  try {
+    return await chatSessions.listSessions(currentWorkspace, query);
+  } catch (error) {
+    console.error('Failed to list chat sessions:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('chat:loadSession', async (_event: any, id: string) => {
+  try {
+    return await chatSessions.loadSession(currentWorkspace, id);
+  } catch (error) {
+    console.error('Failed to load chat session:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('chat:saveSession', async (_event: any, session: ChatSession) => {
+  try {
+    return await chatSessions.saveSession(currentWorkspace, session);
+  } catch (error) {
+    console.error('Failed to save chat session:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('chat:renameSession', async (_event: any, id: string, title: string) => {
+  try {
+    return await chatSessions.renameSession(currentWorkspace, id, title);
+  } catch (error) {
+    console.error('Failed to rename chat session:', error);
+    throw error;
+  }
+});
+
+registerIpcHandler('chat:deleteSession', async (_event: any, id: string) => {
+  try {
+    return await chatSessions.deleteSession(currentWorkspace, id);
+  } catch (error) {
+    console.error('Failed to delete chat session:', error);
+    throw error;
+  }
+});
+
+// Custom slash commands from the current workspace's .locus/commands.json
+registerIpcHandler('chat:listCommands', async () => {
+  try {
+    return await loadWorkspaceCommands(currentWorkspace);
+  } catch (error) {
+    console.error('Failed to load slash commands:', error);
+    throw error;
+  }
+});
@@ -19,6 +19,7 @@ contextBridge.exposeInMainWorld('api', {
   // Workspace operations
   getCurrentWorkspace: () => ipcRenderer.invoke('core:getCurrentWorkspace'),
   selectWorkspace: () => ipcRenderer.invoke('core:selectWorkspace'),
+  getIgnoreRules: () => ipcRenderer.invoke('core:getIgnoreRules'),
   onWorkspaceChanged: (callback: (workspace: string) => void) => {
     ipcRenderer.on('workspace-changed', (_event: any, workspace: any) => callback(workspace));
   },
@@ -83,13 +84,58 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Agent service operations
   agent: {
     processCodebase: () => ipcRenderer.invoke('agent:processCodebase'),
-    searchSimilar: (query: string, limit?: number) => ipcRenderer.invoke('agent:searchSimilar', query, limit),
+    searchSimilar: (query: string, limit?: number, options?: any) => ipcRenderer.invoke('agent:searchSimilar', query, limit, options),
     getStats: () => ipcRenderer.invoke('agent:getStats'),
+    assembleContext: (request: any) => ipcRenderer.invoke('agent:assembleContext', request),
+    estimatePinnedContext: (request: any) => ipcRenderer.invoke('agent:estimatePinnedContext', request),
+    recordTokenUsage: (modelId: string, messages: any[], promptTokens: number) => ipcRenderer.invoke('agent:recordTokenUsage', modelId, messages, promptTokens),
+    findDefinition: (name: string, fromPath?: string) => ipcRenderer.invoke('agent:findDefinition', name, fromPath),
+    searchSymbols: (query: string, limit?: number) => ipcRenderer.invoke('agent:searchSymbols', query, limit),
+    findReferences: (name: string, definitionPath?: string) => ipcRenderer.invoke('agent:findReferences', name, definitionPath),
+    runTool: (call: { tool: string; args: Record<string, unknown> }) => ipcRenderer.invoke('agent:runTool', call),
+    setAllowCommands: (allowed: boolean) => ipcRenderer.invoke('agent:setAllowCommands', allowed),
     rebuild: () => ipcRenderer.invoke('agent:rebuild'),
+    reembed: (options?: { keepOldIndex?: boolean }) => ipcRenderer.invoke('agent:reembed', options),
+    exportIndex: (filePath: string) => ipcRenderer.invoke('agent:exportIndex', filePath),
+    importIndex: (filePath: string) => ipcRenderer.invoke('agent:importIndex', filePath),
     getFileList: (baseDir?: string, extensions?: string[]) => ipcRenderer.invoke('agent:getFileList', baseDir, extensions),
     readFileContent: (filePath: string) => ipcRenderer.invoke('agent:readFileContent', filePath),
     updateConfig: (config: any) => ipcRenderer.invoke('agent:updateConfig', config),
     getConfig: () => ipcRenderer.invoke('agent:getConfig'),
+    cancelIndexing: () => ipcRenderer.invoke('agent:cancelIndexing'),
+    listIndexes: () => ipcRenderer.invoke('agent:listIndexes'),
+    deleteIndex: (id: string) => ipcRenderer.invoke('agent:deleteIndex', id),
+    pruneIndexes: (maxAgeMs?: number) => ipcRenderer.invoke('agent:pruneIndexes', maxAgeMs),
+    onIndexingProgress: (callback: (progress: any) => void) => {
+      ipcRenderer.on('agent:indexingProgress', (_event: any, progress: any) => callback(progress));
+    },
+  },
+
+  // Ollama model library
+  ollama: {
+    pull: (model: string) => ipcRenderer.invoke('ollama:pull', model),
+    cancelPull: (model: string) => ipcRenderer.invoke('ollama:cancelPull', model),
+    getActivePulls: () => ipcRenderer.invoke('ollama:getActivePulls'),
+    delete: (model: string) => ipcRenderer.invoke('ollama:delete', model),
+    show: (model: string) => ipcRenderer.invoke('ollama:show', model),
+    listRunning: () => ipcRenderer.invoke('ollama:listRunning'),
+    unload: (model: string) => ipcRenderer.invoke('ollama:unload', model),
+    onPullProgress: (callback: (progress: any) => void) => {
+      ipcRenderer.on('ollama:pullProgress', (_event: any, progress: any) => callback(progress));
+    },
+  },
+
+  // Chat sessions of the current workspace
+  chatSessions: {
+    list: (query?: string) => ipcRenderer.invoke('chat:listSessions', query),
+    load: (id: string) => ipcRenderer.invoke('chat:loadSession', id),
+    save: (session: any) => ipcRenderer.invoke('chat:saveSession', session),
+    rename: (id: string, title: string) => ipcRenderer.invoke('chat:renameSession', id, title),
+    delete: (id: string) => ipcRenderer.invoke('chat:deleteSession', id),
+  },
+
+  chatCommands: {
+    list: () => ipcRenderer.invoke('chat:listCommands'),
   },
 
   // Menu listeners
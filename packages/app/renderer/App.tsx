@@ -431,6 +431,7 @@ function AppContent() {
         <AgentChatPanel 
           isOpen={chatPanelOpen}
           onToggle={toggleChatPanel}
+          editorFile={currentFile}
         />
       </div>
 
@@ -1,10 +1,57 @@
-import { ChatMessage } from '../types';
-import { buildPrompt, ContextChunk, PromptMode, PromptOptions } from './promptBuilder';
-import { queryModel, queryModelStream } from '../models/modelAdapter';
+import { AgentToolCall, AgentToolStep, ChatMessage, TokenUsage } from '../types';
+import { buildChatMessages, ContextChunk, PromptMode, PromptOptions } from './promptBuilder';
+import { buildToolInstructions, getAgentTools } from './agentTools';
+import { DEFAULT_MAX_STEPS, runAgentLoop } from './agentLoop';
+import { SlashContextRecipe } from './slashCommands';
+import { chatWithModel, chatWithModelStream } from '../models/modelAdapter';
+import { modelManager } from '../models/modelManager';
+import { ChatResponse, ChatTurn, GenerationOptions } from '../models/types';
+
+// Messages sent when the assembler is unavailable
+const FALLBACK_HISTORY_MESSAGES = 6;
+
+// Longest file, and files per folder, put into a slash command's context
+const MAX_COMMAND_FILE_CHARS = 3000;
+const MAX_FOLDER_FILES = 20;
+const MAX_FOLDER_FILE_CHARS = 2000;
+
+const truncate = (content: string, maxChars: number): string =>
+  content.length > maxChars ? `${content.slice(0, maxChars)}\n... (file truncated)` : content;
+
+interface AssembleRequest {
+  query: string;
+  modelId?: string;
+  numCtx?: number;
+  activeFilePath?: string;
+  pinnedFiles?: string[];
+  pinnedSymbols?: Array<{ name: string; path?: string }>;
+  rewriteQuery?: boolean;
+  history?: ChatMessage[];
+}
+
+/**
+ * What the main-process assembler chose for one request
+ */
+interface ChatContextParts {
+  chunks: ContextChunk[];
+  history: ChatMessage[];
+  historySummary?: string;
+  /** False when the assembler failed, so the chunks hold no active file */
+  assembled: boolean;
+}
 
 // Import AgentClient directly to avoid circular dependency
 interface AgentClient {
   searchSimilar(query: string, limit?: number): Promise<any[]>;
+  assembleContext(request: AssembleRequest): Promise<{
+    chunks: ContextChunk[];
+    warnings: string[];
+    queries: Array<{ kind: string; query: string }>;
+    history: ChatMessage[];
+    historySummary?: string;
+  }>;
+  recordTokenUsage(modelId: string, messages: ChatTurn[], promptTokens: number): Promise<void>;
+  runTool(call: AgentToolCall): Promise<string>;
   getFileList(baseDir?: string, extensions?: string[]): Promise<string[]>;
   readFileContent(filePath: string): Promise<string | null>;
   processCodebase(): Promise<any>;
@@ -19,6 +66,27 @@ class AgentClientImpl implements AgentClient {
     return window.electronAPI.agent.searchSimilar(query, limit);
   }
 
+  async assembleContext(request: AssembleRequest) {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.assembleContext(request);
+  }
+
+  async recordTokenUsage(modelId: string, messages: ChatTurn[], promptTokens: number): Promise<void> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.recordTokenUsage(modelId, messages, promptTokens);
+  }
+
+  async runTool(call: AgentToolCall): Promise<string> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.runTool(call);
+  }
+
   async getFileList(baseDir: string = '.', extensions?: string[]): Promise<string[]> {
     if (!window.electronAPI?.agent) {
       throw new Error('Agent API not available');
@@ -54,6 +122,23 @@ export interface SendMessageParams {
   mode: 'ask' | 'agent';
   activeFilePath?: string;
   includeFileList?: boolean;
+  /** Files and folders pinned to the conversation, included ahead of search results */
+  pinnedFiles?: string[];
+  /** Symbols pinned to the conversation; their definitions are included like pinned files */
+  pinnedSymbols?: Array<{ name: string; path?: string }>;
+  /**
+   * Have the model rewrite the message into reformulations and keyword
+   * lists and search each of them. Slower, but finds context for vague
+   * questions that match no chunk verbatim.
+   */
+  rewriteQuery?: boolean;
+  /**
+   * Earlier messages of the conversation, oldest first. The most recent
+   * ones that fit the model's budget are sent; older ones are summarized.
+   */
+  history?: ChatMessage[];
+  /** Override the saved generation options for this request */
+  generationOptions?: GenerationOptions;
 }
 
 export interface SendMessageStreamParams extends SendMessageParams {
@@ -61,8 +146,31 @@ export interface SendMessageStreamParams extends SendMessageParams {
   abortSignal?: AbortSignal;
 }
 
+export interface RunAgentParams extends SendMessageStreamParams {
+  /** Offer run_command to the model; every command is still approved */
+  allowCommands?: boolean;
+  /** Tool calls before the model must answer */
+  maxSteps?: number;
+  /** Ask the user whether a call that writes or executes may run */
+  approveToolCall: (step: AgentToolStep) => Promise<boolean>;
+  /** A tool call was made or its status changed */
+  onToolStep?: (step: AgentToolStep) => void;
+}
+
+/**
+ * What the editor shows when a slash command runs
+ */
+export interface SlashCommandSources {
+  /** Open file, or the chat's active file when no file is open */
+  filePath?: string;
+  /** Content of the open file in the editor, including unsaved changes */
+  fileContent?: string;
+  selection?: string;
+}
+
 export interface AgentConfig {
   maxContextTokens: number;
+  /** Sampling defaults; workspace and model generation settings override them */
   temperature: number;
   topK: number;
 }
@@ -83,7 +191,7 @@ export class ChatAgent {
   constructor(config: AgentConfig = {
     maxContextTokens: 4000,
     temperature: 0.7,
-    topK: 5
+    topK: 40
   }) {
     this.config = config;
     this.agentClient = new AgentClientImpl();
@@ -93,17 +201,19 @@ export class ChatAgent {
    * Main entry point for sending messages
    */
   async sendMessage(params: SendMessageParams): Promise<ChatMessage> {
-    const { message, modelId, mode, activeFilePath, includeFileList = true } = params;
+    const { message, modelId, mode, activeFilePath, includeFileList = true, rewriteQuery, history, generationOptions } = params;
 
     try {
-      // 1. Build context with file awareness using agent client
-      const contextChunks = await this.buildContextChunks(message, activeFilePath, includeFileList);
+      // 1. Build context and pick the history to send using agent client,
+      // within the context size the request will run with
+      const options = await this.resolveGenerationOptions(modelId, generationOptions);
+      const context = await this.buildContextParts(message, modelId, options.numCtx, activeFilePath, rewriteQuery, history, params);
       
       // 2. Build project files block if requested
       const projectFilesBlock = includeFileList ? await this.buildProjectFilesBlock() : '';
       
-      // 3. Build active file block if available
-      const activeFileBlock = activeFilePath ? await this.buildActiveFileBlock(activeFilePath) : '';
+      // 3. Build active file block if the assembler could not include the file
+      const activeFileBlock = activeFilePath && !context.assembled ? await this.buildActiveFileBlock(activeFilePath) : '';
 
       // 4. Build the appropriate prompt based on mode with enhanced context
       const promptOptions: PromptOptions = {
@@ -113,17 +223,26 @@ export class ChatAgent {
         activeFilePath
       };
 
-      const prompt = buildPrompt(mode as PromptMode, message, contextChunks, promptOptions);
+      const messages = buildChatMessages(
+        mode as PromptMode,
+        message,
+        context.chunks,
+        promptOptions,
+        context.history,
+        context.historySummary
+      );
 
       // 5. Send to the selected model via adapter
-      const response = await this.sendToModel(modelId, prompt);
+      const response = await this.sendToModel(modelId, messages, options);
+      this.recordTokenUsage(modelId, messages, response.usage);
 
       // 6. Create AI message object
       const aiMessage: ChatMessage = {
         id: this.generateMessageId(),
         role: 'assistant',
-        content: response,
-        timestamp: Date.now()
+        content: response.content,
+        timestamp: Date.now(),
+        usage: response.usage
       };
 
       return aiMessage;
@@ -137,17 +256,30 @@ export class ChatAgent {
    * Main entry point for sending messages with streaming support
    */
   async sendMessageStream(params: SendMessageStreamParams): Promise<ChatMessage> {
-    const { message, modelId, mode, activeFilePath, includeFileList = true, onChunk, abortSignal } = params;
+    const {
+      message,
+      modelId,
+      mode,
+      activeFilePath,
+      includeFileList = true,
+      rewriteQuery,
+      history,
+      generationOptions,
+      onChunk,
+      abortSignal
+    } = params;
 
     try {
-      // 1. Build context with file awareness using agent client
-      const contextChunks = await this.buildContextChunks(message, activeFilePath, includeFileList);
+      // 1. Build context and pick the history to send using agent client,
+      // within the context size the request will run with
+      const options = await this.resolveGenerationOptions(modelId, generationOptions);
+      const context = await this.buildContextParts(message, modelId, options.numCtx, activeFilePath, rewriteQuery, history, params);
       
       // 2. Build project files block if requested
       const projectFilesBlock = includeFileList ? await this.buildProjectFilesBlock() : '';
       
-      // 3. Build active file block if available
-      const activeFileBlock = activeFilePath ? await this.buildActiveFileBlock(activeFilePath) : '';
+      // 3. Build active file block if the assembler could not include the file
+      const activeFileBlock = activeFilePath && !context.assembled ? await this.buildActiveFileBlock(activeFilePath) : '';
 
       // 4. Build the appropriate prompt based on mode with enhanced context
       const promptOptions: PromptOptions = {
@@ -157,17 +289,26 @@ export class ChatAgent {
         activeFilePath
       };
 
-      const prompt = buildPrompt(mode as PromptMode, message, contextChunks, promptOptions);
+      const messages = buildChatMessages(
+        mode as PromptMode,
+        message,
+        context.chunks,
+        promptOptions,
+        context.history,
+        context.historySummary
+      );
 
       // 5. Send to the selected model via adapter with streaming
-      const response = await this.sendToModelStream(modelId, prompt, onChunk, abortSignal);
+      const response = await this.sendToModelStream(modelId, messages, options, onChunk, abortSignal);
+      this.recordTokenUsage(modelId, messages, response.usage);
 
       // 6. Create AI message object
       const aiMessage: ChatMessage = {
         id: this.generateMessageId(),
         role: 'assistant',
-        content: response,
-        timestamp: Date.now()
+        content: response.content,
+        timestamp: Date.now(),
+        usage: response.usage
       };
 
       return aiMessage;
@@ -178,43 +319,189 @@ export class ChatAgent {
   }
 
   /**
-   * Build context chunks using agent client for semantic search
+   * Agent mode with tools: the model reads, searches and proposes edits
+   * over several turns before it answers. Every reply is streamed through
+   * onChunk; a reply that ends in a tool call is reported through
+   * onToolStep and followed by the next one.
    */
-  private async buildContextChunks(query: string, activeFilePath?: string, includeFileList?: boolean): Promise<ContextChunk[]> {
+  async runAgent(params: RunAgentParams): Promise<ChatMessage> {
+    const {
+      message,
+      modelId,
+      activeFilePath,
+      includeFileList = true,
+      rewriteQuery,
+      history,
+      generationOptions,
+      onChunk,
+      abortSignal,
+      allowCommands,
+      maxSteps = DEFAULT_MAX_STEPS,
+      approveToolCall,
+      onToolStep
+    } = params;
+
     try {
-      // Get semantic search results from main process
-      const searchResults = await this.agentClient.searchSimilar(query, this.config.topK);
-      
-      const contextChunks: ContextChunk[] = searchResults.map(result => ({
-        filePath: result.record.path,
-        content: result.record.chunk,
-        relevanceScore: result.similarity,
-        lineStart: 1, // TODO: Extract from chunk metadata if available
-        lineEnd: result.record.chunk.split('\n').length
-      }));
+      const options = await this.resolveGenerationOptions(modelId, generationOptions);
+      const context = await this.buildContextParts(message, modelId, options.numCtx, activeFilePath, rewriteQuery, history, params);
+      const projectFilesBlock = includeFileList ? await this.buildProjectFilesBlock() : '';
+      const activeFileBlock = activeFilePath && !context.assembled ? await this.buildActiveFileBlock(activeFilePath) : '';
+      const tools = getAgentTools(allowCommands);
+
+      const messages = buildChatMessages(
+        'agent',
+        message,
+        context.chunks,
+        {
+          projectFilesBlock,
+          activeFileBlock,
+          includeAntiHallucination: true,
+          activeFilePath,
+          toolInstructions: buildToolInstructions(tools, maxSteps)
+        },
+        context.history,
+        context.historySummary
+      );
+
+      const result = await runAgentLoop({
+        messages,
+        tools,
+        maxSteps,
+        abortSignal,
+        chat: async turns => {
+          const response = await this.sendToModelStream(modelId, turns, options, onChunk, abortSignal);
+          this.recordTokenUsage(modelId, turns, response.usage);
+          return response;
+        },
+        execute: call => this.executeTool(call),
+        approve: approveToolCall,
+        onStep: onToolStep
+      });
+
+      const notice = result.stepLimitReached ? `\n\n_[Stopped after ${maxSteps} tool calls]_` : '';
+      return {
+        id: this.generateMessageId(),
+        role: 'assistant',
+        content: result.content + notice,
+        timestamp: Date.now(),
+        usage: result.usage,
+        toolSteps: result.steps
+      };
+    } catch (error) {
+      console.error('Failed to run agent:', error);
+      throw new Error(`Failed to get AI response from agent: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Run an approved tool call. Edits are written like approved FILE_OPS;
+   * everything else runs in the main process.
+   */
+  private async executeTool(call: AgentToolCall): Promise<string> {
+    if (call.tool !== 'propose_edit') {
+      return this.agentClient.runTool(call);
+    }
 
-      // If we have an active file, ensure it's prioritized
-      if (activeFilePath && includeFileList) {
-        const activeFileContent = await this.agentClient.readFileContent(activeFilePath);
-        if (activeFileContent) {
-          // Add active file as highest priority context if not already included
-          const hasActiveFile = contextChunks.some(chunk => chunk.filePath === activeFilePath);
-          if (!hasActiveFile) {
-            contextChunks.unshift({
-              filePath: activeFilePath,
-              content: activeFileContent.slice(0, 2000), // Limit size
-              relevanceScore: 1.0, // Highest relevance
-              lineStart: 1,
-              lineEnd: activeFileContent.split('\n').length
-            });
-          }
+    const filePath = String(call.args.path);
+    if (!window.api?.writeNote) {
+      throw new Error('File API not available');
+    }
+    const written = await window.api.writeNote(filePath, String(call.args.content ?? ''));
+    if (written === false) {
+      throw new Error(`Failed to write ${filePath}`);
+    }
+    return `Wrote ${filePath}`;
+  }
+
+  /**
+   * Build context chunks with the main-process assembler, which ranks the
+   * active file, pinned files and symbols, symbol definitions and search
+   * results and packs them into the model's token budget. The history shares that budget: recent
+   * messages are kept and older ones summarized.
+   */
+  private async buildContextParts(
+    query: string,
+    modelId: string,
+    numCtx?: number,
+    activeFilePath?: string,
+    rewriteQuery?: boolean,
+    history: ChatMessage[] = [],
+    pins: Pick<SendMessageParams, 'pinnedFiles' | 'pinnedSymbols'> = {}
+  ): Promise<ChatContextParts> {
+    try {
+      const { pinnedFiles, pinnedSymbols } = pins;
+      const context = await this.agentClient.assembleContext({
+        query, modelId, numCtx, activeFilePath, pinnedFiles, pinnedSymbols, rewriteQuery, history
+      });
+      context.warnings.forEach(warning => console.warn('Context assembly:', warning));
+      if (context.queries.length > 1) {
+        console.log('Retrieval queries:', context.queries.map(variant => `${variant.kind}: ${variant.query}`));
+      }
+      return { chunks: context.chunks, history: context.history, historySummary: context.historySummary, assembled: true };
+    } catch (error) {
+      console.warn('Failed to build context chunks:', error);
+      // The optimizer's default window, without a summary
+      return { chunks: [], history: history.slice(-FALLBACK_HISTORY_MESSAGES), assembled: false };
+    }
+  }
+
+  /**
+   * Context for a slash command, one section per recipe that has
+   * something to show
+   */
+  async buildCommandContext(recipes: SlashContextRecipe[], sources: SlashCommandSources): Promise<string> {
+    const { filePath, selection } = sources;
+    const sections: string[] = [];
+
+    for (const recipe of recipes) {
+      if (recipe === 'selection' && selection?.trim()) {
+        sections.push(`## Selection${filePath ? ` from ${filePath}` : ''}\n\`\`\`\n${selection}\n\`\`\``);
+      } else if (recipe === 'active_file' && filePath) {
+        const content = sources.fileContent ?? await this.readFileSafe(filePath);
+        if (content) {
+          sections.push(`## File: ${filePath}\n\`\`\`\n${truncate(content, MAX_COMMAND_FILE_CHARS)}\n\`\`\``);
         }
+      } else if (recipe === 'folder' && filePath) {
+        const folderBlock = await this.buildFolderBlock(filePath);
+        if (folderBlock) sections.push(folderBlock);
       }
+    }
 
-      return contextChunks;
+    return sections.join('\n\n');
+  }
+
+  /**
+   * The files next to `filePath`, each cut short
+   */
+  private async buildFolderBlock(filePath: string): Promise<string> {
+    const slash = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
+    const folder = slash === -1 ? '.' : filePath.slice(0, slash);
+    try {
+      const names = (await this.agentClient.getFileList(folder))
+        .filter(name => !name.includes('/') && !name.includes('\\'))
+        .slice(0, MAX_FOLDER_FILES);
+
+      const files: string[] = [];
+      for (const name of names) {
+        const path = folder === '.' ? name : `${folder}/${name}`;
+        const content = await this.readFileSafe(path);
+        if (content) {
+          files.push(`### ${path}\n\`\`\`\n${truncate(content, MAX_FOLDER_FILE_CHARS)}\n\`\`\``);
+        }
+      }
+      return files.length > 0 ? `## Folder: ${folder}\n\n${files.join('\n\n')}` : '';
     } catch (error) {
-      console.warn('Failed to build context chunks:', error);
-      return [];
+      console.warn('Failed to build folder block:', error);
+      return '';
+    }
+  }
+
+  private async readFileSafe(filePath: string): Promise<string | null> {
+    try {
+      return await this.agentClient.readFileContent(filePath);
+    } catch (error) {
+      console.warn(`Failed to read ${filePath}:`, error);
+      return null;
     }
   }
 
@@ -262,14 +549,15 @@ export class ChatAgent {
   private async getCodeContext(query: string): Promise<CodeContext[]> {
     try {
       // Use agent client to find relevant code chunks
-      const searchResults = await this.agentClient.searchSimilar(query, this.config.topK);
+      const searchResults = await this.agentClient.searchSimilar(query, 5);
       
       return searchResults.map(result => ({
         filePath: result.record.path,
         content: result.record.chunk,
         relevanceScore: result.similarity,
-        lineStart: 1, // TODO: Extract from chunk metadata if available
-        lineEnd: result.record.chunk.split('\n').length
+        lineStart: result.record.startLine,
+        lineEnd: result.record.endLine,
+        symbolName: result.record.symbolName
       }));
     } catch (error) {
       console.warn('Failed to get code context:', error);
@@ -278,12 +566,31 @@ export class ChatAgent {
   }
 
   /**
-   * Send prompt to the selected model via adapter
+   * Generation options for a request: the agent's defaults, then the
+   * workspace's and the model's saved settings, then per-request overrides
    */
-  private async sendToModel(modelId: string, prompt: string): Promise<string> {
+  private async resolveGenerationOptions(modelId: string, overrides: GenerationOptions = {}): Promise<GenerationOptions> {
+    let workspaceRoot: string | undefined;
     try {
-      // Use the real model adapter to query Ollama
-      const response = await queryModel(modelId, prompt);
+      workspaceRoot = await window.api?.getCurrentWorkspace?.();
+    } catch (error) {
+      console.warn('Failed to get current workspace:', error);
+    }
+
+    const defaults: GenerationOptions = { temperature: this.config.temperature, topK: this.config.topK };
+    return {
+      ...modelManager.resolveGenerationOptions(modelId, workspaceRoot || undefined, defaults),
+      ...overrides
+    };
+  }
+
+  /**
+   * Send chat messages to the selected model via adapter
+   */
+  private async sendToModel(modelId: string, messages: ChatTurn[], options: GenerationOptions): Promise<ChatResponse> {
+    try {
+      // Resolve the model's provider and query it
+      const response = await chatWithModel(modelId, messages, options);
       return response;
     } catch (error) {
       console.error('Model query failed:', error);
@@ -292,12 +599,18 @@ export class ChatAgent {
   }
 
   /**
-   * Send prompt to the selected model via adapter with streaming
+   * Send chat messages to the selected model via adapter with streaming
    */
-  private async sendToModelStream(modelId: string, prompt: string, onChunk: (chunk: string) => void, abortSignal?: AbortSignal): Promise<string> {
+  private async sendToModelStream(
+    modelId: string,
+    messages: ChatTurn[],
+    options: GenerationOptions,
+    onChunk: (chunk: string) => void,
+    abortSignal?: AbortSignal
+  ): Promise<ChatResponse> {
     try {
-      // Use the real model adapter to query Ollama with streaming
-      const response = await queryModelStream(modelId, prompt, onChunk, abortSignal);
+      // Resolve the model's provider and stream from it
+      const response = await chatWithModelStream(modelId, messages, onChunk, options, abortSignal);
       return response;
     } catch (error) {
       console.error('Model query with streaming failed:', error);
@@ -305,6 +618,17 @@ export class ChatAgent {
     }
   }
 
+  /**
+   * Correct the main-process token counter with the prompt size the model
+   * reported, so later context budgets match its tokenizer
+   */
+  private recordTokenUsage(modelId: string, messages: ChatTurn[], usage?: TokenUsage): void {
+    if (!usage) return;
+    this.agentClient.recordTokenUsage(modelId, messages, usage.promptTokens).catch(error => {
+      console.warn('Failed to record token usage:', error);
+    });
+  }
+
   /**
    * Generate unique message ID
    */
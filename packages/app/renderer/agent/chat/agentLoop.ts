@@ -0,0 +1,134 @@
+/**
+ * Multi-turn agent loop: the model calls tools until it can answer.
+ *
+ * Each model reply is checked for a TOOL_CALL block. Calls that write or
+ * execute wait for the user's approval; the tool's output goes back to the
+ * model as the next message. The run ends when a reply has no tool call,
+ * or after the step limit with one last reply that may not call tools.
+ */
+
+import type { AgentToolCall, AgentToolStep, TokenUsage } from '../types';
+import type { ChatResponse, ChatTurn } from '../models/types';
+import { AgentToolSpec, parseToolCall, stripToolCalls } from './agentTools';
+
+export const DEFAULT_MAX_STEPS = 8;
+
+// Tool output beyond this is cut before it is sent to the model
+const MAX_RESULT_CHARS = 8000;
+
+const STEP_LIMIT_NOTICE = 'You have used all your tool calls. Answer now with what you found, without calling tools.';
+
+export interface AgentLoopOptions {
+  /** The conversation so far, ending with the user's request */
+  messages: ChatTurn[];
+  tools: AgentToolSpec[];
+  /** One model reply to the turns so far */
+  chat: (messages: ChatTurn[]) => Promise<ChatResponse>;
+  /** Run a call and return its output; throw to report a failure */
+  execute: (call: AgentToolCall) => Promise<string>;
+  /** Ask the user whether a call that writes or executes may run */
+  approve: (step: AgentToolStep) => Promise<boolean>;
+  /** Called with a copy of a step whenever it is added or changes */
+  onStep?: (step: AgentToolStep) => void;
+  maxSteps?: number;
+  abortSignal?: AbortSignal;
+}
+
+export interface AgentLoopResult {
+  content: string;
+  steps: AgentToolStep[];
+  /** Summed over every model reply of the run */
+  usage?: TokenUsage;
+  stepLimitReached: boolean;
+}
+
+export async function runAgentLoop(options: AgentLoopOptions): Promise<AgentLoopResult> {
+  const { tools, chat, execute, approve, onStep, maxSteps = DEFAULT_MAX_STEPS, abortSignal } = options;
+  const turns: ChatTurn[] = [...options.messages];
+  const steps: AgentToolStep[] = [];
+  let usage: TokenUsage | undefined;
+
+  const report = (step: AgentToolStep) => onStep?.({ ...step });
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(abortSignal);
+
+    const stepLimitReached = attempt >= maxSteps;
+    if (stepLimitReached) {
+      turns.push({ role: 'user', content: STEP_LIMIT_NOTICE });
+    }
+
+    const response = await chat(turns);
+    usage = addUsage(usage, response.usage);
+
+    const parsed = stepLimitReached ? null : parseToolCall(response.content, tools);
+    if (!parsed) {
+      const content = stepLimitReached ? stripToolCalls(response.content) : response.content;
+      return { content, steps, usage, stepLimitReached };
+    }
+
+    turns.push({ role: 'assistant', content: response.content });
+    if (!parsed.call) {
+      turns.push({ role: 'user', content: `TOOL_ERROR: ${parsed.error}` });
+      continue;
+    }
+
+    const spec = tools.find(tool => tool.name === parsed.call!.tool)!;
+    const step: AgentToolStep = {
+      id: `step_${steps.length + 1}`,
+      ...parsed.call,
+      thought: parsed.thought || undefined,
+      status: spec.requiresApproval ? 'awaiting_approval' : 'running'
+    };
+    steps.push(step);
+    report(step);
+
+    if (spec.requiresApproval) {
+      const approved = await approve({ ...step });
+      throwIfAborted(abortSignal);
+      if (!approved) {
+        step.status = 'declined';
+        step.result = 'The user declined this call.';
+        report(step);
+        turns.push({ role: 'user', content: formatToolResult(step) });
+        continue;
+      }
+      step.status = 'running';
+      report(step);
+    }
+
+    try {
+      step.result = truncateResult(await execute(parsed.call));
+      step.status = 'done';
+    } catch (error) {
+      step.result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      step.status = 'failed';
+    }
+    report(step);
+    turns.push({ role: 'user', content: formatToolResult(step) });
+  }
+}
+
+function formatToolResult(step: AgentToolStep): string {
+  return `TOOL_RESULT ${step.tool}:\n${step.result || '(no output)'}`;
+}
+
+function truncateResult(result: string): string {
+  return result.length > MAX_RESULT_CHARS
+    ? `${result.slice(0, MAX_RESULT_CHARS)}\n... (output truncated)`
+    : result;
+}
+
+function addUsage(total: TokenUsage | undefined, usage?: TokenUsage): TokenUsage | undefined {
+  if (!usage) return total;
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    responseTokens: (total?.responseTokens ?? 0) + usage.responseTokens
+  };
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Agent run was cancelled');
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import { detectLanguageFromPath, getLanguageInfoFromPath, areLanguagesCompatible } from '../utils/langDetect';
+import type { ChatMessage } from '../types';
+import type { ChatTurn } from '../models/types';
 
 export interface ContextChunk {
   filePath: string;
@@ -11,6 +13,7 @@ export interface ContextChunk {
   relevanceScore?: number;
   lineStart?: number;
   lineEnd?: number;
+  symbolName?: string;
 }
 
 export type PromptMode = 'ask' | 'agent';
@@ -20,6 +23,8 @@ export interface PromptOptions {
   activeFileBlock?: string;
   includeAntiHallucination?: boolean;
   activeFilePath?: string;
+  /** Tool-calling instructions; in agent mode they replace the FILE_OPS format */
+  toolInstructions?: string;
 }
 
 /**
@@ -36,22 +41,61 @@ export function buildPrompt(
   contextChunks: ContextChunk[] = [],
   options: PromptOptions = {}
 ): string {
+  return `${buildInstructions(mode, contextChunks, options)}User: ${userMessage}`;
+}
+
+/**
+ * Build the messages of a chat request: the instructions and context as
+ * the system message, then the earlier conversation, then the user's
+ * message
+ * @param mode - The prompt mode ('ask' or 'agent')
+ * @param userMessage - The user's message/question
+ * @param contextChunks - Array of relevant code context chunks
+ * @param options - Additional prompt options
+ * @param history - Earlier messages to keep, oldest first
+ * @param historySummary - Summary of earlier messages that were left out
+ * @returns Messages for the chat API
+ */
+export function buildChatMessages(
+  mode: PromptMode,
+  userMessage: string,
+  contextChunks: ContextChunk[] = [],
+  options: PromptOptions = {},
+  history: ChatMessage[] = [],
+  historySummary?: string
+): ChatTurn[] {
+  const instructions = buildInstructions(mode, contextChunks, options).trimEnd();
+  const system = historySummary ? `${instructions}\n\n${historySummary}` : instructions;
+
+  return [
+    { role: 'system', content: system },
+    ...history
+      .filter(message => message.role !== 'system' && message.content.trim())
+      .map(message => ({ role: message.role, content: message.content })),
+    { role: 'user', content: userMessage }
+  ];
+}
+
+/**
+ * Instructions and context for a mode, everything before the user's message
+ */
+function buildInstructions(mode: PromptMode, contextChunks: ContextChunk[], options: PromptOptions): string {
   const formattedContext = formatCodeContext(contextChunks);
 
   switch (mode) {
     case 'ask':
-      return buildAskPrompt(userMessage, formattedContext, options);
+      return buildAskInstructions(formattedContext, options);
     case 'agent':
-      return buildAgentPrompt(userMessage, formattedContext, options);
+      return buildAgentInstructions(formattedContext, options);
     default:
       throw new Error(`Unknown prompt mode: ${mode}`);
   }
 }
 
 /**
- * Build ask mode prompt - for direct Q&A interactions
+ * Build ask mode instructions - for direct Q&A interactions
  */
-function buildAskPrompt(userMessage: string, codeContext: string, options: PromptOptions): string {
+function buildAskInstructions(codeContext: string, options: PromptOptions): string {
   const antiHallucinationInstructions = options.includeAntiHallucination !== false 
     ? getAntiHallucinationInstructions() : '';
 
@@ -72,13 +116,13 @@ function buildAskPrompt(userMessage: string, codeContext: string, options: Promp
 
 ${antiHallucinationInstructions}${languageInstructions}
 
-${activeFileSection}${projectFilesSection}${contextSection}User: ${userMessage}`;
+${activeFileSection}${projectFilesSection}${contextSection}`;
 }
 
 /**
- * Build agent mode prompt - for proactive code suggestions and edits
+ * Build agent mode instructions - for proactive code suggestions and edits
  */
-function buildAgentPrompt(userMessage: string, codeContext: string, options: PromptOptions): string {
+function buildAgentInstructions(codeContext: string, options: PromptOptions): string {
   const antiHallucinationInstructions = options.includeAntiHallucination !== false 
     ? getAntiHallucinationInstructions() : '';
 
@@ -95,7 +139,7 @@ function buildAgentPrompt(userMessage: string, codeContext: string, options: Pro
     ? getLanguageSpecificInstructions(options.activeFilePath, true) 
     : '';
 
-  const fileOpsInstructions = getFileOperationsInstructions(options.activeFilePath);
+  const fileOpsInstructions = options.toolInstructions || getFileOperationsInstructions(options.activeFilePath);
 
   return `You are a coding agent. Your job is to suggest edits to the project.
 
@@ -103,7 +147,7 @@ ${antiHallucinationInstructions}${languageInstructions}
 
 ${fileOpsInstructions}
 
-${activeFileSection}${projectFilesSection}${contextSection}User: ${userMessage}`;
+${activeFileSection}${projectFilesSection}${contextSection}`;
 }
 
 /**
@@ -244,13 +288,15 @@ function formatCodeContext(contextChunks: ContextChunk[]): string {
         ? ` (lines ${chunk.lineStart}-${chunk.lineEnd})` 
         : '';
       
+      const symbolInfo = chunk.symbolName ? ` ${chunk.symbolName}` : '';
+
       const relevanceInfo = chunk.relevanceScore 
         ? ` [relevance: ${chunk.relevanceScore.toFixed(2)}]` 
         : '';
 
       const language = detectLanguageFromPath(chunk.filePath);
 
-      return `File: ${chunk.filePath}${lineInfo}${relevanceInfo}
+      return `File: ${chunk.filePath}${lineInfo}${symbolInfo}${relevanceInfo}
 \`\`\`${language}
 ${chunk.content}
 \`\`\``;
@@ -3,6 +3,9 @@ import { AgentClient } from '../index';
 
 export interface ContextSourceOptions {
   currentFile?: string;
+  /** Model the prompt is for; sets the context token budget */
+  modelId?: string;
+  pinnedFiles?: string[];
   includeProjectFiles?: boolean;
   maxProjectFiles?: number;
   relevantExtensions?: string[];
@@ -27,22 +30,28 @@ export class ContextSource {
   }> {
     const {
       currentFile,
+      modelId,
+      pinnedFiles,
       includeProjectFiles = true,
       maxProjectFiles = 50,
       relevantExtensions = ['.ts', '.tsx', '.js', '.jsx', '.json', '.md', '.css', '.scss']
     } = options;
 
     try {
-      // Get semantic search results for context chunks
-      const searchResults = await this.agentClient.searchSimilar(userQuery, 5);
-      
-      const contextChunks: ContextChunk[] = searchResults.map(result => ({
-        filePath: result.record.path,
-        content: result.record.chunk,
-        relevanceScore: result.similarity,
-        lineStart: 1,
-        lineEnd: result.record.chunk.split('\n').length
-      }));
+      // Active file, pinned files, definitions and search results, ranked
+      // and packed into the model's token budget by the main process
+      let contextChunks: ContextChunk[] | null = null;
+      try {
+        const context = await this.agentClient.assembleContext({
+          query: userQuery,
+          modelId,
+          activeFilePath: currentFile,
+          pinnedFiles
+        });
+        contextChunks = context.chunks;
+      } catch (error) {
+        console.warn('Failed to assemble context:', error);
+      }
 
       // Build project files block if requested
       let projectFilesBlock = '';
@@ -54,30 +63,19 @@ export class ContextSource {
         }
       }
 
-      // Build active file block if current file is specified
+      // The assembled chunks already hold the active file within the budget;
+      // the truncated block is only a fallback when assembly failed
       let activeFileBlock = '';
-      if (currentFile) {
+      if (currentFile && !contextChunks) {
         const content = await this.agentClient.readFileContent(currentFile);
         if (content) {
           const truncatedContent = content.length > 3000 ? content.slice(0, 3000) + '\n... (file truncated)' : content;
           activeFileBlock = `## Current File: ${currentFile}\n\`\`\`\n${truncatedContent}\n\`\`\`\n\n`;
         }
-
-        // Ensure current file is prioritized in context chunks if not already included
-        const hasCurrentFile = contextChunks.some(chunk => chunk.filePath === currentFile);
-        if (!hasCurrentFile && content) {
-          contextChunks.unshift({
-            filePath: currentFile,
-            content: content.slice(0, 2000), // Limit size
-            relevanceScore: 1.0, // Highest relevance
-            lineStart: 1,
-            lineEnd: content.split('\n').length
-          });
-        }
       }
 
       return {
-        contextChunks,
+        contextChunks: contextChunks ?? [],
         projectFilesBlock,
         activeFileBlock
       };
@@ -5,11 +5,30 @@
  * from the renderer process via IPC. All actual processing happens in the main process.
  */
 
+import type { ContextChunk } from './chat/promptBuilder';
+import type { ChatMessage, ChatSession, ChatSessionSummary } from './types';
+import type { ChatTurn } from './models/types';
+import type { OllamaRunningModel, OllamaShowResponse } from './models/ollamaService';
+import type { ModelPullProgress } from './models/modelLibrary';
+import type { OpenAICompatibleConfig } from './models/openaiAdapter';
+import type { SlashCommand } from './chat/slashCommands';
+
 export interface EmbeddingRecord {
   id: string;
   path: string;
   chunk: string;
   vector: Buffer;
+  startLine?: number;
+  endLine?: number;
+  chunkType?: string;
+  symbolName?: string;
+  language?: string;
+  /** Markdown heading breadcrumb, e.g. `Setup > Ollama > Models` */
+  headingPath?: string;
+  title?: string;
+  tags?: string[];
+  date?: string;
+  contentHash?: string;
   created_at?: string;
   updated_at?: string;
 }
@@ -22,6 +41,153 @@ export interface EmbeddingProcessingStats {
   errors: string[];
   startTime: number;
   endTime?: number;
+  skippedFiles?: number;
+  cancelled?: boolean;
+}
+
+export interface IndexingProgress {
+  phase: 'scanning' | 'embedding' | 'done' | 'cancelled';
+  totalFiles: number;
+  processedFiles: number;
+  skippedFiles: number;
+  totalChunks: number;
+  processedChunks: number;
+  currentFile?: string;
+  errors: string[];
+  etaMs?: number;
+  startTime: number;
+}
+
+export interface ContextRequest {
+  query: string;
+  /**
+   * Model the prompt is for; its context length sets the token budget and
+   * its tokenizer counts tokens (a default budget when unset)
+   */
+  modelId?: string;
+  /** Context size the chat request will ask for (Ollama's num_ctx) */
+  numCtx?: number;
+  activeFilePath?: string;
+  /** Files the user pinned; a folder pins the files in it */
+  pinnedFiles?: string[];
+  /** Symbols the user pinned; `path` picks among same-named definitions */
+  pinnedSymbols?: Array<{ name: string; path?: string }>;
+  /** Candidates fetched from the index before packing (default: 20) */
+  maxRetrievedChunks?: number;
+  searchOptions?: SearchOptions;
+  /** Earlier messages of the conversation, oldest first */
+  history?: ChatMessage[];
+  /** Tokens kept free for instructions and the answer (default: 1000) */
+  reserveTokens?: number;
+  /** Also search model-written reformulations of the query (requires modelId) */
+  rewriteQuery?: boolean;
+  /** Re-rank retrieved chunks against the query; overrides the model preset */
+  rerank?: boolean;
+}
+
+export interface QueryVariant {
+  kind: 'original' | 'reformulation' | 'keywords';
+  query: string;
+}
+
+export interface ContextManifestEntry {
+  source: 'active_file' | 'pinned_file' | 'pinned_symbol' | 'symbol' | 'retrieved';
+  path: string;
+  lineStart?: number;
+  lineEnd?: number;
+  symbolName?: string;
+  score?: number;
+  /** Search queries that found a retrieved chunk, when the query was rewritten */
+  matchedQueries?: string[];
+  /** Final score from the re-ranker, including boosts */
+  rerankScore?: number;
+  tokens: number;
+  decision: 'included' | 'truncated' | 'duplicate' | 'over_budget' | 'below_relevance' | 'unreadable';
+}
+
+export interface AssembledContext {
+  chunks: ContextChunk[];
+  manifest: ContextManifestEntry[];
+  budgetTokens: number;
+  usedTokens: number;
+  /** Context length the model reported, when the budget was derived from it */
+  contextLength?: number;
+  warnings: string[];
+  /** Every query the index was searched with, the original first */
+  queries: QueryVariant[];
+  /** The most recent history messages that fit, oldest first */
+  history: ChatMessage[];
+  /** Summary of the history messages left out */
+  historySummary?: string;
+  historyTokens: number;
+}
+
+/**
+ * Tokens pinned context would add to a prompt, against the model's budget
+ */
+export interface PinnedContextEstimate {
+  /** Tokens of each pinned file, folder and symbol, in request order; 0 when not found */
+  pins: Array<{ pin: string; tokens: number }>;
+  totalTokens: number;
+  /** Tokens the model leaves for context, before the message and history */
+  budgetTokens: number;
+  contextLength?: number;
+}
+
+export interface SymbolDefinition {
+  name: string;
+  kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+  path: string;
+  /** 1-based position of the declared name */
+  line: number;
+  column: number;
+  /** 1-based line range of the whole declaration */
+  startLine: number;
+  endLine: number;
+}
+
+export interface SymbolReference {
+  name: string;
+  path: string;
+  line: number;
+  column: number;
+  kind: 'import' | 'usage';
+  module?: string;
+}
+
+/**
+ * Whether the index matches the configured embedding model and chunker;
+ * anything but 'ready' or 'empty' calls for a re-embed
+ */
+export interface IndexStatus {
+  state: 'empty' | 'ready' | 'model_changed' | 'dimension_changed' | 'chunker_outdated';
+  /** How the stored vectors were made; null for an empty index */
+  embeddingModel: string | null;
+  dimension: number | null;
+  chunkerVersion: number | null;
+  configuredModel: string;
+  currentChunkerVersion: number;
+  /** A re-embed is building the new index in the background */
+  reembedding: boolean;
+}
+
+export interface IndexExportResult {
+  path: string;
+  files: number;
+  chunks: number;
+  /** Files left out because they changed since they were embedded */
+  skippedFiles: string[];
+  sizeBytes: number;
+}
+
+export interface IndexImportResult {
+  importedFiles: number;
+  importedChunks: number;
+  /** Files whose content differs from the snapshot; re-embedded locally */
+  changedFiles: string[];
+  /** Snapshot files absent or ignored in this workspace */
+  missingFiles: string[];
+  stats: EmbeddingProcessingStats;
 }
 
 export interface AgentServiceConfig {
@@ -29,12 +195,46 @@ export interface AgentServiceConfig {
   ollamaBaseUrl?: string;
   embeddingModel?: string;
   dbPath?: string;
+  indexesDir?: string;
   chunkSize?: number;
+  /** Server that `openai:` models, e.g. embedding models, are sent to; null clears it */
+  openaiCompatible?: OpenAICompatibleConfig | null;
+}
+
+export interface WorkspaceIndexInfo {
+  id: string;
+  workspaceRoot: string;
+  indexPath: string;
+  sizeBytes: number;
+  createdAt: number;
+  lastUsed: number;
+  /** False when the workspace folder no longer exists */
+  workspaceExists: boolean;
+  /** True for the open workspace's index */
+  active?: boolean;
+}
+
+export type SearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+export interface SearchFilter {
+  /** Note tags from front-matter; a chunk matches if it has any of them */
+  tags?: string[];
+  /** Project-relative paths or gitignore-style globs, e.g. `notes/` */
+  paths?: string[];
+}
+
+export interface SearchOptions {
+  mode?: SearchMode;
+  semanticWeight?: number;
+  keywordWeight?: number;
+  rrfK?: number;
+  filter?: SearchFilter;
 }
 
 export interface SearchResult {
   record: EmbeddingRecord;
   similarity: number;
+  score: number;
 }
 
 /**
@@ -53,13 +253,85 @@ export class AgentClient {
   }
 
   /**
-   * Search for similar code chunks
+   * Search for relevant code chunks (hybrid keyword + semantic by default)
+   */
+  async searchSimilar(query: string, limit: number = 10, options?: SearchOptions): Promise<SearchResult[]> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.searchSimilar(query, limit, options);
+  }
+
+  /**
+   * Assemble the retrieved context for a prompt within the model's token budget
    */
-  async searchSimilar(query: string, limit: number = 10): Promise<SearchResult[]> {
+  async assembleContext(request: ContextRequest): Promise<AssembledContext> {
     if (!window.electronAPI?.agent) {
       throw new Error('Agent API not available');
     }
-    return window.electronAPI.agent.searchSimilar(query, limit);
+    return window.electronAPI.agent.assembleContext(request);
+  }
+
+  /**
+   * Tokens pinned files, folders and symbols would add to a prompt
+   */
+  async estimatePinnedContext(request: Omit<ContextRequest, 'query'>): Promise<PinnedContextEstimate> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.estimatePinnedContext(request);
+  }
+
+  /**
+   * Correct token counts for a model with the prompt token count it
+   * reported for these messages
+   */
+  async recordTokenUsage(modelId: string, messages: ChatTurn[], promptTokens: number): Promise<void> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.recordTokenUsage(modelId, messages, promptTokens);
+  }
+
+  /**
+   * Find where an exported symbol is defined, e.g. for go-to-definition
+   */
+  async findDefinition(name: string, fromPath?: string): Promise<SymbolDefinition[]> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.findDefinition(name, fromPath);
+  }
+
+  /**
+   * Definitions whose name contains `query`, for autocomplete
+   */
+  async searchSymbols(query: string, limit?: number): Promise<SymbolDefinition[]> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.searchSymbols(query, limit);
+  }
+
+  /**
+   * Find imports and uses of a symbol across the workspace
+   */
+  async findReferences(name: string, definitionPath?: string): Promise<SymbolReference[]> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.findReferences(name, definitionPath);
+  }
+
+  /**
+   * Turn the agent's run_command tool on or off. The main process still
+   * asks the user before each command.
+   */
+  async setAllowCommands(allowed: boolean): Promise<void> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.setAllowCommands(allowed);
   }
 
   /**
@@ -69,6 +341,7 @@ export class AgentClient {
     totalEmbeddings: number;
     uniqueFiles: number;
     dbSize: string;
+    index: IndexStatus;
   }> {
     if (!window.electronAPI?.agent) {
       throw new Error('Agent API not available');
@@ -86,6 +359,38 @@ export class AgentClient {
     return window.electronAPI.agent.rebuild();
   }
 
+  /**
+   * Re-embed the index with the configured model. Unless keepOldIndex is
+   * false, search keeps using the old index until the new one is complete.
+   */
+  async reembed(options: { keepOldIndex?: boolean } = {}): Promise<EmbeddingProcessingStats> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.reembed(options);
+  }
+
+  /**
+   * Export the index to a snapshot file another copy of the workspace can import
+   */
+  async exportIndex(filePath: string): Promise<IndexExportResult> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.exportIndex(filePath);
+  }
+
+  /**
+   * Replace the index with a snapshot. Files whose content differs from the
+   * snapshot are re-embedded locally.
+   */
+  async importIndex(filePath: string): Promise<IndexImportResult> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.importIndex(filePath);
+  }
+
   /**
    * Get file list from project
    */
@@ -125,6 +430,191 @@ export class AgentClient {
     }
     return window.electronAPI.agent.getConfig();
   }
+
+  /**
+   * List the per-workspace embedding indexes with their size on disk
+   */
+  async listIndexes(): Promise<WorkspaceIndexInfo[]> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.listIndexes();
+  }
+
+  /**
+   * Delete another workspace's index
+   */
+  async deleteIndex(id: string): Promise<boolean> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.deleteIndex(id);
+  }
+
+  /**
+   * Delete indexes of missing workspaces, or of those unused for maxAgeMs
+   */
+  async pruneIndexes(maxAgeMs?: number): Promise<WorkspaceIndexInfo[]> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.pruneIndexes(maxAgeMs);
+  }
+
+  /**
+   * Cancel the running indexing pass; it resumes on the next run
+   */
+  async cancelIndexing(): Promise<boolean> {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    return window.electronAPI.agent.cancelIndexing();
+  }
+
+  /**
+   * Listen for indexing progress. Returns a function that removes the listener.
+   */
+  onIndexingProgress(callback: (progress: IndexingProgress) => void): () => void {
+    if (!window.electronAPI?.agent) {
+      throw new Error('Agent API not available');
+    }
+    window.electronAPI.agent.onIndexingProgress(callback);
+    return () => window.electronAPI.removeAllListeners('agent:indexingProgress');
+  }
+}
+
+/**
+ * Client for the main-process Ollama model library: pulls keep running
+ * while the renderer reloads
+ */
+export class ModelLibraryClient {
+  /**
+   * Download a model; resolves when the pull finishes
+   */
+  async pull(model: string): Promise<void> {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    return window.electronAPI.ollama.pull(model);
+  }
+
+  /**
+   * Stop a download; pulling again resumes from the finished layers
+   */
+  async cancelPull(model: string): Promise<boolean> {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    return window.electronAPI.ollama.cancelPull(model);
+  }
+
+  async getActivePulls(): Promise<ModelPullProgress[]> {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    return window.electronAPI.ollama.getActivePulls();
+  }
+
+  async deleteModel(model: string): Promise<void> {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    return window.electronAPI.ollama.delete(model);
+  }
+
+  /**
+   * Parameters, template, license and quantization of an installed model
+   */
+  async showModel(model: string): Promise<OllamaShowResponse> {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    return window.electronAPI.ollama.show(model);
+  }
+
+  /**
+   * Models loaded in memory with their VRAM and RAM use
+   */
+  async getRunningModels(): Promise<OllamaRunningModel[]> {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    return window.electronAPI.ollama.listRunning();
+  }
+
+  async unloadModel(model: string): Promise<void> {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    return window.electronAPI.ollama.unload(model);
+  }
+
+  /**
+   * Listen for pull progress. Returns a function that removes the listener.
+   */
+  onPullProgress(callback: (progress: ModelPullProgress) => void): () => void {
+    if (!window.electronAPI?.ollama) {
+      throw new Error('Model library API not available');
+    }
+    window.electronAPI.ollama.onPullProgress(callback);
+    return () => window.electronAPI.removeAllListeners('ollama:pullProgress');
+  }
+}
+
+/**
+ * Client for the chat sessions saved in the main process for the current
+ * workspace
+ */
+export class ChatSessionClient {
+  /**
+   * Saved sessions, most recently updated first; a query filters by title
+   * and message text
+   */
+  async listSessions(query?: string): Promise<ChatSessionSummary[]> {
+    if (!window.electronAPI?.chatSessions) {
+      throw new Error('Chat sessions API not available');
+    }
+    return window.electronAPI.chatSessions.list(query);
+  }
+
+  async loadSession(id: string): Promise<ChatSession | null> {
+    if (!window.electronAPI?.chatSessions) {
+      throw new Error('Chat sessions API not available');
+    }
+    return window.electronAPI.chatSessions.load(id);
+  }
+
+  async saveSession(session: ChatSession): Promise<ChatSessionSummary> {
+    if (!window.electronAPI?.chatSessions) {
+      throw new Error('Chat sessions API not available');
+    }
+    return window.electronAPI.chatSessions.save(session);
+  }
+
+  async renameSession(id: string, title: string): Promise<ChatSessionSummary | null> {
+    if (!window.electronAPI?.chatSessions) {
+      throw new Error('Chat sessions API not available');
+    }
+    return window.electronAPI.chatSessions.rename(id, title);
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    if (!window.electronAPI?.chatSessions) {
+      throw new Error('Chat sessions API not available');
+    }
+    return window.electronAPI.chatSessions.delete(id);
+  }
+
+  /**
+   * Slash commands defined by the current workspace, with any problems
+   * found in its config file
+   */
+  async listCommands(): Promise<{ commands: SlashCommand[]; errors: string[] }> {
+    if (!window.electronAPI?.chatCommands) {
+      throw new Error('Chat commands API not available');
+    }
+    return window.electronAPI.chatCommands.list();
+  }
 }
 
 /**
@@ -190,19 +680,32 @@ export class EmbeddingsDatabase {
 
 // Create singleton instances
 export const agentClient = new AgentClient();
+export const modelLibraryClient = new ModelLibraryClient();
+export const chatSessionClient = new ChatSessionClient();
 export const embeddingsDatabase = new EmbeddingsDatabase();
 
 // Chat agent functionality - import and re-export properly to avoid circular dependency
 import { ChatAgent, chatAgent as _chatAgent } from './chat/agent';
 export { ChatAgent } from './chat/agent';
-export type { SendMessageParams, AgentConfig, CodeContext } from './chat/agent';
+export type { SendMessageParams, AgentConfig, CodeContext, SlashCommandSources } from './chat/agent';
 
 // Export the singleton instance
 export const chatAgent = _chatAgent;
 
 // Export types
-export type { ChatMessage, ChatHistory, ModelInfo, ChatState, ChatActions, ChatContextType } from './types';
+export type {
+  ChatMessage,
+  ChatHistory,
+  ChatSession,
+  ChatSessionSummary,
+  ModelInfo,
+  ChatState,
+  ChatActions,
+  ChatContextType
+} from './types';
 
 // File Operations Parser
 export { FileOpsParser } from './chat/fileOpsParser';
-export type { FileOp, ParseResult } from './chat/fileOpsParser'; 
\ No newline at end of file
+export type { FileOp, ParseResult } from './chat/fileOpsParser';
+export type { ModelPullProgress } from './models/modelLibrary';
+export type { OllamaRunningModel, OllamaShowResponse } from './models/ollamaService';
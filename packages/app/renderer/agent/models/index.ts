@@ -1,16 +1,62 @@
-export { queryModel, queryModelStream } from './modelAdapter';
-export { queryOllamaModel, queryOllamaModelStream } from './ollamaAdapter';
+export {
+  queryModel,
+  queryModelStream,
+  chatWithModel,
+  chatWithModelStream,
+  getModelContextLength
+} from './modelAdapter';
+export {
+  queryOllamaModel,
+  queryOllamaModelStream,
+  chatOllamaModel,
+  chatOllamaModelStream,
+  DEFAULT_OLLAMA_URL
+} from './ollamaAdapter';
+export {
+  queryOpenAIModel,
+  queryOpenAIModelStream,
+  chatOpenAIModel,
+  chatOpenAIModelStream,
+  createOpenAIEmbeddings,
+  configureOpenAICompatible,
+  getOpenAICompatibleConfig,
+  isOpenAICompatibleConfigured,
+  type OpenAICompatibleConfig
+} from './openaiAdapter';
 export { 
   ollamaService, 
   OllamaUtils,
   type OllamaModel,
   type OllamaModelInfo,
+  type OllamaPullProgress,
+  type OllamaRunningModel,
+  type OllamaShowResponse,
   type OllamaTagsResponse
 } from './ollamaService';
+export { modelLibrary, ModelLibrary, type ModelPullProgress } from './modelLibrary';
+export {
+  openaiCompatibleService,
+  OpenAICompatibleService,
+  type OpenAIModel,
+  type OpenAIModelInfo,
+  type OpenAIModelsResponse
+} from './openaiService';
+export { providerRegistry, ProviderRegistry, type ResolvedModel } from './providerRegistry';
+export { OllamaProvider, OLLAMA_DEFAULT_NUM_CTX } from './ollamaProvider';
+export { OpenAICompatibleProvider } from './openaiProvider';
+export {
+  ModelError,
+  type ModelProvider,
+  type ProviderCapabilities,
+  type ChatTurn,
+  type ChatResponse,
+  type GenerationOptions
+} from './types';
 export { 
   modelManager,
   ModelManager,
-  type ModelManagerConfig
+  type ModelManagerConfig,
+  type GenerationSettings
 } from './modelManager';
 export {
   exampleStreamingUsage,
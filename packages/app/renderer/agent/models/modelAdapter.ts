@@ -1,8 +1,10 @@
-import { queryOllamaModel, queryOllamaModelStream } from './ollamaAdapter';
+import { providerRegistry } from './providerRegistry';
+import type { ChatResponse, ChatTurn, GenerationOptions } from './types';
 
 /**
- * Model adapter for local Ollama models only
- * @param modelId - The Ollama model identifier (e.g., "codellama:7b" or "llama3")
+ * Query a model through the provider its id names. Ids without a provider
+ * prefix are Ollama models.
+ * @param modelId - The model identifier (e.g., "codellama:7b", "ollama:llama3" or "openai:qwen2.5-7b")
  * @param prompt - The prompt to send to the model
  * @returns Promise<string> - Clean, plain-text response from the model
  */
@@ -11,27 +13,26 @@ export async function queryModel(modelId: string, prompt: string): Promise<strin
     throw new Error('Both modelId and prompt are required');
   }
 
+  const { provider, model } = providerRegistry.resolve(modelId);
   try {
-    // All models are now Ollama models - remove any "ollama:" prefix if present
-    const ollamaModelName = modelId.startsWith('ollama:') ? modelId.replace('ollama:', '') : modelId;
-    return await queryOllamaModel(ollamaModelName, prompt);
+    return await provider.generate(model, prompt);
   } catch (error) {
-    console.error('Error querying Ollama model:', error);
-    throw new Error(`Failed to query Ollama model "${modelId}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error(`Error querying ${provider.displayName} model:`, error);
+    throw new Error(`Failed to query ${provider.displayName} model "${modelId}": ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * Model adapter for local Ollama models with streaming support
- * @param modelId - The Ollama model identifier (e.g., "codellama:7b" or "llama3")
+ * Query a model with streaming support
+ * @param modelId - The model identifier (e.g., "codellama:7b", "ollama:llama3" or "openai:qwen2.5-7b")
  * @param prompt - The prompt to send to the model
  * @param onChunk - Callback function called for each streaming chunk
  * @param abortSignal - Optional AbortSignal to cancel the request
  * @returns Promise<string> - Complete response from the model
  */
 export async function queryModelStream(
-  modelId: string, 
-  prompt: string, 
+  modelId: string,
+  prompt: string,
   onChunk: (chunk: string) => void,
   abortSignal?: AbortSignal
 ): Promise<string> {
@@ -39,12 +40,86 @@ export async function queryModelStream(
     throw new Error('Both modelId and prompt are required');
   }
 
+  const { provider, model } = providerRegistry.resolve(modelId);
   try {
-    // All models are now Ollama models - remove any "ollama:" prefix if present
-    const ollamaModelName = modelId.startsWith('ollama:') ? modelId.replace('ollama:', '') : modelId;
-    return await queryOllamaModelStream(ollamaModelName, prompt, onChunk, abortSignal);
+    if (!provider.capabilities.streaming) {
+      const response = await provider.generate(model, prompt);
+      onChunk(response);
+      return response;
+    }
+    return await provider.stream(model, prompt, onChunk, abortSignal);
   } catch (error) {
-    console.error('Error querying Ollama model with streaming:', error);
-    throw new Error(`Failed to query Ollama model "${modelId}" with streaming: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error(`Error querying ${provider.displayName} model with streaming:`, error);
+    throw new Error(`Failed to query ${provider.displayName} model "${modelId}" with streaming: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Send a conversation to a model through the provider its id names
+ * @param modelId - The model identifier (e.g., "codellama:7b", "ollama:llama3" or "openai:qwen2.5-7b")
+ * @param messages - System, user and assistant messages, oldest first
+ * @param options - Sampling settings such as temperature and top_k
+ * @returns Promise<ChatResponse> - Clean, plain-text answer and the token counts the server reported
+ */
+export async function chatWithModel(
+  modelId: string,
+  messages: ChatTurn[],
+  options: GenerationOptions = {}
+): Promise<ChatResponse> {
+  if (!modelId || messages.length === 0) {
+    throw new Error('Both modelId and messages are required');
+  }
+
+  const { provider, model } = providerRegistry.resolve(modelId);
+  try {
+    return await provider.chat(model, messages, options);
+  } catch (error) {
+    console.error(`Error chatting with ${provider.displayName} model:`, error);
+    throw new Error(`Failed to query ${provider.displayName} model "${modelId}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Send a conversation to a model with streaming support
+ * @param modelId - The model identifier (e.g., "codellama:7b", "ollama:llama3" or "openai:qwen2.5-7b")
+ * @param messages - System, user and assistant messages, oldest first
+ * @param onChunk - Callback function called for each streaming chunk
+ * @param options - Sampling settings such as temperature and top_k
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Promise<ChatResponse> - Complete answer and the token counts the server reported
+ */
+export async function chatWithModelStream(
+  modelId: string,
+  messages: ChatTurn[],
+  onChunk: (chunk: string) => void,
+  options: GenerationOptions = {},
+  abortSignal?: AbortSignal
+): Promise<ChatResponse> {
+  if (!modelId || messages.length === 0) {
+    throw new Error('Both modelId and messages are required');
+  }
+
+  const { provider, model } = providerRegistry.resolve(modelId);
+  try {
+    if (!provider.capabilities.streaming) {
+      const response = await provider.chat(model, messages, options);
+      onChunk(response.content);
+      return response;
+    }
+    return await provider.chatStream(model, messages, onChunk, options, abortSignal);
+  } catch (error) {
+    console.error(`Error chatting with ${provider.displayName} model with streaming:`, error);
+    throw new Error(`Failed to query ${provider.displayName} model "${modelId}" with streaming: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Tokens of context a model will be run with, as its provider reports it
+ * @param modelId - The model identifier
+ * @param numCtx - Context size the request will ask for, if any
+ * @returns Promise<number | undefined> - undefined when the provider cannot tell
+ */
+export async function getModelContextLength(modelId: string, numCtx?: number): Promise<number | undefined> {
+  const { provider, model } = providerRegistry.resolve(modelId);
+  return provider.getContextLength?.(model, numCtx);
+}
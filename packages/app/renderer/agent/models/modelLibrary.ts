@@ -0,0 +1,147 @@
+/**
+ * Model library - pulling, deleting and inspecting Ollama models
+ *
+ * Runs in the main process so downloads keep going while the chat panel is
+ * closed. Progress of every pull goes to the listeners, so a view opened
+ * halfway through a download picks it up from `getActivePulls()`.
+ */
+
+import { OllamaRunningModel, OllamaService, OllamaShowResponse } from './ollamaService';
+
+export interface ModelPullProgress {
+  model: string;
+  /** Ollama's status line, e.g. "pulling manifest" or "pulling <digest>" */
+  status: string;
+  /** Bytes of the layer being downloaded */
+  total?: number;
+  completed?: number;
+  /** Percent of the current layer, when its size is known */
+  percent?: number;
+  state: 'pulling' | 'done' | 'failed' | 'cancelled';
+  error?: string;
+}
+
+interface ActivePull {
+  controller: AbortController;
+  progress: ModelPullProgress;
+  promise: Promise<void>;
+}
+
+export class ModelLibrary {
+  private pulls = new Map<string, ActivePull>();
+  private listeners = new Set<(progress: ModelPullProgress) => void>();
+
+  constructor(private service: OllamaService = new OllamaService()) {}
+
+  /**
+   * Listen for pull progress. Returns a function that removes the listener.
+   */
+  onPullProgress(listener: (progress: ModelPullProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Download a model. Pulling a model that is already downloading joins
+   * the running pull.
+   */
+  pull(model: string): Promise<void> {
+    const name = model.trim();
+    if (!name) {
+      return Promise.reject(new Error('Model name is required'));
+    }
+
+    const running = this.pulls.get(name);
+    if (running) return running.promise;
+
+    const controller = new AbortController();
+    const pull: ActivePull = {
+      controller,
+      progress: { model: name, status: 'starting', state: 'pulling' },
+      promise: Promise.resolve()
+    };
+    this.pulls.set(name, pull);
+    this.emit(pull.progress);
+
+    pull.promise = this.service.pullModel(name, line => {
+      pull.progress = {
+        model: name,
+        status: line.status,
+        total: line.total,
+        completed: line.completed,
+        percent: line.total ? Math.min(100, ((line.completed || 0) / line.total) * 100) : undefined,
+        state: 'pulling'
+      };
+      this.emit(pull.progress);
+    }, controller.signal).then(() => {
+      this.finish(name, { ...pull.progress, status: 'success', state: 'done' });
+    }, error => {
+      const cancelled = controller.signal.aborted;
+      const message = cancelled
+        ? `Pull of ${name} cancelled`
+        : error instanceof Error ? error.message : String(error);
+      this.finish(name, { ...pull.progress, state: cancelled ? 'cancelled' : 'failed', error: message });
+      throw new Error(message);
+    });
+
+    return pull.promise;
+  }
+
+  /**
+   * Stop a download. Ollama keeps the finished layers, so pulling the model
+   * again resumes it.
+   */
+  cancelPull(model: string): boolean {
+    const pull = this.pulls.get(model);
+    if (!pull) return false;
+    pull.controller.abort();
+    return true;
+  }
+
+  /**
+   * Latest progress of every pull still running
+   */
+  getActivePulls(): ModelPullProgress[] {
+    return [...this.pulls.values()].map(pull => pull.progress);
+  }
+
+  async deleteModel(model: string): Promise<void> {
+    if (this.pulls.has(model)) {
+      throw new Error(`${model} is still downloading; cancel the pull first`);
+    }
+    await this.service.deleteModel(model);
+  }
+
+  /**
+   * Parameters, template, license and quantization of an installed model
+   */
+  showModel(model: string): Promise<OllamaShowResponse> {
+    return this.service.showModel(model);
+  }
+
+  getRunningModels(): Promise<OllamaRunningModel[]> {
+    return this.service.getRunningModels();
+  }
+
+  unloadModel(model: string): Promise<void> {
+    return this.service.unloadModel(model);
+  }
+
+  private finish(model: string, progress: ModelPullProgress): void {
+    this.pulls.delete(model);
+    this.emit(progress);
+  }
+
+  private emit(progress: ModelPullProgress): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error('Pull progress listener failed:', error);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const modelLibrary = new ModelLibrary();
@@ -1,34 +1,55 @@
 /**
- * Model Manager Service - Ollama Only
- * Manages local Ollama models exclusively
+ * Model Manager Service
+ * Lists the models of every registered provider and keeps the selection
  */
 
 import { ModelInfo } from '../types';
-import { ollamaService, OllamaModelInfo, OllamaUtils } from './ollamaService';
+import { configureOpenAICompatible, OpenAICompatibleConfig } from './openaiAdapter';
+import { providerRegistry, ProviderRegistry } from './providerRegistry';
+import { GenerationOptions } from './types';
 
 export interface ModelManagerConfig {
   selectedModelKey: string;
+  /** localStorage key of the OpenAI-compatible server settings */
+  openaiCompatibleKey: string;
+  /** localStorage key of the per-model and per-workspace generation options */
+  generationSettingsKey: string;
   refreshInterval?: number;
 }
 
+/**
+ * Saved generation options, keyed by model id and by workspace root
+ */
+export interface GenerationSettings {
+  models: Record<string, GenerationOptions>;
+  workspaces: Record<string, GenerationOptions>;
+}
+
 export class ModelManager {
   private config: ModelManagerConfig;
   private refreshTimer?: NodeJS.Timeout;
   private listeners: Array<(models: ModelInfo[]) => void> = [];
 
-  constructor(config: Partial<ModelManagerConfig> = {}) {
+  constructor(config: Partial<ModelManagerConfig> = {}, private registry: ProviderRegistry = providerRegistry) {
     this.config = {
       selectedModelKey: 'selected_model_id',
+      openaiCompatibleKey: 'openai_compatible_provider',
+      generationSettingsKey: 'generation_settings',
       refreshInterval: 30000, // 30 seconds
       ...config
     };
   }
 
   /**
-   * Initialize the model manager and fetch Ollama models
+   * Initialize the model manager and fetch available models
    */
   async initialize(): Promise<ModelInfo[]> {
     try {
+      const saved = this.getOpenAICompatibleConfig();
+      if (saved) {
+        configureOpenAICompatible(saved);
+      }
+
       const models = await this.getAllAvailableModels();
       
       // Start auto-refresh
@@ -44,62 +65,117 @@ export class ModelManager {
   }
 
   /**
-   * Get all available Ollama models
+   * Get the models of every configured provider. A provider that fails
+   * leaves the others' models listed.
    */
   async getAllAvailableModels(): Promise<ModelInfo[]> {
-    try {
-      const isOllamaAvailable = await ollamaService.isAvailable();
-      if (!isOllamaAvailable) {
-        console.warn('Ollama is not available at localhost:11434');
+    const providers = this.registry.list().filter(provider => provider.isConfigured?.() !== false);
+    const lists = await Promise.all(providers.map(async provider => {
+      try {
+        return await provider.listModels();
+      } catch (error) {
+        console.error(`Failed to fetch ${provider.displayName} models:`, error);
         return [];
       }
+    }));
+    return this.sortModelsByPreference(lists.flat());
+  }
 
-      const ollamaModels = await ollamaService.getAvailableModels();
-      const convertedModels = ollamaModels.map(model => this.convertOllamaToModelInfo(model));
-      return this.sortModelsByPreference(convertedModels);
+  /**
+   * Get the saved OpenAI-compatible server settings from localStorage
+   */
+  getOpenAICompatibleConfig(): OpenAICompatibleConfig | null {
+    try {
+      const saved = localStorage.getItem(this.config.openaiCompatibleKey);
+      return saved ? JSON.parse(saved) : null;
     } catch (error) {
-      console.error('Failed to fetch Ollama models:', error);
-      return [];
+      console.warn('Failed to get OpenAI-compatible settings from localStorage:', error);
+      return null;
     }
   }
 
   /**
-   * Convert Ollama model info to generic ModelInfo format
+   * Save the OpenAI-compatible server settings, or pass null to stop
+   * listing its models, and refresh the model list
    */
-  private convertOllamaToModelInfo(ollamaModel: OllamaModelInfo): ModelInfo {
-    return {
-      id: ollamaModel.id,
-      name: ollamaModel.name,
-      displayName: ollamaModel.displayName,
-      provider: 'ollama',
-      available: ollamaModel.available,
-      size: ollamaModel.size,
-      family: ollamaModel.family,
-      parameterSize: ollamaModel.parameterSize,
-      lastModified: ollamaModel.lastModified,
-      description: this.generateModelDescription(ollamaModel),
-    };
+  async setOpenAICompatibleConfig(config: OpenAICompatibleConfig | null): Promise<ModelInfo[]> {
+    configureOpenAICompatible(config);
+
+    try {
+      if (config) {
+        localStorage.setItem(this.config.openaiCompatibleKey, JSON.stringify(config));
+      } else {
+        localStorage.removeItem(this.config.openaiCompatibleKey);
+      }
+    } catch (error) {
+      console.warn('Failed to save OpenAI-compatible settings to localStorage:', error);
+    }
+
+    return this.refreshModels();
   }
 
   /**
-   * Generate a description for a model
+   * Get the saved per-model and per-workspace generation options
    */
-  private generateModelDescription(model: OllamaModelInfo): string {
-    const parts: string[] = [];
-    
-    if (model.family) {
-      parts.push(`${model.family} family`);
-    }
-    
-    if (model.parameterSize) {
-      parts.push(model.parameterSize);
+  getGenerationSettings(): GenerationSettings {
+    try {
+      const saved = localStorage.getItem(this.config.generationSettingsKey);
+      const parsed = saved ? JSON.parse(saved) : {};
+      return { models: parsed.models || {}, workspaces: parsed.workspaces || {} };
+    } catch (error) {
+      console.warn('Failed to get generation settings from localStorage:', error);
+      return { models: {}, workspaces: {} };
     }
-    
-    if (model.size) {
-      parts.push(OllamaUtils.formatSize(model.size));
+  }
+
+  /**
+   * Save the generation options of one model, or pass null to clear them
+   */
+  setModelGenerationOptions(modelId: string, options: GenerationOptions | null): void {
+    const settings = this.getGenerationSettings();
+    this.saveGenerationSettings({ ...settings, models: this.withEntry(settings.models, modelId, options) });
+  }
+
+  /**
+   * Save the generation options of one workspace, or pass null to clear them
+   */
+  setWorkspaceGenerationOptions(workspaceRoot: string, options: GenerationOptions | null): void {
+    const settings = this.getGenerationSettings();
+    this.saveGenerationSettings({ ...settings, workspaces: this.withEntry(settings.workspaces, workspaceRoot, options) });
+  }
+
+  /**
+   * Generation options for a chat request. Model settings override
+   * workspace settings, which override the given defaults.
+   */
+  resolveGenerationOptions(
+    modelId: string,
+    workspaceRoot?: string,
+    defaults: GenerationOptions = {}
+  ): GenerationOptions {
+    const settings = this.getGenerationSettings();
+    return {
+      ...defaults,
+      ...(workspaceRoot ? settings.workspaces[workspaceRoot] : undefined),
+      ...settings.models[modelId]
+    };
+  }
+
+  private saveGenerationSettings(settings: GenerationSettings): void {
+    try {
+      localStorage.setItem(this.config.generationSettingsKey, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Failed to save generation settings to localStorage:', error);
     }
-    
-    return parts.join(' • ');
+  }
+
+  private withEntry(
+    entries: Record<string, GenerationOptions>,
+    key: string,
+    options: GenerationOptions | null
+  ): Record<string, GenerationOptions> {
+    const { [key]: _previous, ...rest } = entries;
+    return options ? { ...rest, [key]: options } : rest;
   }
 
   /**
@@ -0,0 +1,375 @@
+/**
+ * Adapter for servers speaking the OpenAI HTTP API, e.g. llama.cpp server,
+ * LM Studio or vLLM
+ */
+
+import type { TokenUsage } from '../types';
+import type { ChatResponse, ChatTurn, GenerationOptions } from './types';
+
+export interface OpenAICompatibleConfig {
+  /** API root including the version segment, e.g. http://localhost:8080/v1 */
+  baseUrl: string;
+  /** Sent as a bearer token; local servers usually need none */
+  apiKey?: string;
+}
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: ChatTurn[];
+  stream: boolean;
+  temperature?: number;
+  /** Not in OpenAI's API; llama.cpp, LM Studio and vLLM accept it */
+  top_k?: number;
+  top_p?: number;
+  seed?: number;
+  stop?: string[];
+  /** Asks for a final chunk with the token counts */
+  stream_options?: { include_usage: boolean };
+}
+
+interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: CompletionUsage | null;
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: CompletionUsage | null;
+}
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+const DEFAULT_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'http://localhost:8080/v1'
+};
+
+let currentConfig: OpenAICompatibleConfig = { ...DEFAULT_CONFIG };
+let configured = false;
+
+/**
+ * Point the adapter at a server. Applies to every later request. Pass null
+ * to go back to the defaults and mark the provider unconfigured.
+ */
+export function configureOpenAICompatible(config: Partial<OpenAICompatibleConfig> | null): void {
+  if (!config) {
+    currentConfig = { ...DEFAULT_CONFIG };
+    configured = false;
+    return;
+  }
+
+  currentConfig = {
+    ...currentConfig,
+    ...config,
+    baseUrl: (config.baseUrl ?? currentConfig.baseUrl).replace(/\/+$/, '')
+  };
+  configured = true;
+}
+
+/**
+ * Whether a server has been configured
+ */
+export function isOpenAICompatibleConfigured(): boolean {
+  return configured;
+}
+
+export function getOpenAICompatibleConfig(): OpenAICompatibleConfig {
+  return { ...currentConfig };
+}
+
+/**
+ * Request headers, with the API key when one is configured
+ */
+export function openAIHeaders(config: OpenAICompatibleConfig = currentConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  return headers;
+}
+
+/**
+ * Query a model through /chat/completions
+ * @param modelName - The model name as the server lists it
+ * @param prompt - The prompt to send to the model
+ * @returns Promise<string> - Clean, plain-text response from the model
+ */
+export async function queryOpenAIModel(modelName: string, prompt: string): Promise<string> {
+  if (!modelName || !prompt) {
+    throw new Error('Both modelName and prompt are required');
+  }
+  const response = await chatOpenAIModel(modelName, [{ role: 'user', content: prompt }]);
+  return response.content;
+}
+
+/**
+ * Query a model through /chat/completions with server-sent events
+ * @param modelName - The model name as the server lists it
+ * @param prompt - The prompt to send to the model
+ * @param onChunk - Callback function called for each streaming chunk
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Promise<string> - Complete response from the model
+ */
+export async function queryOpenAIModelStream(
+  modelName: string,
+  prompt: string,
+  onChunk: (chunk: string) => void,
+  abortSignal?: AbortSignal
+): Promise<string> {
+  if (!modelName || !prompt) {
+    throw new Error('Both modelName and prompt are required');
+  }
+  const response = await chatOpenAIModelStream(modelName, [{ role: 'user', content: prompt }], onChunk, {}, abortSignal);
+  return response.content;
+}
+
+/**
+ * Answer a conversation through /chat/completions
+ * @param modelName - The model name as the server lists it
+ * @param messages - System, user and assistant messages, oldest first
+ * @param options - Sampling settings; numCtx is fixed by the server and ignored
+ * @returns Promise<ChatResponse> - Clean, plain-text answer and token counts
+ */
+export async function chatOpenAIModel(
+  modelName: string,
+  messages: ChatTurn[],
+  options: GenerationOptions = {}
+): Promise<ChatResponse> {
+  if (!modelName || messages.length === 0) {
+    throw new Error('Both modelName and messages are required');
+  }
+
+  const config = currentConfig;
+  const requestBody = buildChatRequest(modelName, messages, options, false);
+
+  try {
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: openAIHeaders(config),
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API request failed: ${await describeFailure(response)}`);
+    }
+
+    const data: ChatCompletionResponse = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Invalid response from OpenAI-compatible API: missing message content');
+    }
+
+    return { content: content.trim(), usage: readUsage(data.usage) };
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error(`Unable to connect to the OpenAI-compatible server at ${config.baseUrl}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Answer a conversation through /chat/completions with server-sent events
+ * @param modelName - The model name as the server lists it
+ * @param messages - System, user and assistant messages, oldest first
+ * @param onChunk - Callback function called for each streaming chunk
+ * @param options - Sampling settings; numCtx is fixed by the server and ignored
+ * @param abortSignal - Optional AbortSignal to cancel the request
+ * @returns Promise<ChatResponse> - Complete answer and token counts
+ */
+export async function chatOpenAIModelStream(
+  modelName: string,
+  messages: ChatTurn[],
+  onChunk: (chunk: string) => void,
+  options: GenerationOptions = {},
+  abortSignal?: AbortSignal
+): Promise<ChatResponse> {
+  if (!modelName || messages.length === 0) {
+    throw new Error('Both modelName and messages are required');
+  }
+
+  const config = currentConfig;
+  const requestBody = buildChatRequest(modelName, messages, options, true);
+
+  try {
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { ...openAIHeaders(config), Accept: 'text/event-stream' },
+      body: JSON.stringify(requestBody),
+      signal: abortSignal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API request failed: ${await describeFailure(response)}`);
+    }
+
+    if (!response.body) {
+      throw new Error('Response body is null');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let fullResponse = '';
+    let usage: TokenUsage | undefined;
+    // An event can be split across reads; keep the unfinished line
+    let buffered = '';
+
+    try {
+      while (true) {
+        if (abortSignal?.aborted) {
+          throw new Error('Request was aborted');
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = parseEventData(line);
+          if (data === null) continue;
+          if (data === '[DONE]') {
+            return { content: fullResponse.trim(), usage };
+          }
+
+          try {
+            const chunk: ChatCompletionChunk = JSON.parse(data);
+            usage = readUsage(chunk.usage) ?? usage;
+            const content = chunk.choices?.[0]?.delta?.content;
+            if (content) {
+              fullResponse += content;
+              if (!abortSignal?.aborted) {
+                onChunk(content);
+              }
+            }
+          } catch (parseError) {
+            console.warn('Failed to parse streaming chunk:', line);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    return { content: fullResponse.trim(), usage };
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error(`Unable to connect to the OpenAI-compatible server at ${config.baseUrl}`);
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Request was cancelled');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Embed texts through /embeddings
+ * @param modelName - The embedding model name as the server lists it
+ * @param inputs - Texts to embed
+ * @returns Promise<number[][]> - One vector per input, in input order
+ */
+export async function createOpenAIEmbeddings(
+  modelName: string,
+  inputs: string[],
+  abortSignal?: AbortSignal
+): Promise<number[][]> {
+  if (!modelName) {
+    throw new Error('modelName is required');
+  }
+  if (inputs.length === 0) {
+    return [];
+  }
+
+  const config = currentConfig;
+  const response = await fetch(`${config.baseUrl}/embeddings`, {
+    method: 'POST',
+    headers: openAIHeaders(config),
+    body: JSON.stringify({ model: modelName, input: inputs }),
+    signal: abortSignal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`OpenAI-compatible API request failed: ${await describeFailure(response)}`);
+  }
+
+  const data: EmbeddingsResponse = await response.json();
+  if (!Array.isArray(data.data) || data.data.length !== inputs.length) {
+    throw new Error(`Expected ${inputs.length} embeddings, got ${data.data?.length ?? 0}`);
+  }
+
+  return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+}
+
+/**
+ * Request body for /chat/completions; unset options are left out
+ */
+function buildChatRequest(
+  modelName: string,
+  messages: ChatTurn[],
+  options: GenerationOptions,
+  stream: boolean
+): ChatCompletionRequest {
+  const request: ChatCompletionRequest = {
+    model: modelName,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+    stream
+  };
+  if (options.temperature !== undefined) request.temperature = options.temperature;
+  if (options.topK !== undefined) request.top_k = options.topK;
+  if (options.topP !== undefined) request.top_p = options.topP;
+  if (options.seed !== undefined) request.seed = options.seed;
+  if (options.stop?.length) request.stop = options.stop;
+  if (stream) request.stream_options = { include_usage: true };
+  return request;
+}
+
+function readUsage(usage: CompletionUsage | null | undefined): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return { promptTokens: usage.prompt_tokens, responseTokens: usage.completion_tokens };
+}
+
+/**
+ * The payload of an SSE `data:` line; null for other lines
+ */
+function parseEventData(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) {
+    return null;
+  }
+  return trimmed.slice('data:'.length).trim();
+}
+
+/**
+ * Status line plus the server's error message, when it sent one
+ */
+async function describeFailure(response: Response): Promise<string> {
+  let detail = '';
+  try {
+    const body = await response.json();
+    detail = body?.error?.message || (typeof body?.error === 'string' ? body.error : '');
+  } catch {
+    // Not JSON
+  }
+  return `${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * An OpenAI-compatible server (llama.cpp server, LM Studio, vLLM...) as a
+ * model provider
+ */
+
+import { ModelInfo } from '../types';
+import { ChatResponse, ChatTurn, GenerationOptions, ModelProvider, ProviderCapabilities } from './types';
+import {
+  chatOpenAIModel,
+  chatOpenAIModelStream,
+  createOpenAIEmbeddings,
+  isOpenAICompatibleConfigured,
+  queryOpenAIModel,
+  queryOpenAIModelStream
+} from './openaiAdapter';
+import { openaiCompatibleService, OpenAIModelInfo } from './openaiService';
+
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly id = 'openai';
+  readonly displayName = 'OpenAI-compatible';
+  readonly capabilities: ProviderCapabilities = { chat: true, streaming: true, embeddings: true };
+
+  /**
+   * Only listed once a server has been configured
+   */
+  isConfigured(): boolean {
+    return isOpenAICompatibleConfigured();
+  }
+
+  isAvailable(): Promise<boolean> {
+    return openaiCompatibleService.isAvailable();
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models = await openaiCompatibleService.getAvailableModels();
+    return models.map(model => this.convertToModelInfo(model));
+  }
+
+  generate(model: string, prompt: string): Promise<string> {
+    return queryOpenAIModel(model, prompt);
+  }
+
+  stream(model: string, prompt: string, onChunk: (chunk: string) => void, abortSignal?: AbortSignal): Promise<string> {
+    return queryOpenAIModelStream(model, prompt, onChunk, abortSignal);
+  }
+
+  chat(model: string, messages: ChatTurn[], options?: GenerationOptions): Promise<ChatResponse> {
+    return chatOpenAIModel(model, messages, options);
+  }
+
+  chatStream(
+    model: string,
+    messages: ChatTurn[],
+    onChunk: (chunk: string) => void,
+    options?: GenerationOptions,
+    abortSignal?: AbortSignal
+  ): Promise<ChatResponse> {
+    return chatOpenAIModelStream(model, messages, onChunk, options, abortSignal);
+  }
+
+  embed(model: string, inputs: string[], abortSignal?: AbortSignal): Promise<number[][]> {
+    return createOpenAIEmbeddings(model, inputs, abortSignal);
+  }
+
+  /**
+   * Convert an OpenAI-compatible model to generic ModelInfo format
+   */
+  private convertToModelInfo(model: OpenAIModelInfo): ModelInfo {
+    return {
+      id: model.id,
+      name: model.name,
+      displayName: model.displayName,
+      provider: this.id,
+      available: model.available,
+      lastModified: model.lastModified,
+      description: [this.displayName, model.ownedBy].filter(Boolean).join(' • '),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * OpenAI-compatible Service - Model Detection
+ * Lists the models an OpenAI-compatible server (llama.cpp server, LM Studio,
+ * vLLM...) serves through /v1/models
+ */
+
+import { getOpenAICompatibleConfig, openAIHeaders } from './openaiAdapter';
+
+export interface OpenAIModel {
+  id: string;
+  object?: string;
+  created?: number;
+  owned_by?: string;
+}
+
+export interface OpenAIModelsResponse {
+  data: OpenAIModel[];
+}
+
+export interface OpenAIModelInfo {
+  id: string;
+  name: string;
+  displayName: string;
+  ownedBy?: string;
+  available: boolean;
+  lastModified?: string;
+}
+
+export class OpenAICompatibleService {
+  private timeout: number;
+
+  constructor(timeout: number = 5000) {
+    this.timeout = timeout;
+  }
+
+  /**
+   * Check if the configured server is running and accessible
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.fetchModels();
+      return true;
+    } catch (error) {
+      console.warn('OpenAI-compatible server not available:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch all models the configured server serves
+   */
+  async getAvailableModels(): Promise<OpenAIModelInfo[]> {
+    try {
+      const models = await this.fetchModels();
+      return models.map(model => this.transformModel(model));
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.name === 'AbortError') {
+          throw new Error('Request timeout: the OpenAI-compatible server took too long to respond');
+        }
+        if (error.message.includes('fetch')) {
+          throw new Error(`Unable to connect to the OpenAI-compatible server at ${getOpenAICompatibleConfig().baseUrl}`);
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async fetchModels(): Promise<OpenAIModel[]> {
+    const config = getOpenAICompatibleConfig();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${config.baseUrl}/models`, {
+        method: 'GET',
+        headers: openAIHeaders(config),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch models: ${response.status} ${response.statusText}`);
+      }
+
+      const data: OpenAIModelsResponse = await response.json();
+      return Array.isArray(data.data) ? data.data : [];
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Transform a /v1/models entry to our format
+   */
+  private transformModel(model: OpenAIModel): OpenAIModelInfo {
+    // LM Studio and llama.cpp report file paths as ids, e.g. models/qwen2.5-7b.gguf
+    const baseName = model.id.split(/[\\/]/).pop() || model.id;
+
+    return {
+      id: `openai:${model.id}`,
+      name: model.id,
+      displayName: baseName.replace(/\.gguf$/i, ''),
+      ownedBy: model.owned_by,
+      available: true,
+      lastModified: model.created ? new Date(model.created * 1000).toISOString() : undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const openaiCompatibleService = new OpenAICompatibleService();
@@ -0,0 +1,68 @@
+/**
+ * Registry of model providers
+ *
+ * Model ids take the form `<provider>:<model>`, e.g. `openai:qwen2.5-7b`.
+ * Ids without a registered provider prefix belong to the default provider,
+ * so plain Ollama names such as `llama3:8b` keep working.
+ */
+
+import { ModelProvider } from './types';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAICompatibleProvider } from './openaiProvider';
+
+export interface ResolvedModel {
+  provider: ModelProvider;
+  /** Model name with the provider prefix removed */
+  model: string;
+}
+
+export class ProviderRegistry {
+  private providers = new Map<string, ModelProvider>();
+
+  constructor(private defaultProviderId: string = 'ollama') {}
+
+  /**
+   * Add a provider, replacing any with the same id. Returns a function
+   * that removes it again.
+   */
+  register(provider: ModelProvider): () => void {
+    this.providers.set(provider.id, provider);
+    return () => {
+      if (this.providers.get(provider.id) === provider) {
+        this.providers.delete(provider.id);
+      }
+    };
+  }
+
+  get(id: string): ModelProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): ModelProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * The provider serving a model id and the model's name on it
+   */
+  resolve(modelId: string): ResolvedModel {
+    const separator = modelId.indexOf(':');
+    if (separator > 0) {
+      const provider = this.providers.get(modelId.slice(0, separator));
+      if (provider) {
+        return { provider, model: modelId.slice(separator + 1) };
+      }
+    }
+
+    const provider = this.providers.get(this.defaultProviderId);
+    if (!provider) {
+      throw new Error(`No model provider registered for "${modelId}"`);
+    }
+    return { provider, model: modelId };
+  }
+}
+
+// Export singleton instance with the built-in providers
+export const providerRegistry = new ProviderRegistry();
+providerRegistry.register(new OllamaProvider());
+providerRegistry.register(new OpenAICompatibleProvider());
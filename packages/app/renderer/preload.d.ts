@@ -16,6 +16,7 @@ declare global {
       // Workspace operations
       getCurrentWorkspace: () => Promise<string>;
       selectWorkspace: () => Promise<string | null>;
+      getIgnoreRules?: () => Promise<import('@shared/utils/ignore').IgnoreSource[]>;
       onWorkspaceChanged?: (callback: (workspace: string) => void) => void;
       hasUnsavedChanges: () => boolean;
 
@@ -121,22 +122,161 @@ declare global {
           errors: string[];
           startTime: number;
           endTime?: number;
+          skippedFiles?: number;
+          cancelled?: boolean;
         }>;
-        searchSimilar: (query: string, limit?: number) => Promise<Array<{
+        searchSimilar: (query: string, limit?: number, options?: {
+          mode?: 'semantic' | 'keyword' | 'hybrid';
+          semanticWeight?: number;
+          keywordWeight?: number;
+          rrfK?: number;
+          filter?: {
+            tags?: string[];
+            paths?: string[];
+          };
+        }) => Promise<Array<{
           record: {
             id: string;
             path: string;
             chunk: string;
             vector: Buffer;
+            startLine?: number;
+            endLine?: number;
+            chunkType?: string;
+            symbolName?: string;
+            language?: string;
+            headingPath?: string;
+            title?: string;
+            tags?: string[];
+            date?: string;
+            contentHash?: string;
             created_at?: string;
             updated_at?: string;
           };
           similarity: number;
+          score: number;
         }>>;
+        assembleContext: (request: {
+          query: string;
+          modelId?: string;
+          numCtx?: number;
+          activeFilePath?: string;
+          pinnedFiles?: string[];
+          pinnedSymbols?: Array<{ name: string; path?: string }>;
+          maxRetrievedChunks?: number;
+          searchOptions?: {
+            mode?: 'semantic' | 'keyword' | 'hybrid';
+            filter?: {
+              tags?: string[];
+              paths?: string[];
+            };
+          };
+          history?: Array<{
+            id: string;
+            role: 'user' | 'assistant' | 'system';
+            content: string;
+            timestamp: number;
+          }>;
+          reserveTokens?: number;
+          rewriteQuery?: boolean;
+          rerank?: boolean;
+        }) => Promise<{
+          chunks: Array<{
+            filePath: string;
+            content: string;
+            relevanceScore?: number;
+            lineStart?: number;
+            lineEnd?: number;
+            symbolName?: string;
+          }>;
+          manifest: Array<{
+            source: 'active_file' | 'pinned_file' | 'pinned_symbol' | 'symbol' | 'retrieved';
+            path: string;
+            lineStart?: number;
+            lineEnd?: number;
+            symbolName?: string;
+            score?: number;
+            matchedQueries?: string[];
+            rerankScore?: number;
+            tokens: number;
+            decision: 'included' | 'truncated' | 'duplicate' | 'over_budget' | 'below_relevance' | 'unreadable';
+          }>;
+          budgetTokens: number;
+          usedTokens: number;
+          contextLength?: number;
+          warnings: string[];
+          queries: Array<{
+            kind: 'original' | 'reformulation' | 'keywords';
+            query: string;
+          }>;
+          history: Array<{
+            id: string;
+            role: 'user' | 'assistant' | 'system';
+            content: string;
+            timestamp: number;
+          }>;
+          historySummary?: string;
+          historyTokens: number;
+        }>;
+        estimatePinnedContext: (request: {
+          modelId?: string;
+          numCtx?: number;
+          activeFilePath?: string;
+          pinnedFiles?: string[];
+          pinnedSymbols?: Array<{ name: string; path?: string }>;
+          reserveTokens?: number;
+        }) => Promise<{
+          pins: Array<{ pin: string; tokens: number }>;
+          totalTokens: number;
+          budgetTokens: number;
+          contextLength?: number;
+        }>;
+        recordTokenUsage: (
+          modelId: string,
+          messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+          promptTokens: number
+        ) => Promise<void>;
+        findDefinition: (name: string, fromPath?: string) => Promise<Array<{
+          name: string;
+          kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+          path: string;
+          line: number;
+          column: number;
+          startLine: number;
+          endLine: number;
+        }>>;
+        searchSymbols: (query: string, limit?: number) => Promise<Array<{
+          name: string;
+          kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+          path: string;
+          line: number;
+          column: number;
+          startLine: number;
+          endLine: number;
+        }>>;
+        findReferences: (name: string, definitionPath?: string) => Promise<Array<{
+          name: string;
+          path: string;
+          line: number;
+          column: number;
+          kind: 'import' | 'usage';
+          module?: string;
+        }>>;
+        runTool: (call: { tool: string; args: Record<string, unknown> }) => Promise<string>;
+        setAllowCommands: (allowed: boolean) => Promise<void>;
         getStats: () => Promise<{
           totalEmbeddings: number;
           uniqueFiles: number;
           dbSize: string;
+          index: {
+            state: 'empty' | 'ready' | 'model_changed' | 'dimension_changed' | 'chunker_outdated';
+            embeddingModel: string | null;
+            dimension: number | null;
+            chunkerVersion: number | null;
+            configuredModel: string;
+            currentChunkerVersion: number;
+            reembedding: boolean;
+          };
         }>;
         rebuild: () => Promise<{
           totalFiles: number;
@@ -146,6 +286,43 @@ declare global {
           errors: string[];
           startTime: number;
           endTime?: number;
+          skippedFiles?: number;
+          cancelled?: boolean;
+        }>;
+        reembed: (options?: { keepOldIndex?: boolean }) => Promise<{
+          totalFiles: number;
+          processedFiles: number;
+          totalChunks: number;
+          processedChunks: number;
+          errors: string[];
+          startTime: number;
+          endTime?: number;
+          skippedFiles?: number;
+          cancelled?: boolean;
+        }>;
+        exportIndex: (filePath: string) => Promise<{
+          path: string;
+          files: number;
+          chunks: number;
+          skippedFiles: string[];
+          sizeBytes: number;
+        }>;
+        importIndex: (filePath: string) => Promise<{
+          importedFiles: number;
+          importedChunks: number;
+          changedFiles: string[];
+          missingFiles: string[];
+          stats: {
+            totalFiles: number;
+            processedFiles: number;
+            totalChunks: number;
+            processedChunks: number;
+            errors: string[];
+            startTime: number;
+            endTime?: number;
+            skippedFiles?: number;
+            cancelled?: boolean;
+          };
         }>;
         getFileList: (baseDir?: string, extensions?: string[]) => Promise<string[]>;
         readFileContent: (filePath: string) => Promise<string | null>;
@@ -154,14 +331,181 @@ declare global {
           ollamaBaseUrl?: string;
           embeddingModel?: string;
           dbPath?: string;
+          indexesDir?: string;
           chunkSize?: number;
+          openaiCompatible?: { baseUrl: string; apiKey?: string } | null;
         }) => Promise<void>;
         getConfig: () => Promise<{
           projectRoot: string;
           ollamaBaseUrl?: string;
           embeddingModel?: string;
           dbPath?: string;
+          indexesDir?: string;
           chunkSize?: number;
+          openaiCompatible?: { baseUrl: string; apiKey?: string } | null;
+        }>;
+        cancelIndexing: () => Promise<boolean>;
+        listIndexes: () => Promise<Array<{
+          id: string;
+          workspaceRoot: string;
+          indexPath: string;
+          sizeBytes: number;
+          createdAt: number;
+          lastUsed: number;
+          workspaceExists: boolean;
+          active: boolean;
+        }>>;
+        deleteIndex: (id: string) => Promise<boolean>;
+        pruneIndexes: (maxAgeMs?: number) => Promise<Array<{
+          id: string;
+          workspaceRoot: string;
+          indexPath: string;
+          sizeBytes: number;
+          createdAt: number;
+          lastUsed: number;
+          workspaceExists: boolean;
+        }>>;
+        onIndexingProgress: (callback: (progress: {
+          phase: 'scanning' | 'embedding' | 'done' | 'cancelled';
+          totalFiles: number;
+          processedFiles: number;
+          skippedFiles: number;
+          totalChunks: number;
+          processedChunks: number;
+          currentFile?: string;
+          errors: string[];
+          etaMs?: number;
+          startTime: number;
+        }) => void) => void;
+      };
+
+      ollama: {
+        pull: (model: string) => Promise<void>;
+        cancelPull: (model: string) => Promise<boolean>;
+        getActivePulls: () => Promise<Array<{
+          model: string;
+          status: string;
+          total?: number;
+          completed?: number;
+          percent?: number;
+          state: 'pulling' | 'done' | 'failed' | 'cancelled';
+          error?: string;
+        }>>;
+        delete: (model: string) => Promise<void>;
+        show: (model: string) => Promise<{
+          modelfile?: string;
+          parameters?: string;
+          template?: string;
+          system?: string;
+          license?: string;
+          details?: {
+            format?: string;
+            family?: string;
+            families?: string[];
+            parameter_size?: string;
+            quantization_level?: string;
+          };
+          model_info?: Record<string, unknown>;
+          modified_at?: string;
+        }>;
+        listRunning: () => Promise<Array<{
+          name: string;
+          model: string;
+          size: number;
+          size_vram: number;
+          digest: string;
+          details?: {
+            format?: string;
+            family?: string;
+            families?: string[];
+            parameter_size?: string;
+            quantization_level?: string;
+          };
+          expires_at: string;
+        }>>;
+        unload: (model: string) => Promise<void>;
+        onPullProgress: (callback: (progress: {
+          model: string;
+          status: string;
+          total?: number;
+          completed?: number;
+          percent?: number;
+          state: 'pulling' | 'done' | 'failed' | 'cancelled';
+          error?: string;
+        }) => void) => void;
+      };
+
+      chatSessions: {
+        list: (query?: string) => Promise<Array<{
+          id: string;
+          title: string;
+          modelId: string;
+          mode: 'ask' | 'agent';
+          createdAt: number;
+          updatedAt: number;
+          messageCount: number;
+        }>>;
+        load: (id: string) => Promise<{
+          id: string;
+          title: string;
+          modelId: string;
+          mode: 'ask' | 'agent';
+          createdAt: number;
+          updatedAt: number;
+          messages: Array<{
+            id: string;
+            role: 'user' | 'assistant' | 'system';
+            content: string;
+            timestamp: number;
+            usage?: { promptTokens: number; responseTokens: number };
+          }>;
+        } | null>;
+        save: (session: {
+          id: string;
+          title: string;
+          modelId: string;
+          mode: 'ask' | 'agent';
+          createdAt: number;
+          updatedAt: number;
+          messages: Array<{
+            id: string;
+            role: 'user' | 'assistant' | 'system';
+            content: string;
+            timestamp: number;
+            usage?: { promptTokens: number; responseTokens: number };
+          }>;
+        }) => Promise<{
+          id: string;
+          title: string;
+          modelId: string;
+          mode: 'ask' | 'agent';
+          createdAt: number;
+          updatedAt: number;
+          messageCount: number;
+        }>;
+        rename: (id: string, title: string) => Promise<{
+          id: string;
+          title: string;
+          modelId: string;
+          mode: 'ask' | 'agent';
+          createdAt: number;
+          updatedAt: number;
+          messageCount: number;
+        } | null>;
+        delete: (id: string) => Promise<boolean>;
+      };
+
+      chatCommands: {
+        list: () => Promise<{
+          commands: Array<{
+            name: string;
+            description: string;
+            template?: string;
+            context?: Array<'selection' | 'active_file' | 'folder'>;
+            output?: 'chat' | 'edits';
+            source: 'builtin' | 'workspace';
+          }>;
+          errors: string[];
         }>;
       };
       
@@ -1,17 +1,64 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence, type Variants } from 'framer-motion';
 import ReactMarkdown from 'react-markdown';
-import { Send, MessageSquare, X, ChevronLeft, ChevronRight, RefreshCw, Wifi, WifiOff, File, FolderOpen, List, Square } from 'lucide-react';
+import { Send, MessageSquare, X, ChevronLeft, ChevronRight, RefreshCw, Wifi, WifiOff, File, FileText, FolderOpen, Hash, List, Square, Database, Cpu, History, Plus, Pencil, RotateCcw, Terminal } from 'lucide-react';
 import { useChatContext } from './context/ChatContext';
+import { ChatMessage } from '../agent/types';
 import { OllamaUtils } from '../agent/models/ollamaService';
+import { getSlashSuggestions } from '../agent/chat/slashCommands';
+import { Mention, MentionKind, MentionSuggestion, findMentionQuery, insertMention } from '../agent/chat/mentions';
 import { FileChangeModal } from './FileChangeModal';
+import { ModelManagerModal } from './ModelManagerModal';
+import { ChatSessionList } from './ChatSessionList';
+import { AgentToolSteps } from './AgentToolSteps';
+import { useIndexingProgress } from './hooks/useIndexingProgress';
 
 interface AgentChatPanelProps {
   isOpen: boolean;
   onToggle: () => void;
+  /** File open in the editor; slash commands use it as their context */
+  editorFile?: { path: string; content: string } | null;
 }
 
-const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) => {
+/**
+ * Text selected in a code editor, if any. The chat input has focus by the
+ * time a command runs, so the first editor with a selection is used.
+ */
+const getEditorSelection = (): string | undefined => {
+  for (const editor of window.monaco?.editor.getEditors() ?? []) {
+    const selection = editor.getSelection();
+    const model = editor.getModel();
+    if (selection && model && !selection.isEmpty()) {
+      return model.getValueInRange(selection);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * A completion offered above the input: a slash command or an @-mention
+ */
+interface InputSuggestion {
+  key: string;
+  label: string;
+  description?: string;
+  /** Input text after picking a slash command suggestion */
+  insertText?: string;
+  mention?: MentionSuggestion;
+}
+
+const MENTION_ICONS: Record<MentionKind, React.ComponentType<{ className?: string }>> = {
+  file: File,
+  folder: FolderOpen,
+  note: FileText,
+  symbol: Hash
+};
+
+// Chips show a path's last segment; the full path is in the tooltip
+const mentionLabel = (mention: Mention) =>
+  mention.kind === 'symbol' ? mention.value : mention.value.split('/').pop() || mention.value;
+
+const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle, editorFile }) => {
   const {
     messages,
     isLoading,
@@ -25,6 +72,8 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
     setSelectedModel,
     setMode,
     refreshModels,
+    openaiCompatibleConfig,
+    setOpenAICompatibleConfig,
     
     // File operations state and handlers
     pendingFileOperations,
@@ -43,10 +92,59 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
     // Chat control
     stopChat,
     canStopChat,
+
+    // Saved sessions
+    sessions,
+    currentSessionId,
+    sessionQuery,
+    newSession,
+    resumeSession,
+    renameSession,
+    deleteSession,
+    searchSessions,
+
+    // Branches
+    editMessage,
+    regenerateMessage,
+    switchBranch,
+    getMessageSiblings,
+
+    // Agent tools
+    allowAgentCommands,
+    setAllowAgentCommands,
+    respondToToolStep,
+
+    // Slash commands
+    slashCommands,
+    refreshSlashCommands,
+    runSlashCommand,
+
+    // @-mentions
+    pinnedMentions,
+    pinnedEstimate,
+    addPinnedMention,
+    removePinnedMention,
+    searchMentions,
   } = useChatContext();
 
+  const {
+    progress: indexingProgress,
+    isIndexing,
+    error: indexingError,
+    startIndexing,
+    cancelIndexing,
+  } = useIndexingProgress();
+
   const [inputValue, setInputValue] = React.useState('');
   const [isCollapsed, setIsCollapsed] = React.useState(false);
+  const [showModelManager, setShowModelManager] = React.useState(false);
+  const [showSessions, setShowSessions] = React.useState(false);
+  const [editingMessageId, setEditingMessageId] = React.useState<string | null>(null);
+  const [editingContent, setEditingContent] = React.useState('');
+  const [suggestionIndex, setSuggestionIndex] = React.useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = React.useState(false);
+  const [cursor, setCursor] = React.useState(0);
+  const [mentionSuggestions, setMentionSuggestions] = React.useState<MentionSuggestion[]>([]);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -56,9 +154,75 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  const mentionQuery = useMemo(() => findMentionQuery(inputValue, cursor), [inputValue, cursor]);
+  const mentionQueryText = mentionQuery?.query;
+
+  // Look up @-mention suggestions as the text after the @ changes
+  useEffect(() => {
+    if (mentionQueryText === undefined) {
+      setMentionSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    searchMentions(mentionQueryText).then(found => {
+      if (!cancelled) setMentionSuggestions(found);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mentionQueryText, searchMentions]);
+
+  // Slash command completions for what is typed so far, else mentions
+  const suggestions = useMemo((): InputSuggestion[] => {
+    if (suggestionsDismissed) return [];
+    const commands = getSlashSuggestions(inputValue, slashCommands, availableModels.map(model => model.id))
+      .filter(suggestion => suggestion.insertText !== inputValue);
+    if (commands.length > 0) {
+      return commands.map(suggestion => ({ key: suggestion.insertText, ...suggestion }));
+    }
+    return mentionSuggestions.map(mention => ({
+      key: `${mention.kind}:${mention.value}:${mention.path ?? ''}`,
+      label: `@${mention.value}`,
+      description: mention.detail ?? mention.kind,
+      mention
+    }));
+  }, [inputValue, slashCommands, availableModels, mentionSuggestions, suggestionsDismissed]);
+
+  const applySuggestion = (index: number) => {
+    const suggestion = suggestions[index];
+    if (!suggestion) return;
+    setSuggestionIndex(0);
+
+    if (suggestion.mention && mentionQuery) {
+      const { mention } = suggestion;
+      const inserted = insertMention(inputValue, mentionQuery, mention);
+      addPinnedMention({ kind: mention.kind, value: mention.value, path: mention.path });
+      setInputValue(inserted.text);
+      setCursor(inserted.cursor);
+      requestAnimationFrame(() => textareaRef.current?.setSelectionRange(inserted.cursor, inserted.cursor));
+    } else if (suggestion.insertText) {
+      setInputValue(suggestion.insertText);
+      setCursor(suggestion.insertText.length);
+    }
+    textareaRef.current?.focus();
+  };
+
+  // Estimated tokens of each pin, keyed like the context request names it
+  const pinTokens = useMemo(
+    () => new Map((pinnedEstimate?.pins ?? []).map(pin => [pin.pin, pin.tokens])),
+    [pinnedEstimate]
+  );
+
   // Auto-resize textarea
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    // Pick up edits to the workspace's commands when a command is started
+    if (e.target.value === '/' && !inputValue) {
+      refreshSlashCommands();
+    }
     setInputValue(e.target.value);
+    setCursor(e.target.selectionStart);
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
     
     // Auto-resize textarea
     const textarea = e.target;
@@ -67,6 +231,25 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(index => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+        e.preventDefault();
+        applySuggestion(suggestionIndex);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -84,6 +267,17 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
       textareaRef.current.style.height = 'auto';
     }
 
+    // Known slash commands run with the editor's file and selection; any
+    // other message, including an unknown command, is sent as typed
+    if (message.startsWith('/')) {
+      const handled = await runSlashCommand(message, {
+        filePath: editorFile?.path ?? activeFilePath,
+        fileContent: editorFile?.content,
+        selection: getEditorSelection()
+      });
+      if (handled) return;
+    }
+
     // Use the context's sendMessageStream function for real-time streaming
     await sendMessageStream(message, selectedModel, mode);
   };
@@ -97,6 +291,94 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
     }
   };
 
+  const formatEta = (ms?: number) => {
+    if (ms === undefined) return '';
+    const seconds = Math.ceil(ms / 1000);
+    return seconds < 60 ? `${seconds}s left` : `${Math.ceil(seconds / 60)}m left`;
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditingContent(message.content);
+  };
+
+  const handleResend = () => {
+    if (!editingMessageId || !editingContent.trim()) return;
+    editMessage(editingMessageId, editingContent);
+    setEditingMessageId(null);
+  };
+
+  // Version switcher, edit and regenerate controls under a message
+  const renderMessageActions = (message: ChatMessage, index: number) => {
+    const siblings = getMessageSiblings(message.id);
+    const position = siblings.findIndex(sibling => sibling.id === message.id);
+    const canRegenerate = message.role === 'assistant' && messages[index - 1]?.role === 'user';
+    if (siblings.length < 2 && message.role !== 'user' && !canRegenerate) return null;
+
+    return (
+      <div className="flex items-center gap-1 mt-1 text-xs opacity-70">
+        {siblings.length > 1 && (
+          <>
+            <button
+              onClick={() => switchBranch(siblings[position - 1].id)}
+              disabled={isLoading || position <= 0}
+              className="p-0.5 rounded hover:bg-background/20 disabled:opacity-50"
+              title="Previous version"
+            >
+              <ChevronLeft className="w-3 h-3" />
+            </button>
+            <span>{position + 1}/{siblings.length}</span>
+            <button
+              onClick={() => switchBranch(siblings[position + 1].id)}
+              disabled={isLoading || position >= siblings.length - 1}
+              className="p-0.5 rounded hover:bg-background/20 disabled:opacity-50"
+              title="Next version"
+            >
+              <ChevronRight className="w-3 h-3" />
+            </button>
+            {message.modelId && <span className="truncate">{getModelDisplayInfo(message.modelId).name}</span>}
+          </>
+        )}
+        {message.role === 'user' && (
+          <button
+            onClick={() => startEditing(message)}
+            disabled={isLoading}
+            className="p-0.5 rounded hover:bg-background/20 disabled:opacity-50"
+            title="Edit and resend"
+          >
+            <Pencil className="w-3 h-3" />
+          </button>
+        )}
+        {canRegenerate && (
+          <>
+            <button
+              onClick={() => regenerateMessage(message.id)}
+              disabled={isLoading}
+              className="p-0.5 rounded hover:bg-background/20 disabled:opacity-50"
+              title="Regenerate"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+            <select
+              value=""
+              onChange={(e) => e.target.value && regenerateMessage(message.id, e.target.value)}
+              disabled={isLoading || availableModels.length === 0}
+              className="text-xs bg-transparent focus:outline-none disabled:opacity-50"
+              title="Regenerate with another model"
+            >
+              <option value="">with...</option>
+              {availableModels.map(model => (
+                <option key={model.id} value={model.id}>
+                  {getModelDisplayInfo(model.id).name}
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+    );
+  };
+
   const toggleCollapse = () => {
     setIsCollapsed(!isCollapsed);
   };
@@ -193,6 +475,31 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
                     <h3 className="font-semibold text-sm">AI Assistant</h3>
                   </div>
                   <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => {
+                        newSession();
+                        setShowSessions(false);
+                      }}
+                      disabled={isLoading}
+                      className="p-1 hover:bg-muted rounded transition-colors disabled:opacity-50"
+                      title="New chat"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setShowSessions(!showSessions)}
+                      className={`p-1 hover:bg-muted rounded transition-colors ${showSessions ? 'bg-muted' : ''}`}
+                      title="Chat history"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={isIndexing ? cancelIndexing : startIndexing}
+                      className="p-1 hover:bg-muted rounded transition-colors"
+                      title={isIndexing ? 'Cancel indexing' : 'Index codebase'}
+                    >
+                      {isIndexing ? <Square className="w-4 h-4" /> : <Database className="w-4 h-4" />}
+                    </button>
                     <button
                       onClick={handleRefreshModels}
                       disabled={isLoadingModels}
@@ -201,6 +508,13 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
                     >
                       <RefreshCw className={`w-4 h-4 ${isLoadingModels ? 'animate-spin' : ''}`} />
                     </button>
+                    <button
+                      onClick={() => setShowModelManager(true)}
+                      className="p-1 hover:bg-muted rounded transition-colors"
+                      title="Manage models"
+                    >
+                      <Cpu className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={toggleCollapse}
                       className="p-1 hover:bg-muted rounded transition-colors"
@@ -218,10 +532,37 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
                   </div>
                 </div>
 
+                {/* Indexing Progress */}
+                {isIndexing && indexingProgress && (
+                  <div className="px-3 py-2 border-b border-border">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        {indexingProgress.phase === 'scanning'
+                          ? 'Scanning files...'
+                          : `Indexing ${indexingProgress.processedFiles}/${indexingProgress.totalFiles} files`}
+                      </span>
+                      <span>{formatEta(indexingProgress.etaMs)}</span>
+                    </div>
+                    <div className="mt-1 h-1 rounded bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-primary transition-all"
+                        style={{
+                          width: `${indexingProgress.totalFiles > 0
+                            ? (indexingProgress.processedFiles / indexingProgress.totalFiles) * 100
+                            : 0}%`
+                        }}
+                      />
+                    </div>
+                    {indexingProgress.currentFile && (
+                      <p className="mt-1 text-xs text-muted-foreground truncate">{indexingProgress.currentFile}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Error Display */}
-                {error && (
+                {(error || indexingError) && (
                   <div className="px-3 py-2 bg-destructive/10 border-b border-border">
-                    <p className="text-xs text-destructive">{error}</p>
+                    <p className="text-xs text-destructive">{error || indexingError}</p>
                   </div>
                 )}
 
@@ -253,88 +594,176 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
                         Include project file list in context
                       </label>
                     </div>
+
+                    {/* Agent Commands Toggle */}
+                    {mode === 'agent' && (
+                      <div className="flex items-center gap-2">
+                        <Terminal className="w-3 h-3 text-muted-foreground" />
+                        <label className="flex items-center gap-1 text-xs text-muted-foreground cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={allowAgentCommands}
+                            onChange={(e) => setAllowAgentCommands(e.target.checked)}
+                            className="w-3 h-3"
+                          />
+                          Let the agent run commands (asks before each one)
+                        </label>
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {/* Saved Sessions */}
+                {showSessions && (
+                  <ChatSessionList
+                    sessions={sessions}
+                    currentSessionId={currentSessionId}
+                    query={sessionQuery}
+                    onSearch={searchSessions}
+                    onNew={() => {
+                      newSession();
+                      setShowSessions(false);
+                    }}
+                    onResume={async (id) => {
+                      await resumeSession(id);
+                      setShowSessions(false);
+                    }}
+                    onRename={renameSession}
+                    onDelete={deleteSession}
+                  />
+                )}
+
                 {/* Messages */}
-                <div className="flex-1 overflow-y-auto p-3 space-y-4">
-                  {messages.length === 0 && (
-                    <div className="text-center text-muted-foreground text-sm py-8">
-                      <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                      {availableModels.length === 0 && !isLoadingModels ? (
-                        <>
-                          <p>No Ollama models installed</p>
-                          <p className="text-xs mt-1">Install models with: <code className="bg-muted px-1 rounded">ollama pull llama3</code></p>
-                          <p className="text-xs mt-1">Make sure Ollama is running on localhost:11434</p>
-                        </>
-                      ) : (
-                        <>
-                          <p>Start a conversation with AI</p>
-                          <p className="text-xs mt-1">Choose your model and mode below</p>
-                          {mode === 'agent' && (
-                            <p className="text-xs mt-1 text-blue-600">Agent mode can suggest file edits</p>
-                          )}
-                        </>
-                      )}
-                      {isLoadingModels && (
-                        <p className="text-xs mt-2 flex items-center justify-center gap-1">
-                          <RefreshCw className="w-3 h-3 animate-spin" />
-                          Loading models...
-                        </p>
-                      )}
-                    </div>
-                  )}
-                  
-                  {messages.map((message) => (
-                    <div
-                      key={message.id}
-                      className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                    >
+                {!showSessions && (
+                  <div className="flex-1 overflow-y-auto p-3 space-y-4">
+                    {messages.length === 0 && (
+                      <div className="text-center text-muted-foreground text-sm py-8">
+                        <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                        {availableModels.length === 0 && !isLoadingModels ? (
+                          <>
+                            <p>No Ollama models installed</p>
+                            <p className="text-xs mt-1">
+                              Pull one from the{' '}
+                              <button onClick={() => setShowModelManager(true)} className="underline hover:text-foreground">
+                                model manager
+                              </button>
+                              {' '}or run <code className="bg-muted px-1 rounded">ollama pull llama3</code>
+                            </p>
+                            <p className="text-xs mt-1">Make sure Ollama is running on localhost:11434</p>
+                          </>
+                        ) : (
+                          <>
+                            <p>Start a conversation with AI</p>
+                            <p className="text-xs mt-1">Choose your model and mode below</p>
+                            <p className="text-xs mt-1">Type / for commands like /explain, or @ to pin files and symbols</p>
+                            {mode === 'agent' && (
+                              <p className="text-xs mt-1 text-blue-600">Agent mode can read and search the project, then propose edits</p>
+                            )}
+                          </>
+                        )}
+                        {isLoadingModels && (
+                          <p className="text-xs mt-2 flex items-center justify-center gap-1">
+                            <RefreshCw className="w-3 h-3 animate-spin" />
+                            Loading models...
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    
+                    {messages.map((message, index) => (
                       <div
-                        className={`max-w-[80%] rounded-lg p-3 ${
-                          message.role === 'user'
-                            ? 'bg-primary text-primary-foreground ml-4'
-                            : 'bg-muted mr-4'
-                        }`}
+                        key={message.id}
+                        className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                       >
-                        <div className="text-sm">
-                          <ReactMarkdown
-                            components={{
-                              p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                              code: ({ children }) => (
-                                <code className="bg-muted/50 px-1 py-0.5 rounded text-xs">
-                                  {children}
-                                </code>
-                              ),
-                              pre: ({ children }) => (
-                                <pre className="bg-muted/50 p-2 rounded text-xs overflow-x-auto mt-2 mb-2">
-                                  {children}
-                                </pre>
-                              )
-                            }}
-                          >
-                            {message.content}
-                          </ReactMarkdown>
+                        <div
+                          className={`max-w-[80%] rounded-lg p-3 ${
+                            message.role === 'user'
+                              ? 'bg-primary text-primary-foreground ml-4'
+                              : 'bg-muted mr-4'
+                          }`}
+                        >
+                          {editingMessageId === message.id ? (
+                            <div className="space-y-2">
+                              <textarea
+                                value={editingContent}
+                                onChange={(e) => setEditingContent(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    handleResend();
+                                  }
+                                  if (e.key === 'Escape') setEditingMessageId(null);
+                                }}
+                                autoFocus
+                                rows={3}
+                                className="w-full text-sm px-2 py-1 rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring resize-none"
+                              />
+                              <div className="flex justify-end gap-2 text-xs">
+                                <button onClick={() => setEditingMessageId(null)} className="px-2 py-1 rounded hover:bg-background/20">
+                                  Cancel
+                                </button>
+                                <button
+                                  onClick={handleResend}
+                                  disabled={!editingContent.trim() || isLoading}
+                                  className="px-2 py-1 rounded bg-background text-foreground hover:bg-background/90 disabled:opacity-50"
+                                >
+                                  Send
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="text-sm">
+                              {message.toolSteps && message.toolSteps.length > 0 && (
+                                <AgentToolSteps steps={message.toolSteps} onRespond={respondToToolStep} />
+                              )}
+                              <ReactMarkdown
+                                components={{
+                                  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                                  code: ({ children }) => (
+                                    <code className="bg-muted/50 px-1 py-0.5 rounded text-xs">
+                                      {children}
+                                    </code>
+                                  ),
+                                  pre: ({ children }) => (
+                                    <pre className="bg-muted/50 p-2 rounded text-xs overflow-x-auto mt-2 mb-2">
+                                      {children}
+                                    </pre>
+                                  )
+                                }}
+                              >
+                                {message.command ?? message.content}
+                              </ReactMarkdown>
+                            </div>
+                          )}
+                          {message.usage && (
+                            <div
+                              className="text-xs text-muted-foreground mt-1"
+                              title="Tokens the model counted for the prompt and the answer"
+                            >
+                              {message.usage.promptTokens} prompt · {message.usage.responseTokens} response tokens
+                            </div>
+                          )}
+                          {editingMessageId !== message.id && renderMessageActions(message, index)}
                         </div>
                       </div>
-                    </div>
-                  ))}
-                  
-                  {isLoading && (
-                    <div className="flex justify-start">
-                      <div className="bg-muted rounded-lg p-3 mr-4">
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse"></div>
-                          <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse" style={{ animationDelay: '0.1s' }}></div>
-                          <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse" style={{ animationDelay: '0.2s' }}></div>
-                          <span>AI is responding...</span>
+                    ))}
+                    
+                    {isLoading && (
+                      <div className="flex justify-start">
+                        <div className="bg-muted rounded-lg p-3 mr-4">
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse"></div>
+                            <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse" style={{ animationDelay: '0.1s' }}></div>
+                            <div className="w-2 h-2 bg-muted-foreground rounded-full animate-pulse" style={{ animationDelay: '0.2s' }}></div>
+                            <span>AI is responding...</span>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
-                  
-                  <div ref={messagesEndRef} />
-                </div>
+                    )}
+                    
+                    <div ref={messagesEndRef} />
+                  </div>
+                )}
 
                 {/* Input Controls */}
                 <div className="p-3 border-t border-border bg-muted/30">
@@ -395,14 +824,87 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
                     </div>
                   )}
 
+                  {/* Pinned mentions */}
+                  {pinnedMentions.length > 0 && (
+                    <div className="mb-2 space-y-1">
+                      <div className="flex flex-wrap gap-1">
+                        {pinnedMentions.map(mention => {
+                          const Icon = MENTION_ICONS[mention.kind];
+                          const tokens = pinTokens.get(mention.value);
+                          return (
+                            <span
+                              key={`${mention.kind}:${mention.value}:${mention.path ?? ''}`}
+                              className="flex items-center gap-1 max-w-full px-2 py-0.5 rounded-full bg-muted text-xs"
+                              title={mention.path ? `${mention.value} in ${mention.path}` : mention.value}
+                            >
+                              <Icon className="w-3 h-3 shrink-0" />
+                              <span className="truncate">{mentionLabel(mention)}</span>
+                              {tokens !== undefined && (
+                                <span className={tokens === 0 ? 'text-destructive' : 'text-muted-foreground'}>
+                                  {tokens === 0 ? 'not found' : `~${tokens}`}
+                                </span>
+                              )}
+                              <button
+                                onClick={() => removePinnedMention(mention)}
+                                className="hover:text-destructive"
+                                title="Unpin"
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          );
+                        })}
+                      </div>
+                      {pinnedEstimate && (
+                        <div
+                          className={`text-xs px-1 ${
+                            pinnedEstimate.totalTokens > pinnedEstimate.budgetTokens ? 'text-destructive' : 'text-muted-foreground'
+                          }`}
+                          title="Pinned content goes into every prompt ahead of search results"
+                        >
+                          Pinned: ~{pinnedEstimate.totalTokens} of {pinnedEstimate.budgetTokens} context tokens
+                          {pinnedEstimate.totalTokens > pinnedEstimate.budgetTokens && ' (the rest will be cut)'}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Input */}
-                  <div className="flex gap-2">
+                  <div className="relative flex gap-2">
+                    {suggestions.length > 0 && (
+                      <div className="absolute bottom-full left-0 right-0 mb-1 max-h-48 overflow-y-auto rounded border border-border bg-background shadow-lg z-10">
+                        {suggestions.map((suggestion, index) => (
+                          <button
+                            key={suggestion.key}
+                            onMouseDown={(e) => {
+                              // Keep focus in the input
+                              e.preventDefault();
+                              applySuggestion(index);
+                            }}
+                            onMouseEnter={() => setSuggestionIndex(index)}
+                            className={`w-full flex items-baseline gap-2 px-2 py-1 text-left text-xs ${
+                              index === suggestionIndex ? 'bg-muted' : ''
+                            }`}
+                          >
+                            {suggestion.mention && (() => {
+                              const Icon = MENTION_ICONS[suggestion.mention.kind];
+                              return <Icon className="w-3 h-3 shrink-0 self-center" />;
+                            })()}
+                            <span className="font-mono truncate">{suggestion.label}</span>
+                            {suggestion.description && (
+                              <span className="ml-auto shrink-0 truncate text-muted-foreground">{suggestion.description}</span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     <textarea
                       ref={textareaRef}
                       value={inputValue}
                       onChange={handleInputChange}
                       onKeyDown={handleKeyDown}
-                      placeholder="Type your message... (streaming enabled, Shift+Enter for new line)"
+                      onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+                      placeholder="Message, / for commands, @ to pin files (Shift+Enter for new line)"
                       disabled={!selectedModel || isLoadingModels}
                       className="flex-1 min-h-[2.5rem] max-h-[7.5rem] px-3 py-2 text-sm rounded border border-border bg-background text-foreground placeholder-muted-foreground resize-none focus:outline-none focus:ring-1 focus:ring-ring disabled:opacity-50"
                       style={{ height: '2.5rem' }}
@@ -445,6 +947,16 @@ const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ isOpen, onToggle }) =>
         onRejectAll={onRejectAllFileOperations}
         isApplying={isLoading}
       />
+
+      <ModelManagerModal
+        isOpen={showModelManager}
+        onClose={() => setShowModelManager(false)}
+        models={availableModels}
+        onModelsChanged={handleRefreshModels}
+        selectedModelId={selectedModel}
+        openaiCompatibleConfig={openaiCompatibleConfig}
+        onSaveOpenAICompatible={setOpenAICompatibleConfig}
+      />
     </>
   );
 };
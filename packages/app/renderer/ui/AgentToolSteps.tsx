@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { FileText, FolderOpen, Search, Hash, FilePen, Terminal, Check, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { AgentToolName, AgentToolStep } from '../agent/types';
+
+export interface AgentToolStepsProps {
+  steps: AgentToolStep[];
+  /** Approve or decline a call that writes or executes */
+  onRespond: (stepId: string, approved: boolean) => void;
+}
+
+const TOOL_ICONS: Record<AgentToolName, React.ComponentType<{ className?: string }>> = {
+  read_file: FileText,
+  list_dir: FolderOpen,
+  search_code: Search,
+  find_symbol: Hash,
+  propose_edit: FilePen,
+  run_command: Terminal
+};
+
+const STATUS_LABELS: Record<AgentToolStep['status'], string> = {
+  awaiting_approval: 'needs approval',
+  running: 'running...',
+  done: 'done',
+  declined: 'declined',
+  failed: 'failed'
+};
+
+// Longest proposed file shown before it is cut off
+const MAX_PREVIEW_CHARS = 4000;
+
+/**
+ * One line describing a call, e.g. "read_file src/index.ts"
+ */
+const describeCall = (step: AgentToolStep): string => {
+  const { args } = step;
+  switch (step.tool) {
+    case 'read_file':
+      return args.startLine ? `${args.path}:${args.startLine}-${args.endLine ?? ''}` : String(args.path);
+    case 'list_dir':
+      return String(args.path ?? '.');
+    case 'search_code':
+      return `"${args.query}"`;
+    case 'find_symbol':
+      return String(args.name);
+    case 'propose_edit':
+      return String(args.path);
+    case 'run_command':
+      return String(args.command);
+  }
+};
+
+/**
+ * Transcript of the tools an agent called while answering, with approval
+ * controls for calls that write files or run commands
+ */
+export const AgentToolSteps: React.FC<AgentToolStepsProps> = ({ steps, onRespond }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="mb-2 space-y-1">
+      {steps.map(step => {
+        const Icon = TOOL_ICONS[step.tool] || FileText;
+        const isOpen = expanded.has(step.id) || step.status === 'awaiting_approval';
+        const content = step.tool === 'propose_edit' ? String(step.args.content ?? '') : '';
+
+        return (
+          <div key={step.id} className="rounded border border-border bg-background/50 text-xs">
+            <button
+              onClick={() => toggle(step.id)}
+              className="w-full flex items-center gap-1 px-2 py-1 text-left hover:bg-muted/50"
+              title={step.thought}
+            >
+              {isOpen ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+              <Icon className="w-3 h-3 shrink-0" />
+              <span className="font-medium">{step.tool}</span>
+              <span className="truncate text-muted-foreground">{describeCall(step)}</span>
+              <span
+                className={`ml-auto shrink-0 ${
+                  step.status === 'failed' || step.status === 'declined'
+                    ? 'text-destructive'
+                    : step.status === 'awaiting_approval' ? 'text-blue-600' : 'text-muted-foreground'
+                }`}
+              >
+                {STATUS_LABELS[step.status]}
+              </span>
+            </button>
+
+            {isOpen && (
+              <div className="px-2 pb-2 space-y-1">
+                {step.thought && <p className="text-muted-foreground italic">{step.thought}</p>}
+                {step.tool === 'propose_edit' && step.args.description !== undefined && (
+                  <p>{String(step.args.description)}</p>
+                )}
+                {content && step.status === 'awaiting_approval' && (
+                  <pre className="bg-muted/50 p-2 rounded overflow-x-auto max-h-60">
+                    {content.length > MAX_PREVIEW_CHARS ? `${content.slice(0, MAX_PREVIEW_CHARS)}\n...` : content}
+                  </pre>
+                )}
+                {step.result && (
+                  <pre className="bg-muted/50 p-2 rounded overflow-x-auto max-h-60 whitespace-pre-wrap">{step.result}</pre>
+                )}
+                {step.status === 'awaiting_approval' && (
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => onRespond(step.id, false)}
+                      className="flex items-center gap-1 px-2 py-1 rounded hover:bg-muted"
+                    >
+                      <X className="w-3 h-3" />
+                      Decline
+                    </button>
+                    <button
+                      onClick={() => onRespond(step.id, true)}
+                      className="flex items-center gap-1 px-2 py-1 rounded bg-primary text-primary-foreground hover:bg-primary/90"
+                    >
+                      <Check className="w-3 h-3" />
+                      {step.tool === 'run_command' ? 'Run' : 'Apply'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Plus, Search, Pencil, Trash2, Check, X } from 'lucide-react';
+import { ChatSessionSummary } from '../agent';
+
+export interface ChatSessionListProps {
+  sessions: ChatSessionSummary[];
+  currentSessionId: string;
+  query: string;
+  onSearch: (query: string) => void;
+  onNew: () => void;
+  onResume: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdatedAt = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+/**
+ * Saved chat sessions of the workspace, with search, rename and delete
+ */
+export const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  sessions,
+  currentSessionId,
+  query,
+  onSearch,
+  onNew,
+  onResume,
+  onRename,
+  onDelete
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (session: ChatSessionSummary) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: ChatSessionSummary) => {
+    if (window.confirm(`Delete "${session.title}"?`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-3 space-y-2">
+      <div className="flex gap-2">
+        <div className="flex-1 flex items-center gap-1 px-2 rounded border border-border bg-background">
+          <Search className="w-3 h-3 text-muted-foreground" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => onSearch(e.target.value)}
+            placeholder="Search chats"
+            className="flex-1 text-xs py-1 bg-transparent text-foreground focus:outline-none"
+          />
+        </div>
+        <button
+          onClick={onNew}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90"
+          title="New chat"
+        >
+          <Plus className="w-3 h-3" />
+          New
+        </button>
+      </div>
+
+      {sessions.length === 0 && (
+        <p className="text-xs text-muted-foreground text-center py-4">
+          {query ? 'No chats match your search' : 'No saved chats yet'}
+        </p>
+      )}
+
+      {sessions.map(session => (
+        <div
+          key={session.id}
+          className={`group rounded p-2 cursor-pointer border ${
+            session.id === currentSessionId ? 'border-primary bg-primary/5' : 'border-transparent hover:bg-muted'
+          }`}
+          onClick={() => editingId !== session.id && onResume(session.id)}
+        >
+          {editingId === session.id ? (
+            <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+              <input
+                type="text"
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                autoFocus
+                className="flex-1 text-xs px-1 py-0.5 rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+              <button onClick={commitRename} className="p-1 hover:bg-muted rounded" title="Save title">
+                <Check className="w-3 h-3" />
+              </button>
+              <button onClick={() => setEditingId(null)} className="p-1 hover:bg-muted rounded" title="Cancel">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-medium truncate">{session.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatUpdatedAt(session.updatedAt)} • {session.messageCount} messages • {session.mode}
+                </p>
+              </div>
+              <div className="flex items-center opacity-0 group-hover:opacity-100" onClick={(e) => e.stopPropagation()}>
+                <button onClick={() => startRename(session)} className="p-1 hover:bg-muted rounded" title="Rename">
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button onClick={() => handleDelete(session)} className="p-1 hover:bg-muted rounded" title="Delete">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { modelManager } from '../agent/models/modelManager';
+import { GenerationOptions } from '../agent/models/types';
+
+export interface GenerationOptionsEditorProps {
+  /** Model whose options are edited in the model scope */
+  modelId?: string;
+}
+
+type Scope = 'model' | 'workspace';
+
+type NumberField = 'temperature' | 'topK' | 'topP' | 'numCtx' | 'seed';
+
+interface FieldSpec {
+  key: NumberField;
+  label: string;
+  integer: boolean;
+}
+
+type FormValues = Record<NumberField | 'stop', string>;
+
+const NUMBER_FIELDS: FieldSpec[] = [
+  { key: 'temperature', label: 'temperature', integer: false },
+  { key: 'topK', label: 'top_k', integer: true },
+  { key: 'topP', label: 'top_p', integer: false },
+  { key: 'numCtx', label: 'num_ctx', integer: true },
+  { key: 'seed', label: 'seed', integer: true }
+];
+
+const EMPTY_FORM: FormValues = { temperature: '', topK: '', topP: '', numCtx: '', seed: '', stop: '' };
+
+const toForm = (options: GenerationOptions = {}): FormValues => ({
+  temperature: options.temperature?.toString() ?? '',
+  topK: options.topK?.toString() ?? '',
+  topP: options.topP?.toString() ?? '',
+  numCtx: options.numCtx?.toString() ?? '',
+  seed: options.seed?.toString() ?? '',
+  stop: (options.stop ?? []).join('\n')
+});
+
+/**
+ * Read the form; empty fields are left unset. Null when every field is
+ * empty, so saving clears the scope's options.
+ */
+const fromForm = (form: FormValues): { options: GenerationOptions | null } | { error: string } => {
+  const options: GenerationOptions = {};
+  for (const field of NUMBER_FIELDS) {
+    const text = form[field.key].trim();
+    if (!text) continue;
+    const value = Number(text);
+    if (!Number.isFinite(value) || (field.integer && !Number.isInteger(value))) {
+      return { error: `${field.label} must be ${field.integer ? 'a whole number' : 'a number'}` };
+    }
+    options[field.key] = value;
+  }
+  const stop = form.stop.split('\n').filter(sequence => sequence.length > 0);
+  if (stop.length > 0) {
+    options.stop = stop;
+  }
+  return { options: Object.keys(options).length > 0 ? options : null };
+};
+
+/**
+ * Saved generation options of the selected model or the open workspace.
+ * Model options override workspace options for every request.
+ */
+export const GenerationOptionsEditor: React.FC<GenerationOptionsEditorProps> = ({ modelId }) => {
+  const [scope, setScope] = useState<Scope>(modelId ? 'model' : 'workspace');
+  const [workspaceRoot, setWorkspaceRoot] = useState<string | undefined>();
+  const [form, setForm] = useState<FormValues>(EMPTY_FORM);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    window.api?.getCurrentWorkspace?.()
+      .then(root => setWorkspaceRoot(root || undefined))
+      .catch(error => console.warn('Failed to get current workspace:', error));
+  }, []);
+
+  const key = scope === 'model' ? modelId : workspaceRoot;
+
+  // Show the saved options whenever the scope or its key changes
+  useEffect(() => {
+    const settings = modelManager.getGenerationSettings();
+    const saved = key ? (scope === 'model' ? settings.models : settings.workspaces)[key] : undefined;
+    setForm(toForm(saved));
+    setMessage(null);
+  }, [scope, key]);
+
+  const save = (options: GenerationOptions | null) => {
+    if (!key) return;
+    if (scope === 'model') {
+      modelManager.setModelGenerationOptions(key, options);
+    } else {
+      modelManager.setWorkspaceGenerationOptions(key, options);
+    }
+    setForm(toForm(options ?? undefined));
+    setMessage({ text: options ? 'Saved' : 'Cleared', isError: false });
+  };
+
+  const handleSave = () => {
+    const result = fromForm(form);
+    if ('error' in result) {
+      setMessage({ text: result.error, isError: true });
+      return;
+    }
+    save(result.options);
+  };
+
+  const inputClass = 'w-full text-xs px-2 py-1 rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring';
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={scope}
+        onChange={(e) => setScope(e.target.value as Scope)}
+        className={inputClass}
+      >
+        <option value="model" disabled={!modelId}>
+          {modelId ? `Model: ${modelId}` : 'Model: none selected'}
+        </option>
+        <option value="workspace" disabled={!workspaceRoot}>
+          {workspaceRoot ? `Workspace: ${workspaceRoot}` : 'Workspace: none open'}
+        </option>
+      </select>
+
+      <div className="grid grid-cols-5 gap-2">
+        {NUMBER_FIELDS.map(field => (
+          <label key={field.key} className="text-xs text-muted-foreground">
+            {field.label}
+            <input
+              type="text"
+              inputMode="decimal"
+              value={form[field.key]}
+              onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+              placeholder="default"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="block text-xs text-muted-foreground">
+        stop (one sequence per line)
+        <textarea
+          value={form.stop}
+          onChange={(e) => setForm({ ...form, stop: e.target.value })}
+          rows={2}
+          className={`${inputClass} mt-1 resize-none`}
+        />
+      </label>
+
+      <div className="flex items-center justify-end gap-2">
+        {message && (
+          <span className={`text-xs mr-auto ${message.isError ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {message.text}
+          </span>
+        )}
+        <button
+          onClick={() => save(null)}
+          disabled={!key}
+          className="px-3 py-1 text-xs rounded border border-border hover:bg-muted disabled:opacity-50"
+        >
+          Clear
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!key}
+          className="flex items-center gap-1 px-3 py-1 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          <Save className="w-3 h-3" />
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,377 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Download, Trash2, Info, Square, Power, RefreshCw, Cpu, Save } from 'lucide-react';
+import { ModelInfo, OllamaShowResponse } from '../agent';
+import { OllamaUtils } from '../agent/models/ollamaService';
+import type { OpenAICompatibleConfig } from '../agent/models/openaiAdapter';
+import { useModelLibrary } from './hooks/useModelLibrary';
+import { GenerationOptionsEditor } from './GenerationOptionsEditor';
+
+export interface ModelManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Installed models; only Ollama's are managed here */
+  models: ModelInfo[];
+  /** Called after a model was pulled or deleted */
+  onModelsChanged: () => void;
+  /** Model the chat uses; its generation options can be edited here */
+  selectedModelId?: string;
+  /** Saved OpenAI-compatible server, or null when none is set up */
+  openaiCompatibleConfig: OpenAICompatibleConfig | null;
+  /** Save the server, or pass null to stop using it */
+  onSaveOpenAICompatible: (config: OpenAICompatibleConfig | null) => Promise<void>;
+}
+
+// Longest license text shown before it is cut off
+const MAX_LICENSE_CHARS = 600;
+
+export const ModelManagerModal: React.FC<ModelManagerModalProps> = ({
+  isOpen,
+  onClose,
+  models,
+  onModelsChanged,
+  selectedModelId,
+  openaiCompatibleConfig,
+  onSaveOpenAICompatible
+}) => {
+  const {
+    pulls,
+    runningModels,
+    error,
+    pullModel,
+    cancelPull,
+    deleteModel,
+    showModel,
+    unloadModel,
+    refreshRunning,
+    clearPull,
+  } = useModelLibrary(isOpen, onModelsChanged);
+
+  const [modelName, setModelName] = useState('');
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
+  const [details, setDetails] = useState<OllamaShowResponse | null>(null);
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+  const [serverUrl, setServerUrl] = useState('');
+  const [serverKey, setServerKey] = useState('');
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [isSavingServer, setIsSavingServer] = useState(false);
+
+  // Start from the saved server each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setServerUrl(openaiCompatibleConfig?.baseUrl ?? '');
+    setServerKey(openaiCompatibleConfig?.apiKey ?? '');
+    setServerError(null);
+  }, [isOpen, openaiCompatibleConfig]);
+
+  const ollamaModels = models.filter(model => model.provider === 'ollama');
+
+  const handlePull = () => {
+    const name = modelName.trim();
+    if (!name) return;
+    setModelName('');
+    clearPull(name);
+    pullModel(name);
+  };
+
+  const handleShowDetails = async (name: string) => {
+    if (selectedModel === name) {
+      setSelectedModel(null);
+      return;
+    }
+    setSelectedModel(name);
+    setDetails(null);
+    setIsLoadingDetails(true);
+    setDetails(await showModel(name));
+    setIsLoadingDetails(false);
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!window.confirm(`Delete ${name}? Its files are removed from disk.`)) return;
+    if (selectedModel === name) setSelectedModel(null);
+    await deleteModel(name);
+  };
+
+  const handleSaveServer = async (config: OpenAICompatibleConfig | null) => {
+    setServerError(null);
+    setIsSavingServer(true);
+    try {
+      await onSaveOpenAICompatible(config);
+    } catch (error) {
+      setServerError(error instanceof Error ? error.message : 'Failed to save the server settings');
+    } finally {
+      setIsSavingServer(false);
+    }
+  };
+
+  const formatExpiry = (expiresAt: string) => {
+    const ms = new Date(expiresAt).getTime() - Date.now();
+    if (Number.isNaN(ms) || ms <= 0) return 'unloading';
+    const minutes = Math.ceil(ms / 60000);
+    return minutes < 60 ? `idle unload in ${minutes}m` : 'kept loaded';
+  };
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-background text-foreground border border-border rounded-lg shadow-xl w-11/12 max-w-2xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-3 border-b border-border">
+          <div className="flex items-center gap-2">
+            <Cpu className="w-5 h-5 text-primary" />
+            <h2 className="font-semibold text-sm">Models</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-muted rounded transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-3 py-2 bg-destructive/10 border-b border-border">
+            <p className="text-xs text-destructive">{error}</p>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-4">
+          {/* Pull */}
+          <section>
+            <h3 className="text-xs font-semibold text-muted-foreground mb-2">Pull a model</h3>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={modelName}
+                onChange={(e) => setModelName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handlePull()}
+                placeholder="e.g. llama3.2:3b or qwen2.5-coder:7b"
+                className="flex-1 text-xs px-2 py-1 rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+              <button
+                onClick={handlePull}
+                disabled={!modelName.trim()}
+                className="flex items-center gap-1 px-3 py-1 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              >
+                <Download className="w-3 h-3" />
+                Pull
+              </button>
+            </div>
+
+            {Object.values(pulls).map(pull => (
+              <div key={pull.model} className="mt-2 p-2 rounded border border-border">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium truncate">{pull.model}</span>
+                  {pull.state === 'pulling' ? (
+                    <button
+                      onClick={() => cancelPull(pull.model)}
+                      className="p-1 hover:bg-muted rounded transition-colors"
+                      title="Cancel pull"
+                    >
+                      <Square className="w-3 h-3" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => clearPull(pull.model)}
+                      className="p-1 hover:bg-muted rounded transition-colors"
+                      title="Dismiss"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground mt-1">
+                  <span className="truncate">
+                    {pull.state === 'done' ? 'Installed' : pull.error || pull.status}
+                  </span>
+                  {pull.state === 'pulling' && pull.total !== undefined && (
+                    <span>
+                      {OllamaUtils.formatSize(pull.completed || 0)} / {OllamaUtils.formatSize(pull.total)}
+                    </span>
+                  )}
+                </div>
+                {pull.state === 'pulling' && (
+                  <div className="mt-1 h-1 rounded bg-muted overflow-hidden">
+                    <div
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${pull.percent ?? 0}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+
+          {/* Loaded models */}
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-muted-foreground">Loaded in memory</h3>
+              <button
+                onClick={refreshRunning}
+                className="p-1 hover:bg-muted rounded transition-colors"
+                title="Refresh loaded models"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </button>
+            </div>
+            {runningModels.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No models loaded</p>
+            ) : (
+              runningModels.map(model => (
+                <div key={model.name} className="flex items-center justify-between text-xs py-1">
+                  <div className="min-w-0">
+                    <span className="font-medium">{model.name}</span>
+                    <span className="ml-2 text-muted-foreground">
+                      {OllamaUtils.formatSize(model.size_vram)} VRAM
+                      {model.size > model.size_vram && ` • ${OllamaUtils.formatSize(model.size - model.size_vram)} RAM`}
+                      {` • ${formatExpiry(model.expires_at)}`}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => unloadModel(model.name)}
+                    className="p-1 hover:bg-muted rounded transition-colors"
+                    title="Unload from memory"
+                  >
+                    <Power className="w-3 h-3" />
+                  </button>
+                </div>
+              ))
+            )}
+          </section>
+
+          {/* Installed models */}
+          <section>
+            <h3 className="text-xs font-semibold text-muted-foreground mb-2">Installed</h3>
+            {ollamaModels.length === 0 && (
+              <p className="text-xs text-muted-foreground">No Ollama models installed</p>
+            )}
+            {ollamaModels.map(model => (
+              <div key={model.id} className="border-b border-border last:border-b-0 py-1">
+                <div className="flex items-center justify-between text-xs">
+                  <div className="min-w-0">
+                    <span className="font-medium">{model.name}</span>
+                    <span className="ml-2 text-muted-foreground">
+                      {[model.parameterSize, model.size ? OllamaUtils.formatSize(model.size) : undefined]
+                        .filter(Boolean)
+                        .join(' • ')}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleShowDetails(model.name)}
+                      className="p-1 hover:bg-muted rounded transition-colors"
+                      title="Show details"
+                    >
+                      <Info className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(model.name)}
+                      disabled={pulls[model.name]?.state === 'pulling'}
+                      className="p-1 hover:bg-muted rounded transition-colors disabled:opacity-50"
+                      title="Delete model"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+
+                {selectedModel === model.name && (
+                  <div className="mt-1 mb-2 p-2 rounded bg-muted/30 text-xs space-y-2">
+                    {isLoadingDetails && <p className="text-muted-foreground">Loading details...</p>}
+                    {details && (
+                      <>
+                        <p>
+                          {[
+                            details.details?.family,
+                            details.details?.parameter_size,
+                            details.details?.quantization_level,
+                            details.details?.format
+                          ].filter(Boolean).join(' • ')}
+                        </p>
+                        {details.parameters && (
+                          <div>
+                            <p className="font-medium">Parameters</p>
+                            <pre className="bg-muted/50 p-2 rounded overflow-x-auto">{details.parameters}</pre>
+                          </div>
+                        )}
+                        {details.template && (
+                          <div>
+                            <p className="font-medium">Template</p>
+                            <pre className="bg-muted/50 p-2 rounded overflow-x-auto max-h-40">{details.template}</pre>
+                          </div>
+                        )}
+                        {details.license && (
+                          <div>
+                            <p className="font-medium">License</p>
+                            <pre className="bg-muted/50 p-2 rounded overflow-x-auto max-h-40 whitespace-pre-wrap">
+                              {details.license.length > MAX_LICENSE_CHARS
+                                ? `${details.license.slice(0, MAX_LICENSE_CHARS)}...`
+                                : details.license}
+                            </pre>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+
+          {/* Generation options */}
+          <section>
+            <h3 className="text-xs font-semibold text-muted-foreground mb-2">Generation options</h3>
+            <GenerationOptionsEditor modelId={selectedModelId || undefined} />
+          </section>
+
+          {/* OpenAI-compatible server */}
+          <section>
+            <h3 className="text-xs font-semibold text-muted-foreground mb-2">OpenAI-compatible server</h3>
+            <p className="text-xs text-muted-foreground mb-2">
+              Lists the server's models next to Ollama's. Embedding models such as openai:nomic-embed-text use it too.
+            </p>
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="Base URL, e.g. http://localhost:8080/v1"
+                className="w-full text-xs px-2 py-1 rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+              <input
+                type="password"
+                value={serverKey}
+                onChange={(e) => setServerKey(e.target.value)}
+                placeholder="API key (optional)"
+                className="w-full text-xs px-2 py-1 rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+              />
+              {serverError && <p className="text-xs text-destructive">{serverError}</p>}
+              <div className="flex justify-end gap-2">
+                {openaiCompatibleConfig && (
+                  <button
+                    onClick={() => handleSaveServer(null)}
+                    disabled={isSavingServer}
+                    className="px-3 py-1 text-xs rounded border border-border hover:bg-muted disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+                <button
+                  onClick={() => handleSaveServer({ baseUrl: serverUrl.trim(), apiKey: serverKey.trim() || undefined })}
+                  disabled={isSavingServer || !serverUrl.trim()}
+                  className="flex items-center gap-1 px-3 py-1 text-xs rounded bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+                >
+                  <Save className="w-3 h-3" />
+                  Save
+                </button>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -1,8 +1,23 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
-import { ChatMessage, ChatContextType, ModelInfo } from '../../agent/types';
-import { chatAgent } from '../../agent/chat/agent';
+import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect, useRef } from 'react';
+import { AgentToolStep, ChatMessage, ChatContextType, ChatSessionSummary, ModelInfo } from '../../agent/types';
+import { agentClient, chatSessionClient, PinnedContextEstimate } from '../../agent';
+import { chatAgent, SlashCommandSources } from '../../agent/chat/agent';
 import { modelManager } from '../../agent/models/modelManager';
+import type { OpenAICompatibleConfig } from '../../agent/models/openaiAdapter';
 import { FileOpsParser, FileOp, ParseResult } from '../../agent/chat/fileOpsParser';
+import { linkMessages, getSiblings, forkBefore, switchBranch as switchConversationBranch } from '../../agent/chat/conversationTree';
+import { BUILTIN_SLASH_COMMANDS, SlashCommand, mergeSlashCommands, parseSlashCommand, renderSlashPrompt } from '../../agent/chat/slashCommands';
+import {
+  Mention,
+  MentionSuggestion,
+  WorkspaceEntry,
+  addMention,
+  extractMentions,
+  flattenWorkspaceTree,
+  getMentionSuggestions,
+  isSameMention,
+  toContextPins
+} from '../../agent/chat/mentions';
 import { FileChangeApproval } from '../FileChangeModal';
 
 // Extended context type with file operations
@@ -20,6 +35,46 @@ interface ExtendedChatContextType extends ChatContextType {
   // Chat control
   stopChat: () => void;
   canStopChat: boolean;
+
+  // Saved sessions of the workspace
+  sessions: ChatSessionSummary[];
+  currentSessionId: string;
+  sessionQuery: string;
+  newSession: () => void;
+  resumeSession: (id: string) => Promise<void>;
+  renameSession: (id: string, title: string) => Promise<void>;
+  deleteSession: (id: string) => Promise<void>;
+  searchSessions: (query: string) => Promise<void>;
+
+  // Branches: edited and regenerated messages
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  regenerateMessage: (messageId: string, modelId?: string) => Promise<void>;
+  switchBranch: (messageId: string) => void;
+  getMessageSiblings: (messageId: string) => ChatMessage[];
+
+  // OpenAI-compatible server, used for chat here and for embeddings in the main process
+  openaiCompatibleConfig: OpenAICompatibleConfig | null;
+  setOpenAICompatibleConfig: (config: OpenAICompatibleConfig | null) => Promise<void>;
+
+  // Agent tools
+  allowAgentCommands: boolean;
+  setAllowAgentCommands: (allow: boolean) => void;
+  respondToToolStep: (stepId: string, approved: boolean) => void;
+
+  // Slash commands, built-in and from the workspace's config
+  slashCommands: SlashCommand[];
+  refreshSlashCommands: () => Promise<void>;
+  /** Run a message that starts with a known command; false for anything else */
+  runSlashCommand: (text: string, sources: SlashCommandSources) => Promise<boolean>;
+
+  // Files, folders, notes and symbols pinned with @-mentions
+  pinnedMentions: Mention[];
+  /** Tokens the pins take, once estimated for the selected model */
+  pinnedEstimate?: PinnedContextEstimate;
+  addPinnedMention: (mention: Mention) => void;
+  removePinnedMention: (mention: Mention) => void;
+  /** Suggestions for the text typed after an @; an empty query reloads the tree */
+  searchMentions: (query: string) => Promise<MentionSuggestion[]>;
   
   // File operations actions
   setPendingFileOperations: (operations: FileOp[]) => void;
@@ -37,16 +92,44 @@ interface ExtendedChatContextType extends ChatContextType {
 
 const ChatContext = createContext<ExtendedChatContextType | null>(null);
 
+// Wait this long after the last change before saving, so streamed chunks
+// are written once the answer is complete
+const SESSION_SAVE_DELAY_MS = 500;
+const SESSION_TITLE_LENGTH = 60;
+const MENTION_SUGGESTION_LIMIT = 10;
+
+const generateMessageId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const upsertToolStep = (steps: AgentToolStep[] = [], step: AgentToolStep): AgentToolStep[] =>
+  steps.some(existing => existing.id === step.id)
+    ? steps.map(existing => existing.id === step.id ? step : existing)
+    : [...steps, step];
+
+const generateSessionId = () => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Title for a new session: the start of its first user message
+ */
+const deriveSessionTitle = (messages: ChatMessage[]): string => {
+  const firstMessage = messages.find(message => message.role === 'user');
+  const first = (firstMessage?.command ?? firstMessage?.content)?.trim().replace(/\s+/g, ' ');
+  if (!first) return 'New chat';
+  return first.length > SESSION_TITLE_LENGTH ? `${first.slice(0, SESSION_TITLE_LENGTH - 3)}...` : first;
+};
+
 interface ChatProviderProps {
   children: ReactNode;
 }
 
 export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Messages left off the shown conversation by edits and regenerations
+  const [branches, setBranches] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedModel, setSelectedModelState] = useState<string>('');
   const [mode, setMode] = useState<'ask' | 'agent'>('agent');
   const [availableModels, setAvailableModels] = useState<ModelInfo[]>([]);
+  const [openaiCompatibleConfig, setOpenAICompatibleConfigState] = useState(() => modelManager.getOpenAICompatibleConfig());
   const [error, setError] = useState<string | undefined>();
   const [isLoadingModels, setIsLoadingModels] = useState(true);
 
@@ -63,9 +146,37 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
   // Abort controller for stopping chat streams
   const [currentAbortController, setCurrentAbortController] = useState<AbortController | null>(null);
 
-  // Initialize models on mount
+  // Agent tools: commands are opt-in, and calls that write or execute
+  // wait here until the user answers
+  const [allowAgentCommands, setAllowAgentCommands] = useState(false);
+  const toolApprovalsRef = useRef(new Map<string, (approved: boolean) => void>());
+
+  // Slash commands
+  const [slashCommands, setSlashCommands] = useState<SlashCommand[]>(BUILTIN_SLASH_COMMANDS);
+
+  // @-mentions
+  const [pinnedMentions, setPinnedMentions] = useState<Mention[]>([]);
+  const [pinnedEstimate, setPinnedEstimate] = useState<PinnedContextEstimate | undefined>();
+  const workspaceEntriesRef = useRef<WorkspaceEntry[]>([]);
+
+  // Saved sessions
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [sessionQuery, setSessionQuery] = useState('');
+  const [currentSessionId, setCurrentSessionId] = useState<string>(generateSessionId);
+  const sessionRef = useRef({ title: '', createdAt: Date.now() });
+  // Session state as last loaded or saved; an unchanged session is not saved again
+  const savedMessagesRef = useRef<ChatMessage[]>(messages);
+  const savedBranchesRef = useRef<ChatMessage[]>(branches);
+  const savedPinsRef = useRef<Mention[]>(pinnedMentions);
+  const savedModelRef = useRef<string | undefined>(selectedModel);
+  const savedModeRef = useRef(mode);
+  // The save that is waiting out SESSION_SAVE_DELAY_MS
+  const pendingSaveRef = useRef<{ timeout: ReturnType<typeof setTimeout>; save: () => Promise<void> } | null>(null);
+
+  // Initialize models on mount, then reopen the most recent session
   useEffect(() => {
-    initializeModels();
+    initializeModels().then(restoreLatestSession);
+    refreshSlashCommands();
     
     // Add listener for model updates
     const handleModelUpdate = (models: ModelInfo[]) => {
@@ -87,6 +198,12 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
       // Initialize model manager and get available models
       const models = await modelManager.initialize();
       setAvailableModels(models);
+
+      // The main process embeds with `openai:` models too
+      if (window.electronAPI?.agent) {
+        agentClient.updateConfig({ openaiCompatible: modelManager.getOpenAICompatibleConfig() })
+          .catch(error => console.warn('Failed to send OpenAI-compatible settings:', error));
+      }
       
       // Get saved model from localStorage or use default
       let savedModelId = modelManager.getSelectedModelId();
@@ -115,8 +232,212 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     modelManager.setSelectedModelId(modelId);
   }, []);
 
+  const refreshSessions = useCallback(async (query: string = sessionQuery) => {
+    if (!window.electronAPI?.chatSessions) return;
+    try {
+      setSessions(await chatSessionClient.listSessions(query || undefined));
+    } catch (error) {
+      console.error('Failed to list chat sessions:', error);
+    }
+  }, [sessionQuery]);
+
+  // Reload the workspace's commands, so edits to its config show up
+  const refreshSlashCommands = useCallback(async () => {
+    if (!window.electronAPI?.chatCommands) return;
+    try {
+      const { commands, errors } = await chatSessionClient.listCommands();
+      errors.forEach(problem => console.warn('Slash commands:', problem));
+      setSlashCommands(mergeSlashCommands(commands));
+    } catch (error) {
+      console.error('Failed to load slash commands:', error);
+    }
+  }, []);
+
+  const restoreLatestSession = async () => {
+    if (!window.electronAPI?.chatSessions) return;
+    try {
+      const saved = await chatSessionClient.listSessions();
+      setSessions(saved);
+      if (saved.length > 0) {
+        await resumeSession(saved[0].id);
+      }
+    } catch (error) {
+      console.error('Failed to restore chat session:', error);
+    }
+  };
+
+  // Save the current session after its messages, model or mode change
+  useEffect(() => {
+    if (!window.electronAPI?.chatSessions) return;
+    if (messages.length === 0) return;
+    if (
+      messages === savedMessagesRef.current &&
+      branches === savedBranchesRef.current &&
+      pinnedMentions === savedPinsRef.current &&
+      selectedModel === savedModelRef.current &&
+      mode === savedModeRef.current
+    ) return;
+
+    const save = async () => {
+      const session = sessionRef.current;
+      if (!session.title) {
+        session.title = deriveSessionTitle(messages);
+      }
+      try {
+        await chatSessionClient.saveSession({
+          id: currentSessionId,
+          title: session.title,
+          modelId: selectedModel,
+          mode,
+          createdAt: session.createdAt,
+          updatedAt: Date.now(),
+          messages,
+          branches,
+          pinnedMentions
+        });
+        // A flushed save can finish after another session was opened
+        if (sessionRef.current === session) {
+          savedMessagesRef.current = messages;
+          savedBranchesRef.current = branches;
+          savedPinsRef.current = pinnedMentions;
+          savedModelRef.current = selectedModel;
+          savedModeRef.current = mode;
+        }
+        await refreshSessions();
+      } catch (error) {
+        console.error('Failed to save chat session:', error);
+      }
+    };
+    const timeout = setTimeout(() => {
+      pendingSaveRef.current = null;
+      save();
+    }, SESSION_SAVE_DELAY_MS);
+    pendingSaveRef.current = { timeout, save };
+
+    return () => {
+      clearTimeout(timeout);
+      if (pendingSaveRef.current?.timeout === timeout) {
+        pendingSaveRef.current = null;
+      }
+    };
+  }, [messages, branches, pinnedMentions, currentSessionId, selectedModel, mode, refreshSessions]);
+
+  // Save right away what the delayed save would have saved, before the
+  // session it belongs to is replaced
+  const flushPendingSave = useCallback(async () => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    clearTimeout(pending.timeout);
+    await pending.save();
+  }, []);
+
+  // Drop the delayed save, e.g. of a session that is being deleted
+  const discardPendingSave = useCallback(() => {
+    if (pendingSaveRef.current) {
+      clearTimeout(pendingSaveRef.current.timeout);
+      pendingSaveRef.current = null;
+    }
+  }, []);
+
+  // Start an empty session; the previous one stays saved
+  const newSession = useCallback(() => {
+    if (isLoading) return;
+    flushPendingSave();
+    const empty: ChatMessage[] = [];
+    const noPins: Mention[] = [];
+    savedMessagesRef.current = empty;
+    savedBranchesRef.current = empty;
+    savedPinsRef.current = noPins;
+    sessionRef.current = { title: '', createdAt: Date.now() };
+    setCurrentSessionId(generateSessionId());
+    setMessages(empty);
+    setBranches(empty);
+    setPinnedMentions(noPins);
+    setError(undefined);
+    setPendingFileOperations([]);
+    setFileOperationErrors([]);
+    setFileOperationWarnings([]);
+  }, [isLoading, flushPendingSave]);
+
+  // Reopen a saved session with the model and mode it was using
+  const resumeSession = useCallback(async (id: string) => {
+    if (isLoading) return;
+    try {
+      await flushPendingSave();
+      const session = await chatSessionClient.loadSession(id);
+      if (!session) {
+        setError('Chat session not found');
+        await refreshSessions();
+        return;
+      }
+      // Sessions saved before branching have no parent ids yet
+      const sessionMessages = linkMessages(session.messages);
+      const sessionBranches = session.branches ?? [];
+      const sessionPins = session.pinnedMentions ?? [];
+      savedMessagesRef.current = sessionMessages;
+      savedBranchesRef.current = sessionBranches;
+      savedPinsRef.current = sessionPins;
+      savedModelRef.current = session.modelId;
+      savedModeRef.current = session.mode;
+      sessionRef.current = { title: session.title, createdAt: session.createdAt };
+      setCurrentSessionId(session.id);
+      setMessages(sessionMessages);
+      setBranches(sessionBranches);
+      setPinnedMentions(sessionPins);
+      setMode(session.mode);
+      if (session.modelId) {
+        setSelectedModel(session.modelId);
+      }
+      setError(undefined);
+    } catch (error) {
+      console.error('Failed to load chat session:', error);
+      setError('Failed to load chat session');
+    }
+  }, [isLoading, flushPendingSave, refreshSessions, setSelectedModel]);
+
+  const renameSession = useCallback(async (id: string, title: string) => {
+    try {
+      const renamed = await chatSessionClient.renameSession(id, title);
+      if (renamed && id === currentSessionId) {
+        sessionRef.current.title = renamed.title;
+      }
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to rename chat session:', error);
+      setError('Failed to rename chat session');
+    }
+  }, [currentSessionId, refreshSessions]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    try {
+      if (id === currentSessionId) {
+        discardPendingSave();
+      }
+      await chatSessionClient.deleteSession(id);
+      if (id === currentSessionId) {
+        newSession();
+      }
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to delete chat session:', error);
+      setError('Failed to delete chat session');
+    }
+  }, [currentSessionId, discardPendingSave, newSession, refreshSessions]);
+
+  const searchSessions = useCallback(async (query: string) => {
+    setSessionQuery(query);
+    await refreshSessions(query);
+  }, [refreshSessions]);
+
+  // New messages follow the last shown message
+  const declinePendingToolSteps = () => {
+    toolApprovalsRef.current.forEach(resolve => resolve(false));
+    toolApprovalsRef.current.clear();
+  };
+
   const addMessage = useCallback((message: ChatMessage) => {
-    setMessages(prev => [...prev, message]);
+    setMessages(prev => [...prev, { ...message, parentId: prev[prev.length - 1]?.id }]);
   }, []);
 
   const updateMessage = useCallback((messageId: string, content: string) => {
@@ -158,7 +479,8 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
         modelId,
         mode,
         activeFilePath,
-        includeFileList
+        includeFileList,
+        history: messages
       });
 
       addMessage(aiMessage);
@@ -193,11 +515,20 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [isLoading, addMessage, activeFilePath, includeFileList]);
+  }, [isLoading, addMessage, activeFilePath, includeFileList, messages]);
 
-  // Enhanced sendMessageStream with file operations support
-  const sendMessageStream = useCallback(async (message: string, modelId: string, mode: 'ask' | 'agent') => {
-    if (!message.trim() || isLoading) return;
+  // Stream an answer to a user message, with file operations support. The
+  // user message is added first unless it is already shown, as when an
+  // answer is regenerated; history is what comes before it.
+  const streamReply = useCallback(async (
+    userMessage: ChatMessage,
+    history: ChatMessage[],
+    modelId: string,
+    mode: 'ask' | 'agent',
+    isNewMessage: boolean,
+    mentions: Mention[] = pinnedMentions
+  ) => {
+    if (isLoading) return;
 
     setIsLoading(true);
     setError(undefined);
@@ -212,34 +543,31 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     setFileOperationWarnings([]);
 
     // Add user message immediately
-    const userMessage: ChatMessage = {
-      id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      role: 'user',
-      content: message.trim(),
-      timestamp: Date.now()
-    };
-
-    addMessage(userMessage);
+    if (isNewMessage) {
+      addMessage(userMessage);
+    }
 
     // Add an empty AI message that will be updated with streaming content
-    const aiMessageId = `ai_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const aiMessageId = generateMessageId('ai');
     const initialAiMessage: ChatMessage = {
       id: aiMessageId,
       role: 'assistant',
       content: '',
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      modelId
     };
 
     addMessage(initialAiMessage);
 
     try {
-      // Use the chat agent to get response with streaming
-      const aiMessage = await chatAgent.sendMessageStream({
-        message: message.trim(),
+      const request = {
+        message: userMessage.content,
         modelId,
         mode,
         activeFilePath,
         includeFileList,
+        ...toContextPins(mentions),
+        history,
         abortSignal: abortController.signal,
         onChunk: (chunk: string) => {
           // Update the message content with each chunk
@@ -251,13 +579,34 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
             )
           );
         }
-      });
+      };
+
+      // Agent mode calls tools over several turns; ask mode answers at once
+      const aiMessage = mode === 'agent'
+        ? await chatAgent.runAgent({
+            ...request,
+            allowCommands: allowAgentCommands,
+            approveToolCall: (step: AgentToolStep) => new Promise<boolean>(resolve => {
+              toolApprovalsRef.current.set(step.id, resolve);
+            }),
+            // A reply that ended in a tool call is replaced by the next one
+            onToolStep: (step: AgentToolStep) => {
+              setMessages(prev =>
+                prev.map(msg =>
+                  msg.id === aiMessageId
+                    ? { ...msg, content: '', toolSteps: upsertToolStep(msg.toolSteps, step) }
+                    : msg
+                )
+              );
+            }
+          })
+        : await chatAgent.sendMessageStream(request);
 
-      // Update with final content (in case there are any differences)
+      // Update with final content (in case there are any differences) and token counts
       setMessages(prev => 
         prev.map(msg => 
           msg.id === aiMessageId 
-            ? { ...msg, content: aiMessage.content } 
+            ? { ...msg, content: aiMessage.content, usage: aiMessage.usage, toolSteps: aiMessage.toolSteps } 
             : msg
         )
       );
@@ -304,17 +653,207 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
       setCurrentAbortController(null);
+      declinePendingToolSteps();
     }
-  }, [isLoading, addMessage, setMessages, activeFilePath, includeFileList]);
+  }, [isLoading, addMessage, setMessages, activeFilePath, includeFileList, allowAgentCommands, pinnedMentions]);
+
+  const sendMessageStream = useCallback(async (message: string, modelId: string, mode: 'ask' | 'agent') => {
+    if (!message.trim() || isLoading) return;
+
+    const userMessage: ChatMessage = {
+      id: generateMessageId('user'),
+      role: 'user',
+      content: message.trim(),
+      timestamp: Date.now()
+    };
+
+    // Mentions typed out in full are pinned like picked ones
+    const mentions = extractMentions(message, workspaceEntriesRef.current).reduce(addMention, pinnedMentions);
+    if (mentions !== pinnedMentions) {
+      setPinnedMentions(mentions);
+    }
+
+    await streamReply(userMessage, messages, modelId, mode, true, mentions);
+  }, [isLoading, messages, pinnedMentions, streamReply]);
+
+  // Resend an earlier user message with new content. The original and the
+  // answers after it stay as a branch.
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const index = messages.findIndex(message => message.id === messageId);
+    if (!content.trim() || isLoading || index === -1 || messages[index].role !== 'user') return;
+
+    const forked = forkBefore({ messages, branches }, messageId);
+    setMessages(forked.messages);
+    setBranches(forked.branches);
+
+    const userMessage: ChatMessage = {
+      id: generateMessageId('user'),
+      role: 'user',
+      content: content.trim(),
+      timestamp: Date.now()
+    };
+
+    await streamReply(userMessage, forked.messages, selectedModel, mode, true);
+  }, [messages, branches, isLoading, selectedModel, mode, streamReply]);
+
+  // Answer the user message before an assistant reply again, optionally
+  // with another model. The previous reply stays as a branch.
+  const regenerateMessage = useCallback(async (messageId: string, modelId?: string) => {
+    const index = messages.findIndex(message => message.id === messageId);
+    const userMessage = messages[index - 1];
+    if (isLoading || index === -1 || messages[index].role !== 'assistant' || userMessage?.role !== 'user') return;
+
+    const forked = forkBefore({ messages, branches }, messageId);
+    setMessages(forked.messages);
+    setBranches(forked.branches);
+
+    await streamReply(userMessage, forked.messages.slice(0, index - 1), modelId || selectedModel, mode, false);
+  }, [messages, branches, isLoading, selectedModel, mode, streamReply]);
+
+  // Show another edit or regeneration of a message
+  const switchBranch = useCallback((messageId: string) => {
+    if (isLoading) return;
+    const switched = switchConversationBranch({ messages, branches }, messageId);
+    setMessages(switched.messages);
+    setBranches(switched.branches);
+  }, [messages, branches, isLoading]);
+
+  const getMessageSiblings = useCallback((messageId: string) => {
+    return getSiblings({ messages, branches }, messageId);
+  }, [messages, branches]);
 
   // Function to stop the current chat stream
   const stopChat = useCallback(() => {
     if (currentAbortController) {
       currentAbortController.abort();
       setCurrentAbortController(null);
+      declinePendingToolSteps();
     }
   }, [currentAbortController]);
 
+  // Run a slash command: actions change the chat, prompt commands send
+  // their filled-in template, answered in the chat or as proposed edits
+  const runSlashCommand = useCallback(async (text: string, sources: SlashCommandSources) => {
+    const parsed = parseSlashCommand(text, slashCommands);
+    if (!parsed) return false;
+    const { command, input } = parsed;
+
+    switch (command.action) {
+      case 'clear':
+        newSession();
+        return true;
+      case 'model': {
+        const wanted = input.toLowerCase();
+        const model = availableModels.find(candidate => candidate.id.toLowerCase() === wanted)
+          ?? availableModels.find(candidate => candidate.id.toLowerCase().includes(wanted) || candidate.name.toLowerCase().includes(wanted));
+        if (!wanted || !model) {
+          setError(wanted ? `No model matches "${input}"` : 'Usage: /model <id>');
+        } else {
+          setSelectedModel(model.id);
+          setError(undefined);
+        }
+        return true;
+      }
+      case 'mode':
+        if (input === 'ask' || input === 'agent') {
+          setMode(input);
+          setError(undefined);
+        } else {
+          setError('Usage: /mode ask|agent');
+        }
+        return true;
+    }
+
+    if (isLoading || !command.template) return true;
+
+    const recipes = command.context ?? [];
+    const context = recipes.length > 0 ? await chatAgent.buildCommandContext(recipes, sources) : '';
+    if (recipes.length > 0 && !context) {
+      setError(`Nothing to use for /${command.name}: open a file${recipes.includes('selection') ? ' or select some code' : ''}`);
+      return true;
+    }
+
+    const userMessage: ChatMessage = {
+      id: generateMessageId('user'),
+      role: 'user',
+      content: renderSlashPrompt(command.template, {
+        input,
+        context,
+        file: sources.filePath,
+        selection: sources.selection
+      }),
+      command: text.trim(),
+      timestamp: Date.now()
+    };
+
+    await streamReply(userMessage, messages, selectedModel, command.output === 'edits' ? 'agent' : 'ask', true);
+    return true;
+  }, [slashCommands, availableModels, isLoading, messages, selectedModel, newSession, setSelectedModel, streamReply]);
+
+  const addPinnedMention = useCallback((mention: Mention) => {
+    setPinnedMentions(prev => addMention(prev, mention));
+  }, []);
+
+  const removePinnedMention = useCallback((mention: Mention) => {
+    setPinnedMentions(prev => prev.filter(existing => !isSameMention(existing, mention)));
+  }, []);
+
+  // Suggest workspace entries from the tree and symbols from the index
+  const searchMentions = useCallback(async (query: string) => {
+    if (!query || workspaceEntriesRef.current.length === 0) {
+      try {
+        const [tree, root] = await Promise.all([window.api?.listFilesAndFolders(), window.api?.getCurrentWorkspace()]);
+        workspaceEntriesRef.current = flattenWorkspaceTree(tree ?? [], root ?? '');
+      } catch (error) {
+        console.error('Failed to list workspace files:', error);
+      }
+    }
+
+    let symbols: Array<{ name: string; kind: string; path: string }> = [];
+    if (query && window.electronAPI?.agent) {
+      try {
+        symbols = await agentClient.searchSymbols(query, MENTION_SUGGESTION_LIMIT);
+      } catch (error) {
+        // The index may not be built yet; files are still suggested
+        console.warn('Failed to search symbols:', error);
+      }
+    }
+    return getMentionSuggestions(query, workspaceEntriesRef.current, symbols, MENTION_SUGGESTION_LIMIT);
+  }, []);
+
+  // Estimate what the pins cost whenever they or the model change
+  useEffect(() => {
+    if (pinnedMentions.length === 0 || !window.electronAPI?.agent) {
+      setPinnedEstimate(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    agentClient.estimatePinnedContext({ modelId: selectedModel || undefined, ...toContextPins(pinnedMentions) })
+      .then(estimate => {
+        if (!cancelled) setPinnedEstimate(estimate);
+      })
+      .catch(error => console.warn('Failed to estimate pinned context:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pinnedMentions, selectedModel]);
+
+  // The main process refuses commands unless they are turned on there too
+  useEffect(() => {
+    if (!window.electronAPI?.agent) return;
+    agentClient.setAllowCommands(allowAgentCommands)
+      .catch(error => console.warn('Failed to update command permission:', error));
+  }, [allowAgentCommands]);
+
+  // Answer a tool call waiting for approval
+  const respondToToolStep = useCallback((stepId: string, approved: boolean) => {
+    const resolve = toolApprovalsRef.current.get(stepId);
+    if (!resolve) return;
+    toolApprovalsRef.current.delete(stepId);
+    resolve(approved);
+  }, []);
+
   // File operations handlers
   const onApproveFileOperations = useCallback(async (approvals: FileChangeApproval[]) => {
     try {
@@ -400,10 +939,10 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     addMessage(rejectionMessage);
   }, [addMessage]);
 
+  // Clearing starts a new session so the conversation can still be resumed
   const clearMessages = useCallback(() => {
-    setMessages([]);
-    setError(undefined);
-  }, []);
+    newSession();
+  }, [newSession]);
 
   const setLoadingWrapper = useCallback((loading: boolean) => {
     setIsLoading(loading);
@@ -435,6 +974,22 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     }
   }, [selectedModel, setSelectedModel]);
 
+  // Save the server for both processes, then list its models
+  const setOpenAICompatibleConfig = useCallback(async (config: OpenAICompatibleConfig | null) => {
+    if (window.electronAPI?.agent) {
+      await agentClient.updateConfig({ openaiCompatible: config });
+    }
+    setOpenAICompatibleConfigState(config);
+    const models = await modelManager.setOpenAICompatibleConfig(config);
+
+    if (selectedModel && !models.find(m => m.id === selectedModel)) {
+      const defaultModel = await modelManager.getDefaultModel();
+      if (defaultModel) {
+        setSelectedModel(defaultModel.id);
+      }
+    }
+  }, [selectedModel, setSelectedModel]);
+
   const contextValue: ExtendedChatContextType = {
     // State
     messages,
@@ -466,6 +1021,8 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     setLoading: setLoadingWrapper,
     setError: setErrorWrapper,
     refreshModels,
+    openaiCompatibleConfig,
+    setOpenAICompatibleConfig,
     
     // File operations actions
     setPendingFileOperations,
@@ -483,6 +1040,39 @@ export const ChatProvider: React.FC<ChatProviderProps> = ({ children }) => {
     // Chat control
     stopChat,
     canStopChat: currentAbortController !== null,
+
+    // Saved sessions
+    sessions,
+    currentSessionId,
+    sessionQuery,
+    newSession,
+    resumeSession,
+    renameSession,
+    deleteSession,
+    searchSessions,
+
+    // Branches
+    editMessage,
+    regenerateMessage,
+    switchBranch,
+    getMessageSiblings,
+
+    // Agent tools
+    allowAgentCommands,
+    setAllowAgentCommands,
+    respondToToolStep,
+
+    // Slash commands
+    slashCommands,
+    refreshSlashCommands,
+    runSlashCommand,
+
+    // @-mentions
+    pinnedMentions,
+    pinnedEstimate,
+    addPinnedMention,
+    removePinnedMention,
+    searchMentions,
   };
 
   return (
@@ -0,0 +1,48 @@
+import { useState, useCallback, useEffect } from 'react';
+import { agentClient, IndexingProgress } from '../../agent';
+
+export interface UseIndexingProgressReturn {
+  progress: IndexingProgress | null;
+  isIndexing: boolean;
+  error: string | null;
+  startIndexing: () => Promise<void>;
+  cancelIndexing: () => Promise<void>;
+}
+
+export const useIndexingProgress = (): UseIndexingProgressReturn => {
+  const [progress, setProgress] = useState<IndexingProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!window.electronAPI?.agent) return;
+    return agentClient.onIndexingProgress(setProgress);
+  }, []);
+
+  const isIndexing = progress?.phase === 'scanning' || progress?.phase === 'embedding';
+
+  const startIndexing = useCallback(async () => {
+    setError(null);
+    try {
+      await agentClient.processCodebase();
+    } catch (err) {
+      console.error('Failed to index codebase:', err);
+      setError(err instanceof Error ? err.message : 'Failed to index codebase');
+    }
+  }, []);
+
+  const cancelIndexing = useCallback(async () => {
+    try {
+      await agentClient.cancelIndexing();
+    } catch (err) {
+      console.error('Failed to cancel indexing:', err);
+    }
+  }, []);
+
+  return {
+    progress,
+    isIndexing,
+    error,
+    startIndexing,
+    cancelIndexing,
+  };
+};
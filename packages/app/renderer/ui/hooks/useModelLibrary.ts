@@ -0,0 +1,128 @@
+import { useState, useCallback, useEffect } from 'react';
+import { modelLibraryClient, ModelPullProgress, OllamaRunningModel, OllamaShowResponse } from '../../agent';
+
+// How often loaded models are re-read while the view is open
+const RUNNING_POLL_MS = 5000;
+
+export interface UseModelLibraryReturn {
+  /** Latest progress of each pull still running or just finished, by model */
+  pulls: Record<string, ModelPullProgress>;
+  runningModels: OllamaRunningModel[];
+  error: string | null;
+  pullModel: (model: string) => Promise<void>;
+  cancelPull: (model: string) => Promise<void>;
+  deleteModel: (model: string) => Promise<void>;
+  showModel: (model: string) => Promise<OllamaShowResponse | null>;
+  unloadModel: (model: string) => Promise<void>;
+  refreshRunning: () => Promise<void>;
+  clearPull: (model: string) => void;
+}
+
+/**
+ * Pull, delete, inspect and unload Ollama models. `onModelsChanged` runs
+ * after a pull or delete so model lists can refresh.
+ */
+export const useModelLibrary = (active: boolean, onModelsChanged?: () => void): UseModelLibraryReturn => {
+  const [pulls, setPulls] = useState<Record<string, ModelPullProgress>>({});
+  const [runningModels, setRunningModels] = useState<OllamaRunningModel[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up pulls started before the view opened, then follow their progress
+  useEffect(() => {
+    if (!window.electronAPI?.ollama) return;
+    modelLibraryClient.getActivePulls().then(running => {
+      setPulls(prev => ({ ...Object.fromEntries(running.map(pull => [pull.model, pull])), ...prev }));
+    }).catch(err => console.error('Failed to get active pulls:', err));
+    return modelLibraryClient.onPullProgress(progress => {
+      setPulls(prev => ({ ...prev, [progress.model]: progress }));
+    });
+  }, []);
+
+  const refreshRunning = useCallback(async () => {
+    try {
+      setRunningModels(await modelLibraryClient.getRunningModels());
+    } catch (err) {
+      console.error('Failed to list running models:', err);
+      setRunningModels([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!active || !window.electronAPI?.ollama) return;
+    refreshRunning();
+    const interval = setInterval(refreshRunning, RUNNING_POLL_MS);
+    return () => clearInterval(interval);
+  }, [active, refreshRunning]);
+
+  const pullModel = useCallback(async (model: string) => {
+    setError(null);
+    try {
+      await modelLibraryClient.pull(model);
+      onModelsChanged?.();
+    } catch (err) {
+      console.error('Failed to pull model:', err);
+      // Failures show on the pull's own row
+    }
+  }, [onModelsChanged]);
+
+  const cancelPull = useCallback(async (model: string) => {
+    try {
+      await modelLibraryClient.cancelPull(model);
+    } catch (err) {
+      console.error('Failed to cancel pull:', err);
+    }
+  }, []);
+
+  const deleteModel = useCallback(async (model: string) => {
+    setError(null);
+    try {
+      await modelLibraryClient.deleteModel(model);
+      onModelsChanged?.();
+    } catch (err) {
+      console.error('Failed to delete model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete model');
+    }
+  }, [onModelsChanged]);
+
+  const showModel = useCallback(async (model: string) => {
+    setError(null);
+    try {
+      return await modelLibraryClient.showModel(model);
+    } catch (err) {
+      console.error('Failed to show model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load model details');
+      return null;
+    }
+  }, []);
+
+  const unloadModel = useCallback(async (model: string) => {
+    setError(null);
+    try {
+      await modelLibraryClient.unloadModel(model);
+      await refreshRunning();
+    } catch (err) {
+      console.error('Failed to unload model:', err);
+      setError(err instanceof Error ? err.message : 'Failed to unload model');
+    }
+  }, [refreshRunning]);
+
+  const clearPull = useCallback((model: string) => {
+    setPulls(prev => {
+      const { [model]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return {
+    pulls,
+    runningModels,
+    error,
+    pullModel,
+    cancelPull,
+    deleteModel,
+    showModel,
+    unloadModel,
+    refreshRunning,
+    clearPull,
+  };
+};
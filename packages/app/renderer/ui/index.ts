@@ -1,5 +1,10 @@
 export { default as AgentChatPanel } from './AgentChatPanel';
 export { FileChangeModal, type FileChangeApproval, type FileChangeModalProps } from './FileChangeModal';
+export { ModelManagerModal, type ModelManagerModalProps } from './ModelManagerModal';
+export { GenerationOptionsEditor, type GenerationOptionsEditorProps } from './GenerationOptionsEditor';
+export { ChatSessionList, type ChatSessionListProps } from './ChatSessionList';
+export { AgentToolSteps, type AgentToolStepsProps } from './AgentToolSteps';
+export { useModelLibrary, type UseModelLibraryReturn } from './hooks/useModelLibrary';
 export { useFileOperations, type UseFileOperationsReturn } from './hooks/useFileOperations';
 export { FileOperationsExample } from './examples/FileOperationsExample';
 export { ChatProvider, useChatContext } from './context/ChatContext'; 
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { promises as fs } from 'node:fs';
 import * as path from 'node:path';
+import { IgnoreRules, IgnoreSource } from '@shared/utils/ignore';
+import { readIgnoreFiles, loadIgnoreRules } from './ignoreFiles';
 
 export interface NoteFile {
   id: string;
@@ -107,7 +109,8 @@ export class FileSystemService {
         await fs.mkdir(targetDir, { recursive: true });
       }
       
-      const items = await this.buildFileSystemTree(targetDir);
+      const rules = await this.ignoreRulesAbove(targetDir);
+      const items = await this.buildFileSystemTree(targetDir, this.toWorkspaceRelative(targetDir), rules);
       console.log('Found items:', items.length);
       return items;
     } catch (error) {
@@ -117,21 +120,69 @@ export class FileSystemService {
   }
 
   /**
-   * Recursively build file system tree structure
+   * Ignore rules of the workspace, as used by the tree and the agent's index
    */
-  private async buildFileSystemTree(dirPath: string, relativePath: string = ''): Promise<FileSystemItem[]> {
+  async getIgnoreRules(): Promise<IgnoreSource[]> {
+    const rules = await loadIgnoreRules(this.notesDirectory);
+    return rules.getSources();
+  }
+
+  /**
+   * Default rules plus the ignore files of every directory from the
+   * workspace root down to (not including) `dirPath`
+   */
+  private async ignoreRulesAbove(dirPath: string): Promise<IgnoreRules> {
+    const rules = new IgnoreRules();
+    const relative = this.toWorkspaceRelative(dirPath);
+    if (!relative) return rules;
+
+    let current = this.notesDirectory;
+    let currentRelative = '';
+    await readIgnoreFiles(rules, current, currentRelative);
+    for (const segment of relative.split('/').slice(0, -1)) {
+      current = path.join(current, segment);
+      currentRelative = currentRelative ? `${currentRelative}/${segment}` : segment;
+      await readIgnoreFiles(rules, current, currentRelative);
+    }
+    return rules;
+  }
+
+  /**
+   * Path from the workspace root with forward slashes, or '' for the root
+   * itself and for paths outside it
+   */
+  private toWorkspaceRelative(fullPath: string): string {
+    const relative = path.relative(this.notesDirectory, fullPath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return '';
+    return relative.split(path.sep).join('/');
+  }
+
+  /**
+   * Recursively build file system tree structure, skipping paths matched by
+   * the workspace's .gitignore and .locusignore files
+   */
+  private async buildFileSystemTree(
+    dirPath: string,
+    relativePath: string = '',
+    rules: IgnoreRules = new IgnoreRules()
+  ): Promise<FileSystemItem[]> {
+    await readIgnoreFiles(rules, dirPath, relativePath);
     const files = await fs.readdir(dirPath, { withFileTypes: true });
     const items: FileSystemItem[] = [];
 
     for (const file of files) {
       try {
         const fullPath = path.join(dirPath, file.name);
-        const itemRelativePath = path.join(relativePath, file.name);
+        const itemRelativePath = relativePath ? `${relativePath}/${file.name}` : file.name;
         
         // Skip hidden files and directories that commonly cause issues
         if (file.name.startsWith('.') && file.name !== '.md' && file.name !== '.txt') {
           continue;
         }
+
+        if (rules.ignores(itemRelativePath, file.isDirectory())) {
+          continue;
+        }
         
         let stats;
         try {
@@ -145,7 +196,7 @@ export class FileSystemService {
         if (file.isDirectory()) {
           // This is a folder
           try {
-            const children = await this.buildFileSystemTree(fullPath, itemRelativePath);
+            const children = await this.buildFileSystemTree(fullPath, itemRelativePath, rules);
             items.push({
               id: this.generateIdFromPath(fullPath),
               name: file.name,
@@ -0,0 +1,48 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { IgnoreRules, IGNORE_FILE_NAMES } from '@shared/utils/ignore';
+
+/**
+ * Add the rules of any ignore files in one directory.
+ * `relativeDir` is the directory's path from the project root.
+ */
+export async function readIgnoreFiles(rules: IgnoreRules, directory: string, relativeDir: string): Promise<void> {
+  for (const name of IGNORE_FILE_NAMES) {
+    try {
+      const patterns = await fs.readFile(path.join(directory, name), 'utf-8');
+      rules.add(patterns, relativeDir);
+    } catch {
+      // No ignore file of this kind here
+    }
+  }
+}
+
+/**
+ * Load the default rules plus every ignore file in the project. Ignored
+ * directories are not descended into, so their ignore files do not apply.
+ */
+export async function loadIgnoreRules(rootPath: string): Promise<IgnoreRules> {
+  const rules = new IgnoreRules();
+
+  const visit = async (directory: string, relativeDir: string): Promise<void> => {
+    await readIgnoreFiles(rules, directory, relativeDir);
+
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const childRelative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (!rules.ignores(childRelative, true)) {
+        await visit(path.join(directory, entry.name), childRelative);
+      }
+    }
+  };
+
+  await visit(rootPath, '');
+  return rules;
+}
@@ -1 +1,2 @@
-export * from './filesystem'; 
\ No newline at end of file
+export * from './filesystem';
+export * from './ignoreFiles';
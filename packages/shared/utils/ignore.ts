@@ -0,0 +1,241 @@
+/**
+ * Ignore rules in .gitignore syntax
+ *
+ * One engine decides what is "in" a project for the file tree, the file
+ * walker that feeds the embeddings index and the agent's project paths.
+ * Rules come from the defaults below plus every `.gitignore` and
+ * `.locusignore` in the project; rules from a nested file only apply below
+ * the directory that holds it.
+ *
+ * Pure string matching, no file system access, so it runs in the renderer
+ * too. Paths are relative to the project root and may use either separator.
+ */
+
+/** Files read for project-level ignore rules, in order of precedence */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.locusignore'];
+
+/** Always ignored: dependencies, VCS data, build output and editor state */
+export const DEFAULT_IGNORE_PATTERNS = [
+  'node_modules/',
+  '.git/',
+  '.next/',
+  'dist/',
+  'build/',
+  'out/',
+  '.nuxt/',
+  '.output/',
+  'coverage/',
+  '.nyc_output/',
+  '.vscode/',
+  '.idea/',
+  '.cursor/',
+  '__pycache__/',
+  '.pytest_cache/',
+  'target/',
+  'bin/',
+  'obj/',
+  '.vs/',
+  'Debug/',
+  'Release/',
+  'Pods/',
+  'DerivedData/',
+  '.expo/',
+  '.gradle/',
+  '.DS_Store',
+  'Thumbs.db',
+  '*.log',
+  '*.tmp',
+  '*.temp',
+  '*.lock',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  '*.min.js',
+  '*.min.css',
+  '*.map'
+];
+
+interface IgnoreRule {
+  /** Directory holding the rule's file, relative to the root ('' for root) */
+  baseDir: string;
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Serializable form of a rule file, e.g. to hand rules to the renderer
+ */
+export interface IgnoreSource {
+  baseDir: string;
+  patterns: string;
+}
+
+export class IgnoreRules {
+  private rules: IgnoreRule[] = [];
+  private sources: IgnoreSource[] = [];
+
+  constructor(patterns: string[] = DEFAULT_IGNORE_PATTERNS) {
+    if (patterns.length > 0) {
+      this.add(patterns.join('\n'));
+    }
+  }
+
+  /**
+   * Rebuild rules from sources produced by another instance
+   */
+  static fromSources(sources: IgnoreSource[]): IgnoreRules {
+    const rules = new IgnoreRules([]);
+    for (const source of sources) {
+      rules.add(source.patterns, source.baseDir);
+    }
+    return rules;
+  }
+
+  /**
+   * Add the contents of an ignore file found in `baseDir`. Later rules win
+   * over earlier ones, so nested files should be added after their parents.
+   */
+  add(patterns: string, baseDir: string = ''): void {
+    const base = normalizePath(baseDir);
+    this.sources.push({ baseDir: base, patterns });
+
+    for (const line of patterns.split(/\r?\n/)) {
+      const rule = parseRule(line, base);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+  }
+
+  getSources(): IgnoreSource[] {
+    return this.sources.map(source => ({ ...source }));
+  }
+
+  /**
+   * Whether a path is ignored. A path inside an ignored directory is always
+   * ignored, as in git: a negated pattern cannot re-include it.
+   */
+  ignores(relativePath: string, isDirectory: boolean = false): boolean {
+    const segments = normalizePath(relativePath).split('/').filter(Boolean);
+    if (segments.length === 0) return false;
+
+    for (let i = 1; i < segments.length; i++) {
+      if (this.test(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+    return this.test(segments.join('/'), isDirectory);
+  }
+
+  /**
+   * Verdict of the last rule matching this exact path
+   */
+  private test(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+
+      let subject = relativePath;
+      if (rule.baseDir) {
+        if (!relativePath.startsWith(`${rule.baseDir}/`)) continue;
+        subject = relativePath.slice(rule.baseDir.length + 1);
+      }
+
+      if (rule.regex.test(subject)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+}
+
+function normalizePath(value: string): string {
+  return value.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/^\/+|\/+$/g, '');
+}
+
+function parseRule(line: string, baseDir: string): IgnoreRule | null {
+  // Trailing spaces are ignored unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  let negate = false;
+  if (pattern.startsWith('!')) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) return null;
+
+  // A slash anywhere but the end anchors the pattern to its base directory
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+
+  const body = globToRegex(pattern);
+  return {
+    baseDir,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    negate,
+    directoryOnly
+  };
+}
+
+function globToRegex(glob: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atStart = i === 0 || glob[i - 1] === '/';
+        const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atStart && atEnd) {
+          if (i + 2 === glob.length) {
+            // Trailing "**" matches everything inside
+            result += '.*';
+          } else {
+            // "**/" matches zero or more directories
+            result += '(?:.*/)?';
+            i++;
+          }
+          i += 2;
+          continue;
+        }
+      }
+      result += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      result += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        result += '\\[';
+        i++;
+        continue;
+      }
+      let range = glob.slice(i + 1, close);
+      if (range.startsWith('!')) range = `^${range.slice(1)}`;
+      result += `[${range.replace(/\\/g, '\\\\')}]`;
+      i = close + 1;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      result += escapeRegex(glob[i + 1]);
+      i += 2;
+    } else {
+      result += escapeRegex(char);
+      i++;
+    }
+  }
+
+  return result;
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -3,4 +3,5 @@ export * from './types';
 export * from './utils';
 export * from './workspace';
 export * from './file-templates';
-export * from './transforms'; 
\ No newline at end of file
+export * from './transforms';
+export * from './ignore';